@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import {
+  JsonFile,
+  JsonSchema,
+  FileSystem
+} from '@microsoft/node-core-library';
+
+import { EnvironmentConfiguration } from './EnvironmentConfiguration';
+
+/**
+ * The names of the build cache providers that can be selected in build-cache.json.
+ */
+export type BuildCacheProviderName = 'local-only' | 'filesystem';
+
+/**
+ * Part of IBuildCacheJson.
+ */
+export interface IFileSystemBuildCacheProviderJson {
+  cacheFolder: string;
+  isCacheWriteAllowed?: boolean;
+}
+
+/**
+ * Describes the file structure for the "common/config/rush/build-cache.json" config file.
+ */
+interface IBuildCacheJson {
+  $schema?: string;
+  cacheProvider: BuildCacheProviderName;
+  fileSystemCacheProvider?: IFileSystemBuildCacheProviderJson;
+}
+
+/**
+ * Use this class to load the "common/config/rush/build-cache.json" config file.
+ * This config file selects where the build cache shares the output folders of projects.
+ */
+export class BuildCacheConfiguration {
+  private static _jsonSchema: JsonSchema = JsonSchema.fromFile(
+    path.join(__dirname, '../schemas/build-cache.schema.json'));
+
+  /**
+   * The selected cache provider.  If build-cache.json does not exist, this is "local-only".
+   */
+  public readonly cacheProvider: BuildCacheProviderName;
+
+  /**
+   * The absolute path of the shared cache folder, if the "filesystem" provider is selected.
+   */
+  public readonly fileSystemCacheFolder: string | undefined;
+
+  /**
+   * Whether new entries may be written to the shared cache.  The RUSH_BUILD_CACHE_WRITE_ALLOWED
+   * environment variable takes precedence over the setting from build-cache.json.
+   */
+  public readonly isCacheWriteAllowed: boolean;
+
+  /**
+   * Loads the configuration from the specified file.  If the file does not exist,
+   * then a "local-only" configuration is returned.  If the file contains errors, then
+   * an exception is thrown.
+   *
+   * @param jsonFilename - the path of the build-cache.json file
+   * @param rushJsonFolder - the folder that relative paths are resolved against
+   */
+  public static loadFromFileOrDefault(jsonFilename: string, rushJsonFolder: string): BuildCacheConfiguration {
+    let buildCacheJson: IBuildCacheJson | undefined = undefined;
+    if (FileSystem.exists(jsonFilename)) {
+      buildCacheJson = JsonFile.loadAndValidate(jsonFilename, BuildCacheConfiguration._jsonSchema);
+    }
+
+    return new BuildCacheConfiguration(buildCacheJson, jsonFilename, rushJsonFolder);
+  }
+
+  /**
+   * Use BuildCacheConfiguration.loadFromFileOrDefault()
+   */
+  private constructor(buildCacheJson: IBuildCacheJson | undefined, jsonFilename: string, rushJsonFolder: string) {
+    this.cacheProvider = buildCacheJson ? buildCacheJson.cacheProvider : 'local-only';
+
+    let isCacheWriteAllowed: boolean = false;
+    if (this.cacheProvider === 'filesystem') {
+      const fileSystemCacheProviderJson: IFileSystemBuildCacheProviderJson | undefined =
+        buildCacheJson!.fileSystemCacheProvider;
+      if (!fileSystemCacheProviderJson) {
+        throw new Error(`The "fileSystemCacheProvider" section is required when the "filesystem" cache provider`
+          + ` is selected in ${jsonFilename}`);
+      }
+
+      this.fileSystemCacheFolder = path.resolve(rushJsonFolder, fileSystemCacheProviderJson.cacheFolder);
+      isCacheWriteAllowed = !!fileSystemCacheProviderJson.isCacheWriteAllowed;
+    }
+
+    const buildCacheWriteAllowedOverride: boolean | undefined = EnvironmentConfiguration.buildCacheWriteAllowed;
+    this.isCacheWriteAllowed = buildCacheWriteAllowedOverride !== undefined
+      ? buildCacheWriteAllowedOverride
+      : isCacheWriteAllowed;
+  }
+}
@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import {
+  JsonFile,
+  JsonSchema,
+  FileSystem
+} from '@microsoft/node-core-library';
+
+import { ChangeFieldValue } from './ChangeManagement';
+import { RushConstants } from '../logic/RushConstants';
+
+/**
+ * The types of values that a custom change field can have.
+ */
+export type ChangeFieldType = 'string' | 'number' | 'boolean';
+
+/**
+ * Part of IChangeFieldsJson.
+ */
+export interface IChangeFieldJson {
+  name: string;
+  description: string;
+  type?: ChangeFieldType;
+  allowedValues?: string[];
+  required?: boolean;
+}
+
+/**
+ * Describes the file structure for the "common/config/rush/change-fields.json" config file.
+ */
+interface IChangeFieldsJson {
+  $schema?: string;
+  customFields?: IChangeFieldJson[];
+}
+
+/**
+ * Use this class to load the "common/config/rush/change-fields.json" config file.
+ * This config file defines the custom fields that "rush change" asks for.
+ */
+export class ChangeFieldsConfiguration {
+  private static _jsonSchema: JsonSchema = JsonSchema.fromFile(
+    path.join(__dirname, '../schemas/change-fields.schema.json'));
+
+  /**
+   * The custom fields, in the order that they are asked for.  If change-fields.json does not exist,
+   * this is an empty array.
+   */
+  public readonly customFields: ReadonlyArray<IChangeFieldJson>;
+
+  /**
+   * Loads the configuration from the specified file.  If the file does not exist,
+   * then a configuration without custom fields is returned.  If the file contains errors, then
+   * an exception is thrown.
+   */
+  public static loadFromFileOrDefault(jsonFilename: string): ChangeFieldsConfiguration {
+    let changeFieldsJson: IChangeFieldsJson | undefined = undefined;
+    if (FileSystem.exists(jsonFilename)) {
+      changeFieldsJson = JsonFile.loadAndValidate(jsonFilename, ChangeFieldsConfiguration._jsonSchema);
+    }
+
+    return new ChangeFieldsConfiguration(changeFieldsJson, jsonFilename);
+  }
+
+  /**
+   * Checks the custom field values of a change against the definitions, and returns a description
+   * of each problem.
+   *
+   * @param customFields - the "customFields" map of the change
+   * @param hasComment - required fields are only required for changes that have a comment
+   */
+  public getCustomFieldErrors(
+    customFields: { [fieldName: string]: ChangeFieldValue } | undefined,
+    hasComment: boolean
+  ): string[] {
+    const errors: string[] = [];
+    const values: { [fieldName: string]: ChangeFieldValue } = customFields || {};
+
+    for (const fieldName of Object.keys(values)) {
+      if (!this.customFields.some((field: IChangeFieldJson) => field.name === fieldName)) {
+        errors.push(`The custom field "${fieldName}" is not defined in ${RushConstants.changeFieldsFilename}`);
+      }
+    }
+
+    for (const field of this.customFields) {
+      const value: ChangeFieldValue | undefined = values[field.name];
+      const fieldType: ChangeFieldType = field.type || 'string';
+
+      if (value === undefined) {
+        if (field.required && hasComment) {
+          errors.push(`The custom field "${field.name}" is required`);
+        }
+      } else if (typeof value !== fieldType) {
+        errors.push(`The custom field "${field.name}" must be a ${fieldType}`);
+      } else if (field.allowedValues && field.allowedValues.indexOf(value as string) < 0) {
+        errors.push(`The custom field "${field.name}" must be one of: ${field.allowedValues.join(', ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Use ChangeFieldsConfiguration.loadFromFileOrDefault()
+   */
+  private constructor(changeFieldsJson: IChangeFieldsJson | undefined, jsonFilename: string) {
+    this.customFields = (changeFieldsJson && changeFieldsJson.customFields) || [];
+
+    const fieldNames: Set<string> = new Set<string>();
+    for (const field of this.customFields) {
+      if (fieldNames.has(field.name)) {
+        throw new Error(`The custom field "${field.name}" is defined more than once in ${jsonFilename}`);
+      }
+      fieldNames.add(field.name);
+
+      if (field.allowedValues && (field.type || 'string') !== 'string') {
+        throw new Error(`The custom field "${field.name}" in ${jsonFilename} can only specify "allowedValues"`
+          + ` if its type is "string"`);
+      }
+    }
+  }
+}
@@ -1,6 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import * as os from 'os';
 import * as path from 'path';
 
 import gitInfo = require('git-repo-info');
@@ -12,6 +13,7 @@ import {
   IChangeFile,
   IChangeInfo
 } from './ChangeManagement';
+import { ChangeFieldsConfiguration } from './ChangeFieldsConfiguration';
 import { Git } from '../logic/Git';
 
 /**
@@ -62,6 +64,38 @@ export class ChangeFile {
     return changes;
   }
 
+  /**
+   * Checks the breaking change notes, issue IDs and custom fields of the change entries.
+   * If there are problems, an error that describes all of them is thrown.
+   * @param changeFieldsConfiguration - defines the custom fields that the changes may specify
+   */
+  public validate(changeFieldsConfiguration: ChangeFieldsConfiguration): void {
+    const errors: string[] = [];
+
+    for (const change of this._changeFileData.changes) {
+      const problems: string[] = [];
+
+      if (change.breakingChangeNote !== undefined && typeof change.breakingChangeNote !== 'string') {
+        problems.push('The breaking change note must be a string');
+      }
+
+      if (change.issues !== undefined) {
+        if (!Array.isArray(change.issues) || change.issues.some(issue => typeof issue !== 'string' || !issue)) {
+          problems.push('The issues must be an array of nonempty strings');
+        }
+      }
+
+      problems.push(...changeFieldsConfiguration.getCustomFieldErrors(change.customFields, !!change.comment));
+
+      errors.push(...problems.map(problem => `${change.packageName}: ${problem}`));
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`The change file for "${this._changeFileData.packageName}" is invalid:` + os.EOL
+        + errors.map(error => `- ${error}`).join(os.EOL));
+    }
+  }
+
   /**
    * Writes the change file to disk in sync mode.
    * Returns the file path.
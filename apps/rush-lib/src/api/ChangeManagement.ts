@@ -22,6 +22,11 @@ export enum ChangeType {
   major = 5
 }
 
+/**
+ * The value of a custom change field, as defined by the "change-fields.json" config file.
+ */
+export type ChangeFieldValue = string | number | boolean;
+
 /**
  * Defines an IChangeInfo object.
  */
@@ -43,6 +48,21 @@ export interface IChangeInfo {
    */
   comment?: string;
 
+  /**
+   * For a major change, describes what is breaking and how consumers should migrate.
+   */
+  breakingChangeNote?: string;
+
+  /**
+   * The IDs of the issues that are related to the change, for example "#123".
+   */
+  issues?: string[];
+
+  /**
+   * The values of the custom fields that are defined by the "change-fields.json" config file.
+   */
+  customFields?: { [fieldName: string]: ChangeFieldValue };
+
   /**
    * The email of the user who provided the comment. Pulled from the Git log.
    */
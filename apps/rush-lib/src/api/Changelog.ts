@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import { ChangeFieldValue } from './ChangeManagement';
+
 /**
  * Interface respresenting a changelog json object for a package used to represent the parsed
  * content of CHANGELOG.json
@@ -71,4 +73,19 @@ export interface IChangeLogComment {
    * The commit, if applicable, including the change request.
    */
   commit?: string;
+
+  /**
+   * For a major change, describes what is breaking and how consumers should migrate.
+   */
+  breakingChangeNote?: string;
+
+  /**
+   * The IDs of the issues that are related to the change.
+   */
+  issues?: string[];
+
+  /**
+   * The values of the custom fields that are defined by the "change-fields.json" config file.
+   */
+  customFields?: { [fieldName: string]: ChangeFieldValue };
 }
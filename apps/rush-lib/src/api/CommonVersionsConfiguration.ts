@@ -2,6 +2,7 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
+import * as semver from 'semver';
 import {
   JsonFile,
   JsonSchema,
@@ -11,6 +12,7 @@ import {
   FileSystem
 } from '@microsoft/node-core-library';
 import { JsonSchemaUrls } from '../logic/JsonSchemaUrls';
+import { Utilities } from '../utilities/Utilities';
 
 /**
  * Part of the ICommonVersionsJson structure.
@@ -34,6 +36,33 @@ export declare interface ICommonVersionsJsonVersionsMap {
   [dependencyName: string]: string[];
 }
 
+/**
+ * Part of the ICommonVersionsJson structure.  A SemVer range of a dependency that must not be used
+ * by any project in the repo.
+ * @beta
+ */
+export interface ICommonVersionsBannedVersion {
+  /**
+   * A SemVer range specifier for the banned versions, e.g. "<4.17.12".
+   */
+  versionRange: string;
+
+  /**
+   * Explains why the versions are banned.  This is printed when a project is found to use them.
+   */
+  reason: string;
+}
+
+/**
+ * Part of the ICommonVersionsJson structure.
+ */
+export declare interface ICommonVersionsJsonBannedVersionsMap {
+  /**
+   * The key is the name of a dependency.  The value is a list of banned version ranges.
+   */
+  [dependencyName: string]: ICommonVersionsBannedVersion[];
+}
+
 /**
  * Describes the file structure for the "common/config/rush/common-versions.json" config file.
  */
@@ -45,6 +74,10 @@ interface ICommonVersionsJson {
   xstitchPreferredVersions?: ICommonVersionsJsonVersionMap;
 
   allowedAlternativeVersions?: ICommonVersionsJsonVersionsMap;
+
+  allowedVersionRanges?: ICommonVersionsJsonVersionMap;
+
+  bannedVersions?: ICommonVersionsJsonBannedVersionsMap;
 }
 
 /**
@@ -60,6 +93,8 @@ export class CommonVersionsConfiguration {
   private _preferredVersions: ProtectableMap<string, string>;
   private _xstitchPreferredVersions: ProtectableMap<string, string>;
   private _allowedAlternativeVersions: ProtectableMap<string, string[]>;
+  private _allowedVersionRanges: ProtectableMap<string, string>;
+  private _bannedVersions: ProtectableMap<string, ICommonVersionsBannedVersion[]>;
 
   /**
    * Loads the common-versions.json data from the specified file path.
@@ -163,6 +198,62 @@ export class CommonVersionsConfiguration {
     return this._allowedAlternativeVersions.protectedView;
   }
 
+  /**
+   * A table that specifies, for a given dependency, a SemVer range that every project in the repo
+   * must stay within.
+   *
+   * @remarks
+   * For example, `">=16.8.0 <17.0.0"` requires all projects to use React hooks, without moving to
+   * the next major version.  Every version that a project's version specifier accepts must be within the range,
+   * so `"^16.8.0"` is reported, whereas `"~16.12.0"` is accepted.  Specifiers that are not SemVer ranges
+   * (e.g. "file:" paths) are not checked.
+   *
+   * @beta
+   */
+  public get allowedVersionRanges(): Map<string, string> {
+    return this._allowedVersionRanges.protectedView;
+  }
+
+  /**
+   * A table that stores, for a given dependency, a list of SemVer ranges that must not be used
+   * by any project in the repo, together with the reason why.
+   *
+   * @remarks
+   * A project's version specifier is reported if it accepts any banned version.  For example,
+   * if `"<4.17.12"` is banned, then `"^4.17.0"` is reported, whereas `"^4.17.12"` is accepted.
+   *
+   * @beta
+   */
+  public get bannedVersions(): Map<string, ReadonlyArray<ICommonVersionsBannedVersion>> {
+    return this._bannedVersions.protectedView;
+  }
+
+  /**
+   * Checks a version specifier of a dependency against the allowedVersionRanges and bannedVersions tables.
+   *
+   * @returns a message that explains the violation, or undefined if the version specifier is allowed
+   * @beta
+   */
+  public tryGetVersionViolation(dependencyName: string, versionSpecifier: string): string | undefined {
+    if (!semver.validRange(versionSpecifier)) {
+      return undefined;
+    }
+
+    const allowedVersionRange: string | undefined = this._allowedVersionRanges.get(dependencyName);
+    if (allowedVersionRange && !Utilities.isVersionRangeSubset(versionSpecifier, allowedVersionRange)) {
+      return `The version "${versionSpecifier}" of "${dependencyName}" is outside of the allowed`
+        + ` range "${allowedVersionRange}"`;
+    }
+
+    for (const bannedVersion of this._bannedVersions.get(dependencyName) || []) {
+      if (Utilities.doVersionRangesIntersect(versionSpecifier, bannedVersion.versionRange)) {
+        return `The version "${versionSpecifier}" of "${dependencyName}" is banned: ${bannedVersion.reason}`;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Returns the union of preferredVersions and xstitchPreferredVersions.
    */
@@ -183,6 +274,12 @@ export class CommonVersionsConfiguration {
     this._allowedAlternativeVersions = new ProtectableMap<string, string[]>(
       { onSet: this._onSetAllowedAlternativeVersions.bind(this) });
 
+    this._allowedVersionRanges = new ProtectableMap<string, string>(
+      { onSet: this._onSetAllowedVersionRanges.bind(this) });
+
+    this._bannedVersions = new ProtectableMap<string, ICommonVersionsBannedVersion[]>(
+      { onSet: this._onSetBannedVersions.bind(this) });
+
     if (commonVersionsJson) {
       try {
         CommonVersionsConfiguration._deserializeTable(this.preferredVersions,
@@ -191,6 +288,10 @@ export class CommonVersionsConfiguration {
           commonVersionsJson.xstitchPreferredVersions);
         CommonVersionsConfiguration._deserializeTable(this.allowedAlternativeVersions,
           commonVersionsJson.allowedAlternativeVersions);
+        CommonVersionsConfiguration._deserializeTable(this.allowedVersionRanges,
+          commonVersionsJson.allowedVersionRanges);
+        CommonVersionsConfiguration._deserializeTable(this.bannedVersions,
+          commonVersionsJson.bannedVersions);
       } catch (e) {
         throw new Error(`Error loading "${path.basename(filePath)}": ${e.message}`);
       }
@@ -220,6 +321,27 @@ export class CommonVersionsConfiguration {
     return value;
   }
 
+  private _onSetAllowedVersionRanges(source: ProtectableMap<string, string>, key: string, value: string): string {
+    PackageName.validate(key);
+    if (!semver.validRange(value)) {
+      throw new Error(`The allowed version range "${value}" for "${key}" is not a valid SemVer range`);
+    }
+    return value;
+  }
+
+  private _onSetBannedVersions(source: ProtectableMap<string, ICommonVersionsBannedVersion[]>, key: string,
+    value: ICommonVersionsBannedVersion[]): ICommonVersionsBannedVersion[] {
+
+    PackageName.validate(key);
+    for (const bannedVersion of value) {
+      if (!semver.validRange(bannedVersion.versionRange)) {
+        throw new Error(`The banned version range "${bannedVersion.versionRange}" for "${key}"`
+          + ` is not a valid SemVer range`);
+      }
+    }
+    return value;
+  }
+
   private _serialize(): ICommonVersionsJson {
     const result: ICommonVersionsJson = {
       $schema: JsonSchemaUrls.commonVersions
@@ -237,6 +359,14 @@ export class CommonVersionsConfiguration {
       result.allowedAlternativeVersions = CommonVersionsConfiguration._serializeTable(this.allowedAlternativeVersions);
     }
 
+    if (this._allowedVersionRanges.size) {
+      result.allowedVersionRanges = CommonVersionsConfiguration._serializeTable(this.allowedVersionRanges);
+    }
+
+    if (this._bannedVersions.size) {
+      result.bannedVersions = CommonVersionsConfiguration._serializeTable(this.bannedVersions);
+    }
+
     return result;
   }
 }
@@ -33,7 +33,14 @@ export const enum EnvironmentVariableNames {
    * of relative paths. This can be necessary when a repository is moved during a build or
    * if parts of a repository are moved into a sandbox.
    */
-  RUSH_ABSOLUTE_SYMLINKS = 'RUSH_ABSOLUTE_SYMLINKS'
+  RUSH_ABSOLUTE_SYMLINKS = 'RUSH_ABSOLUTE_SYMLINKS',
+
+  /**
+   * If this variable is set to "true" or "false", it overrides the "isCacheWriteAllowed" setting
+   * of the shared cache provider from build-cache.json.  Typically it is set to "true" for CI builds,
+   * so that only CI agents populate the shared build cache.
+   */
+  RUSH_BUILD_CACHE_WRITE_ALLOWED = 'RUSH_BUILD_CACHE_WRITE_ALLOWED'
 }
 
 /**
@@ -50,6 +57,8 @@ export class EnvironmentConfiguration {
 
   private static _absoluteSymlinks: boolean = false;
 
+  private static _buildCacheWriteAllowed: boolean | undefined;
+
   /**
    * An override for the common/temp folder path.
    */
@@ -67,6 +76,15 @@ export class EnvironmentConfiguration {
     return EnvironmentConfiguration._absoluteSymlinks;
   }
 
+  /**
+   * If defined, overrides whether new entries may be written to the shared build cache.
+   * See {@link EnvironmentVariableNames.RUSH_BUILD_CACHE_WRITE_ALLOWED}
+   */
+  public static get buildCacheWriteAllowed(): boolean | undefined {
+    EnvironmentConfiguration._ensureInitialized();
+    return EnvironmentConfiguration._buildCacheWriteAllowed;
+  }
+
   /**
    * Reads and validates environment variables. If any are invalid, this function will throw.
    */
@@ -90,6 +108,16 @@ export class EnvironmentConfiguration {
             break;
           }
 
+          case EnvironmentVariableNames.RUSH_BUILD_CACHE_WRITE_ALLOWED: {
+            if (value === 'true' || value === 'false') {
+              EnvironmentConfiguration._buildCacheWriteAllowed = value === 'true';
+            } else if (value) {
+              throw new Error(`The value of the ${EnvironmentVariableNames.RUSH_BUILD_CACHE_WRITE_ALLOWED}`
+                + ` environment variable must be "true" or "false".`);
+            }
+            break;
+          }
+
           case EnvironmentVariableNames.RUSH_PREVIEW_VERSION:
           case EnvironmentVariableNames.RUSH_VARIANT:
             // Handled by @microsoft/rush front end
@@ -117,6 +145,7 @@ export class EnvironmentConfiguration {
    */
   public static reset(): void {
     EnvironmentConfiguration._rushTempFolderOverride = undefined;
+    EnvironmentConfiguration._buildCacheWriteAllowed = undefined;
 
     EnvironmentConfiguration._hasBeenInitialized = false;
   }
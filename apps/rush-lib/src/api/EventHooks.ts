@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import { IEventHooksJson } from './RushConfiguration';
+import { IEventHooksJson, IEventHookJson } from './RushConfiguration';
 
 /**
  * Events happen during Rush runs.
@@ -23,7 +23,58 @@ export enum Event {
   /**
    * Post Rush build event
    */
-  postRushBuild = 4
+  postRushBuild = 4,
+  /**
+   * Pre Rush publish event
+   */
+  preRushPublish = 5,
+  /**
+   * Post Rush publish event
+   */
+  postRushPublish = 6,
+  /**
+   * Pre Rush version event
+   */
+  preRushVersion = 7,
+  /**
+   * Post Rush version event
+   */
+  postRushVersion = 8,
+  /**
+   * The event that occurs when a Rush build command starts building a project
+   */
+  preProjectBuild = 9,
+  /**
+   * The event that occurs when a Rush build command finishes building a project, whether or not it succeeded
+   */
+  postProjectBuild = 10,
+  /**
+   * The event that occurs when a Rush build command fails, before the post Rush build event
+   */
+  rushBuildFailure = 11
+}
+
+/**
+ * Determines what happens when an event hook fails.  With "warn", Rush prints a warning and continues.
+ * With "fail", the Rush command fails.
+ * @beta
+ */
+export type EventHookFailurePolicy = 'warn' | 'fail';
+
+/**
+ * A script action that Rush executes when an event occurs.
+ * @beta
+ */
+export interface IEventHook {
+  /**
+   * The command-line that is executed using the operating system shell.
+   */
+  command: string;
+
+  /**
+   * Determines what happens when the command fails.
+   */
+  failurePolicy: EventHookFailurePolicy;
 }
 
 /**
@@ -33,20 +84,24 @@ export enum Event {
  * @beta
  */
 export class EventHooks {
-  private _hooks: Map<Event, string[]>;
+  private _hooks: Map<Event, IEventHook[]>;
 
   /**
    * @internal
    */
   public constructor(eventHooksJson: IEventHooksJson) {
-    this._hooks = new Map<Event, string[]>();
+    this._hooks = new Map<Event, IEventHook[]>();
     Object.getOwnPropertyNames(eventHooksJson).forEach((name) => {
       const eventName: Event = Event[name];
       if (eventName) {
-        const foundHooks: string[] = [];
+        const foundHooks: IEventHook[] = [];
         if (eventHooksJson[name]) {
-          eventHooksJson[name].forEach((hook) => {
-            foundHooks.push(hook);
+          eventHooksJson[name].forEach((hook: string | IEventHookJson) => {
+            if (typeof hook === 'string') {
+              foundHooks.push({ command: hook, failurePolicy: 'warn' });
+            } else {
+              foundHooks.push({ command: hook.command, failurePolicy: hook.failurePolicy || 'warn' });
+            }
           });
         }
         this._hooks.set(eventName, foundHooks);
@@ -59,6 +114,14 @@ export class EventHooks {
    * @param event - Rush event
    */
   public get(event: Event): string[] {
+    return this.getHooks(event).map((hook: IEventHook) => hook.command);
+  }
+
+  /**
+   * Return all the hooks associated with the specified event, including their failure policies.
+   * @param event - Rush event
+   */
+  public getHooks(event: Event): IEventHook[] {
     return this._hooks.get(event) || [];
   }
-}
\ No newline at end of file
+}
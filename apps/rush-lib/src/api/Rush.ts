@@ -27,15 +27,16 @@ export class Rush {
    *  the tool is executed. This is mainly used for debugging purposes.
    */
   public static launch(launcherVersion: string, isManaged: boolean): void {
-    Rush._printStartupBanner(isManaged);
-
     if (!CommandLineMigrationAdvisor.checkArgv(process.argv)) {
       // The migration advisor recognized an obsolete command-line
       process.exitCode = 1;
       return;
     }
 
-    const parser: RushCommandLineParser = new RushCommandLineParser();
+    const parser: RushCommandLineParser = new RushCommandLineParser({
+      // The parser omits the banner for machine-readable output such as "rush list --json"
+      printStartupBanner: () => Rush._printStartupBanner(isManaged)
+    });
     parser.execute().catch(console.error); // CommandLineParser.execute() should never reject the promise
   }
 
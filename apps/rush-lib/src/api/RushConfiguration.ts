@@ -16,7 +16,7 @@ import { Rush } from '../api/Rush';
 import { RushConfigurationProject, IRushConfigurationProjectJson } from './RushConfigurationProject';
 import { RushConstants } from '../logic/RushConstants';
 import { ApprovedPackagesPolicy } from './ApprovedPackagesPolicy';
-import { EventHooks } from './EventHooks';
+import { EventHooks, EventHookFailurePolicy } from './EventHooks';
 import { VersionPolicyConfiguration } from './VersionPolicyConfiguration';
 import { EnvironmentConfiguration } from './EnvironmentConfiguration';
 import { CommonVersionsConfiguration } from './CommonVersionsConfiguration';
@@ -39,7 +39,9 @@ const knownRushConfigFilenames: string[] = [
   RushConstants.browserApprovedPackagesFilename,
   RushConstants.nonbrowserApprovedPackagesFilename,
   RushConstants.versionPoliciesFilename,
-  RushConstants.commandLineFilename
+  RushConstants.commandLineFilename,
+  RushConstants.buildCacheFilename,
+  RushConstants.changeFieldsFilename
 ];
 
 /**
@@ -59,15 +61,207 @@ export interface IRushGitPolicyJson {
   versionBumpCommitMessage?: string;
 }
 
+/**
+ * Part of IRushConfigurationJson.
+ * @beta
+ */
+export interface IRepositoryPoliciesJson {
+  /**
+   * The licenses that the installed dependencies of each project may use, e.g. "MIT".
+   */
+  allowedLicenses?: string[];
+
+  /**
+   * The names of packages that projects must not depend on.
+   */
+  bannedPackages?: string[];
+
+  /**
+   * The fields that the package.json file of each project must specify, e.g. "description".
+   */
+  requiredPackageJsonFields?: string[];
+
+  /**
+   * The maximum folder depth of each project, which is reported as a policy violation
+   * rather than preventing rush.json from being loaded.
+   */
+  maxProjectFolderDepth?: number;
+
+  /**
+   * Paths of JavaScript modules that implement custom policies, relative to the folder containing rush.json.
+   */
+  customPolicyModules?: string[];
+}
+
+/**
+ * The changelog formats that are built into Rush.
+ * @beta
+ */
+export type ChangelogRendererName = 'markdown' | 'html';
+
+/**
+ * Part of IChangelogOptionsJson.
+ * @beta
+ */
+export interface ICustomChangelogRendererJson {
+  /**
+   * The path of a JavaScript module that exports a "renderChangelog(changelog)" function,
+   * relative to the folder containing rush.json.
+   */
+  modulePath: string;
+
+  /**
+   * The name of the file that is written to each project folder, e.g. "CHANGELOG.txt".
+   */
+  outputFilename: string;
+}
+
+/**
+ * Part of IRushConfigurationJson.
+ * @beta
+ */
+export interface IConventionalCommitsJson {
+  /**
+   * If true, "rush version --bump" and "rush publish" infer changes from the conventional-commit headers
+   * of the commits since each package was last published, in addition to the change files.  The commits
+   * after the most recent publish tag of each package, and after the most recent commit that changed
+   * the "version" field of its package.json, are scanned.
+   */
+  enabled: boolean;
+
+  /**
+   * The commit types that produce a patch bump.  The default is [ "fix", "perf" ].  A "feat" commit
+   * always produces a minor bump, and a breaking commit always produces a major bump.
+   */
+  patchTypes?: string[];
+}
+
+/**
+ * Part of IRushConfigurationJson.
+ * @beta
+ */
+export interface ITelemetryOptionsJson {
+  /**
+   * The built-in sinks that receive the telemetry data.  The "json" sink writes the data of each Rush run
+   * to a separate JSON file in common/temp/telemetry, and keeps the 100 most recent files.  The "ndjson"
+   * sink appends each record as a line of common/temp/telemetry/telemetry.ndjson.  The default is ["json"].
+   */
+  sinks?: ('json' | 'ndjson')[];
+
+  /**
+   * JavaScript modules that receive the telemetry data, relative to the folder containing rush.json.
+   * Each module exports an ITelemetrySink object.
+   */
+  customSinkModules?: string[];
+}
+
+/**
+ * Part of IRushConfigurationJson.
+ * @beta
+ */
+export interface IOfflineInstallJson {
+  /**
+   * The folder that "rush mirror-dependencies" populates with the tarballs of every package in the
+   * shrinkwrap file, relative to the folder containing rush.json.  "rush install --offline" installs
+   * the packages that are missing from the package manager store from this folder.  For NPM, every
+   * package must be in this folder, because the NPM cache can't be searched.
+   */
+  mirrorFolder?: string;
+}
+
+/**
+ * Part of IRushConfigurationJson.
+ * @beta
+ */
+export interface IChangelogOptionsJson {
+  /**
+   * The built-in formats that are written next to CHANGELOG.json.  The default is [ "markdown" ].
+   */
+  renderers?: ChangelogRendererName[];
+
+  /**
+   * Additional formats that are rendered by JavaScript modules.  There is no text template format; a module
+   * can use any template engine.  The formats apply to every published project, and can't be selected
+   * by a version policy.
+   */
+  customRenderers?: ICustomChangelogRendererJson[];
+
+  /**
+   * If specified, "rush publish" writes a summary of every package that it bumped to this file,
+   * relative to the folder containing rush.json.
+   */
+  releaseSummaryFile?: string;
+}
+
+/**
+ * An event hook that specifies options for its command.
+ * Part of IRushConfigurationJson.
+ * @beta
+ */
+export interface IEventHookJson {
+  command: string;
+  failurePolicy?: EventHookFailurePolicy;
+}
+
 /**
  * Part of IRushConfigurationJson.
  * @beta
  */
 export interface IEventHooksJson {
+  /**
+   * The list of scripts to run before the Rush installation starts
+   */
+  preRushInstall?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run after the Rush installation finishes
+   */
+  postRushInstall?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run before every Rush build command starts
+   */
+  preRushBuild?: (string | IEventHookJson)[];
+
   /**
    * The list of scripts to run after every Rush build command finishes
    */
-  postRushBuild?: string[];
+  postRushBuild?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run before the Rush publish command starts
+   */
+  preRushPublish?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run after the Rush publish command finishes
+   */
+  postRushPublish?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run before the Rush version command starts
+   */
+  preRushVersion?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run after the Rush version command finishes
+   */
+  postRushVersion?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run before a Rush build command builds a project
+   */
+  preProjectBuild?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run after a Rush build command builds a project
+   */
+  postProjectBuild?: (string | IEventHookJson)[];
+
+  /**
+   * The list of scripts to run when a Rush build command fails
+   */
+  rushBuildFailure?: (string | IEventHookJson)[];
 }
 
 /**
@@ -119,7 +313,12 @@ export interface IRushConfigurationJson {
   projectFolderMaxDepth?: number;
   approvedPackagesPolicy?: IApprovedPackagesPolicyJson;
   gitPolicy?: IRushGitPolicyJson;
+  repositoryPolicies?: IRepositoryPoliciesJson;
+  changelogOptions?: IChangelogOptionsJson;
+  conventionalCommits?: IConventionalCommitsJson;
+  offlineInstall?: IOfflineInstallJson;
   telemetryEnabled?: boolean;
+  telemetryOptions?: ITelemetryOptionsJson;
   projects: IRushConfigurationProjectJson[];
   eventHooks?: IEventHooksJson;
   hotfixChangeEnabled?: boolean;
@@ -259,6 +458,7 @@ export class RushConfiguration {
   private _npmTmpFolder: string;
   private _pnpmStoreFolder: string;
   private _yarnCacheFolder: string;
+  private _buildCacheFolder: string;
   private _shrinkwrapFilename: string;
   private _tempShrinkwrapFilename: string;
   private _tempShrinkwrapPreinstallFilename: string;
@@ -281,6 +481,18 @@ export class RushConfiguration {
   private _gitSampleEmail: string;
   private _gitVersionBumpCommitMessage: string | undefined;
 
+  // "repositoryPolicies" feature
+  private _repositoryPolicies: IRepositoryPoliciesJson;
+
+  // "changelogOptions" feature
+  private _changelogOptions: IChangelogOptionsJson;
+
+  // "conventionalCommits" feature
+  private _conventionalCommits: IConventionalCommitsJson;
+
+  // "offlineInstall" feature
+  private _offlineInstall: IOfflineInstallJson;
+
   // "hotfixChangeEnabled" feature
   private _hotfixChangeEnabled: boolean;
 
@@ -295,6 +507,9 @@ export class RushConfiguration {
 
   private _telemetryEnabled: boolean;
 
+  // "telemetryOptions" feature
+  private _telemetryOptions: ITelemetryOptionsJson;
+
   private _projects: RushConfigurationProject[];
   private _projectsByName: Map<string, RushConfigurationProject>;
 
@@ -603,6 +818,16 @@ export class RushConfiguration {
     return this._yarnCacheFolder;
   }
 
+  /**
+   * The local folder where Rush stores the build outputs of projects, keyed by the hash of their inputs.
+   *
+   * Example: `C:\MyRepo\common\temp\build-cache`
+   * @beta
+   */
+  public get buildCacheFolder(): string {
+    return this._buildCacheFolder;
+  }
+
   /**
    * The full path of the shrinkwrap file that is tracked by Git.  (The "rush install"
    * command uses a temporary copy, whose path is tempShrinkwrapFilename.)
@@ -760,6 +985,42 @@ export class RushConfiguration {
     return this._gitVersionBumpCommitMessage;
   }
 
+  /**
+   * The "repositoryPolicies" settings, which are checked by "rush install" and "rush check-policy".
+   * This will never be undefined.
+   * @beta
+   */
+  public get repositoryPolicies(): IRepositoryPoliciesJson {
+    return this._repositoryPolicies;
+  }
+
+  /**
+   * The "changelogOptions" settings, which select the files that "rush publish" renders from CHANGELOG.json.
+   * This will never be undefined.
+   * @beta
+   */
+  public get changelogOptions(): IChangelogOptionsJson {
+    return this._changelogOptions;
+  }
+
+  /**
+   * The "conventionalCommits" settings, which infer changes from commit messages instead of change files.
+   * This will never be undefined.
+   * @beta
+   */
+  public get conventionalCommits(): IConventionalCommitsJson {
+    return this._conventionalCommits;
+  }
+
+  /**
+   * The "offlineInstall" settings, which are used by "rush install --offline" and "rush mirror-dependencies".
+   * This will never be undefined.
+   * @beta
+   */
+  public get offlineInstall(): IOfflineInstallJson {
+    return this._offlineInstall;
+  }
+
   /**
    * [Part of the "hotfixChange" feature.]
    * Enables creating hotfix changes
@@ -791,6 +1052,15 @@ export class RushConfiguration {
     return this._telemetryEnabled;
   }
 
+  /**
+   * The "telemetryOptions" settings, which select the sinks that receive the telemetry data.
+   * This will never be undefined.
+   * @beta
+   */
+  public get telemetryOptions(): ITelemetryOptionsJson {
+    return this._telemetryOptions;
+  }
+
   public get projects(): RushConfigurationProject[] {
     return this._projects;
   }
@@ -1001,6 +1271,7 @@ export class RushConfiguration {
     this._npmTmpFolder = path.resolve(path.join(this._commonTempFolder, 'npm-tmp'));
     this._pnpmStoreFolder = path.resolve(path.join(this._commonTempFolder, 'pnpm-store'));
     this._yarnCacheFolder = path.resolve(path.join(this._commonTempFolder, 'yarn-cache'));
+    this._buildCacheFolder = path.resolve(path.join(this._commonTempFolder, RushConstants.buildCacheFolderName));
 
     this._changesFolder = path.join(this._commonFolder, RushConstants.changeFilesFolderName);
 
@@ -1103,6 +1374,11 @@ export class RushConfiguration {
       }
     }
 
+    this._repositoryPolicies = rushConfigurationJson.repositoryPolicies || {};
+    this._changelogOptions = rushConfigurationJson.changelogOptions || {};
+    this._conventionalCommits = rushConfigurationJson.conventionalCommits || { enabled: false };
+    this._offlineInstall = rushConfigurationJson.offlineInstall || {};
+
     this._hotfixChangeEnabled = false;
     if (rushConfigurationJson.hotfixChangeEnabled) {
       this._hotfixChangeEnabled = rushConfigurationJson.hotfixChangeEnabled;
@@ -1113,6 +1389,7 @@ export class RushConfiguration {
     }
 
     this._telemetryEnabled = !!rushConfigurationJson.telemetryEnabled;
+    this._telemetryOptions = rushConfigurationJson.telemetryOptions || {};
     if (rushConfigurationJson.eventHooks) {
       this._eventHooks = new EventHooks(rushConfigurationJson.eventHooks);
     }
@@ -25,6 +25,8 @@ export interface IRushConfigurationProjectJson {
   versionPolicyName?: string;
   shouldPublish?: boolean;
   skipRushCheck?: boolean;
+  outputFolders?: string[];
+  tags?: string[];
 }
 
 /**
@@ -47,6 +49,8 @@ export class RushConfigurationProject {
   private _shouldPublish: boolean;
   private _skipRushCheck: boolean;
   private _downstreamDependencyProjects: string[];
+  private _outputFolders: string[];
+  private _tags: Set<string>;
   private readonly _rushConfiguration: RushConfiguration;
 
   /** @internal */
@@ -118,6 +122,8 @@ export class RushConfigurationProject {
     this._skipRushCheck = !!projectJson.skipRushCheck;
     this._downstreamDependencyProjects = [];
     this._versionPolicyName = projectJson.versionPolicyName;
+    this._outputFolders = projectJson.outputFolders || [];
+    this._tags = new Set<string>(projectJson.tags || []);
   }
 
   /**
@@ -227,6 +233,25 @@ export class RushConfigurationProject {
     return this._skipRushCheck;
   }
 
+  /**
+   * A list of folders (relative to the project folder) that are produced by the project's
+   * build scripts.  These folders are saved in the build cache and restored from it.
+   * If the list is empty, the build cache is not used for this project.
+   * @beta
+   */
+  public get outputFolders(): ReadonlyArray<string> {
+    return this._outputFolders;
+  }
+
+  /**
+   * The custom tags that were assigned to this project in rush.json.  A tag can be used to select
+   * projects on the command line, for example "rush build --to tag:web-app".
+   * @beta
+   */
+  public get tags(): ReadonlySet<string> {
+    return this._tags;
+  }
+
   /**
    * Name of the version policy used by this project.
    * @beta
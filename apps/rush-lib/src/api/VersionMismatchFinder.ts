@@ -27,6 +27,17 @@ export interface IVersionMismatchFinderGetMismatchesOptions {
   variant?: string | undefined;
 }
 
+/**
+ * A dependency whose version specifier violates the allowedVersionRanges or bannedVersions
+ * from common-versions.json.
+ */
+export interface IVersionMismatchFinderViolation {
+  dependencyName: string;
+  version: string;
+  projectName: string;
+  message: string;
+}
+
 export class VersionMismatchFinder {
  /* store it like this:
   * {
@@ -37,7 +48,9 @@ export class VersionMismatchFinder {
   */
   private _allowedAlternativeVersion:  Map<string, ReadonlyArray<string>>;
   private _mismatches: Map<string, Map<string, string[]>>;
+  private _violations: IVersionMismatchFinderViolation[];
   private _projects: IVersionMismatchFinderProject[];
+  private _commonVersions: CommonVersionsConfiguration | undefined;
 
   public static rushCheck(
     rushConfiguration: RushConfiguration,
@@ -89,7 +102,8 @@ export class VersionMismatchFinder {
 
     return new VersionMismatchFinder(
       projects,
-      commonVersions.allowedAlternativeVersions
+      commonVersions.allowedAlternativeVersions,
+      commonVersions
     );
   }
 
@@ -108,6 +122,13 @@ export class VersionMismatchFinder {
 
       if (mismatchFinder.numberOfMismatches) {
         console.log(colors.red(`Found ${mismatchFinder.numberOfMismatches} mis-matching dependencies!`));
+      }
+      if (mismatchFinder.numberOfViolations) {
+        console.log(colors.red(`Found ${mismatchFinder.numberOfViolations} dependencies that violate the`
+          + ` version ranges from ${RushConstants.commonVersionsFilename}!`));
+      }
+
+      if (mismatchFinder.numberOfMismatches || mismatchFinder.numberOfViolations) {
         process.exit(1);
       } else {
         if (options.isRushCheckCommand) {
@@ -117,11 +138,18 @@ export class VersionMismatchFinder {
     }
   }
 
+  /**
+   * @param commonVersions - if specified, the dependencies are also checked against its
+   *   allowedVersionRanges and bannedVersions
+   */
   constructor(projects: IVersionMismatchFinderProject[],
-    allowedAlternativeVersions?: Map<string, ReadonlyArray<string>>) {
+    allowedAlternativeVersions?: Map<string, ReadonlyArray<string>>,
+    commonVersions?: CommonVersionsConfiguration) {
     this._projects = projects;
     this._mismatches = new Map<string, Map<string, string[]>>();
+    this._violations = [];
     this._allowedAlternativeVersion = allowedAlternativeVersions || new Map<string, ReadonlyArray<string>>();
+    this._commonVersions = commonVersions;
     this._analyze();
   }
 
@@ -129,6 +157,17 @@ export class VersionMismatchFinder {
     return this._mismatches.size;
   }
 
+  public get numberOfViolations(): number {
+    return this._violations.length;
+  }
+
+  /**
+   * The dependencies that violate the allowedVersionRanges or bannedVersions from common-versions.json.
+   */
+  public getViolations(): ReadonlyArray<IVersionMismatchFinderViolation> {
+    return this._violations;
+  }
+
   public getMismatches(): Array<string> {
     return this._getKeys(this._mismatches);
   }
@@ -161,6 +200,13 @@ export class VersionMismatchFinder {
       });
       console.log();
     });
+
+    this._violations.forEach((violation: IVersionMismatchFinderViolation) => {
+      console.log(colors.red(`${violation.projectName}: `) + violation.message);
+    });
+    if (this._violations.length) {
+      console.log();
+    }
   }
 
   private _analyze(): void {
@@ -184,6 +230,8 @@ export class VersionMismatchFinder {
 
             const isCyclic: boolean = project.cyclicDependencyProjects.has(dependency.name);
 
+            this._checkViolation(project, dependency.name, version);
+
             if (this._isVersionAllowedAlternative(dependency.name, version)) {
               return;
             }
@@ -212,6 +260,15 @@ export class VersionMismatchFinder {
     });
   }
 
+  private _checkViolation(project: IVersionMismatchFinderProject, dependencyName: string, version: string): void {
+    if (this._commonVersions) {
+      const message: string | undefined = this._commonVersions.tryGetVersionViolation(dependencyName, version);
+      if (message) {
+        this._violations.push({ dependencyName, version, projectName: project.packageName, message });
+      }
+    }
+  }
+
   private _isVersionAllowedAlternative(
     dependency: string,
     version: string): boolean {
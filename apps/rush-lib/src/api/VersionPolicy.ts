@@ -3,12 +3,14 @@
 
 import { cloneDeep } from 'lodash';
 import * as semver from 'semver';
+import minimatch = require('minimatch');
 import { IPackageJson } from '@microsoft/node-core-library';
 
 import {
   IVersionPolicyJson,
   ILockStepVersionJson,
   IIndividualVersionJson,
+  IMajorLineJson,
   VersionFormatForCommit,
   VersionFormatForPublish,
   IVersionPolicyDependencyJson
@@ -16,6 +18,7 @@ import {
 import { PackageJsonEditor } from './PackageJsonEditor';
 import { RushConfiguration } from './RushConfiguration';
 import { RushConfigurationProject } from './RushConfigurationProject';
+import { Git } from '../logic/Git';
 
 /**
  * Type of version bumps
@@ -54,6 +57,7 @@ export abstract class VersionPolicy {
   private _definitionName: VersionPolicyDefinitionName;
   private _versionFormatForCommit: VersionFormatForCommit;
   private _versionFormatForPublish: VersionFormatForPublish;
+  private _releaseChannels: string[];
 
   /**
    * Loads from version policy json
@@ -84,6 +88,7 @@ export abstract class VersionPolicy {
     const jsonDependencies: IVersionPolicyDependencyJson = versionPolicyJson.dependencies || { };
     this._versionFormatForCommit = jsonDependencies.versionFormatForCommit || VersionFormatForCommit.original;
     this._versionFormatForPublish = jsonDependencies.versionFormatForPublish || VersionFormatForPublish.original;
+    this._releaseChannels = versionPolicyJson.releaseChannels || [];
   }
 
   /**
@@ -107,13 +112,23 @@ export abstract class VersionPolicy {
     return this.definitionName === VersionPolicyDefinitionName.lockStepVersion;
   }
 
+  /**
+   * The names of the prerelease channels, e.g. "beta" and "rc".  A prerelease version such as
+   * "2.0.0-beta.3" is on the "beta" channel.
+   */
+  public get releaseChannels(): ReadonlyArray<string> {
+    return this._releaseChannels;
+  }
+
   /**
    * Returns an updated package json that satisfies the policy.
    *
    * @param project - package json
    * @param force - force update even when the project version is higher than the policy version.
+   * @param branchName - the branch that the versions are published from. If it is not provided,
+   * the current Git branch is used.
    */
-  public abstract ensure(project: IPackageJson, force?: boolean): IPackageJson | undefined;
+  public abstract ensure(project: IPackageJson, force?: boolean, branchName?: string): IPackageJson | undefined;
 
   /**
    * Bumps version based on the policy
@@ -123,6 +138,19 @@ export abstract class VersionPolicy {
    */
   public abstract bump(bumpType?: BumpType, identifier?: string): void;
 
+  /**
+   * Graduates a prerelease version on the release channel to a stable version, e.g. "2.0.0-beta.3" to "2.0.0"
+   *
+   * @remarks
+   * The default implementation does nothing, because the version of each project is promoted by
+   * VersionManager.  A policy that stores its own version, like the lockstep policy, overrides this method.
+   *
+   * @param channel - release channel
+   */
+  public promote(channel: string): void {
+    // The policy does not have a version to promote
+  }
+
   /**
    * Serialized json for the policy
    *
@@ -135,8 +163,10 @@ export abstract class VersionPolicy {
    *
    * @param versionString - version string
    * @param packageName - package name
+   * @param branchName - the branch that the version is published from. If it is not provided,
+   * the current Git branch is used.
    */
-  public abstract validate(versionString: string, packageName: string): void;
+  public abstract validate(versionString: string, packageName: string, branchName?: string): void;
 
   /**
    * Tells the version policy to modify any dependencies in the target package
@@ -247,6 +277,9 @@ export class LockStepVersionPolicy extends VersionPolicy {
     if (this._mainProject) {
       json.mainProject = this._mainProject;
     }
+    if (this.releaseChannels.length) {
+      json.releaseChannels = [...this.releaseChannels];
+    }
     return json;
   }
 
@@ -279,6 +312,17 @@ export class LockStepVersionPolicy extends VersionPolicy {
     this._version.inc(this._getReleaseType(bumpType || this.nextBump), identifier);
   }
 
+  /**
+   * Promotes the version of the lockstep policy if it is a prerelease version on the release channel
+   *
+   * @param channel - release channel
+   */
+  public promote(channel: string): void {
+    if (this._version.prerelease[0] === channel) {
+      this._version = new semver.SemVer(`${this._version.major}.${this._version.minor}.${this._version.patch}`);
+    }
+  }
+
   /**
    * Updates the version of the policy directly with a new value
    * @param newVersionString - New version
@@ -323,6 +367,7 @@ export class LockStepVersionPolicy extends VersionPolicy {
  */
 export class IndividualVersionPolicy extends VersionPolicy {
   private _lockedMajor: number | undefined;
+  private _majorLines: IMajorLineJson[];
 
   /**
    * @internal
@@ -330,6 +375,11 @@ export class IndividualVersionPolicy extends VersionPolicy {
   constructor(versionPolicyJson: IIndividualVersionJson) {
     super(versionPolicyJson);
     this._lockedMajor = versionPolicyJson.lockedMajor;
+    this._majorLines = versionPolicyJson.majorLines || [];
+
+    if (this._lockedMajor !== undefined && this._majorLines.length) {
+      throw new Error(`The version policy "${this.policyName}" cannot specify both "lockedMajor" and "majorLines"`);
+    }
   }
 
   /**
@@ -339,6 +389,13 @@ export class IndividualVersionPolicy extends VersionPolicy {
     return this._lockedMajor;
   }
 
+  /**
+   * The major version lines, each of which is published from the Git branches that match a pattern
+   */
+  public get majorLines(): ReadonlyArray<IMajorLineJson> {
+    return this._majorLines;
+  }
+
   /**
    * Serialized json for this policy
    *
@@ -352,25 +409,61 @@ export class IndividualVersionPolicy extends VersionPolicy {
     if (this.lockedMajor !== undefined) {
       json.lockedMajor = this.lockedMajor;
     }
+    if (this._majorLines.length) {
+      json.majorLines = cloneDeep(this._majorLines);
+    }
+    if (this.releaseChannels.length) {
+      json.releaseChannels = [...this.releaseChannels];
+    }
     return json;
   }
 
+  /**
+   * Returns the first major line whose branch pattern matches the branch name.
+   *
+   * @param branchName - the branch name. If it is not provided, the current Git branch is used.
+   * An error is thrown if the policy has major lines and the current Git branch can't be determined.
+   */
+  public getMajorLine(branchName?: string): IMajorLineJson | undefined {
+    if (!this._majorLines.length) {
+      return undefined;
+    }
+    if (!branchName) {
+      const gitInfo: { branch: string } | undefined = Git.getGitInfo();
+      branchName = gitInfo && gitInfo.branch;
+    }
+    if (!branchName) {
+      throw new Error(`The version policy "${this.policyName}" has major lines, but the current Git branch`
+        + ` can't be determined. Specify the target branch.`);
+    }
+
+    for (const majorLine of this._majorLines) {
+      if (minimatch(branchName, majorLine.branchPattern)) {
+        return majorLine;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Returns an updated package json that satisfies the version policy.
    *
    * @param project - input package json
    * @param force - force update even when the project version is higher than the policy version.
+   * @param branchName - the branch that the versions are published from, which selects the major line.
+   * If it is not provided, the current Git branch is used.
    */
-  public ensure(project: IPackageJson, force?: boolean): IPackageJson | undefined {
-    if (this.lockedMajor) {
+  public ensure(project: IPackageJson, force?: boolean, branchName?: string): IPackageJson | undefined {
+    const lockedMajor: number | undefined = this._getEffectiveLockedMajor(branchName);
+    if (lockedMajor) {
       const version: semver.SemVer = new semver.SemVer(project.version);
-      if (version.major < this.lockedMajor) {
+      if (version.major < lockedMajor) {
         const updatedProject: IPackageJson = cloneDeep(project);
-        updatedProject.version = `${this._lockedMajor}.0.0`;
+        updatedProject.version = `${lockedMajor}.0.0`;
         return updatedProject;
-      } else if (version.major > this.lockedMajor) {
+      } else if (version.major > lockedMajor) {
         const errorMessage: string = `Version ${project.version} in package ${project.name}`
-          + ` is higher than locked major version ${this._lockedMajor}.`;
+          + ` is higher than locked major version ${lockedMajor}.`;
         throw new Error(errorMessage);
       }
     }
@@ -393,13 +486,29 @@ export class IndividualVersionPolicy extends VersionPolicy {
    *
    * @param versionString - version string
    * @param packageName - package name
+   * @param branchName - the branch that the version is published from, which selects the major line.
+   * If it is not provided, the current Git branch is used.
    */
-  public validate(versionString: string, packageName: string): void {
+  public validate(versionString: string, packageName: string, branchName?: string): void {
     const versionToTest: semver.SemVer = new semver.SemVer(versionString, false);
     if (this._lockedMajor !== undefined) {
       if (this._lockedMajor !== versionToTest.major) {
         throw new Error(`Invalid major version ${versionString} in ${packageName}`);
       }
     }
+
+    const majorLine: IMajorLineJson | undefined = this.getMajorLine(branchName);
+    if (majorLine && majorLine.major !== versionToTest.major) {
+      throw new Error(`Invalid major version ${versionString} in ${packageName}. The branches that match`
+        + ` "${majorLine.branchPattern}" publish major version ${majorLine.major}.`);
+    }
+  }
+
+  private _getEffectiveLockedMajor(branchName: string | undefined): number | undefined {
+    if (this._lockedMajor !== undefined) {
+      return this._lockedMajor;
+    }
+    const majorLine: IMajorLineJson | undefined = this.getMajorLine(branchName);
+    return majorLine && majorLine.major;
   }
 }
@@ -14,6 +14,7 @@ export interface IVersionPolicyJson {
   policyName: string;
   definitionName: string;
   dependencies?: IVersionPolicyDependencyJson;
+  releaseChannels?: string[];
 }
 
 /**
@@ -30,6 +31,29 @@ export interface ILockStepVersionJson extends IVersionPolicyJson {
  */
 export interface IIndividualVersionJson extends IVersionPolicyJson {
   lockedMajor?: number;
+  majorLines?: IMajorLineJson[];
+}
+
+/**
+ * A major version line that is published from the Git branches that match a pattern.
+ * Part of IIndividualVersionJson.
+ * @beta
+ */
+export interface IMajorLineJson {
+  /**
+   * A glob pattern for the branch names, e.g. "release/v3*".
+   */
+  branchPattern: string;
+
+  /**
+   * The major version that is published from the matching branches.
+   */
+  major: number;
+
+  /**
+   * If specified, "rush publish" uses this npm dist-tag, e.g. "v3-latest".
+   */
+  distTag?: string;
 }
 
 /**
@@ -142,6 +166,44 @@ export class VersionPolicyConfiguration {
     this._saveFile(!!shouldCommit);
   }
 
+  /**
+   * Promotes the prerelease versions on a release channel to stable versions, for the specified
+   * version policy or all version policies that declare the channel
+   *
+   * @param channel - release channel, e.g. "beta"
+   * @param versionPolicyName - version policy name
+   * @param shouldCommit - should save to disk
+   * @returns the version policies that declare the channel
+   */
+  public promote(channel: string,
+    versionPolicyName?: string,
+    shouldCommit?: boolean
+  ): VersionPolicy[] {
+    const policies: VersionPolicy[] = [];
+    if (versionPolicyName) {
+      const policy: VersionPolicy = this.getVersionPolicy(versionPolicyName);
+      if (policy.releaseChannels.indexOf(channel) < 0) {
+        throw new Error(`The version policy "${versionPolicyName}" does not declare the release channel "${channel}"`);
+      }
+      policies.push(policy);
+    } else {
+      this.versionPolicies.forEach((versionPolicy) => {
+        if (versionPolicy.releaseChannels.indexOf(channel) >= 0) {
+          policies.push(versionPolicy);
+        }
+      });
+      if (policies.length === 0) {
+        throw new Error(`No version policy declares the release channel "${channel}"`);
+      }
+    }
+
+    policies.forEach((policy) => {
+      policy.promote(channel);
+    });
+    this._saveFile(!!shouldCommit);
+    return policies;
+  }
+
   /**
    * Updates the version directly for the specified version policy
    * @param versionPolicyName - version policy name
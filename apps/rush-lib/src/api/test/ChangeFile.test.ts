@@ -4,8 +4,9 @@
 import * as path from 'path';
 
 import { ChangeFile } from '../ChangeFile';
+import { ChangeFieldsConfiguration } from '../ChangeFieldsConfiguration';
 import { RushConfiguration } from '../RushConfiguration';
-import { ChangeType } from '../ChangeManagement';
+import { ChangeType, IChangeInfo } from '../ChangeManagement';
 
 describe('ChangeFile', () => {
   it('can add a change', () => {
@@ -34,4 +35,58 @@ describe('ChangeFile', () => {
     expect(changeFile.getChanges('a')[0].comment).toEqual('for minor');
     expect(changeFile.getChanges('a')[1].comment).toEqual('for patch');
   });
-});
\ No newline at end of file
+
+  describe('validate', () => {
+    const changeFieldsConfiguration: ChangeFieldsConfiguration = ChangeFieldsConfiguration.loadFromFileOrDefault(
+      path.resolve(__dirname, 'jsonFiles', 'change-fields.json'));
+
+    function createChangeFile(change: Partial<IChangeInfo>): ChangeFile {
+      const rushFilename: string = path.resolve(__dirname, 'repo', 'rush-npm.json');
+      const rushConfiguration: RushConfiguration = RushConfiguration.loadFromConfigurationFile(rushFilename);
+
+      return new ChangeFile({
+        packageName: 'a',
+        changes: [{ packageName: 'a', type: 'major', comment: 'Removed an API', ...change }],
+        email: 'fake@microsoft.com'
+      }, rushConfiguration);
+    }
+
+    it('accepts the breaking change note, issues, and custom fields', () => {
+      const changeFile: ChangeFile = createChangeFile({
+        breakingChangeNote: 'Use the new API instead',
+        issues: ['#123'],
+        customFields: { area: 'api', effort: 2, internal: false }
+      });
+
+      expect(() => changeFile.validate(changeFieldsConfiguration)).not.toThrow();
+    });
+
+    it('reports all problems with the custom fields', () => {
+      const changeFile: ChangeFile = createChangeFile({
+        customFields: { effort: 'two', internal: false, unknown: 'value' }
+      });
+
+      expect(() => changeFile.validate(changeFieldsConfiguration)).toThrowError(/"unknown" is not defined/);
+      expect(() => changeFile.validate(changeFieldsConfiguration)).toThrowError(/"area" is required/);
+      expect(() => changeFile.validate(changeFieldsConfiguration)).toThrowError(/"effort" must be a number/);
+    });
+
+    it('rejects an empty issue ID', () => {
+      const changeFile: ChangeFile = createChangeFile({ issues: [''], customFields: { area: 'cli' } });
+
+      expect(() => changeFile.validate(changeFieldsConfiguration)).toThrowError(/nonempty strings/);
+    });
+
+    it('does not require the custom fields for a change without a comment', () => {
+      const changeFile: ChangeFile = createChangeFile({ type: 'none', comment: '' });
+
+      expect(() => changeFile.validate(changeFieldsConfiguration)).not.toThrow();
+    });
+
+    it('rejects a value that is not allowed', () => {
+      const changeFile: ChangeFile = createChangeFile({ customFields: { area: 'docs' } });
+
+      expect(() => changeFile.validate(changeFieldsConfiguration)).toThrowError(/must be one of: cli, api/);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { CommandLineConfiguration } from '../CommandLineConfiguration';
+import { CommandJson } from '../CommandLineJson';
+
+const tempFolder: string = path.join(__dirname, 'temp', 'CommandLineConfiguration');
+
+function loadCommands(commands: {}[]): CommandLineConfiguration {
+  const filename: string = path.join(tempFolder, 'command-line.json');
+  JsonFile.save({ commands }, filename, { ensureFolderExists: true });
+  return CommandLineConfiguration.loadFromFileOrDefault(filename);
+}
+
+function createBulkCommand(phases: string[]): {} {
+  return {
+    commandKind: 'bulk',
+    name: 'phased',
+    summary: 'Compile and test each project',
+    enableParallelism: true,
+    phases
+  };
+}
+
+describe('CommandLineConfiguration', () => {
+  afterEach(() => {
+    FileSystem.deleteFolder(tempFolder);
+  });
+
+  it('loads the phases of a bulk command', () => {
+    const configuration: CommandLineConfiguration = loadCommands([
+      createBulkCommand(['_phase:compile', '_phase:test'])
+    ]);
+
+    const command: CommandJson = configuration.commands[0];
+    expect(command.commandKind === 'bulk' && command.phases).toEqual(['_phase:compile', '_phase:test']);
+  });
+
+  it('requires the phases to be a nonempty list of unique names', () => {
+    expect(() => loadCommands([createBulkCommand([])])).toThrowError();
+    expect(() => loadCommands([createBulkCommand(['_phase:compile', '_phase:compile'])])).toThrowError();
+  });
+
+  it('does not allow phases for a global command', () => {
+    expect(() => loadCommands([{
+      commandKind: 'global',
+      name: 'phased',
+      summary: 'Compile and test the repo',
+      shellCommand: 'node build.js',
+      phases: ['_phase:compile']
+    }])).toThrowError();
+  });
+});
@@ -13,5 +13,49 @@ describe('CommonVersionsConfiguration', () => {
     expect(configuration.preferredVersions.get('@scope/library-1')).toEqual('~3.2.1');
     expect(configuration.xstitchPreferredVersions.get('library-2')).toEqual('1.2.3');
     expect(configuration.allowedAlternativeVersions.get('library-3')).toEqual(['^1.2.3']);
+    expect(configuration.allowedVersionRanges.get('library-4')).toEqual('>=16.8.0 <17.0.0');
+    expect(configuration.bannedVersions.get('library-5')!.length).toEqual(2);
+  });
+
+  it('checks the allowed version ranges and banned versions', () => {
+    const filename: string = path.resolve(__dirname, 'jsonFiles', 'common-versions.json');
+    const configuration: CommonVersionsConfiguration = CommonVersionsConfiguration.loadFromFile(filename);
+
+    expect(configuration.tryGetVersionViolation('library-4', '^16.8.0')).toBeUndefined();
+    expect(configuration.tryGetVersionViolation('library-4', '~16.12.0')).toBeUndefined();
+    expect(configuration.tryGetVersionViolation('library-4', '^15.0.0')).toMatch(/outside of the allowed range/);
+    expect(configuration.tryGetVersionViolation('library-4', '17.0.1')).toMatch(/outside of the allowed range/);
+    expect(configuration.tryGetVersionViolation('library-4', '*')).toMatch(/outside of the allowed range/);
+
+    expect(configuration.tryGetVersionViolation('library-5', '^4.17.0')).toMatch(/is banned: It has a vulnerability/);
+    expect(configuration.tryGetVersionViolation('library-5', '4.17.15')).toMatch(/is banned: It is broken/);
+    expect(configuration.tryGetVersionViolation('library-5', '^4.17.12')).toMatch(/is banned: It is broken/);
+    expect(configuration.tryGetVersionViolation('library-5', '~4.17.16')).toBeUndefined();
+    expect(configuration.tryGetVersionViolation('library-5', '>4.17.15')).toBeUndefined();
+
+    // Every version that is accepted by the specifier is checked, not only the lowest one
+    expect(configuration.tryGetVersionViolation('library-4', '>=16.8.0')).toMatch(/outside of the allowed range/);
+    expect(configuration.tryGetVersionViolation('library-4', '^16.8.0 || ^17.0.0'))
+      .toMatch(/outside of the allowed range/);
+    expect(configuration.tryGetVersionViolation('library-4', '16.8.0 || ~16.12.0')).toBeUndefined();
+    expect(configuration.tryGetVersionViolation('library-5', '^4.17.16 || ^3.0.0'))
+      .toMatch(/is banned: It has a vulnerability/);
+    expect(configuration.tryGetVersionViolation('library-5', '>=4.17.12 <4.17.15 || >4.17.15')).toBeUndefined();
+
+    // Specifiers that are not SemVer ranges are not checked
+    expect(configuration.tryGetVersionViolation('library-5', 'file:../library-5')).toBeUndefined();
+    expect(configuration.tryGetVersionViolation('library-1', '^1.0.0')).toBeUndefined();
+  });
+
+  it('accepts a specifier that spans several comparator sets of the allowed version range', () => {
+    const filename: string = path.resolve(__dirname, 'jsonFiles', 'common-versions.json');
+    const configuration: CommonVersionsConfiguration = CommonVersionsConfiguration.loadFromFile(filename);
+    configuration.allowedVersionRanges.set('library-4', '^16.8.0 || ^17.0.0');
+
+    expect(configuration.tryGetVersionViolation('library-4', '>=16.8.0 <18.0.0')).toBeUndefined();
+    expect(configuration.tryGetVersionViolation('library-4', '>=16.8.0 <=18.0.0'))
+      .toMatch(/outside of the allowed range/);
+    expect(configuration.tryGetVersionViolation('library-4', '>=16.0.0 <17.0.0'))
+      .toMatch(/outside of the allowed range/);
   });
 });
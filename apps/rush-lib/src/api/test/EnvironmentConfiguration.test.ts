@@ -63,4 +63,24 @@ describe('EnvironmentConfiguration', () => {
       expect(EnvironmentConfiguration.rushTempFolderOverride).toEqual(expectedValue);
     });
   });
+
+  describe('buildCacheWriteAllowed', () => {
+    it('returns undefined for an unset environment variable', () => {
+      EnvironmentConfiguration.initialize();
+
+      expect(EnvironmentConfiguration.buildCacheWriteAllowed).not.toBeDefined();
+    });
+
+    it('parses the value of a set environment variable', () => {
+      process.env['RUSH_BUILD_CACHE_WRITE_ALLOWED'] = 'true'; // tslint:disable-line:no-string-literal
+      EnvironmentConfiguration.initialize();
+
+      expect(EnvironmentConfiguration.buildCacheWriteAllowed).toEqual(true);
+    });
+
+    it('throws for an invalid value', () => {
+      process.env['RUSH_BUILD_CACHE_WRITE_ALLOWED'] = 'yes'; // tslint:disable-line:no-string-literal
+      expect(EnvironmentConfiguration.initialize).toThrow();
+    });
+  });
 });
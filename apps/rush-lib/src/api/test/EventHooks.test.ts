@@ -29,4 +29,20 @@ describe('EventHooks', () => {
     expect(resultHooks).toEqual(expectedHooks);
   });
 
+  it('loads hooks with failure policies', () => {
+    const eventHooks: EventHooks = new EventHooks({
+      preProjectBuild: [
+        'do one',
+        { command: 'do two', failurePolicy: 'fail' },
+        { command: 'do three' }
+      ]
+    });
+    expect(eventHooks.getHooks(Event.preProjectBuild)).toEqual([
+      { command: 'do one', failurePolicy: 'warn' },
+      { command: 'do two', failurePolicy: 'fail' },
+      { command: 'do three', failurePolicy: 'warn' }
+    ]);
+    expect(eventHooks.get(Event.preProjectBuild)).toEqual(['do one', 'do two', 'do three']);
+  });
+
 });
\ No newline at end of file
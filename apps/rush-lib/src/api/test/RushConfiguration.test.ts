@@ -101,10 +101,12 @@ describe('RushConfiguration', () => {
     expect(project1.tempProjectName).toEqual('@rush-temp/project1');
     expect(project1.unscopedTempProjectName).toEqual('project1');
     expect(project1.skipRushCheck).toEqual(false);
+    expect(Array.from(project1.tags)).toEqual(['web-app', 'team/frontend']);
 
     // Validate project2 settings
     const project2: RushConfigurationProject = rushConfiguration.getProjectByName('project2')!;
     expect(project2.skipRushCheck).toEqual(true);
+    expect(project2.tags.size).toEqual(0);
 
     done();
   });
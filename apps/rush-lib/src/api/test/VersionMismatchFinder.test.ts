@@ -1,9 +1,12 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import * as path from 'path';
+
 import { RushConfigurationProject } from '../RushConfigurationProject';
 import { VersionMismatchFinder } from '../VersionMismatchFinder';
 import { PackageJsonEditor } from '../PackageJsonEditor';
+import { CommonVersionsConfiguration } from '../CommonVersionsConfiguration';
 
 // tslint:disable:no-any
 describe('VersionMismatchFinder', () => {
@@ -353,4 +356,50 @@ describe('VersionMismatchFinder', () => {
     expect(mismatchFinder.getMismatches().length).toEqual(0);
     done();
   });
+
+  it('finds dependencies that violate the allowed version ranges and banned versions', (done: jest.DoneCallback) => {
+    const projects: RushConfigurationProject[] = [
+      {
+        packageName: 'A',
+        packageJsonEditor: PackageJsonEditor.fromObject({
+          dependencies: {
+            'library-4': '^16.8.0',
+            'library-5': '~4.17.0'
+          }
+        } as any, 'foo.json'),
+        cyclicDependencyProjects: new Set<string>()
+      },
+      {
+        packageName: 'B',
+        packageJsonEditor: PackageJsonEditor.fromObject({
+          devDependencies: {
+            'library-4': '^16.8.0',
+            'library-5': '~4.17.0'
+          },
+          peerDependencies: {
+            'library-4': '^15.0.0'
+          }
+        } as any, 'foo.json'),
+        cyclicDependencyProjects: new Set<string>()
+      },
+      {
+        packageName: 'C',
+        packageJsonEditor: PackageJsonEditor.fromObject({
+          dependencies: {
+            'library-4': '^15.0.0'
+          }
+        } as any, 'foo.json'),
+        cyclicDependencyProjects: new Set<string>(),
+        skipRushCheck: true
+      }
+    ] as any as RushConfigurationProject[];
+    const commonVersions: CommonVersionsConfiguration = CommonVersionsConfiguration.loadFromFile(
+      path.resolve(__dirname, 'jsonFiles', 'common-versions.json'));
+    const mismatchFinder: VersionMismatchFinder = new VersionMismatchFinder(projects, undefined, commonVersions);
+    expect(mismatchFinder.numberOfMismatches).toEqual(0);
+    expect(mismatchFinder.numberOfViolations).toEqual(2);
+    expect(mismatchFinder.getViolations().map(violation => `${violation.projectName} ${violation.dependencyName}`))
+      .toEqual(['A library-5', 'B library-5']);
+    done();
+  });
 });
@@ -2,6 +2,7 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
+import gitInfo = require('git-repo-info');
 import { IPackageJson } from '@microsoft/node-core-library';
 
 import { VersionPolicyConfiguration } from '../VersionPolicyConfiguration';
@@ -11,6 +12,7 @@ import {
   IndividualVersionPolicy,
   BumpType
 } from '../VersionPolicy';
+import { Git } from '../../logic/Git';
 
 describe('VersionPolicy', () => {
   describe('LockStepVersion', () => {
@@ -139,4 +141,100 @@ describe('VersionPolicy', () => {
       }).toThrow();
     });
   });
+
+  describe('releaseChannels', () => {
+    const fileName: string = path.resolve(__dirname, 'jsonFiles', 'rushWithReleaseChannels.json');
+    let versionPolicyConfig: VersionPolicyConfiguration;
+
+    beforeEach(() => {
+      versionPolicyConfig = new VersionPolicyConfiguration(fileName);
+    });
+
+    it('loads configuration', () => {
+      const versionPolicy: VersionPolicy = versionPolicyConfig.getVersionPolicy('lockStepPolicy');
+      expect(versionPolicy.releaseChannels).toEqual(['beta', 'rc']);
+      expect(versionPolicy._json.releaseChannels).toEqual(['beta', 'rc']);
+      expect(versionPolicyConfig.getVersionPolicy('stablePolicy').releaseChannels).toEqual([]);
+    });
+
+    it('promotes the lockstep version on the channel', () => {
+      const policies: VersionPolicy[] = versionPolicyConfig.promote('beta');
+      expect(policies.map(policy => policy.policyName)).toEqual(['lockStepPolicy']);
+      expect((policies[0] as LockStepVersionPolicy).version).toEqual('2.0.0');
+    });
+
+    it('does not promote the lockstep version on another channel', () => {
+      const policies: VersionPolicy[] = versionPolicyConfig.promote('rc');
+      expect(policies.map(policy => policy.policyName)).toEqual(['lockStepPolicy', 'individualPolicy']);
+      expect((policies[0] as LockStepVersionPolicy).version).toEqual('2.0.0-beta.3');
+    });
+
+    it('throws an error if the channel is not declared', () => {
+      expect(() => versionPolicyConfig.promote('beta', 'individualPolicy')).toThrowError(/does not declare/);
+      expect(() => versionPolicyConfig.promote('alpha')).toThrowError(/No version policy declares/);
+    });
+  });
+
+  describe('majorLines', () => {
+    const fileName: string = path.resolve(__dirname, 'jsonFiles', 'rushWithMajorLines.json');
+    const versionPolicyConfig: VersionPolicyConfiguration = new VersionPolicyConfiguration(fileName);
+    const versionPolicy: IndividualVersionPolicy =
+      versionPolicyConfig.getVersionPolicy('maintainedPolicy') as IndividualVersionPolicy;
+
+    function mockBranch(branch: string): void {
+      jest.spyOn(Git, 'getGitInfo').mockReturnValue({ branch } as gitInfo.GitRepoInfo);
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('finds the major line for a branch', () => {
+      expect(versionPolicy.getMajorLine('release/v3.x')).toEqual(
+        { branchPattern: 'release/v3*', major: 3, distTag: 'v3-latest' });
+      expect(versionPolicy.getMajorLine('master')!.major).toEqual(4);
+      expect(versionPolicy.getMajorLine('feature/x')).toBeUndefined();
+    });
+
+    it('uses the current branch by default', () => {
+      mockBranch('release/v3.x');
+      expect(versionPolicy.getMajorLine()!.major).toEqual(3);
+    });
+
+    it('updates packageJson if version is lower than the major line', () => {
+      mockBranch('master');
+      expect(versionPolicy.ensure({ name: 'a', version: '3.2.0' })).toEqual({ name: 'a', version: '4.0.0' });
+      expect(versionPolicy.ensure({ name: 'a', version: '4.2.0' })).not.toBeDefined();
+    });
+
+    it('rejects versions that cross the major line', () => {
+      mockBranch('release/v3.x');
+      expect(() => versionPolicy.validate('3.5.0', 'a')).not.toThrow();
+      expect(() => versionPolicy.validate('4.0.0', 'a')).toThrowError(/publish major version 3/);
+    });
+
+    it('uses the target branch instead of the current branch', () => {
+      mockBranch('release/v3.x');
+      expect(versionPolicy.ensure({ name: 'a', version: '3.2.0' }, false, 'master'))
+        .toEqual({ name: 'a', version: '4.0.0' });
+      expect(() => versionPolicy.validate('4.0.0', 'a', 'master')).not.toThrow();
+      expect(() => versionPolicy.validate('3.5.0', 'a', 'master')).toThrowError(/publish major version 4/);
+    });
+
+    it('throws an error if the branch cannot be determined', () => {
+      jest.spyOn(Git, 'getGitInfo').mockReturnValue(undefined);
+      expect(() => versionPolicy.getMajorLine()).toThrowError(/current Git branch can't be determined/);
+      expect(() => versionPolicy.validate('3.5.0', 'a')).toThrowError(/current Git branch can't be determined/);
+      expect(versionPolicy.getMajorLine('release/v3.x')!.major).toEqual(3);
+    });
+
+    it('cannot be used with lockedMajor', () => {
+      expect(() => new IndividualVersionPolicy({
+        policyName: 'invalidPolicy',
+        definitionName: 'individualVersion',
+        lockedMajor: 3,
+        majorLines: [{ branchPattern: 'master', major: 3 }]
+      })).toThrowError(/cannot specify both/);
+    });
+  });
 });
@@ -14,19 +14,24 @@ import { CommandLineConfiguration } from '../api/CommandLineConfiguration';
 import { CommandJson } from '../api/CommandLineJson';
 import { Utilities } from '../utilities/Utilities';
 import { BaseScriptAction } from '../cli/scriptActions/BaseScriptAction';
+import { BaseConfiglessRushAction } from './actions/BaseRushAction';
 
 import { AddAction } from './actions/AddAction';
 import { ChangeAction } from './actions/ChangeAction';
 import { CheckAction } from './actions/CheckAction';
+import { CheckPolicyAction } from './actions/CheckPolicyAction';
 import { UpdateAction } from './actions/UpdateAction';
 import { InstallAction } from './actions/InstallAction';
 import { InitAction } from './actions/InitAction';
 import { LinkAction } from './actions/LinkAction';
+import { ListAction } from './actions/ListAction';
+import { MirrorDependenciesAction } from './actions/MirrorDependenciesAction';
 import { PublishAction } from './actions/PublishAction';
 import { PurgeAction } from './actions/PurgeAction';
 import { UnlinkAction } from './actions/UnlinkAction';
 import { ScanAction } from './actions/ScanAction';
 import { VersionAction } from './actions/VersionAction';
+import { WhyAction } from './actions/WhyAction';
 
 import { BulkScriptAction } from './scriptActions/BulkScriptAction';
 import { GlobalScriptAction } from './scriptActions/GlobalScriptAction';
@@ -40,6 +45,19 @@ import { RushGlobalFolder } from '../api/RushGlobalFolder';
  */
 export interface IRushCommandLineParserOptions {
   cwd?: string;   // Defaults to `cwd`
+
+  /**
+   * Prints the startup banner.  It is not called if the selected action prints machine-readable output.
+   */
+  printStartupBanner?: () => void;
+}
+
+/**
+ * The methods that an "argparse" parser calls to print its output while the command line is parsed.
+ */
+export interface IArgumentParserOutput {
+  printHelp(): void;
+  error(err: string | Error): void;
 }
 
 export class RushCommandLineParser extends CommandLineParser {
@@ -49,6 +67,7 @@ export class RushCommandLineParser extends CommandLineParser {
 
   private _debugParameter: CommandLineFlagParameter;
   private _rushOptions: IRushCommandLineParserOptions;
+  private _isStartupBannerPrinted: boolean = false;
 
   constructor(options?: IRushCommandLineParserOptions) {
     super({
@@ -64,8 +83,10 @@ export class RushCommandLineParser extends CommandLineParser {
     });
     const optionsIn: IRushCommandLineParserOptions = options || {};
     this._rushOptions = {
-      cwd: optionsIn.cwd || process.cwd()
+      cwd: optionsIn.cwd || process.cwd(),
+      printStartupBanner: optionsIn.printStartupBanner
     };
+    this._printStartupBannerBeforeParserOutput(this._getArgumentParser());
     this._populateActions();
   }
 
@@ -73,6 +94,26 @@ export class RushCommandLineParser extends CommandLineParser {
     return this._debugParameter.value;
   }
 
+  /**
+   * Normally the startup banner is printed by onExecute(), after the action's parameters have been parsed.
+   * However, the parser prints the help (e.g. "rush --help") and the parse errors (e.g. "rush build --bogus")
+   * before an action is selected, so the banner is printed before that output instead.
+   * @internal
+   */
+  public _printStartupBannerBeforeParserOutput(argumentParser: IArgumentParserOutput): void {
+    const printHelp: () => void = argumentParser.printHelp.bind(argumentParser);
+    const reportError: (err: string | Error) => void = argumentParser.error.bind(argumentParser);
+
+    argumentParser.printHelp = () => {
+      this._printStartupBanner();
+      printHelp();
+    };
+    argumentParser.error = (err: string | Error) => {
+      this._printStartupBanner();
+      reportError(err);
+    };
+  }
+
   public flushTelemetry(): void {
     if (this.telemetry) {
       this.telemetry.flush();
@@ -99,6 +140,10 @@ export class RushCommandLineParser extends CommandLineParser {
       InternalError.breakInDebugger = true;
     }
 
+    if (!(this.selectedAction instanceof BaseConfiglessRushAction && this.selectedAction.isMachineReadableOutput)) {
+      this._printStartupBanner();
+    }
+
     return this._wrapOnExecute().catch((error: Error) => {
       this._reportErrorAndSetExitCode(error);
     }).then(() => {
@@ -107,6 +152,13 @@ export class RushCommandLineParser extends CommandLineParser {
     });
   }
 
+  private _printStartupBanner(): void {
+    if (this._rushOptions.printStartupBanner && !this._isStartupBannerPrinted) {
+      this._isStartupBannerPrinted = true;
+      this._rushOptions.printStartupBanner();
+    }
+  }
+
   private _wrapOnExecute(): Promise<void> {
     try {
       if (this.rushConfiguration) {
@@ -137,15 +189,19 @@ export class RushCommandLineParser extends CommandLineParser {
       this.addAction(new AddAction(this));
       this.addAction(new ChangeAction(this));
       this.addAction(new CheckAction(this));
+      this.addAction(new CheckPolicyAction(this));
       this.addAction(new InstallAction(this));
       this.addAction(new InitAction(this));
       this.addAction(new LinkAction(this));
+      this.addAction(new ListAction(this));
+      this.addAction(new MirrorDependenciesAction(this));
       this.addAction(new PublishAction(this));
       this.addAction(new PurgeAction(this));
       this.addAction(new ScanAction(this));
       this.addAction(new UpdateAction(this));
       this.addAction(new UnlinkAction(this));
       this.addAction(new VersionAction(this));
+      this.addAction(new WhyAction(this));
 
       this._populateScriptActions();
 
@@ -247,7 +303,8 @@ export class RushCommandLineParser extends CommandLineParser {
 
             enableParallelism: command.enableParallelism,
             ignoreMissingScript: command.ignoreMissingScript || false,
-            ignoreDependencyOrder: command.ignoreDependencyOrder || false
+            ignoreDependencyOrder: command.ignoreDependencyOrder || false,
+            phases: command.phases
           }));
           break;
         case 'global':
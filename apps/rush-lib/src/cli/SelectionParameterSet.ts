@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import {
+  CommandLineParameterProvider,
+  CommandLineStringListParameter,
+  CommandLineStringParameter
+} from '@microsoft/ts-command-line';
+
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { IProjectSelection } from '../logic/ProjectSelector';
+
+/**
+ * Explains the "tag:" syntax for the selectors that accept it.
+ */
+const TAG_SELECTOR_DESCRIPTION: string = ' To select every project that has a tag, specify "tag:<name>".';
+
+/**
+ * Defines the command-line parameters that select a subset of the projects, such as "--to" and "--from".
+ * They are shared by the bulk commands and "rush list".
+ */
+export class SelectionParameterSet {
+  private _toFlag: CommandLineStringListParameter;
+  private _toVersionPolicy: CommandLineStringListParameter;
+  private _fromFlag: CommandLineStringListParameter;
+  private _onlyFlag: CommandLineStringListParameter;
+  private _impactedByFlag: CommandLineStringListParameter;
+  private _toExceptFlag: CommandLineStringListParameter;
+  private _changedSinceParameter: CommandLineStringParameter;
+
+  public constructor(action: CommandLineParameterProvider) {
+    this._toFlag = action.defineStringListParameter({
+      parameterLongName: '--to',
+      parameterShortName: '-t',
+      argumentName: 'PROJECT1',
+      description: 'Select the specified project and all of its dependencies.' + TAG_SELECTOR_DESCRIPTION
+    });
+    this._toVersionPolicy = action.defineStringListParameter({
+      parameterLongName: '--to-version-policy',
+      argumentName: 'VERSION_POLICY_NAME',
+      description: 'Select all projects with the specified version policy and all of their dependencies'
+    });
+    this._fromFlag = action.defineStringListParameter({
+      parameterLongName: '--from',
+      parameterShortName: '-f',
+      argumentName: 'PROJECT2',
+      description: 'Select the specified project and all projects that directly or indirectly depend on it.'
+        + TAG_SELECTOR_DESCRIPTION
+    });
+    this._onlyFlag = action.defineStringListParameter({
+      parameterLongName: '--only',
+      argumentName: 'PROJECT3',
+      description: 'Select the specified project, but not its dependencies or dependents.' + TAG_SELECTOR_DESCRIPTION
+    });
+    this._impactedByFlag = action.defineStringListParameter({
+      parameterLongName: '--impacted-by',
+      argumentName: 'PROJECT4',
+      description: 'Select all projects that directly or indirectly depend on the specified project,'
+        + ' but not the specified project itself.' + TAG_SELECTOR_DESCRIPTION
+    });
+    this._toExceptFlag = action.defineStringListParameter({
+      parameterLongName: '--to-except',
+      argumentName: 'PROJECT5',
+      description: 'Select all dependencies of the specified project, but not the specified project itself.'
+        + TAG_SELECTOR_DESCRIPTION
+    });
+    this._changedSinceParameter = action.defineStringParameter({
+      parameterLongName: '--changed-since',
+      argumentName: 'GIT_REF',
+      description: 'Select all projects whose files differ from the specified Git branch, tag, or commit'
+        + ' (e.g. "origin/master"), and all projects that directly or indirectly depend on them.'
+        + ' Uncommitted changes are included. If the shrinkwrap file changed, all projects are selected.'
+    });
+  }
+
+  /**
+   * Returns the selectors that were specified on the command line.  The "--to-version-policy" projects
+   * are merged into the "--to" projects.
+   */
+  public getSelection(rushConfiguration: RushConfiguration): IProjectSelection {
+    return {
+      toFlags: this._mergeToProjects(rushConfiguration),
+      fromFlags: this._fromFlag.values,
+      onlyFlags: this._onlyFlag.values,
+      impactedByFlags: this._impactedByFlag.values,
+      toExceptFlags: this._toExceptFlag.values,
+      changedSinceRef: this._changedSinceParameter.value
+    };
+  }
+
+  /**
+   * Records which selectors were used, for telemetry.
+   */
+  public appendTelemetryData(extraData: { [key: string]: string }): void {
+    extraData.command_to = (this._toFlag.values.length > 0).toString();
+    extraData.command_from = (this._fromFlag.values.length > 0).toString();
+    extraData.command_only = (this._onlyFlag.values.length > 0).toString();
+    extraData.command_impacted_by = (this._impactedByFlag.values.length > 0).toString();
+    extraData.command_to_except = (this._toExceptFlag.values.length > 0).toString();
+    extraData.command_changed_since = (this._changedSinceParameter.value !== undefined).toString();
+  }
+
+  private _mergeToProjects(rushConfiguration: RushConfiguration): string[] {
+    const projects: string[] = [...this._toFlag.values];
+    if (this._toVersionPolicy.values && this._toVersionPolicy.values.length) {
+      rushConfiguration.projects.forEach((project: RushConfigurationProject) => {
+        const matches: boolean = this._toVersionPolicy.values.some(policyName => {
+          return project.versionPolicyName === policyName;
+        });
+        if (matches) {
+          projects.push(project.packageName);
+        }
+      });
+    }
+    return projects;
+  }
+}
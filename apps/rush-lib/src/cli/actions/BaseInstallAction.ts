@@ -79,7 +79,7 @@ export abstract class BaseInstallAction extends BaseRushAction {
       StandardScriptUpdater.validate(this.rushConfiguration);
     }
 
-    this.eventHooksManager.handle(Event.preRushInstall, this.parser.isDebug);
+    this.eventHooksManager.handle(Event.preRushInstall, this.parser.isDebug, { commandName: this.actionName });
 
     const purgeManager: PurgeManager = new PurgeManager(this.rushConfiguration, this.rushGlobalFolder);
 
@@ -110,8 +110,12 @@ export abstract class BaseInstallAction extends BaseRushAction {
         purgeManager.deleteAll();
         stopwatch.stop();
 
-        this._collectTelemetry(stopwatch, installManagerOptions, true);
-        this.eventHooksManager.handle(Event.postRushInstall, this.parser.isDebug);
+        this._collectTelemetry(stopwatch, installManager, installManagerOptions, true);
+        this.eventHooksManager.handle(Event.postRushInstall, this.parser.isDebug, {
+          commandName: this.actionName,
+          success: true,
+          duration: stopwatch.duration
+        });
 
         if (warnAboutScriptUpdate) {
           console.log(os.EOL + colors.yellow('Rush refreshed some files in the "common/scripts" folder.'
@@ -125,24 +129,31 @@ export abstract class BaseInstallAction extends BaseRushAction {
         purgeManager.deleteAll();
         stopwatch.stop();
 
-        this._collectTelemetry(stopwatch, installManagerOptions, false);
+        this._collectTelemetry(stopwatch, installManager, installManagerOptions, false);
         throw error;
       });
   }
 
-  private _collectTelemetry(stopwatch: Stopwatch, installManagerOptions: IInstallManagerOptions,
-    success: boolean): void {
+  private _collectTelemetry(stopwatch: Stopwatch, installManager: InstallManager,
+    installManagerOptions: IInstallManagerOptions, success: boolean): void {
 
     if (this.parser.telemetry) {
+      const extraData: { [key: string]: string } = {
+        mode: this.actionName,
+        clean: (!!this._purgeParameter.value).toString(),
+        full: installManagerOptions.fullUpgrade.toString()
+      };
+
+      // Example: "packageInstallDuration": "35.2"
+      installManager.stepDurations.forEach((duration: number, stepName: string) => {
+        extraData[`${stepName}Duration`] = duration.toString();
+      });
+
       this.parser.telemetry.log({
         name: 'install',
         duration: stopwatch.duration,
         result: success ? 'Succeeded' : 'Failed',
-        extraData: {
-          mode: this.actionName,
-          clean: (!!this._purgeParameter.value).toString(),
-          full: installManagerOptions.fullUpgrade.toString()
-        }
+        extraData
       });
     }
   }
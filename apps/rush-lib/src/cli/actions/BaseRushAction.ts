@@ -42,6 +42,15 @@ export abstract class BaseConfiglessRushAction extends CommandLineAction {
   private _parser: RushCommandLineParser;
   private _safeForSimultaneousRushProcesses: boolean;
 
+  /**
+   * Actions that can print machine-readable output (e.g. "rush list --json") override this,
+   * so that the output is not mixed with informational messages such as the startup banner.
+   * It is read after the command line has been parsed.
+   */
+  public get isMachineReadableOutput(): boolean {
+    return false;
+  }
+
   protected get rushConfiguration(): RushConfiguration | undefined {
     return this._parser.rushConfiguration;
   }
@@ -61,6 +70,14 @@ export abstract class BaseConfiglessRushAction extends CommandLineAction {
     this._safeForSimultaneousRushProcesses = !!options.safeForSimultaneousRushProcesses;
   }
 
+  /**
+   * @internal
+   */
+  public _buildParser(actionsSubParser: Parameters<CommandLineAction['_buildParser']>[0]): void {
+    super._buildParser(actionsSubParser);
+    this._parser._printStartupBannerBeforeParserOutput(this._getArgumentParser());
+  }
+
   protected onExecute(): Promise<void> {
     this._ensureEnvironment();
 
@@ -73,7 +90,9 @@ export abstract class BaseConfiglessRushAction extends CommandLineAction {
       }
     }
 
-    console.log(`Starting "rush ${this.actionName}"${os.EOL}`);
+    if (!this.isMachineReadableOutput) {
+      console.log(`Starting "rush ${this.actionName}"${os.EOL}`);
+    }
     return this.run();
   }
 
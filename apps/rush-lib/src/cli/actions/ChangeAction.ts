@@ -10,17 +10,26 @@ import inquirer = require('inquirer');
 
 import {
   CommandLineFlagParameter,
-  CommandLineStringParameter
+  CommandLineStringParameter,
+  CommandLineStringListParameter,
+  CommandLineChoiceParameter
 } from '@microsoft/ts-command-line';
 import { FileSystem } from '@microsoft/node-core-library';
 
 import { RushConfigurationProject } from '../../api/RushConfigurationProject';
 import {
+  ChangeFieldValue,
   IChangeFile,
   IChangeInfo
 } from '../../api/ChangeManagement';
 import { VersionControl } from '../../utilities/VersionControl';
 import { ChangeFile } from '../../api/ChangeFile';
+import {
+  ChangeFieldsConfiguration,
+  IChangeFieldJson
+} from '../../api/ChangeFieldsConfiguration';
+import { RushConstants } from '../../logic/RushConstants';
+import { Git } from '../../logic/Git';
 import { BaseRushAction } from './BaseRushAction';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 import { ChangeFiles } from '../../logic/ChangeFiles';
@@ -38,8 +47,15 @@ export class ChangeAction extends BaseRushAction {
   private _verifyParameter: CommandLineFlagParameter;
   private _noFetchParameter: CommandLineFlagParameter;
   private _targetBranchParameter: CommandLineStringParameter;
+  private _bulkChangeParameter: CommandLineFlagParameter;
+  private _bulkChangeMessageParameter: CommandLineStringParameter;
+  private _bulkChangeBumpTypeParameter: CommandLineChoiceParameter;
+  private _bulkChangeFieldParameter: CommandLineStringListParameter;
+  private _emailParameter: CommandLineStringParameter;
   private _targetBranchName: string;
   private _projectHostMap: Map<string, string>;
+  private _changeFieldsConfiguration: ChangeFieldsConfiguration;
+  private _bulkCustomFields: { [fieldName: string]: ChangeFieldValue } | undefined;
 
   private _prompt: inquirer.PromptModule;
 
@@ -68,6 +84,13 @@ export class ChangeAction extends BaseRushAction {
       'specific older version of the package. When a hotfix change is added, ' +
       'other changes will not be able to increment the version number.' +
       'Enable this feature by setting \'hotfixChangeEnabled\' in your rush.json.',
+      '',
+      'For major changes, you are also asked to describe what is breaking and how to migrate. ' +
+      'You can list the IDs of related issues, and the repository can define additional fields ' +
+      'in common/config/rush/change-fields.json. These details are included in the changelogs.',
+      '',
+      'For automation such as dependency update bots, the "--bulk" flag writes the same message, ' +
+      'bump type and custom fields for every changed project without asking any questions.',
       ''
     ];
     super({
@@ -100,17 +123,61 @@ export class ChangeAction extends BaseRushAction {
         'determine which projects were changed. If this parameter is not specified, the checked out branch ' +
         'is compared against the "master" branch.'
     });
+
+    this._bulkChangeParameter = this.defineFlagParameter({
+      parameterLongName: '--bulk',
+      description: 'If this flag is specified, apply the same change message and bump type to all changed projects'
+        + ' without prompting. The "--message" and "--bump-type" parameters must also be specified.'
+    });
+
+    this._bulkChangeMessageParameter = this.defineStringParameter({
+      parameterLongName: '--message',
+      argumentName: 'MESSAGE',
+      description: 'The change message to apply to all changed projects. Only used with "--bulk".'
+    });
+
+    this._bulkChangeBumpTypeParameter = this.defineChoiceParameter({
+      parameterLongName: '--bump-type',
+      alternatives: ['none', 'patch', 'minor', 'major', 'hotfix'],
+      description: 'The bump type to apply to all changed projects. It must be allowed by the version policy'
+        + ' of each project. Projects with a lockstep version policy always use "none". Only used with "--bulk".'
+    });
+
+    this._bulkChangeFieldParameter = this.defineStringListParameter({
+      parameterLongName: '--field',
+      argumentName: 'FIELD',
+      description: 'Sets a custom field from change-fields.json in all change files. The FIELD has the form'
+        + ' NAME=VALUE, e.g. "--field area=api".'
+        + ' The value of a boolean field is "true" or "false". This parameter can be specified more than once,'
+        + ' and it must be specified for each required field. Only used with "--bulk".'
+    });
+
+    this._emailParameter = this.defineStringParameter({
+      parameterLongName: '--email',
+      argumentName: 'EMAIL',
+      description: 'The email address to use in the change files. If this parameter is not specified, the email'
+        + ' address is detected from the Git configuration. Only used with "--bulk".'
+    });
   }
 
   public run(): Promise<void> {
     console.log(`The target branch is ${this._targetBranch}`);
     this._projectHostMap = this._generateHostMap();
+    this._changeFieldsConfiguration = ChangeFieldsConfiguration.loadFromFileOrDefault(
+      path.join(this.rushConfiguration.commonRushConfigFolder, RushConstants.changeFieldsFilename));
+
+    this._validateBulkParameters();
 
     if (this._verifyParameter.value) {
       this._verify();
       return Promise.resolve();
     }
 
+    if (this._bulkChangeParameter.value) {
+      this._writeBulkChangeFiles();
+      return Promise.resolve();
+    }
+
     this._sortedProjectList = this._getChangedPackageNames().sort();
     if (this._sortedProjectList.length === 0) {
       console.log('No changes were detected on this branch. Nothing to do.');
@@ -128,6 +195,157 @@ export class ChangeAction extends BaseRushAction {
       });
   }
 
+  private _validateBulkParameters(): void {
+    const bulkOnlyParameters: string[] = [];
+    if (this._bulkChangeMessageParameter.value !== undefined) {
+      bulkOnlyParameters.push(this._bulkChangeMessageParameter.longName);
+    }
+    if (this._bulkChangeBumpTypeParameter.value !== undefined) {
+      bulkOnlyParameters.push(this._bulkChangeBumpTypeParameter.longName);
+    }
+    if (this._bulkChangeFieldParameter.values.length > 0) {
+      bulkOnlyParameters.push(this._bulkChangeFieldParameter.longName);
+    }
+    if (this._emailParameter.value !== undefined) {
+      bulkOnlyParameters.push(this._emailParameter.longName);
+    }
+
+    if (!this._bulkChangeParameter.value) {
+      if (bulkOnlyParameters.length > 0) {
+        throw new Error(`The ${bulkOnlyParameters.join(', ')} parameter(s) can only be used with`
+          + ` ${this._bulkChangeParameter.longName}`);
+      }
+      return;
+    }
+
+    if (this._verifyParameter.value) {
+      throw new Error(`The ${this._bulkChangeParameter.longName} flag cannot be used with`
+        + ` ${this._verifyParameter.longName}`);
+    }
+    if (!this._bulkChangeMessageParameter.value) {
+      throw new Error(`The ${this._bulkChangeMessageParameter.longName} parameter is required with`
+        + ` ${this._bulkChangeParameter.longName}`);
+    }
+    if (!this._bulkChangeBumpTypeParameter.value) {
+      throw new Error(`The ${this._bulkChangeBumpTypeParameter.longName} parameter is required with`
+        + ` ${this._bulkChangeParameter.longName}`);
+    }
+
+    // Validate the custom fields before looking for the changed projects
+    this._bulkCustomFields = this._getBulkCustomFields();
+    const fieldErrors: string[] = this._changeFieldsConfiguration.getCustomFieldErrors(this._bulkCustomFields,
+      true);
+    if (fieldErrors.length > 0) {
+      throw new Error(`Invalid ${this._bulkChangeFieldParameter.longName} parameters:` + os.EOL
+        + fieldErrors.map(error => `- ${error}`).join(os.EOL));
+    }
+  }
+
+  /**
+   * Parses the "--field NAME=VALUE" parameters, converting the values to the types from change-fields.json.
+   */
+  private _getBulkCustomFields(): { [fieldName: string]: ChangeFieldValue } | undefined {
+    const customFields: { [fieldName: string]: ChangeFieldValue } = {};
+
+    for (const fieldParameter of this._bulkChangeFieldParameter.values) {
+      const separatorIndex: number = fieldParameter.indexOf('=');
+      if (separatorIndex <= 0) {
+        throw new Error(`The ${this._bulkChangeFieldParameter.longName} parameter "${fieldParameter}"`
+          + ` must have the form NAME=VALUE`);
+      }
+
+      const name: string = fieldParameter.substr(0, separatorIndex).trim();
+      const text: string = fieldParameter.substr(separatorIndex + 1).trim();
+      if (customFields.hasOwnProperty(name)) {
+        throw new Error(`The custom field "${name}" is specified more than once`);
+      }
+
+      const field: IChangeFieldJson | undefined = this._changeFieldsConfiguration.customFields
+        .filter((customField: IChangeFieldJson) => customField.name === name)[0];
+      let value: ChangeFieldValue = text;
+      if (field && field.type === 'number') {
+        value = text ? Number(text) : NaN;
+        if (isNaN(value)) {
+          throw new Error(`The custom field "${name}" must be a number`);
+        }
+      } else if (field && field.type === 'boolean') {
+        if (text !== 'true' && text !== 'false') {
+          throw new Error(`The custom field "${name}" must be "true" or "false"`);
+        }
+        value = text === 'true';
+      }
+
+      customFields[name] = value;
+    }
+
+    return Object.keys(customFields).length > 0 ? customFields : undefined;
+  }
+
+  /**
+   * Writes a change file with the same message, bump type and custom fields for every changed project
+   * that does not have a change file yet, without prompting.
+   */
+  private _writeBulkChangeFiles(): void {
+    const changedPackageNames: string[] = this._getChangedPackageNames().sort();
+    if (changedPackageNames.length === 0) {
+      console.log('No changes were detected on this branch. Nothing to do.');
+      return;
+    }
+
+    const email: string | undefined = this._emailParameter.value || Git.tryGetGitEmail(this.rushConfiguration);
+    if (!email) {
+      throw new Error('Unable to detect your Git email address. Specify it using the'
+        + ` ${this._emailParameter.longName} parameter.`);
+    }
+
+    const message: string = this._bulkChangeMessageParameter.value!;
+    const bumpType: string = this._bulkChangeBumpTypeParameter.value!;
+    const existingComments: Map<string, string[]> = ChangeFiles.getChangeComments(this._getChangeFiles());
+
+    const errors: string[] = [];
+    const changeFiles: ChangeFile[] = [];
+    for (const packageName of changedPackageNames) {
+      if (existingComments.has(packageName)) {
+        console.log(`Skipping ${packageName}, which already has a change file on this branch.`);
+        continue;
+      }
+
+      const bumpOptions: { [type: string]: string } = this._getBumpOptions(packageName);
+      const isLockstepped: boolean = Object.keys(bumpOptions).length === 0;
+      if (!isLockstepped && bumpType !== 'none' && !bumpOptions.hasOwnProperty(bumpType)) {
+        errors.push(`The bump type "${bumpType}" is not allowed for ${packageName}. The allowed bump types are:`
+          + ` none, ${Object.keys(bumpOptions).join(', ')}`);
+        continue;
+      }
+
+      const changeInfo: IChangeInfo = {
+        packageName,
+        comment: message,
+        type: isLockstepped ? 'none' : bumpType
+      };
+      if (this._bulkCustomFields) {
+        changeInfo.customFields = this._bulkCustomFields;
+      }
+
+      changeFiles.push(new ChangeFile({
+        changes: [changeInfo],
+        packageName,
+        email
+      }, this.rushConfiguration));
+    }
+
+    if (errors.length > 0) {
+      throw new Error(errors.join(os.EOL));
+    }
+
+    for (const changeFile of changeFiles) {
+      changeFile.validate(this._changeFieldsConfiguration);
+    }
+    for (const changeFile of changeFiles) {
+      console.log(`Created file: ${changeFile.writeSync()}`);
+    }
+  }
+
   private _generateHostMap(): Map<string, string> {
     const hostMap: Map<string, string> = new Map<string, string>();
     this.rushConfiguration.projects.forEach(project => {
@@ -185,7 +403,7 @@ export class ChangeAction extends BaseRushAction {
 
   private _validateChangeFile(changedPackages: string[]): void {
     const files: string[] = this._getChangeFiles();
-    ChangeFiles.validate(files, changedPackages);
+    ChangeFiles.validate(files, changedPackages, this.rushConfiguration);
   }
 
   private _getChangeFiles(): string[] {
@@ -289,6 +507,14 @@ export class ChangeAction extends BaseRushAction {
 
   private _promptForComments(packageName: string): Promise<IChangeInfo | undefined> {
     const bumpOptions: { [type: string]: string } = this._getBumpOptions(packageName);
+    return this._promptForCommentAndType(packageName, bumpOptions)
+      .then((changeInfo: IChangeInfo) => {
+        return changeInfo.comment ? this._promptForChangeDetails(changeInfo) : changeInfo;
+      });
+  }
+
+  private _promptForCommentAndType(packageName: string,
+    bumpOptions: { [type: string]: string }): Promise<IChangeInfo> {
     return this._prompt({
       name: 'comment',
       type: 'input',
@@ -324,6 +550,92 @@ export class ChangeAction extends BaseRushAction {
     });
   }
 
+  /**
+   * Asks for the details that are rendered into the changelogs: a breaking change note for major
+   * changes, the related issue IDs, and the custom fields from change-fields.json.
+   */
+  private _promptForChangeDetails(changeInfo: IChangeInfo): Promise<IChangeInfo> {
+    const questions: inquirer.Question[] = [];
+
+    if (changeInfo.type === 'major') {
+      questions.push({
+        name: 'breakingChangeNote',
+        type: 'input',
+        message: 'Describe what is breaking and how to migrate, or ENTER to skip:'
+      });
+    }
+
+    questions.push({
+      name: 'issues',
+      type: 'input',
+      message: 'List the related issue IDs separated by commas, or ENTER if none:'
+    });
+
+    for (const field of this._changeFieldsConfiguration.customFields) {
+      questions.push(this._getCustomFieldQuestion(field));
+    }
+
+    return this._prompt(questions).then((answers: inquirer.Answers) => {
+      if (answers.breakingChangeNote) {
+        changeInfo.breakingChangeNote = answers.breakingChangeNote;
+      }
+
+      const issues: string[] = (answers.issues as string).split(',')
+        .map(issue => issue.trim())
+        .filter(issue => !!issue);
+      if (issues.length > 0) {
+        changeInfo.issues = issues;
+      }
+
+      for (const field of this._changeFieldsConfiguration.customFields) {
+        const answer: string | boolean = answers[this._getCustomFieldAnswerName(field)];
+        if (typeof answer === 'boolean') {
+          changeInfo.customFields = { ...changeInfo.customFields, [field.name]: answer };
+        } else if (answer.trim()) {
+          const value: string | number = field.type === 'number' ? Number(answer) : answer.trim();
+          changeInfo.customFields = { ...changeInfo.customFields, [field.name]: value };
+        }
+      }
+
+      return changeInfo;
+    });
+  }
+
+  private _getCustomFieldQuestion(field: IChangeFieldJson): inquirer.Question {
+    const name: string = this._getCustomFieldAnswerName(field);
+
+    if (field.type === 'boolean') {
+      return { name, type: 'confirm', default: false, message: field.description };
+    }
+
+    if (field.allowedValues) {
+      const choices: inquirer.ChoiceType[] = field.allowedValues.map(value => ({ name: value, value }));
+      if (!field.required) {
+        choices.unshift({ name: '(none)', value: '' });
+      }
+      return { name, type: 'list', choices, message: field.description };
+    }
+
+    return {
+      name,
+      type: 'input',
+      message: field.required ? field.description : `${field.description} (ENTER to skip)`,
+      validate: (input: string) => {
+        if (!input.trim()) {
+          return field.required ? 'A value is required' : true;
+        }
+        return field.type === 'number' && isNaN(Number(input)) ? 'Enter a number' : true;
+      }
+    };
+  }
+
+  /**
+   * The answers are prefixed, so that a custom field cannot collide with the other questions.
+   */
+  private _getCustomFieldAnswerName(field: IChangeFieldJson): string {
+    return `customField_${field.name}`;
+  }
+
   private _getBumpOptions(packageName: string): {[type: string]: string } {
     const project: RushConfigurationProject | undefined = this.rushConfiguration.getProjectByName(packageName);
     const versionPolicy: VersionPolicy | undefined = project!.versionPolicy;
@@ -446,6 +758,7 @@ export class ChangeAction extends BaseRushAction {
   private _writeChangeFile(changeFileData: IChangeFile): void {
     const output: string = JSON.stringify(changeFileData, undefined, 2);
     const changeFile: ChangeFile = new ChangeFile(changeFileData, this.rushConfiguration);
+    changeFile.validate(this._changeFieldsConfiguration);
     const filePath: string = changeFile.generatePath();
 
     if (FileSystem.exists(filePath)) {
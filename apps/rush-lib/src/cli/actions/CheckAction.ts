@@ -2,14 +2,26 @@
 // See LICENSE in the project root for license information.
 
 import * as colors from 'colors';
+import * as os from 'os';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 import { BaseRushAction } from './BaseRushAction';
 import { VersionMismatchFinder } from '../../api/VersionMismatchFinder';
 import { Variants } from '../../api/Variants';
-import { CommandLineStringParameter } from '@microsoft/ts-command-line';
+import {
+  CommandLineChoiceParameter,
+  CommandLineFlagParameter,
+  CommandLineStringParameter
+} from '@microsoft/ts-command-line';
+import {
+  IVersionMismatchFix,
+  VersionMismatchFixer,
+  VersionMismatchFixStrategy
+} from '../../logic/VersionMismatchFixer';
 
 export class CheckAction extends BaseRushAction {
   private _variant: CommandLineStringParameter;
+  private _fixFlag: CommandLineFlagParameter;
+  private _fixStrategyParameter: CommandLineChoiceParameter;
 
   constructor(parser: RushCommandLineParser) {
     super({
@@ -17,7 +29,8 @@ export class CheckAction extends BaseRushAction {
       summary: 'Checks each project\'s package.json files and ensures that all dependencies are of the same ' +
         'version throughout the repository.',
       documentation: 'Checks each project\'s package.json files and ensures that all dependencies are of the ' +
-        'same version throughout the repository.',
+        'same version throughout the repository.  With the "--fix" flag, the mismatched dependencies are ' +
+        'changed to a single version in every package.json file.',
       safeForSimultaneousRushProcesses: true,
       parser
     });
@@ -25,6 +38,20 @@ export class CheckAction extends BaseRushAction {
 
   protected onDefineParameters(): void {
     this._variant = this.defineStringParameter(Variants.VARIANT_PARAMETER);
+    this._fixFlag = this.defineFlagParameter({
+      parameterLongName: '--fix',
+      description: 'If specified, each mismatched dependency is changed to a single version in the package.json'
+        + ' files of all projects.  Versions from "allowedAlternativeVersions" in common-versions.json are'
+        + ' left unchanged.  Afterwards, run "rush update" to update the shrinkwrap file.'
+    });
+    this._fixStrategyParameter = this.defineChoiceParameter({
+      parameterLongName: '--fix-strategy',
+      alternatives: ['preferred', 'highest', 'interactive'],
+      defaultValue: 'preferred',
+      description: 'How the version of each mismatched dependency is selected.  "preferred" uses the preferred'
+        + ' version from common-versions.json if there is one, or else the highest version.  "highest" uses'
+        + ' the highest version.  "interactive" asks for each dependency.  Only used with "--fix".'
+    });
   }
 
   protected run(): Promise<void> {
@@ -37,9 +64,44 @@ export class CheckAction extends BaseRushAction {
       ));
     }
 
-    VersionMismatchFinder.rushCheck(this.rushConfiguration, {
+    if (!this._fixFlag.value) {
+      VersionMismatchFinder.rushCheck(this.rushConfiguration, {
+        variant: this._variant.value
+      });
+      return Promise.resolve();
+    }
+
+    const mismatchFinder: VersionMismatchFinder = VersionMismatchFinder.getMismatches(this.rushConfiguration, {
       variant: this._variant.value
     });
-    return Promise.resolve();
+    const fixer: VersionMismatchFixer = new VersionMismatchFixer(this.rushConfiguration,
+      this.rushConfiguration.getCommonVersions(this._variant.value));
+
+    return fixer.fix(mismatchFinder, this._fixStrategyParameter.value as VersionMismatchFixStrategy)
+      .then((fixes: IVersionMismatchFix[]) => {
+        for (const fix of fixes) {
+          console.log(os.EOL + colors.green(`Changed ${fix.dependencyName} to `) + colors.cyan(fix.version)
+            + colors.green(' in:'));
+          for (const projectName of fix.projectNames) {
+            console.log(`  - ${projectName}`);
+          }
+        }
+
+        console.log();
+        for (const project of this.rushConfiguration.projects) {
+          if (project.packageJsonEditor.saveIfModified()) {
+            console.log(colors.green('Wrote ') + project.packageJsonEditor.filePath);
+          }
+        }
+
+        if (fixes.length > 0) {
+          console.log(os.EOL + colors.green('Run "rush update" to update the shrinkwrap file.') + os.EOL);
+        }
+
+        // Report the mismatches that could not be fixed
+        VersionMismatchFinder.rushCheck(this.rushConfiguration, {
+          variant: this._variant.value
+        });
+      });
   }
 }
@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as colors from 'colors';
+import * as os from 'os';
+
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { BaseRushAction } from './BaseRushAction';
+import { PolicyValidator } from '../../logic/policy/PolicyValidator';
+
+export class CheckPolicyAction extends BaseRushAction {
+  constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'check-policy',
+      summary: 'Checks the repository policies without installing anything',
+      documentation: 'Checks the Git email policy and the "repositoryPolicies" from rush.json, such as the allowed'
+        + ' licenses, banned packages, required package.json fields, and any custom policy modules.'
+        + ' These are the same policies that "rush install" checks.  All of the violations are reported'
+        + ' together, and the exit code is nonzero if any were found.',
+      safeForSimultaneousRushProcesses: true,
+      parser
+    });
+  }
+
+  protected onDefineParameters(): void {
+    // abstract
+  }
+
+  protected run(): Promise<void> {
+    return Promise.resolve().then(() => {
+      PolicyValidator.validateAllPolicies(this.rushConfiguration, false);
+      console.log(os.EOL + colors.green('No policy violations were found.'));
+    });
+  }
+}
@@ -148,6 +148,8 @@ export class InitAction extends BaseConfiglessRushAction {
       '[dot]gitignore',
       '[dot]travis.yml',
       'common/config/rush/[dot]npmrc',
+      'common/config/rush/build-cache.json',
+      'common/config/rush/change-fields.json',
       'common/config/rush/command-line.json',
       'common/config/rush/common-versions.json',
       'common/config/rush/pnpmfile.js',
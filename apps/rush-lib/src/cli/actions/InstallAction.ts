@@ -1,11 +1,15 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import { CommandLineFlagParameter } from '@microsoft/ts-command-line';
+
 import { BaseInstallAction } from './BaseInstallAction';
 import { IInstallManagerOptions } from '../../logic/InstallManager';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 
 export class InstallAction extends BaseInstallAction {
+  private _offlineParameter: CommandLineFlagParameter;
+
   constructor(parser: RushCommandLineParser) {
     super({
       actionName: 'install',
@@ -24,6 +28,20 @@ export class InstallAction extends BaseInstallAction {
     });
   }
 
+  protected onDefineParameters(): void {
+    super.onDefineParameters();
+
+    this._offlineParameter = this.defineFlagParameter({
+      parameterLongName: '--offline',
+      description: 'Installs without contacting a registry, e.g. in an air-gapped environment.  Before installing,'
+        + ' Rush checks that every package in the shrinkwrap file can be found in the package manager store'
+        + ' or in the tarball mirror folder that is configured by the "offlineInstall" setting in rush.json.'
+        + ' The mirror folder can be populated using "rush mirror-dependencies".  For NPM, every package must be'
+        + ' in the mirror folder, because the NPM cache can\'t be searched.  The package manager itself must'
+        + ' have been installed by an earlier "rush install".'
+    });
+  }
+
   protected buildInstallOptions(): IInstallManagerOptions {
     return {
       debug: this.parser.isDebug,
@@ -34,7 +52,9 @@ export class InstallAction extends BaseInstallAction {
       recheckShrinkwrap: false,
       networkConcurrency: this._networkConcurrencyParameter.value,
       collectLogFile: this._debugPackageManagerParameter.value!,
-      variant: this._variant.value
+      variant: this._variant.value,
+      offline: this._offlineParameter.value!,
+      shrinkwrapDiffFile: undefined
     };
   }
 }
@@ -0,0 +1,182 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { CommandLineFlagParameter } from '@microsoft/ts-command-line';
+import { JsonFile, Text } from '@microsoft/node-core-library';
+
+import { IRushLinkJson } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { ProjectSelector, IProjectSelection } from '../../logic/ProjectSelector';
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { SelectionParameterSet } from '../SelectionParameterSet';
+import { BaseRushAction } from './BaseRushAction';
+
+/**
+ * Part of IListJson.
+ */
+interface IListProjectJson {
+  name: string;
+  version: string;
+
+  /**
+   * The project folder, relative to the folder containing rush.json.
+   */
+  path: string;
+  fullPath: string;
+  versionPolicyName?: string;
+  reviewCategory?: string;
+  shouldPublish: boolean;
+  tags?: string[];
+}
+
+/**
+ * The output of "rush list --json".
+ */
+interface IListJson {
+  projects: IListProjectJson[];
+}
+
+export class ListAction extends BaseRushAction {
+  private _selectionParameters: SelectionParameterSet;
+  private _versionFlag: CommandLineFlagParameter;
+  private _pathFlag: CommandLineFlagParameter;
+  private _jsonFlag: CommandLineFlagParameter;
+
+  constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'list',
+      summary: 'List package information for all projects in the repo',
+      documentation: 'List package names, and optionally other properties such as the version and the'
+        + ' project folder, for all projects in the repo. The same project selectors as the bulk'
+        + ' commands (e.g. "--to" and "--from") can be used to list a subset of the projects.'
+        + ' The "--json" flag prints all of the properties in a machine-readable format.',
+      safeForSimultaneousRushProcesses: true,
+      parser
+    });
+  }
+
+  public get isMachineReadableOutput(): boolean {
+    return this._jsonFlag.value;
+  }
+
+  protected onDefineParameters(): void {
+    this._versionFlag = this.defineFlagParameter({
+      parameterLongName: '--version',
+      parameterShortName: '-v',
+      description: 'If this flag is specified, the project version will be displayed in a column'
+        + ' along with the package name.'
+    });
+    this._pathFlag = this.defineFlagParameter({
+      parameterLongName: '--path',
+      parameterShortName: '-p',
+      description: 'If this flag is specified, the project folder (relative to the folder containing rush.json)'
+        + ' will be displayed in a column along with the package name.'
+    });
+    this._jsonFlag = this.defineFlagParameter({
+      parameterLongName: '--json',
+      description: 'If this flag is specified, the version, folder, version policy, review category,'
+        + ' "shouldPublish" setting and tags of each project will be printed as JSON.'
+    });
+
+    this._selectionParameters = new SelectionParameterSet(this);
+  }
+
+  protected run(): Promise<void> {
+    return Promise.resolve().then(() => {
+      const projects: RushConfigurationProject[] = this._getSelectedProjects();
+
+      if (this._jsonFlag.value) {
+        this._printJson(projects);
+      } else {
+        this._printTable(projects);
+      }
+    });
+  }
+
+  private _getSelectedProjects(): RushConfigurationProject[] {
+    const selection: IProjectSelection = this._selectionParameters.getSelection(this.rushConfiguration);
+
+    // The dependencies between the projects are only needed if some projects were selected
+    let rushLinkJson: IRushLinkJson = { localLinks: {} };
+    if (ProjectSelector.hasSelectors(selection)) {
+      try {
+        rushLinkJson = JsonFile.load(this.rushConfiguration.rushLinkJsonFilename);
+      } catch (error) {
+        throw new Error(`Could not read "${this.rushConfiguration.rushLinkJsonFilename}".`
+          + ` Did you run "rush install" or "rush update"?`);
+      }
+    }
+
+    const projectSelector: ProjectSelector = new ProjectSelector({
+      rushConfiguration: this.rushConfiguration,
+      rushLinkJson
+    });
+    return projectSelector.selectProjects(selection);
+  }
+
+  private _printJson(projects: RushConfigurationProject[]): void {
+    const listJson: IListJson = {
+      projects: projects.map((project: RushConfigurationProject): IListProjectJson => {
+        const projectJson: IListProjectJson = {
+          name: project.packageName,
+          version: project.packageJson.version,
+          path: project.projectRelativeFolder,
+          fullPath: project.projectFolder,
+          shouldPublish: project.shouldPublish
+        };
+
+        // The optional members are omitted rather than set to undefined
+        if (project.versionPolicyName) {
+          projectJson.versionPolicyName = project.versionPolicyName;
+        }
+        if (project.reviewCategory) {
+          projectJson.reviewCategory = project.reviewCategory;
+        }
+        if (project.tags.size > 0) {
+          projectJson.tags = Array.from(project.tags);
+        }
+        return projectJson;
+      })
+    };
+
+    console.log(JsonFile.stringify(listJson));
+  }
+
+  private _printTable(projects: RushConfigurationProject[]): void {
+    const rows: string[][] = projects.map((project: RushConfigurationProject) => {
+      const row: string[] = [project.packageName];
+      if (this._versionFlag.value) {
+        row.push(project.packageJson.version);
+      }
+      if (this._pathFlag.value) {
+        row.push(project.projectRelativeFolder);
+      }
+      return row;
+    });
+
+    // The column headings are only needed if more than one column is displayed
+    if (this._versionFlag.value || this._pathFlag.value) {
+      const headings: string[] = ['Project'];
+      if (this._versionFlag.value) {
+        headings.push('Version');
+      }
+      if (this._pathFlag.value) {
+        headings.push('Path');
+      }
+      rows.unshift(headings);
+    }
+
+    const columnWidths: number[] = [];
+    for (const row of rows) {
+      row.forEach((cell: string, column: number) => {
+        columnWidths[column] = Math.max(columnWidths[column] || 0, cell.length);
+      });
+    }
+
+    for (const row of rows) {
+      console.log(row.map((cell: string, column: number) => {
+        return column < row.length - 1 ? Text.padEnd(cell, columnWidths[column] + 2) : cell;
+      }).join(''));
+    }
+  }
+}
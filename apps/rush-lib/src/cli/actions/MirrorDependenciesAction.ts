@@ -0,0 +1,70 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as colors from 'colors';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandLineStringParameter } from '@microsoft/ts-command-line';
+
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { BaseRushAction } from './BaseRushAction';
+import { Variants } from '../../api/Variants';
+import { BaseShrinkwrapFile, IShrinkwrapPackage } from '../../logic/base/BaseShrinkwrapFile';
+import { DependencyMirror } from '../../logic/DependencyMirror';
+import { ShrinkwrapFileFactory } from '../../logic/ShrinkwrapFileFactory';
+
+export class MirrorDependenciesAction extends BaseRushAction {
+  private _folderParameter: CommandLineStringParameter;
+  private _variant: CommandLineStringParameter;
+
+  constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'mirror-dependencies',
+      summary: 'Downloads the tarball of every package in the shrinkwrap file into a mirror folder',
+      documentation: 'Downloads the tarball of every package in the shrinkwrap file into a mirror folder,'
+        + ' using the registry that is configured for the repo.  The tarballs that are already in the folder'
+        + ' are skipped.  The folder can be copied to an air-gapped environment, where "rush install --offline"'
+        + ' installs the packages from it.  This command is not supported for PNPM, whose offline installs'
+        + ' can only use the packages in the PNPM store.',
+      safeForSimultaneousRushProcesses: false,
+      parser
+    });
+  }
+
+  protected onDefineParameters(): void {
+    this._folderParameter = this.defineStringParameter({
+      parameterLongName: '--folder',
+      argumentName: 'FOLDER',
+      description: 'The folder to populate.  The default is the "mirrorFolder" from the "offlineInstall"'
+        + ' setting in rush.json.'
+    });
+    this._variant = this.defineStringParameter(Variants.VARIANT_PARAMETER);
+  }
+
+  protected run(): Promise<void> {
+    return Promise.resolve().then(() => {
+      const dependencyMirror: DependencyMirror = new DependencyMirror(this.rushConfiguration);
+      const mirrorFolder: string | undefined = this._folderParameter.value
+        ? path.resolve(this._folderParameter.value)
+        : dependencyMirror.mirrorFolder;
+      if (!mirrorFolder) {
+        throw new Error('The "--folder" parameter must be specified, because the "offlineInstall" setting'
+          + ' in rush.json does not specify a "mirrorFolder".');
+      }
+
+      const shrinkwrapFilename: string = this.rushConfiguration.getCommittedShrinkwrapFilename(this._variant.value);
+      const shrinkwrapFile: BaseShrinkwrapFile | undefined =
+        ShrinkwrapFileFactory.getShrinkwrapFile(this.rushConfiguration.packageManager, shrinkwrapFilename);
+      if (!shrinkwrapFile) {
+        throw new Error(`The shrinkwrap file "${shrinkwrapFilename}" does not exist.  Run "rush update" first.`);
+      }
+
+      console.log(`Mirroring the packages from ${shrinkwrapFilename} to ${mirrorFolder}` + os.EOL);
+      const downloadedPackages: IShrinkwrapPackage[] = dependencyMirror.mirrorPackages(shrinkwrapFile, mirrorFolder);
+
+      const mirroredCount: number = shrinkwrapFile.getRegistryPackages().length - downloadedPackages.length;
+      console.log(os.EOL + colors.green(`Downloaded ${downloadedPackages.length} packages; the other`
+        + ` ${mirroredCount} packages were already mirrored.`));
+    });
+  }
+}
@@ -4,6 +4,7 @@
 import * as colors from 'colors';
 import { EOL } from 'os';
 import * as path from 'path';
+import * as semver from 'semver';
 import {
   CommandLineFlagParameter,
   CommandLineStringParameter,
@@ -26,8 +27,13 @@ import { BaseRushAction } from './BaseRushAction';
 import { PublishGit } from '../../logic/PublishGit';
 import { VersionControl } from '../../utilities/VersionControl';
 import { PolicyValidator } from '../../logic/policy/PolicyValidator';
-import { VersionPolicy } from '../../api/VersionPolicy';
+import { VersionPolicy, IndividualVersionPolicy } from '../../api/VersionPolicy';
+import { IMajorLineJson } from '../../api/VersionPolicyConfiguration';
 import { DEFAULT_PACKAGE_UPDATE_MESSAGE } from './VersionAction';
+import { PackageTarballVerifier } from '../../logic/PackageTarballVerifier';
+import { AlreadyReportedError } from '../../utilities/AlreadyReportedError';
+import { Stopwatch } from '../../utilities/Stopwatch';
+import { Event } from '../../api/EventHooks';
 
 export class PublishAction extends BaseRushAction {
   private _addCommitDetails: CommandLineFlagParameter;
@@ -49,6 +55,7 @@ export class PublishAction extends BaseRushAction {
 
   private _releaseFolder: CommandLineStringParameter;
   private _pack: CommandLineFlagParameter;
+  private _dryRunVerify: CommandLineFlagParameter;
 
   private _hotfixTagOverride: string;
 
@@ -117,7 +124,9 @@ export class PublishAction extends BaseRushAction {
       description:
       `The tag option to pass to npm publish. By default NPM will publish using the 'latest' tag, even if ` +
       `the package is older than the current latest, so in publishing workflows for older releases, providing ` +
-      `a tag is important. When hotfix changes are made, this parameter defaults to 'hotfix'.`
+      `a tag is important. When hotfix changes are made, this parameter defaults to 'hotfix'. Otherwise, ` +
+      `it defaults to the "distTag" of the major line that the target branch publishes, if the project's ` +
+      `version policy specifies "majorLines".`
     });
     this._npmAccessLevel = this.defineChoiceParameter({
       alternatives: ['public', 'restricted'],
@@ -145,6 +154,15 @@ export class PublishAction extends BaseRushAction {
       `This parameter is used with --pack parameter to provide customized location for the tarballs instead of ` +
       `the default value. `
     });
+    this._dryRunVerify = this.defineFlagParameter({
+      parameterLongName: '--dry-run-verify',
+      description:
+        `Packs every project with shouldPublish=true in rush.json (or with the version policy specified by ` +
+        `--version-policy) and inspects each tarball, without publishing anything. It reports "main" and ` +
+        `"typings" targets that are missing, files that are not matched by the "files" list, leaked ".env" ` +
+        `files or test fixtures, and dependencies that use workspace-only specifiers such as "file:". ` +
+        `The tarballs are written to the "publish-verify" folder under the common temp folder.`
+    });
     // End of NPM pack tarball related parameters
 
     this._includeAll = this.defineFlagParameter({
@@ -199,6 +217,14 @@ export class PublishAction extends BaseRushAction {
 
       this._validate();
 
+      if (this._dryRunVerify.value) {
+        this._verifyAll(allPackages);
+        return Promise.resolve();
+      }
+
+      const stopwatch: Stopwatch = Stopwatch.start();
+      this.eventHooksManager.handle(Event.preRushPublish, this.parser.isDebug, { commandName: this.actionName });
+
       if (this._includeAll.value) {
         this._publishAll(allPackages);
       } else {
@@ -210,6 +236,13 @@ export class PublishAction extends BaseRushAction {
         this._publishChanges(allPackages);
       }
 
+      stopwatch.stop();
+      this.eventHooksManager.handle(Event.postRushPublish, this.parser.isDebug, {
+        commandName: this.actionName,
+        success: true,
+        duration: stopwatch.duration
+      });
+
       console.log(EOL + colors.green('Rush publish finished successfully.'));
     });
   }
@@ -227,6 +260,9 @@ export class PublishAction extends BaseRushAction {
     if (this._registryUrl.value && this._pack.value) {
       throw new Error(`--registry cannot be used with --pack`);
     }
+    if (this._dryRunVerify.value && (this._publish.value || this._apply.value || this._pack.value)) {
+      throw new Error('--dry-run-verify cannot be used with --publish, --apply, or --pack');
+    }
   }
 
   private _publishChanges(allPackages: Map<string, RushConfigurationProject>): void {
@@ -237,6 +273,8 @@ export class PublishAction extends BaseRushAction {
 
     if (changeManager.hasChanges()) {
       const orderedChanges: IChangeInfo[] = changeManager.changes;
+      this._validateMajorLines(orderedChanges);
+
       const git: PublishGit = new PublishGit(this._targetBranch.value);
       const tempBranch: string = 'publish-' + new Date().getTime();
 
@@ -330,6 +368,63 @@ export class PublishAction extends BaseRushAction {
     }
   }
 
+  /**
+   * Packs the projects and inspects the tarballs.  If any problems are found, they are reported
+   * and AlreadyReportedError is thrown.
+   */
+  private _verifyAll(allPackages: Map<string, RushConfigurationProject>): void {
+    const verifyFolder: string = path.join(this.rushConfiguration.commonTempFolder, 'publish-verify');
+    FileSystem.ensureEmptyFolder(verifyFolder);
+
+    const verifier: PackageTarballVerifier = new PackageTarballVerifier(path.join(verifyFolder, 'extracted'));
+    const env: { [key: string]: string | undefined } = PublishUtilities.getEnvArgs();
+    let verifiedCount: number = 0;
+    let problemCount: number = 0;
+
+    allPackages.forEach((packageConfig, packageName) => {
+      if (packageConfig.shouldPublish &&
+        (!this._versionPolicy.value || this._versionPolicy.value === packageConfig.versionPolicyName)
+      ) {
+        // The tarball is always created, because nothing is published
+        PublishUtilities.execCommand(
+          true,
+          this.rushConfiguration.packageManagerToolFilename,
+          ['pack'],
+          packageConfig.projectFolder,
+          env
+        );
+
+        const tarballName: string = this._calculateTarballName(packageConfig);
+        const tarballPath: string = path.join(verifyFolder, tarballName);
+        FileSystem.move({
+          sourcePath: path.join(packageConfig.projectFolder, tarballName),
+          destinationPath: tarballPath,
+          overwrite: true
+        });
+
+        const problems: string[] = verifier.verify(tarballPath);
+        if (problems.length > 0) {
+          console.log(EOL + colors.red(`${packageName}:`));
+          for (const problem of problems) {
+            console.log(`  - ${problem}`);
+          }
+          problemCount += problems.length;
+        }
+        verifiedCount++;
+      }
+    });
+
+    FileSystem.deleteFolder(path.join(verifyFolder, 'extracted'));
+
+    if (problemCount > 0) {
+      console.log(EOL + colors.red(`Found ${problemCount} problem(s) in the package tarballs.`
+        + ` Nothing was published.`));
+      throw new AlreadyReportedError();
+    }
+
+    console.log(EOL + colors.green(`Verified ${verifiedCount} package tarball(s) in ${verifyFolder}`));
+  }
+
   private _gitAddTags(git: PublishGit, orderedChanges: IChangeInfo[]): void {
     for (const change of orderedChanges) {
       if (
@@ -349,10 +444,13 @@ export class PublishAction extends BaseRushAction {
     if (this.rushConfiguration.projectsByName.get(packageName)!.shouldPublish) {
       this._addSharedNpmConfig(env, args);
 
+      const majorLineDistTag: string | undefined = this._getMajorLineDistTag(packageName);
       if (this._npmTag.value) {
         args.push(`--tag`, this._npmTag.value);
       } else if (this._hotfixTagOverride) {
         args.push(`--tag`, this._hotfixTagOverride);
+      } else if (majorLineDistTag) {
+        args.push(`--tag`, majorLineDistTag);
       }
 
       if (this._force.value) {
@@ -378,6 +476,36 @@ export class PublishAction extends BaseRushAction {
     }
   }
 
+  /**
+   * Throws if a new version would cross the major line that the target branch publishes.
+   */
+  private _validateMajorLines(changes: IChangeInfo[]): void {
+    for (const change of changes) {
+      const project: RushConfigurationProject | undefined = this.rushConfiguration.getProjectByName(
+        change.packageName);
+      if (project && project.versionPolicy instanceof IndividualVersionPolicy && change.newVersion) {
+        const majorLine: IMajorLineJson | undefined = project.versionPolicy.getMajorLine(this._targetBranch.value);
+        if (majorLine && semver.major(change.newVersion) !== majorLine.major) {
+          throw new Error(`Cannot publish version ${change.newVersion} of ${change.packageName}, because the`
+            + ` branches that match "${majorLine.branchPattern}" publish major version ${majorLine.major}.`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the npm dist-tag of the major line that the target branch publishes, if there is one.
+   */
+  private _getMajorLineDistTag(packageName: string): string | undefined {
+    const versionPolicy: VersionPolicy | undefined = this.rushConfiguration.getProjectByName(packageName)!
+      .versionPolicy;
+    if (versionPolicy instanceof IndividualVersionPolicy) {
+      const majorLine: IMajorLineJson | undefined = versionPolicy.getMajorLine(this._targetBranch.value);
+      return majorLine && majorLine.distTag;
+    }
+    return undefined;
+  }
+
   private _packageExists(packageConfig: RushConfigurationProject): boolean {
     const env: { [key: string]: string | undefined } = PublishUtilities.getEnvArgs();
     const args: string[] = [];
@@ -1,7 +1,8 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import { CommandLineFlagParameter } from '@microsoft/ts-command-line';
+import * as path from 'path';
+import { CommandLineFlagParameter, CommandLineStringParameter } from '@microsoft/ts-command-line';
 
 import { BaseInstallAction } from './BaseInstallAction';
 import { IInstallManagerOptions } from '../../logic/InstallManager';
@@ -10,6 +11,7 @@ import { RushCommandLineParser } from '../RushCommandLineParser';
 export class UpdateAction extends BaseInstallAction {
   private _fullParameter: CommandLineFlagParameter;
   private _recheckParameter: CommandLineFlagParameter;
+  private _shrinkwrapDiffFileParameter: CommandLineStringParameter;
 
   constructor(parser: RushCommandLineParser) {
     super({
@@ -50,6 +52,14 @@ export class UpdateAction extends BaseInstallAction {
         + ' to process the shrinkwrap file.  This will also update your shrinkwrap file with Rush\'s fixups.'
         + ' (To minimize shrinkwrap churn, these fixups are normally performed only in the temporary folder.)'
     });
+    this._shrinkwrapDiffFileParameter = this.defineStringParameter({
+      parameterLongName: '--shrinkwrap-diff-file',
+      argumentName: 'FILE',
+      description: 'Whenever the shrinkwrap file is updated, "rush update" prints a summary of the packages that'
+        + ' were added, removed, or changed to a different version, together with the projects that pulled them in.'
+        + ' If this parameter is specified, the summary is also written to the file as markdown,'
+        + ' e.g. for a pull request comment.  If no packages were changed, the file is deleted.'
+    });
   }
 
   protected buildInstallOptions(): IInstallManagerOptions {
@@ -62,7 +72,11 @@ export class UpdateAction extends BaseInstallAction {
       recheckShrinkwrap: this._recheckParameter.value!,
       networkConcurrency: this._networkConcurrencyParameter.value,
       collectLogFile: this._debugPackageManagerParameter.value!,
-      variant: this._variant.value
+      variant: this._variant.value,
+      offline: false,
+      shrinkwrapDiffFile: this._shrinkwrapDiffFileParameter.value
+        ? path.resolve(this._shrinkwrapDiffFileParameter.value)
+        : undefined
     };
   }
 }
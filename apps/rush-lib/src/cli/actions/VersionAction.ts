@@ -23,6 +23,8 @@ import { VersionManager } from '../../logic/VersionManager';
 import { PublishGit } from '../../logic/PublishGit';
 import { Git } from '../../logic/Git';
 import { CommonVersionsConfiguration } from '../../api/CommonVersionsConfiguration';
+import { Event } from '../../api/EventHooks';
+import { Stopwatch } from '../../utilities/Stopwatch';
 
 export const DEFAULT_PACKAGE_UPDATE_MESSAGE: string = 'Applying package updates.';
 
@@ -30,6 +32,7 @@ export class VersionAction extends BaseRushAction {
   private _ensureVersionPolicy: CommandLineFlagParameter;
   private _overrideVersion: CommandLineStringParameter;
   private _bumpVersion: CommandLineFlagParameter;
+  private _promoteChannel: CommandLineStringParameter;
   private _versionPolicy: CommandLineStringParameter;
   private _bypassPolicy: CommandLineFlagParameter;
   private _targetBranch: CommandLineStringParameter;
@@ -53,7 +56,9 @@ export class VersionAction extends BaseRushAction {
       parameterShortName: '-b',
       argumentName: 'BRANCH',
       description:
-      'If this flag is specified, changes will be committed and merged into the target branch.'
+      'If this flag is specified, changes will be committed and merged into the target branch.' +
+      ' The target branch also selects the major lines of the individual version policies; without' +
+      ' this flag, the current Git branch is used.'
     });
     this._ensureVersionPolicy = this.defineFlagParameter({
       parameterLongName: '--ensure-version-policy',
@@ -69,6 +74,14 @@ export class VersionAction extends BaseRushAction {
       parameterLongName: '--bump',
       description: 'Bumps package version based on version policies.'
     });
+    this._promoteChannel = this.defineStringParameter({
+      parameterLongName: '--promote',
+      argumentName: 'CHANNEL',
+      description: 'Graduates the prerelease versions on the specified release channel to stable versions,' +
+        ' e.g. "2.0.0-beta.3" to "2.0.0", for the specified --version-policy or all version policies that' +
+        ' declare the channel in "releaseChannels". The ranges of the dependent projects are updated, and' +
+        ' the change files from the prerelease are consolidated into one changelog entry per project.'
+    });
     this._bypassPolicy = this.defineFlagParameter({
       parameterLongName: '--bypass-policy',
       description: 'Overrides "gitPolicy" enforcement (use honorably!)'
@@ -103,13 +116,16 @@ export class VersionAction extends BaseRushAction {
 
       this._validateInput();
 
+      const stopwatch: Stopwatch = Stopwatch.start();
+      this.eventHooksManager.handle(Event.preRushVersion, this.parser.isDebug, { commandName: this.actionName });
+
       this._versionManager = new VersionManager(this.rushConfiguration, userEmail);
 
       if (this._ensureVersionPolicy.value) {
         this._overwritePolicyVersionIfNeeded();
         const tempBranch: string = 'version/ensure-' + new Date().getTime();
         this._versionManager.ensure(this._versionPolicy.value, true,
-          !!this._overrideVersion.value || !!this._prereleaseIdentifier.value);
+          !!this._overrideVersion.value || !!this._prereleaseIdentifier.value, this._targetBranch.value);
 
         const updatedPackages: Map<string, IPackageJson> = this._versionManager.updatedProjects;
         if (updatedPackages.size > 0) {
@@ -121,9 +137,22 @@ export class VersionAction extends BaseRushAction {
         this._versionManager.bump(this._versionPolicy.value,
           this._overwriteBump.value ? BumpType[this._overwriteBump.value] : undefined,
           this._prereleaseIdentifier.value,
-          true);
+          true,
+          this._targetBranch.value);
+        this._gitProcess(tempBranch);
+      } else if (this._promoteChannel.value) {
+        const tempBranch: string = 'version/promote-' + new Date().getTime();
+        this._versionManager.promote(this._promoteChannel.value, this._versionPolicy.value, true);
         this._gitProcess(tempBranch);
       }
+
+      stopwatch.stop();
+      this.eventHooksManager.handle(Event.postRushVersion, this.parser.isDebug, {
+        commandName: this.actionName,
+        projects: Array.from(this._versionManager.updatedProjects.keys()).map((name: string) => ({ name })),
+        success: true,
+        duration: stopwatch.duration
+      });
     });
   }
 
@@ -144,6 +173,11 @@ export class VersionAction extends BaseRushAction {
       if (!policy || !policy.isLockstepped) {
         throw new Error(`The lockstep version policy "${policy.policyName}" is not found.`);
       }
+      if (this._prereleaseIdentifier.value && policy.releaseChannels.length
+        && policy.releaseChannels.indexOf(this._prereleaseIdentifier.value) < 0) {
+        throw new Error(`The prerelease identifier "${this._prereleaseIdentifier.value}" is not one of the` +
+          ` release channels of the version policy "${policy.policyName}": ${policy.releaseChannels.join(', ')}`);
+      }
       let newVersion: string | undefined = undefined;
       if (this._overrideVersion.value) {
         newVersion = this._overrideVersion.value;
@@ -173,6 +207,10 @@ export class VersionAction extends BaseRushAction {
       throw new Error('Please choose --bump or --ensure-version-policy but not together.');
     }
 
+    if (this._promoteChannel.value && (this._bumpVersion.value || this._ensureVersionPolicy.value)) {
+      throw new Error('The --promote parameter cannot be used with --bump or --ensure-version-policy.');
+    }
+
     if (this._overwriteBump.value && !BumpType[this._overwriteBump.value]) {
       throw new Error('The value of override-bump is not valid.  ' +
       'Valid values include prerelease, patch, preminor, minor, and major');
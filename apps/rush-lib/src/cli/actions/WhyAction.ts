@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { CommandLineFlagParameter, CommandLineStringParameter } from '@microsoft/ts-command-line';
+import { JsonFile } from '@microsoft/node-core-library';
+
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { BaseRushAction } from './BaseRushAction';
+import { Variants } from '../../api/Variants';
+import { BaseShrinkwrapFile } from '../../logic/base/BaseShrinkwrapFile';
+import { DependencyExplainer } from '../../logic/DependencyExplainer';
+import { ShrinkwrapFileFactory } from '../../logic/ShrinkwrapFileFactory';
+
+export class WhyAction extends BaseRushAction {
+  private _packageParameter: CommandLineStringParameter;
+  private _jsonFlag: CommandLineFlagParameter;
+  private _variant: CommandLineStringParameter;
+
+  constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'why',
+      summary: 'Explains why a package is installed, by printing the dependency paths from the projects to it',
+      documentation: 'Explains why a package is installed, by printing the dependency paths from each Rush project'
+        + ' to the package, with the resolved version of each package on the path.  The paths are found by'
+        + ' walking the shrinkwrap file, starting with the dependencies that each project declares in its'
+        + ' package.json file.  For each of those dependencies, the shortest path to each version of the package'
+        + ' that it reaches is printed.'
+        + ' Other Rush projects that are linked instead of being installed are also reported.',
+      safeForSimultaneousRushProcesses: true,
+      parser
+    });
+  }
+
+  public get isMachineReadableOutput(): boolean {
+    return this._jsonFlag.value;
+  }
+
+  protected onDefineParameters(): void {
+    // The command-line parser does not support positional arguments, so like "rush add",
+    // the package name is passed as a parameter
+    this._packageParameter = this.defineStringParameter({
+      parameterLongName: '--package',
+      parameterShortName: '-p',
+      required: true,
+      argumentName: 'PACKAGE',
+      description: '(Required) The name of the package to explain, for example "lodash" or "@types/node".'
+    });
+    this._jsonFlag = this.defineFlagParameter({
+      parameterLongName: '--json',
+      description: 'If this flag is specified, the dependency paths will be printed as JSON.'
+    });
+    this._variant = this.defineStringParameter(Variants.VARIANT_PARAMETER);
+  }
+
+  protected run(): Promise<void> {
+    return Promise.resolve().then(() => {
+      const shrinkwrapFilename: string = this.rushConfiguration.getCommittedShrinkwrapFilename(this._variant.value);
+      const shrinkwrapFile: BaseShrinkwrapFile | undefined =
+        ShrinkwrapFileFactory.getShrinkwrapFile(this.rushConfiguration.packageManager, shrinkwrapFilename);
+      if (!shrinkwrapFile) {
+        throw new Error(`The shrinkwrap file "${shrinkwrapFilename}" does not exist.  Run "rush update" first.`);
+      }
+
+      const dependencyExplainer: DependencyExplainer = DependencyExplainer.explain(this.rushConfiguration,
+        shrinkwrapFile, this._packageParameter.value!);
+
+      if (this._jsonFlag.value) {
+        console.log(JsonFile.stringify(dependencyExplainer.toJson()));
+      } else {
+        dependencyExplainer.print();
+      }
+    });
+  }
+}
@@ -3,6 +3,7 @@
 
 import * as os from 'os';
 import * as colors from 'colors';
+import { Interleaver } from '@microsoft/stream-collator';
 
 import {
   Event
@@ -11,17 +12,27 @@ import {
 import {
   CommandLineFlagParameter,
   CommandLineStringParameter,
-  CommandLineStringListParameter,
   CommandLineParameterKind
 } from '@microsoft/ts-command-line';
 
 import { SetupChecks } from '../../logic/SetupChecks';
-import { TaskSelector } from '../../logic/TaskSelector';
+import { TaskSelector, ITaskSelectorConstructor } from '../../logic/TaskSelector';
+import { ProjectWatcher } from '../../logic/ProjectWatcher';
+import { IEventHookContext, IEventHookProjectContext } from '../../logic/EventHooksManager';
+import { ProjectTask } from '../../logic/taskRunner/ProjectTask';
+import { TaskStatus } from '../../logic/taskRunner/TaskStatus';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { SelectionParameterSet } from '../SelectionParameterSet';
 import { Stopwatch } from '../../utilities/Stopwatch';
 import { AlreadyReportedError } from '../../utilities/AlreadyReportedError';
 import { BaseScriptAction, IBaseScriptActionOptions } from './BaseScriptAction';
 import { FileSystem } from '@microsoft/node-core-library';
 
+/**
+ * In watch mode, how long to wait after the most recent file change before running the command.
+ */
+const WATCH_DEBOUNCE_MILLISECONDS: number = 500;
+
 /**
  * Constructor parameters for BulkScriptAction.
  */
@@ -30,6 +41,11 @@ export interface IBulkScriptActionOptions extends IBaseScriptActionOptions {
   ignoreMissingScript: boolean;
   ignoreDependencyOrder: boolean;
 
+  /**
+   * If specified, the command runs these scripts in order for each project, as separate tasks.
+   */
+  phases?: string[];
+
   /**
    * Optional command to run. Otherwise, use the `actionName` as the command to run.
    */
@@ -51,12 +67,12 @@ export class BulkScriptAction extends BaseScriptAction {
   private _commandToRun: string;
 
   private _changedProjectsOnly: CommandLineFlagParameter;
-  private _fromFlag: CommandLineStringListParameter;
-  private _toFlag: CommandLineStringListParameter;
-  private _toVersionPolicy: CommandLineStringListParameter;
+  private _selectionParameters: SelectionParameterSet;
   private _verboseParameter: CommandLineFlagParameter;
+  private _watchParameter: CommandLineFlagParameter;
   private _parallelismParameter: CommandLineStringParameter | undefined;
   private _ignoreDependencyOrder: boolean;
+  private _phases: string[] | undefined;
 
   constructor(
     options: IBulkScriptActionOptions
@@ -66,6 +82,7 @@ export class BulkScriptAction extends BaseScriptAction {
     this._ignoreMissingScript = options.ignoreMissingScript;
     this._commandToRun = options.commandToRun || options.actionName;
     this._ignoreDependencyOrder = options.ignoreDependencyOrder;
+    this._phases = options.phases;
   }
 
   public run(): Promise<void> {
@@ -94,36 +111,46 @@ export class BulkScriptAction extends BaseScriptAction {
 
     const changedProjectsOnly: boolean = this.actionName === 'build' && this._changedProjectsOnly.value;
 
-    const tasks: TaskSelector = new TaskSelector(
-      {
-        rushConfiguration: this.rushConfiguration,
-        toFlags: this._mergeToProjects(),
-        fromFlags: this._fromFlag.values,
-        commandToRun: this._commandToRun,
-        customParameterValues,
-        isQuietMode,
-        parallelism,
-        isIncrementalBuildAllowed: this.actionName === 'build',
-        changedProjectsOnly,
-        ignoreMissingScript: this._ignoreMissingScript,
-        ignoreDependencyOrder: this._ignoreDependencyOrder
-      }
-    );
+    const taskSelectorOptions: ITaskSelectorConstructor = {
+      ...this._selectionParameters.getSelection(this.rushConfiguration),
+      rushConfiguration: this.rushConfiguration,
+      commandToRun: this._commandToRun,
+      customParameterValues,
+      isQuietMode,
+      parallelism,
+      isIncrementalBuildAllowed: this.actionName === 'build',
+      changedProjectsOnly,
+      ignoreMissingScript: this._ignoreMissingScript,
+      ignoreDependencyOrder: this._ignoreDependencyOrder,
+      phases: this._phases,
+      eventHooksManager: this._isBuildCommand() ? this.eventHooksManager : undefined,
+      isDebug: this.parser.isDebug
+    };
+
+    if (this._watchParameter.value) {
+      return this._runWatchCycles(taskSelectorOptions);
+    }
+
+    const tasks: TaskSelector = new TaskSelector(taskSelectorOptions);
 
     return tasks.execute().then(
       () => {
         stopwatch.stop();
         console.log(colors.green(`rush ${this.actionName} (${stopwatch.toString()})`));
-        this._doAfterTask(stopwatch, true);
-      })
-      .catch((error: Error) => {
+        return true;
+      }, (error: Error) => {
         if (error && error.message) {
           console.log('Error: ' + error.message);
         }
         stopwatch.stop();
         console.log(colors.red(`rush ${this.actionName} - Errors! (${stopwatch.toString()})`));
-        this._doAfterTask(stopwatch, false);
-        throw new AlreadyReportedError();
+        return false;
+      })
+      .then((success: boolean) => {
+        this._doAfterTask(stopwatch, success, tasks);
+        if (!success) {
+          throw new AlreadyReportedError();
+        }
       });
   }
 
@@ -138,28 +165,18 @@ export class BulkScriptAction extends BaseScriptAction {
           + ' If this parameter omitted, the default value depends on the operating system and number of CPU cores.'
       });
     }
-    this._toFlag = this.defineStringListParameter({
-      parameterLongName: '--to',
-      parameterShortName: '-t',
-      argumentName: 'PROJECT1',
-      description: 'Run command in the specified project and all of its dependencies'
-    });
-    this._toVersionPolicy =  this.defineStringListParameter({
-      parameterLongName: '--to-version-policy',
-      argumentName: 'VERSION_POLICY_NAME',
-      description: 'Run command in all projects with the specified version policy and all of their dependencies'
-    });
-    this._fromFlag = this.defineStringListParameter({
-      parameterLongName: '--from',
-      parameterShortName: '-f',
-      argumentName: 'PROJECT2',
-      description: 'Run command in all projects that directly or indirectly depend on the specified project'
-    });
+    this._selectionParameters = new SelectionParameterSet(this);
     this._verboseParameter = this.defineFlagParameter({
       parameterLongName: '--verbose',
       parameterShortName: '-v',
       description: 'Display the logs during the build, rather than just displaying the build status summary'
     });
+    this._watchParameter = this.defineFlagParameter({
+      parameterLongName: '--watch',
+      description: 'After the command completes, keep watching the folders of the selected projects. When files'
+        + ' change, the command is run again for the changed projects and all of the selected projects that'
+        + ' directly or indirectly depend on them.'
+    });
     if (this.actionName === 'build') {
       this._changedProjectsOnly = this.defineFlagParameter({
         parameterLongName: '--changed-projects-only',
@@ -172,47 +189,129 @@ export class BulkScriptAction extends BaseScriptAction {
     this.defineScriptParameters();
   }
 
-  private _mergeToProjects(): string[] {
-    const projects: string[] = [...this._toFlag.values];
-    if (this._toVersionPolicy.values && this._toVersionPolicy.values.length) {
-      this.rushConfiguration.projects.forEach(project => {
-        const matches: boolean = this._toVersionPolicy.values.some(policyName => {
-          return project.versionPolicyName === policyName;
-        });
-        if (matches) {
-          projects.push(project.packageName);
+  /**
+   * Runs the command for the selected projects, and then runs it again for the affected projects
+   * each time that files change.  The returned promise never resolves unless an error occurs.
+   * Each cycle is reported like a separate command, so the build event hooks run and the telemetry
+   * is flushed after every cycle.
+   */
+  private _runWatchCycles(taskSelectorOptions: ITaskSelectorConstructor): Promise<void> {
+    const initialTasks: TaskSelector = new TaskSelector(taskSelectorOptions);
+    const selectedProjectNames: Set<string> = new Set<string>(
+      initialTasks.selectedProjects.map((project: RushConfigurationProject) => project.packageName)
+    );
+
+    const projectWatcher: ProjectWatcher = new ProjectWatcher({
+      rushConfiguration: this.rushConfiguration,
+      projects: initialTasks.selectedProjects,
+      debounceMilliseconds: WATCH_DEBOUNCE_MILLISECONDS
+    });
+
+    let cycleNumber: number = 1;
+
+    const runCycle: (tasks: TaskSelector) => Promise<void> = (tasks: TaskSelector) => {
+      const stopwatch: Stopwatch = Stopwatch.start();
+
+      // The task output collator remembers every task name, so it must be cleared before the names are reused
+      Interleaver.reset();
+
+      return tasks.execute().then(() => true, (error: Error) => {
+        if (error && error.message) {
+          console.log('Error: ' + error.message);
         }
+        return false;
+      }).then((succeeded: boolean) => {
+        stopwatch.stop();
+        if (succeeded) {
+          console.log(colors.green(`rush ${this.actionName} - watch cycle ${cycleNumber}`
+            + ` completed successfully (${stopwatch.toString()})`));
+        } else {
+          console.log(colors.red(`rush ${this.actionName} - watch cycle ${cycleNumber}`
+            + ` failed (${stopwatch.toString()})`));
+        }
+        this._doAfterTask(stopwatch, succeeded, tasks);
+
+        console.log(os.EOL + colors.cyan(`Watching ${selectedProjectNames.size} project(s) for changes.`
+          + ` Press Ctrl+C to exit.`));
+        return projectWatcher.waitForChangeAsync();
+      }).then((changedProjects: RushConfigurationProject[]) => {
+        cycleNumber++;
+
+        console.log(os.EOL + colors.cyan(`Watch cycle ${cycleNumber}: detected changes in `
+          + changedProjects.map((project: RushConfigurationProject) => project.packageName).join(', ')));
+
+        this._doBeforeTask();
+        return runCycle(new TaskSelector({
+          ...taskSelectorOptions,
+          toFlags: [],
+          fromFlags: changedProjects.map((project: RushConfigurationProject) => project.packageName),
+          onlyFlags: [],
+          impactedByFlags: [],
+          toExceptFlags: [],
+          changedSinceRef: undefined,
+          selectedProjectNames
+        }));
       });
-    }
-    return projects;
+    };
+
+    return runCycle(initialTasks);
+  }
+
+  private _isBuildCommand(): boolean {
+    return this.actionName === 'build' || this.actionName === 'rebuild';
   }
 
   private _doBeforeTask(): void {
-    if (this.actionName !== 'build' && this.actionName !== 'rebuild') {
+    if (!this._isBuildCommand()) {
       // Only collects information for built-in tasks like build or rebuild.
       return;
     }
 
     SetupChecks.validate(this.rushConfiguration);
 
-    this.eventHooksManager.handle(Event.preRushBuild, this.parser.isDebug);
+    this.eventHooksManager.handle(Event.preRushBuild, this.parser.isDebug, { commandName: this.actionName });
   }
 
-  private _doAfterTask(stopwatch: Stopwatch, success: boolean): void {
-    if (this.actionName !== 'build' && this.actionName !== 'rebuild') {
+  private _doAfterTask(stopwatch: Stopwatch, success: boolean, tasks: TaskSelector): void {
+    if (!this._isBuildCommand()) {
       // Only collects information for built-in tasks like build or rebuild.
       return;
     }
-    this._collectTelemetry(stopwatch, success);
+    const taskResults: IEventHookProjectContext[] = tasks.getTaskResults();
+    this._collectTelemetry(stopwatch, success, taskResults);
     this.parser.flushTelemetry();
-    this.eventHooksManager.handle(Event.postRushBuild, this.parser.isDebug);
-  }
 
-  private _collectTelemetry(stopwatch: Stopwatch, success: boolean): void {
-    const extraData: { [key: string]: string } = {
-      command_to: (this._toFlag.values.length > 0).toString(),
-      command_from: (this._fromFlag.values.length > 0).toString()
+    const context: IEventHookContext = {
+      commandName: this.actionName,
+      projects: taskResults,
+      success,
+      duration: stopwatch.duration
     };
+    if (!success) {
+      this.eventHooksManager.handle(Event.rushBuildFailure, this.parser.isDebug, context);
+    }
+    this.eventHooksManager.handle(Event.postRushBuild, this.parser.isDebug, context);
+  }
+
+  private _collectTelemetry(stopwatch: Stopwatch, success: boolean, taskResults: IEventHookProjectContext[]): void {
+    const extraData: { [key: string]: string } = {};
+    this._selectionParameters.appendTelemetryData(extraData);
+
+    const taskDurations: { [taskName: string]: number } = {};
+    const cacheHits: string[] = [];
+    for (const taskResult of taskResults) {
+      const taskName: string = ProjectTask.getTaskName(taskResult.name, taskResult.phaseName);
+      if (taskResult.duration !== undefined) {
+        taskDurations[taskName] = taskResult.duration;
+      }
+      if (taskResult.status === TaskStatus.FromCache) {
+        cacheHits.push(taskName);
+      }
+    }
+    extraData.taskCount = taskResults.length.toString();
+    extraData.taskDurations = JSON.stringify(taskDurations);
+    extraData.cacheHitCount = cacheHits.length.toString();
+    extraData.cacheHits = JSON.stringify(cacheHits);
 
     for (const customParameter of this.customParameters) {
       switch (customParameter.kind) {
@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+/**
+ * Mock RushCommandLineParser itself to prevent `process.exit` to be called on failure
+ */
+jest.mock('../RushCommandLineParser', () => {
+  // tslint:disable-next-line: no-any
+  const actualModule: any = jest.requireActual('../RushCommandLineParser');
+  if (actualModule.RushCommandLineParser) {
+    // Stub out the troublesome method that calls `process.exit`
+    actualModule.RushCommandLineParser.prototype._reportErrorAndSetExitCode = mockReportErrorAndSetExitCode;
+  }
+  return actualModule;
+
+  function mockReportErrorAndSetExitCode(error: Error): void {
+    // Just rethrow the error so the unit tests can catch it
+    throw error;
+  }
+});
+
+import * as path from 'path';
+import gitInfo = require('git-repo-info');
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { IChangeFile } from '../../api/ChangeManagement';
+import { Git } from '../../logic/Git';
+import { VersionControl } from '../../utilities/VersionControl';
+import { RushCommandLineParser } from '../RushCommandLineParser';
+
+const repoFolder: string = path.join(__dirname, 'bulkChangeRepo');
+const changesFolder: string = path.join(repoFolder, 'common', 'changes');
+
+describe('ChangeAction', () => {
+  describe('with --bulk', () => {
+    let getChangedFoldersSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {
+        // do nothing
+      });
+      getChangedFoldersSpy = jest.spyOn(VersionControl, 'getChangedFolders').mockReturnValue(['a/src/', 'b/']);
+      jest.spyOn(VersionControl, 'getChangedFiles').mockReturnValue([]);
+      jest.spyOn(Git, 'tryGetGitEmail').mockReturnValue('test@example.com');
+      jest.spyOn(Git, 'getGitInfo').mockReturnValue({ branch: 'bulk' } as gitInfo.GitRepoInfo);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      FileSystem.deleteFolder(changesFolder);
+    });
+
+    function executeChange(args: string[]): Promise<void> {
+      const parser: RushCommandLineParser = new RushCommandLineParser({
+        cwd: repoFolder,
+        printStartupBanner: jest.fn()
+      });
+      return parser.executeWithoutErrorHandling(['change', '--bulk', '--target-branch', 'master', ...args]);
+    }
+
+    function loadChangeFile(packageName: string): IChangeFile {
+      const packageChangesFolder: string = path.join(changesFolder, packageName);
+      const filenames: string[] = FileSystem.readFolder(packageChangesFolder);
+      expect(filenames.length).toEqual(1);
+      return JsonFile.load(path.join(packageChangesFolder, filenames[0]));
+    }
+
+    it('writes the message, bump type and custom fields for every changed project', () => {
+      return executeChange(['--message', 'Update the dependencies', '--bump-type', 'minor',
+        '--field', 'area=api', '--field', 'internal=true'])
+        .then(() => {
+          expect(loadChangeFile('a')).toEqual({
+            changes: [{
+              packageName: 'a',
+              comment: 'Update the dependencies',
+              type: 'minor',
+              customFields: { area: 'api', internal: true }
+            }],
+            packageName: 'a',
+            email: 'test@example.com'
+          });
+          expect(loadChangeFile('b').changes[0].type).toEqual('minor');
+        });
+    });
+
+    it('rejects a bump type that the version policy does not allow', () => {
+      return expect(executeChange(['--message', 'Update the dependencies', '--bump-type', 'major',
+        '--field', 'area=api']))
+        .rejects.toThrowError(/The bump type "major" is not allowed for b/)
+        .then(() => {
+          expect(FileSystem.exists(changesFolder)).toEqual(false);
+        });
+    });
+
+    it('requires the message and the bump type', () => {
+      return expect(executeChange(['--bump-type', 'patch', '--field', 'area=api']))
+        .rejects.toThrowError(/The --message parameter is required/)
+        .then(() => {
+          return expect(executeChange(['--message', 'Update the dependencies', '--field', 'area=api']))
+            .rejects.toThrowError(/The --bump-type parameter is required/);
+        });
+    });
+
+    it('validates the custom fields before looking for changes', () => {
+      return expect(executeChange(['--message', 'Update the dependencies', '--bump-type', 'patch']))
+        .rejects.toThrowError(/The custom field "area" is required/)
+        .then(() => {
+          return expect(executeChange(['--message', 'Update the dependencies', '--bump-type', 'patch',
+            '--field', 'area=api', '--field', 'internal=yes']))
+            .rejects.toThrowError(/The custom field "internal" must be "true" or "false"/);
+        })
+        .then(() => {
+          expect(getChangedFoldersSpy).not.toHaveBeenCalled();
+          expect(FileSystem.exists(changesFolder)).toEqual(false);
+        });
+    });
+  });
+});
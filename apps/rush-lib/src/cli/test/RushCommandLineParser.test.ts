@@ -22,10 +22,15 @@ jest.mock('../RushCommandLineParser', () => {
   }
 });
 
+import * as fs from 'fs';
 import { resolve } from 'path';
 import { ChildProcessModuleMock, ISpawnMockConfig } from 'child_process';
 import { FileSystem } from '@microsoft/node-core-library';
 import { Interleaver } from '@microsoft/stream-collator';
+import { Event } from '../../api/EventHooks';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { EventHooksManager } from '../../logic/EventHooksManager';
+import { ProjectWatcher } from '../../logic/ProjectWatcher';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 
 /**
@@ -48,6 +53,9 @@ function getCommandLineParserInstance(repoName: string, taskName: string): IPars
   FileSystem.deleteFile(resolve(__dirname, `${repoName}/a/package-deps.json`));
   FileSystem.deleteFile(resolve(__dirname, `${repoName}/b/package-deps.json`));
 
+  // The task durations recorded by a previous run would affect the order that the tasks are executed in.
+  FileSystem.deleteFolder(resolve(__dirname, `${repoName}/common/temp/timeline`));
+
   // Create a Rush CLI instance. This instance is heavy-weight and relies on setting process.exit
   // to exit and clear the Rush file lock. So running multiple `it` or `describe` test blocks over the same test
   // repo will fail due to contention over the same lock which is kept until the test runner process
@@ -278,5 +286,123 @@ describe('RushCommandLineParser', () => {
         }).toThrowError('"safeForSimultaneousRushProcesses=true". This configuration is not supported');
       });
     });
+
+    describe(`in repo with a phased command`, () => {
+      it(`runs each phase after the previous phase of the project and the same phase of its dependencies`, () => {
+        const repoName: string = 'phasedCommandRepo';
+        const instance: IParserTestInstance = getCommandLineParserInstance(repoName, 'phased');
+
+        expect.assertions(6);
+        return expect(instance.parser.execute()).resolves.toEqual(true)
+          .then(() => {
+            // There should be 1 task per phase of each package
+            const scripts: string[] = instance.spawnMock.mock.calls.map((call: [string, string[]]) => {
+              return (call[SPAWN_ARG_ARGS] as string[]).join(' ').match(/fake_(\w+)_but_works_with_mock/)![1];
+            });
+            expect(scripts.length).toEqual(4);
+
+            expect(scripts.indexOf('compile_a')).toBeLessThan(scripts.indexOf('test_a'));
+            expect(scripts.indexOf('compile_b')).toBeLessThan(scripts.indexOf('test_b'));
+            expect(scripts.indexOf('compile_a')).toBeLessThan(scripts.indexOf('compile_b'));
+            expect(scripts.indexOf('test_a')).toBeLessThan(scripts.indexOf('test_b'));
+          });
+      });
+    });
+  });
+
+  describe(`'build' action with --watch`, () => {
+    afterEach(() => {
+      Interleaver.reset();
+      jest.restoreAllMocks();
+    });
+
+    it('runs the event hooks and flushes the telemetry after each watch cycle', () => {
+      const instance: IParserTestInstance = getCommandLineParserInstance('basicAndRunBuildActionRepo', 'build');
+      const projectA: RushConfigurationProject = instance.parser.rushConfiguration.getProjectByName('a')!;
+
+      jest.spyOn(console, 'log').mockImplementation(() => {
+        // do nothing
+      });
+      jest.spyOn(fs, 'watch').mockReturnValue({ close: jest.fn() });
+      // The second cycle is followed by an error, which is the only way that the watch loop ends
+      jest.spyOn(ProjectWatcher.prototype, 'waitForChangeAsync')
+        .mockResolvedValueOnce([projectA])
+        .mockRejectedValueOnce(new Error('Stop watching'));
+      const handleSpy: jest.SpyInstance = jest.spyOn(EventHooksManager.prototype, 'handle');
+      const flushTelemetrySpy: jest.SpyInstance = jest.spyOn(RushCommandLineParser.prototype, 'flushTelemetry');
+
+      return expect(instance.parser.executeWithoutErrorHandling(['build', '--watch']))
+        .rejects.toThrowError(/Stop watching/)
+        .then(() => {
+          const events: Event[] = handleSpy.mock.calls.map((args: [Event]) => args[0]);
+          expect(events).toEqual([Event.preRushBuild, Event.postRushBuild, Event.preRushBuild, Event.postRushBuild]);
+          expect(flushTelemetrySpy).toHaveBeenCalledTimes(2);
+        });
+    });
+  });
+
+  describe('startup banner', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    function executeList(args: string[]): Promise<jest.Mock> {
+      jest.spyOn(console, 'log').mockImplementation(() => {
+        // do nothing
+      });
+      const printStartupBanner: jest.Mock = jest.fn();
+      const parser: RushCommandLineParser = new RushCommandLineParser({
+        cwd: resolve(__dirname, 'basicAndRunBuildActionRepo'),
+        printStartupBanner
+      });
+      return parser.execute(['list', ...args]).then(() => printStartupBanner);
+    }
+
+    function mockProcessExit(): void {
+      // The parser of an action exits the process after it prints the help or reports an error
+      jest.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+    }
+
+    it('is printed for an action', () => {
+      return executeList([]).then((printStartupBanner: jest.Mock) => {
+        expect(printStartupBanner).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('is printed before the parser reports that the command line is invalid', () => {
+      const writeSpy: jest.SpyInstance = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      jest.spyOn(console, 'error').mockImplementation(() => {
+        // do nothing
+      });
+      mockProcessExit();
+      return executeList(['--bogus']).then((printStartupBanner: jest.Mock) => {
+        expect(printStartupBanner).toHaveBeenCalledTimes(1);
+        expect(writeSpy).toHaveBeenCalled();
+        expect(printStartupBanner.mock.invocationCallOrder[0]).toBeLessThan(writeSpy.mock.invocationCallOrder[0]);
+      });
+    });
+
+    it('is printed before the help', () => {
+      const writeSpy: jest.SpyInstance = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      jest.spyOn(console, 'error').mockImplementation(() => {
+        // do nothing
+      });
+      mockProcessExit();
+      return executeList(['--help']).then((printStartupBanner: jest.Mock) => {
+        expect(printStartupBanner).toHaveBeenCalledTimes(1);
+        expect(writeSpy).toHaveBeenCalled();
+        expect(printStartupBanner.mock.invocationCallOrder[0]).toBeLessThan(writeSpy.mock.invocationCallOrder[0]);
+      });
+    });
+
+    it('is not printed for machine-readable output', () => {
+      return executeList(['--json']).then((printStartupBanner: jest.Mock) => {
+        expect(printStartupBanner).not.toHaveBeenCalled();
+        const output: string = (console.log as jest.Mock).mock.calls.map((args: string[]) => args[0]).join('');
+        expect(JSON.parse(output).projects.length).toEqual(2);
+      });
+    });
   });
 });
\ No newline at end of file
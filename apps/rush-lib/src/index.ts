@@ -41,7 +41,8 @@ export {
 } from './api/ApprovedPackagesConfiguration';
 
 export {
-  CommonVersionsConfiguration
+  CommonVersionsConfiguration,
+  ICommonVersionsBannedVersion
 } from './api/CommonVersionsConfiguration';
 
 export {
@@ -52,7 +53,9 @@ export {
 
 export {
   EventHooks,
-  Event
+  Event,
+  EventHookFailurePolicy,
+  IEventHook
 } from './api/EventHooks';
 
 export {
@@ -75,4 +78,17 @@ export {
   VersionPolicyConfiguration
 } from './api/VersionPolicyConfiguration';
 
+export {
+  IRushPolicy,
+  IPolicyViolation
+} from './logic/policy/RushPolicy';
+
+export {
+  ITelemetrySink
+} from './logic/telemetrySinks/TelemetrySink';
+
+export {
+  ITelemetryData
+} from './logic/Telemetry';
+
 export { Rush } from './api/Rush';
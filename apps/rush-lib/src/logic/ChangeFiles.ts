@@ -2,11 +2,16 @@
 // See LICENSE in the project root for license information.
 
 import { EOL } from 'os';
+import * as path from 'path';
 import * as glob from 'glob';
 
 import { Utilities } from '../utilities/Utilities';
-import { IChangeInfo } from '../api/ChangeManagement';
+import { IChangeInfo, IChangeFile } from '../api/ChangeManagement';
 import { IChangelog } from '../api/Changelog';
+import { ChangeFile } from '../api/ChangeFile';
+import { ChangeFieldsConfiguration } from '../api/ChangeFieldsConfiguration';
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConstants } from './RushConstants';
 import { JsonFile } from '@microsoft/node-core-library';
 
 /**
@@ -23,21 +28,32 @@ export class ChangeFiles {
 
   /**
    * Validate if the newly added change files match the changed packages.
+   * If the Rush configuration is provided, the contents of each change file are also validated
+   * against the custom fields from change-fields.json.
    */
   public static validate(
     newChangeFilePaths: string[],
-    changedPackages: string[]
+    changedPackages: string[],
+    rushConfiguration?: RushConfiguration
   ): void {
+    const changeFieldsConfiguration: ChangeFieldsConfiguration | undefined = rushConfiguration
+      && ChangeFieldsConfiguration.loadFromFileOrDefault(
+        path.join(rushConfiguration.commonRushConfigFolder, RushConstants.changeFieldsFilename));
+
     const projectsWithChangeDescriptions: Set<string> = new Set<string>();
     newChangeFilePaths.forEach((filePath) => {
       console.log(`Found change file: ${filePath}`);
 
-      const changeFile: IChangeInfo = JsonFile.load(filePath);
+      const changeFile: IChangeFile = JsonFile.load(filePath);
       if (changeFile && changeFile.changes) {
         changeFile.changes.forEach(change => projectsWithChangeDescriptions.add(change.packageName));
       } else {
         throw new Error(`Invalid change file: ${filePath}`);
       }
+
+      if (rushConfiguration && changeFieldsConfiguration) {
+        new ChangeFile(changeFile, rushConfiguration).validate(changeFieldsConfiguration);
+      }
     });
 
     const projectsMissingChangeDescriptions: Set<string> = new Set(changedPackages);
@@ -12,6 +12,7 @@ import { PublishUtilities, IChangeInfoHash } from './PublishUtilities';
 import { ChangeFiles } from './ChangeFiles';
 import { PrereleaseToken } from './PrereleaseToken';
 import { ChangelogGenerator } from './ChangelogGenerator';
+import { ConventionalCommitChangeDetector } from './ConventionalCommitChangeDetector';
 
 /**
  * The class manages change files and controls how changes logged by change files
@@ -35,7 +36,7 @@ export class ChangeManager {
   }
 
   /**
-   * Load changes from change files
+   * Load changes from change files, and from the commit messages if the "conventionalCommits" feature is enabled
    * @param changesPath - location of change files
    * @param prereleaseToken - prerelease token
    * @param includeCommitDetails - whether commit details need to be included in changes
@@ -50,13 +51,21 @@ export class ChangeManager {
     this._prereleaseToken = prereleaseToken;
 
     this._changeFiles = new ChangeFiles(changesPath);
+
+    let inferredChanges: IChangeInfo[] = [];
+    if (this._rushConfiguration.conventionalCommits.enabled) {
+      console.log('Finding changes in the conventional commits since each package was published or bumped');
+      inferredChanges = new ConventionalCommitChangeDetector(this._rushConfiguration).getChanges();
+    }
+
     this._allChanges = PublishUtilities.findChangeRequests(
       this._allPackages,
       this._rushConfiguration,
       this._changeFiles,
       includeCommitDetails,
       this._prereleaseToken,
-      this._lockStepProjectsToExclude
+      this._lockStepProjectsToExclude,
+      inferredChanges
       );
     this._orderedChanges = PublishUtilities.sortChangeRequests(this._allChanges);
   }
@@ -73,7 +82,12 @@ export class ChangeManager {
     return this._allPackages;
   }
 
-  public validateChanges(versionConfig: VersionPolicyConfiguration): void {
+  /**
+   * Throws if a new version does not satisfy the version policy of its project.
+   * @param targetBranch - the branch that the versions are published from. Without this value,
+   * the current Git branch is used.
+   */
+  public validateChanges(versionConfig: VersionPolicyConfiguration, targetBranch?: string): void {
     Object
       .keys(this._allChanges)
       .filter((key) => {
@@ -81,7 +95,7 @@ export class ChangeManager {
         if (projectInfo) {
           if (projectInfo.versionPolicy) {
             const changeInfo: IChangeInfo = this._allChanges[key];
-            projectInfo.versionPolicy.validate(changeInfo.newVersion!, key);
+            projectInfo.versionPolicy.validate(changeInfo.newVersion!, key, targetBranch);
           }
         }
       });
@@ -120,6 +134,7 @@ export class ChangeManager {
         this._rushConfiguration,
         shouldCommit
       );
+      ChangelogGenerator.writeReleaseSummary(updatedChangelogs, this._rushConfiguration, shouldCommit);
 
       // Remove the change request files only if "-a" was provided.
       this._changeFiles.deleteAll(shouldCommit, updatedChangelogs);
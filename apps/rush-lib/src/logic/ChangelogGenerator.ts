@@ -23,12 +23,37 @@ import {
   IChangeLogComment
 } from '../api/Changelog';
 import { RushConfigurationProject } from '../api/RushConfigurationProject';
-import { RushConfiguration } from '../api/RushConfiguration';
+import {
+  RushConfiguration,
+  ChangelogRendererName
+} from '../api/RushConfiguration';
+import { ChangelogRenderer } from './changelogRenderers/ChangelogRenderer';
+import { MarkdownChangelogRenderer } from './changelogRenderers/MarkdownChangelogRenderer';
+import { HtmlChangelogRenderer } from './changelogRenderers/HtmlChangelogRenderer';
+import { CustomChangelogRenderer } from './changelogRenderers/CustomChangelogRenderer';
 
 const CHANGELOG_JSON: string = 'CHANGELOG.json';
 const CHANGELOG_MD: string = 'CHANGELOG.md';
 const EOL: string = '\n';
 
+/**
+ * Part of IReleaseSummaryJson.
+ */
+interface IReleaseSummaryPackageJson {
+  name: string;
+  version: string;
+  tag: string;
+  comments: IChangeLogEntry['comments'];
+}
+
+/**
+ * The release summary that is written when "changelogOptions/releaseSummaryFile" ends with ".json".
+ */
+interface IReleaseSummaryJson {
+  date: string;
+  packages: IReleaseSummaryPackageJson[];
+}
+
 export class ChangelogGenerator {
   /**
    * Updates the appropriate changelogs with the given changes.
@@ -65,31 +90,37 @@ export class ChangelogGenerator {
   }
 
   /**
-   * Fully regenerate the markdown files based on the current json files.
+   * Fully regenerate the markdown files based on the current json files.  CHANGELOG.md is only regenerated
+   * if it exists.  The other formats from the "changelogOptions" setting in rush.json are written for every
+   * CHANGELOG.json, so that a newly selected format is created for the existing changelogs.
    */
   public static regenerateChangelogs(
     allProjects: Map<string, RushConfigurationProject>,
     rushConfiguration: RushConfiguration
   ): void {
+    const renderers: ChangelogRenderer[] = ChangelogGenerator._getRenderers(rushConfiguration);
+
     allProjects.forEach(project => {
       const markdownPath: string = path.resolve(project.projectFolder, CHANGELOG_MD);
       const markdownJSONPath: string = path.resolve(project.projectFolder, CHANGELOG_JSON);
+      const isLockstepped: boolean = !!project.versionPolicy && project.versionPolicy.isLockstepped;
 
-      if (FileSystem.exists(markdownPath)) {
+      const hasMarkdown: boolean = FileSystem.exists(markdownPath);
+      if (hasMarkdown) {
         console.log('Found: ' + markdownPath);
         if (!FileSystem.exists(markdownJSONPath)) {
           throw new Error('A CHANGELOG.md without json: ' + markdownPath);
         }
+      }
 
+      const projectRenderers: ChangelogRenderer[] = renderers.filter(renderer => {
+        return hasMarkdown || renderer.outputFilename !== CHANGELOG_MD;
+      });
+      if (projectRenderers.length > 0 && FileSystem.exists(markdownJSONPath)) {
         const changelog: IChangelog = ChangelogGenerator._getChangelog(project.packageName, project.projectFolder);
-        const isLockstepped: boolean = !!project.versionPolicy && project.versionPolicy.isLockstepped;
-
-        FileSystem.writeFile(
-          path.join(project.projectFolder, CHANGELOG_MD),
-          ChangelogGenerator._translateToMarkdown(changelog, rushConfiguration, isLockstepped)
-        );
+        ChangelogGenerator._writeRenderedChangelogs(changelog, project.projectFolder, projectRenderers,
+          isLockstepped);
       }
-
     });
   }
 
@@ -138,6 +169,15 @@ export class ChangelogGenerator {
           if (individualChange.commit) {
             changeLogComment.commit = individualChange.commit;
           }
+          if (individualChange.breakingChangeNote) {
+            changeLogComment.breakingChangeNote = individualChange.breakingChangeNote;
+          }
+          if (individualChange.issues && individualChange.issues.length > 0) {
+            changeLogComment.issues = individualChange.issues;
+          }
+          if (individualChange.customFields && Object.keys(individualChange.customFields).length > 0) {
+            changeLogComment.customFields = individualChange.customFields;
+          }
           comments.push(changeLogComment);
         }
       });
@@ -153,13 +193,11 @@ export class ChangelogGenerator {
       );
 
       if (shouldCommit) {
-        // Write markdown transform.
         JsonFile.save(changelog, changelogFilename);
 
-        FileSystem.writeFile(
-          path.join(projectFolder, CHANGELOG_MD),
-          ChangelogGenerator._translateToMarkdown(changelog, rushConfiguration, isLockstepped)
-        );
+        // Write the formats from rush.json, e.g. CHANGELOG.md.
+        ChangelogGenerator._writeRenderedChangelogs(changelog, projectFolder,
+          ChangelogGenerator._getRenderers(rushConfiguration), isLockstepped);
       }
       return changelog;
     }
@@ -168,112 +206,137 @@ export class ChangelogGenerator {
   }
 
   /**
-   * Loads the changelog json from disk, or creates a new one if there isn't one.
+   * Writes the "changelogOptions/releaseSummaryFile" from rush.json, which lists every package that was
+   * bumped by the current "rush publish" run.  If the setting is not specified, nothing is written.
    */
-  private static _getChangelog(packageName: string, projectFolder: string): IChangelog {
-    const changelogFilename: string = path.join(projectFolder, CHANGELOG_JSON);
-    let changelog: IChangelog | undefined = undefined;
-
-    // Try to read the existing changelog.
-    if (FileSystem.exists(changelogFilename)) {
-      changelog = JsonFile.load(changelogFilename);
+  public static writeReleaseSummary(
+    updatedChangelogs: IChangelog[],
+    rushConfiguration: RushConfiguration,
+    shouldCommit: boolean
+  ): void {
+    const releaseSummaryFile: string | undefined = rushConfiguration.changelogOptions.releaseSummaryFile;
+    if (!releaseSummaryFile || updatedChangelogs.length === 0) {
+      return;
     }
 
-    if (!changelog) {
-      changelog = {
-        name: packageName,
-        entries: []
-      };
-    } else {
-      // Force the changelog name to be same as package name.
-      // In case the package has been renamed but change log name is not updated.
-      changelog.name = packageName;
+    const releaseSummaryPath: string = path.resolve(rushConfiguration.rushJsonFolder, releaseSummaryFile);
+    const relativeToChangesFolder: string = path.relative(rushConfiguration.changesFolder, releaseSummaryPath);
+    if (relativeToChangesFolder.indexOf('..') !== 0 && !path.isAbsolute(relativeToChangesFolder)) {
+      // Otherwise it would be mistaken for a change file
+      throw new Error(`The release summary file "${releaseSummaryFile}" cannot be in the changes folder`);
     }
 
-    return changelog;
+    const releaseSummary: IReleaseSummaryJson = {
+      date: new Date().toUTCString(),
+      packages: updatedChangelogs.map((changelog: IChangelog): IReleaseSummaryPackageJson => {
+        const entry: IChangeLogEntry = changelog.entries[0];
+        return {
+          name: changelog.name,
+          version: entry.version,
+          tag: entry.tag,
+          comments: entry.comments
+        };
+      })
+    };
+
+    console.log(
+      `${EOL}* ${shouldCommit ? 'APPLYING' : 'DRYRUN'}: ` +
+      `Release summary for ${releaseSummary.packages.length} package(s) in "${releaseSummaryPath}".`
+    );
+
+    if (shouldCommit) {
+      if (path.extname(releaseSummaryPath).toLowerCase() === '.json') {
+        JsonFile.save(releaseSummary, releaseSummaryPath, { ensureFolderExists: true });
+      } else {
+        FileSystem.writeFile(releaseSummaryPath, ChangelogGenerator._getReleaseSummaryMarkdown(releaseSummary),
+          { ensureFolderExists: true });
+      }
+    }
   }
 
   /**
-   * Translates the given changelog json object into a markdown string.
+   * Creates the renderers for the formats that are selected by the "changelogOptions" setting in rush.json.
+   * By default, only CHANGELOG.md is written.
    */
-  private static _translateToMarkdown(
-    changelog: IChangelog,
-    rushConfiguration: RushConfiguration,
-    isLockstepped: boolean = false
-  ): string {
-    let markdown: string = [
-      `# Change Log - ${changelog.name}`,
-      '',
-      `This log was last generated on ${new Date().toUTCString()} and should not be manually modified.`,
-      '',
-      ''
-    ].join(EOL);
-
-    changelog.entries.forEach((entry, index) => {
-      markdown += `## ${entry.version}${EOL}`;
-
-      if (entry.date) {
-        markdown += `${entry.date}${EOL}`;
+  private static _getRenderers(rushConfiguration: RushConfiguration): ChangelogRenderer[] {
+    const rendererNames: ChangelogRendererName[] = rushConfiguration.changelogOptions.renderers || ['markdown'];
+    const renderers: ChangelogRenderer[] = [];
+    for (const rendererName of rendererNames) {
+      switch (rendererName) {
+        case 'markdown':
+          renderers.push(new MarkdownChangelogRenderer(rushConfiguration));
+          break;
+        case 'html':
+          renderers.push(new HtmlChangelogRenderer(rushConfiguration));
+          break;
+        default:
+          throw new Error(`Unsupported changelog renderer "${rendererName}"`);
       }
+    }
 
-      markdown += EOL;
-
-      let comments: string = '';
-
-      comments += ChangelogGenerator._getChangeComments(
-        'Breaking changes',
-        entry.comments[ChangeType[ChangeType.major]]);
-
-      comments += ChangelogGenerator._getChangeComments(
-        'Minor changes',
-        entry.comments[ChangeType[ChangeType.minor]]);
-
-      comments += ChangelogGenerator._getChangeComments(
-        'Patches',
-        entry.comments[ChangeType[ChangeType.patch]]);
+    for (const customRendererJson of rushConfiguration.changelogOptions.customRenderers || []) {
+      renderers.push(new CustomChangelogRenderer(rushConfiguration, customRendererJson));
+    }
 
-      if (isLockstepped) {
-        // In lockstepped projects, all changes are of type ChangeType.none.
-        comments += ChangelogGenerator._getChangeComments(
-          'Updates',
-          entry.comments[ChangeType[ChangeType.none]]);
-      }
+    return renderers;
+  }
 
-      if (rushConfiguration.hotfixChangeEnabled) {
-        comments += ChangelogGenerator._getChangeComments(
-          'Hotfixes',
-          entry.comments[ChangeType[ChangeType.hotfix]]);
-      }
+  private static _writeRenderedChangelogs(
+    changelog: IChangelog,
+    projectFolder: string,
+    renderers: ChangelogRenderer[],
+    isLockstepped: boolean
+  ): void {
+    for (const renderer of renderers) {
+      FileSystem.writeFile(
+        path.join(projectFolder, renderer.outputFilename),
+        renderer.render(changelog, isLockstepped)
+      );
+    }
+  }
 
-      if (!comments) {
-        markdown += ((changelog.entries.length === index + 1) ?
-          '*Initial release*' :
-          '*Version update only*') +
-          EOL + EOL;
-      } else {
-        markdown += comments;
-      }
+  private static _getReleaseSummaryMarkdown(releaseSummary: IReleaseSummaryJson): string {
+    const lines: string[] = [
+      `# Release summary`,
+      '',
+      `This release was published on ${releaseSummary.date}.`,
+      '',
+      '| Package | Version |',
+      '| --- | --- |'
+    ];
 
-    });
+    for (const releasedPackage of releaseSummary.packages) {
+      lines.push(`| ${releasedPackage.name} | ${releasedPackage.version} |`);
+    }
 
-    return markdown;
+    lines.push('');
+    return lines.join(EOL);
   }
 
   /**
-   * Helper to return the comments string to be appends to the markdown content.
+   * Loads the changelog json from disk, or creates a new one if there isn't one.
    */
-  private static _getChangeComments(title: string, commentsArray: IChangeLogComment[]): string {
-    let comments: string = '';
+  private static _getChangelog(packageName: string, projectFolder: string): IChangelog {
+    const changelogFilename: string = path.join(projectFolder, CHANGELOG_JSON);
+    let changelog: IChangelog | undefined = undefined;
 
-    if (commentsArray) {
-      comments = `### ${title}${EOL + EOL}`;
-      commentsArray.forEach(comment => {
-        comments += `- ${comment.comment}${EOL}`;
-      });
-      comments += EOL;
+    // Try to read the existing changelog.
+    if (FileSystem.exists(changelogFilename)) {
+      changelog = JsonFile.load(changelogFilename);
+    }
+
+    if (!changelog) {
+      changelog = {
+        name: packageName,
+        entries: []
+      };
+    } else {
+      // Force the changelog name to be same as package name.
+      // In case the package has been renamed but change log name is not updated.
+      changelog.name = packageName;
     }
 
-    return comments;
+    return changelog;
   }
 
   /**
@@ -0,0 +1,167 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { FileConstants } from '@microsoft/node-core-library';
+
+import { ChangeType, IChangeInfo } from '../api/ChangeManagement';
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { Git, IGitCommit } from './Git';
+import { PublishUtilities } from './PublishUtilities';
+
+/**
+ * The parts of a conventional-commit header, e.g. "feat(parser)!: add arrays".
+ */
+export interface IConventionalCommitHeader {
+  type: string;
+  scope?: string;
+  description: string;
+
+  /**
+   * True if the header has a "!" after the type, or the message has a "BREAKING CHANGE:" footer.
+   */
+  isBreaking: boolean;
+
+  /**
+   * The text of the "BREAKING CHANGE:" footer, if there is one.
+   */
+  breakingChangeNote?: string;
+}
+
+const HEADER_REGEX: RegExp = /^(\w+)(?:\(([^)]*)\))?(!)?: *(.+)$/;
+const BREAKING_CHANGE_FOOTER_REGEX: RegExp = /^BREAKING[ -]CHANGE: *([\s\S]*)$/m;
+
+const DEFAULT_PATCH_TYPES: string[] = ['fix', 'perf'];
+
+// Matches the "version" field of package.json, in the POSIX syntax that "git log -G" expects.  The quotes
+// are matched with "." because the arguments of Utilities.executeCommandAndCaptureOutput() are quoted for the shell.
+const VERSION_FIELD_REGEX: string = '^[[:space:]]*.version.[[:space:]]*:';
+
+/**
+ * Synthesizes change requests from the conventional-commit headers of the commits since each project
+ * was last published or bumped.  This is the alternative to change files that is enabled by the
+ * "conventionalCommits" setting in rush.json.  See https://www.conventionalcommits.org/ for the commit
+ * message format.
+ */
+export class ConventionalCommitChangeDetector {
+  private _rushConfiguration: RushConfiguration;
+  private _patchTypes: Set<string>;
+
+  /**
+   * Parses the header of a commit message.  Returns undefined if the message does not follow
+   * the conventional-commit format.
+   */
+  public static parseCommitMessage(message: string): IConventionalCommitHeader | undefined {
+    const headerMatch: RegExpMatchArray | null = message.split('\n')[0].trim().match(HEADER_REGEX);
+    if (!headerMatch) {
+      return undefined;
+    }
+
+    const header: IConventionalCommitHeader = {
+      type: headerMatch[1].toLowerCase(),
+      description: headerMatch[4].trim(),
+      isBreaking: !!headerMatch[3]
+    };
+    if (headerMatch[2]) {
+      header.scope = headerMatch[2];
+    }
+
+    const footerMatch: RegExpMatchArray | null = message.match(BREAKING_CHANGE_FOOTER_REGEX);
+    if (footerMatch) {
+      header.isBreaking = true;
+      header.breakingChangeNote = footerMatch[1].trim();
+    }
+
+    return header;
+  }
+
+  public constructor(rushConfiguration: RushConfiguration) {
+    this._rushConfiguration = rushConfiguration;
+    this._patchTypes = new Set<string>(rushConfiguration.conventionalCommits.patchTypes || DEFAULT_PATCH_TYPES);
+  }
+
+  /**
+   * Returns the change type that the commit produces, or undefined if it does not require a version bump.
+   */
+  public getChangeType(header: IConventionalCommitHeader): ChangeType | undefined {
+    if (header.isBreaking) {
+      return ChangeType.major;
+    } else if (header.type === 'feat') {
+      return ChangeType.minor;
+    } else if (this._patchTypes.has(header.type)) {
+      return ChangeType.patch;
+    }
+    return undefined;
+  }
+
+  /**
+   * Scans the Git history of every published project, and returns a change request for each commit
+   * that requires a version bump.  Only the commits after the project's most recent publish tag, and after
+   * the most recent commit that changed the "version" field of its package.json, are scanned.  Thus
+   * a bump that "rush version --bump" or "rush publish --apply" committed consumes the earlier commits,
+   * even though only "rush publish --publish" creates the publish tag.  A project that has neither,
+   * such as a new project whose package.json hasn't been committed yet, is scanned from the beginning.
+   */
+  public getChanges(): IChangeInfo[] {
+    const changes: IChangeInfo[] = [];
+
+    for (const project of this._rushConfiguration.projects) {
+      if (project.shouldPublish) {
+        changes.push(...this._getProjectChanges(project));
+      }
+    }
+
+    return changes;
+  }
+
+  private _getProjectChanges(project: RushConfigurationProject): IChangeInfo[] {
+    const excludedRefs: string[] = [];
+
+    // Example: "my-package_v[0-9]*", which doesn't match the tags of "my-package_vendor"
+    const tagPattern: string = PublishUtilities.createTagname(project.packageName, '[0-9]*');
+    const publishTag: string | undefined = Git.getLatestTag(tagPattern, project.projectFolder);
+    if (publishTag) {
+      excludedRefs.push(publishTag);
+    }
+
+    const versionCommit: string | undefined = Git.getLatestCommitChangingLine(VERSION_FIELD_REGEX,
+      FileConstants.PackageJson, project.projectFolder);
+    if (versionCommit) {
+      excludedRefs.push(versionCommit);
+    }
+
+    const changes: IChangeInfo[] = [];
+    for (const commit of Git.getCommits(excludedRefs, project.projectFolder)) {
+      const change: IChangeInfo | undefined = this._getCommitChange(project, commit);
+      if (change) {
+        changes.push(change);
+      }
+    }
+    return changes;
+  }
+
+  private _getCommitChange(project: RushConfigurationProject, commit: IGitCommit): IChangeInfo | undefined {
+    const header: IConventionalCommitHeader | undefined =
+      ConventionalCommitChangeDetector.parseCommitMessage(commit.message);
+    if (!header) {
+      return undefined;
+    }
+
+    const changeType: ChangeType | undefined = this.getChangeType(header);
+    if (changeType === undefined) {
+      return undefined;
+    }
+
+    const change: IChangeInfo = {
+      packageName: project.packageName,
+      type: ChangeType[changeType],
+      comment: header.scope ? `${header.scope}: ${header.description}` : header.description,
+      author: commit.authorEmail,
+      commit: commit.hash
+    };
+    if (header.breakingChangeNote) {
+      change.breakingChangeNote = header.breakingChangeNote;
+    }
+    return change;
+  }
+}
@@ -0,0 +1,200 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as colors from 'colors';
+import * as os from 'os';
+import * as semver from 'semver';
+
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { DependencyType, PackageJsonDependency } from '../api/PackageJsonEditor';
+import { BaseShrinkwrapFile, IShrinkwrapPackage } from './base/BaseShrinkwrapFile';
+
+/**
+ * A chain of dependencies from a Rush project to the package that is being explained.
+ */
+export interface IDependencyPath {
+  projectName: string;
+
+  /**
+   * How the project's package.json declares the first package of the path, or undefined if it
+   * is not declared, e.g. because the shrinkwrap file is out of date.
+   */
+  dependencyType: DependencyType | undefined;
+
+  /**
+   * The version specifier from the project's package.json, e.g. "^1.2.0".
+   */
+  versionSpecifier: string | undefined;
+
+  /**
+   * The packages on the path with their resolved versions, ending with the package that is being explained.
+   */
+  packages: IShrinkwrapPackage[];
+
+  /**
+   * True if the package is another Rush project, which is linked instead of being installed.
+   * In this case, the path only contains the package.
+   */
+  isLocalProject: boolean;
+}
+
+/**
+ * Part of IDependencyExplanationJson.
+ */
+interface IDependencyPathJson {
+  project: string;
+  dependencyType?: string;
+  versionSpecifier?: string;
+  isLocalProject: boolean;
+  path: IShrinkwrapPackage[];
+}
+
+/**
+ * The output of "rush why --json".
+ */
+export interface IDependencyExplanationJson {
+  packageName: string;
+
+  /**
+   * The versions of the package that are installed or linked, sorted by SemVer.
+   */
+  versions: string[];
+  paths: IDependencyPathJson[];
+}
+
+/**
+ * This class explains why a package is installed, by finding the dependency paths from each Rush
+ * project to the package.  The paths are found by walking the dependency graph of the shrinkwrap
+ * file, starting with the dependencies that each project declares in its package.json file.  For each
+ * of those dependencies, the shortest path to each version of the package that it reaches is reported.
+ */
+export class DependencyExplainer {
+  private _packageName: string;
+  private _paths: IDependencyPath[];
+
+  public static explain(rushConfiguration: RushConfiguration, shrinkwrapFile: BaseShrinkwrapFile,
+    packageName: string): DependencyExplainer {
+
+    const localProject: RushConfigurationProject | undefined = rushConfiguration.getProjectByName(packageName);
+    const paths: IDependencyPath[] = [];
+    for (const project of rushConfiguration.projects) {
+      const declaredDependency: PackageJsonDependency | undefined =
+        DependencyExplainer._getDeclaredDependency(project, packageName);
+
+      // A Rush project is linked if its version satisfies the dependency, unless the dependency is cyclic
+      if (localProject && declaredDependency && !project.cyclicDependencyProjects.has(packageName)
+        && semver.satisfies(localProject.packageJson.version, declaredDependency.version)) {
+        paths.push({
+          projectName: project.packageName,
+          dependencyType: declaredDependency.dependencyType,
+          versionSpecifier: declaredDependency.version,
+          packages: [{ name: packageName, version: localProject.packageJson.version }],
+          isLocalProject: true
+        });
+      }
+
+      for (const packages of shrinkwrapFile.getDependencyPaths(project.tempProjectName, packageName)) {
+        const dependency: PackageJsonDependency | undefined =
+          DependencyExplainer._getDeclaredDependency(project, packages[0].name);
+        paths.push({
+          projectName: project.packageName,
+          dependencyType: dependency ? dependency.dependencyType : undefined,
+          versionSpecifier: dependency ? dependency.version : undefined,
+          packages,
+          isLocalProject: false
+        });
+      }
+    }
+
+    return new DependencyExplainer(packageName, paths);
+  }
+
+  private static _getDeclaredDependency(project: RushConfigurationProject,
+    packageName: string): PackageJsonDependency | undefined {
+    return project.packageJsonEditor.tryGetDependency(packageName)
+      || project.packageJsonEditor.tryGetDevDependency(packageName);
+  }
+
+  private static _formatPackage(shrinkwrapPackage: IShrinkwrapPackage): string {
+    return `${shrinkwrapPackage.name}@${shrinkwrapPackage.version}`;
+  }
+
+  /**
+   * The dependency paths, grouped by project in the order of rush.json.
+   */
+  public get paths(): ReadonlyArray<IDependencyPath> {
+    return this._paths;
+  }
+
+  /**
+   * The versions of the package that are installed or linked, sorted by SemVer.
+   */
+  public get versions(): string[] {
+    const versions: Set<string> = new Set<string>();
+    for (const dependencyPath of this._paths) {
+      versions.add(dependencyPath.packages[dependencyPath.packages.length - 1].version);
+    }
+    return Array.from(versions).sort((a: string, b: string) => {
+      return semver.valid(a) && semver.valid(b) ? semver.compare(a, b) : a.localeCompare(b);
+    });
+  }
+
+  /**
+   * Prints the dependency paths to the console.
+   */
+  public print(): void {
+    if (this._paths.length === 0) {
+      console.log(colors.yellow(`No project depends on "${this._packageName}".`));
+      return;
+    }
+
+    console.log(`Found ${this._paths.length} dependency path(s) to ${colors.cyan(this._packageName)}`
+      + ` (${this.versions.join(', ')})`);
+
+    let projectName: string | undefined = undefined;
+    for (const dependencyPath of this._paths) {
+      if (dependencyPath.projectName !== projectName) {
+        projectName = dependencyPath.projectName;
+        console.log(os.EOL + colors.bold(projectName));
+      }
+
+      let declaration: string = dependencyPath.dependencyType
+        ? `${dependencyPath.dependencyType} "${dependencyPath.versionSpecifier}"`
+        : 'not declared in package.json';
+      if (dependencyPath.isLocalProject) {
+        declaration += ', local project';
+      }
+
+      const packages: string[] = dependencyPath.packages.map(DependencyExplainer._formatPackage);
+      packages[0] += colors.gray(` (${declaration})`);
+      console.log('  ' + packages.join(' > '));
+    }
+  }
+
+  public toJson(): IDependencyExplanationJson {
+    return {
+      packageName: this._packageName,
+      versions: this.versions,
+      paths: this._paths.map((dependencyPath: IDependencyPath): IDependencyPathJson => {
+        const pathJson: IDependencyPathJson = {
+          project: dependencyPath.projectName,
+          isLocalProject: dependencyPath.isLocalProject,
+          path: dependencyPath.packages
+        };
+
+        // The optional members are omitted rather than set to undefined
+        if (dependencyPath.dependencyType) {
+          pathJson.dependencyType = dependencyPath.dependencyType;
+          pathJson.versionSpecifier = dependencyPath.versionSpecifier;
+        }
+        return pathJson;
+      })
+    };
+  }
+
+  private constructor(packageName: string, paths: IDependencyPath[]) {
+    this._packageName = packageName;
+    this._paths = paths;
+  }
+}
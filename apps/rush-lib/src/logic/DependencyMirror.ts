@@ -0,0 +1,212 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as glob from 'glob';
+import * as os from 'os';
+import * as path from 'path';
+import globEscape = require('glob-escape');
+import { FileSystem, Text } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../api/RushConfiguration';
+import { BaseShrinkwrapFile, IShrinkwrapPackage } from './base/BaseShrinkwrapFile';
+import { Utilities } from '../utilities/Utilities';
+
+/**
+ * The number of tarballs that are passed to a single "npm cache add" command.
+ */
+const NPM_CACHE_ADD_BATCH_SIZE: number = 50;
+
+/**
+ * This class manages the tarball mirror folder that is configured by the "offlineInstall" setting
+ * in rush.json.  It is used by "rush mirror-dependencies" to populate the folder, and by
+ * "rush install --offline" to check that every package in the shrinkwrap file can be installed
+ * without contacting a registry.
+ */
+export class DependencyMirror {
+  private _rushConfiguration: RushConfiguration;
+
+  /**
+   * True if preparePackageManager() replaced the .yarnrc file in common/temp.
+   */
+  private _isYarnrcReplaced: boolean = false;
+
+  /**
+   * The contents of the replaced .yarnrc file, or undefined if there was no such file.
+   */
+  private _originalYarnrc: string | undefined;
+
+  /**
+   * Returns the name of the mirrored tarball for a package.  This follows the naming convention of
+   * Yarn's offline mirror, so that Yarn can install from the folder directly.
+   *
+   * Example: "@scope/my-package" version "1.2.3" --> "@scope-my-package-1.2.3.tgz"
+   */
+  public static getTarballFilename(shrinkwrapPackage: IShrinkwrapPackage): string {
+    return `${shrinkwrapPackage.name.replace('/', '-')}-${shrinkwrapPackage.version}.tgz`;
+  }
+
+  public constructor(rushConfiguration: RushConfiguration) {
+    this._rushConfiguration = rushConfiguration;
+  }
+
+  /**
+   * The absolute path of the tarball mirror folder, or undefined if it is not configured in rush.json.
+   */
+  public get mirrorFolder(): string | undefined {
+    const mirrorFolder: string | undefined = this._rushConfiguration.offlineInstall.mirrorFolder;
+    return mirrorFolder ? path.resolve(this._rushConfiguration.rushJsonFolder, mirrorFolder) : undefined;
+  }
+
+  /**
+   * Returns the packages from the shrinkwrap file that can be found neither in the package manager store
+   * nor in the tarball mirror folder.
+   */
+  public getMissingPackages(shrinkwrapFile: BaseShrinkwrapFile): IShrinkwrapPackage[] {
+    return shrinkwrapFile.getRegistryPackages().filter((shrinkwrapPackage: IShrinkwrapPackage) => {
+      return !this._isInStore(shrinkwrapPackage) && !this._isMirrored(shrinkwrapPackage);
+    });
+  }
+
+  /**
+   * Makes the mirrored tarballs available to the package manager, so that an offline install can use them.
+   * For NPM, the tarballs are added to the NPM cache.  For Yarn, the mirror folder is configured as
+   * Yarn's offline mirror, until restorePackageManager() is called.
+   */
+  public preparePackageManager(shrinkwrapFile: BaseShrinkwrapFile): void {
+    const mirrorFolder: string | undefined = this.mirrorFolder;
+    if (!mirrorFolder || !FileSystem.exists(mirrorFolder)) {
+      return;
+    }
+
+    if (this._rushConfiguration.packageManager === 'npm') {
+      // The NPM cache is indexed by content, so we can't tell which packages are already in it
+      const tarballPaths: string[] = shrinkwrapFile.getRegistryPackages()
+        .filter((shrinkwrapPackage: IShrinkwrapPackage) => this._isMirrored(shrinkwrapPackage))
+        .map((shrinkwrapPackage: IShrinkwrapPackage) => {
+          return path.join(mirrorFolder, DependencyMirror.getTarballFilename(shrinkwrapPackage));
+        });
+
+      console.log(os.EOL + `Adding ${tarballPaths.length} mirrored tarballs to the NPM cache`);
+      for (let i: number = 0; i < tarballPaths.length; i += NPM_CACHE_ADD_BATCH_SIZE) {
+        Utilities.executeCommand(this._rushConfiguration.packageManagerToolFilename,
+          ['cache', 'add', ...tarballPaths.slice(i, i + NPM_CACHE_ADD_BATCH_SIZE),
+            '--cache', this._rushConfiguration.npmCacheFolder],
+          this._rushConfiguration.commonTempFolder, undefined, true);
+      }
+    } else if (this._rushConfiguration.packageManager === 'yarn') {
+      // Yarn looks for the .yarnrc file in the current folder
+      const yarnrcPath: string = path.join(this._rushConfiguration.commonTempFolder, '.yarnrc');
+      console.log(os.EOL + `Configuring the Yarn offline mirror in ${yarnrcPath}`);
+      this._originalYarnrc = FileSystem.exists(yarnrcPath) ? FileSystem.readFile(yarnrcPath) : undefined;
+      this._isYarnrcReplaced = true;
+      FileSystem.writeFile(yarnrcPath, `yarn-offline-mirror ${JSON.stringify(mirrorFolder)}` + os.EOL);
+    }
+  }
+
+  /**
+   * Undoes the configuration of preparePackageManager() that would affect later installs, which are
+   * not necessarily offline.  The .yarnrc file in common/temp is restored, or deleted if it didn't exist.
+   * The tarballs that were added to the NPM cache are kept.
+   */
+  public restorePackageManager(): void {
+    if (!this._isYarnrcReplaced) {
+      return;
+    }
+
+    const yarnrcPath: string = path.join(this._rushConfiguration.commonTempFolder, '.yarnrc');
+    if (this._originalYarnrc !== undefined) {
+      FileSystem.writeFile(yarnrcPath, this._originalYarnrc);
+    } else {
+      FileSystem.deleteFile(yarnrcPath);
+    }
+    this._isYarnrcReplaced = false;
+    this._originalYarnrc = undefined;
+  }
+
+  /**
+   * Downloads the tarball of every package in the shrinkwrap file that is not in the mirror folder yet,
+   * using the registry that is configured by the .npmrc file in common/config/rush.
+   *
+   * @returns the packages that were downloaded
+   */
+  public mirrorPackages(shrinkwrapFile: BaseShrinkwrapFile, mirrorFolder: string): IShrinkwrapPackage[] {
+    if (this._rushConfiguration.packageManager === 'pnpm') {
+      throw new Error('The tarball mirror folder is not supported for PNPM, whose offline installs'
+        + ' can only use the packages in the PNPM store.');
+    }
+
+    FileSystem.ensureFolder(mirrorFolder);
+
+    const missingPackages: IShrinkwrapPackage[] = shrinkwrapFile.getRegistryPackages()
+      .filter((shrinkwrapPackage: IShrinkwrapPackage) => !this._isMirrored(shrinkwrapPackage, mirrorFolder));
+    if (missingPackages.length === 0) {
+      return missingPackages;
+    }
+
+    // Example: "C:\MyRepo\common\temp\mirror-download"
+    const downloadFolder: string = path.join(this._rushConfiguration.commonTempFolder, 'mirror-download');
+    FileSystem.ensureEmptyFolder(downloadFolder);
+    Utilities.syncNpmrc(this._rushConfiguration.commonRushConfigFolder, downloadFolder);
+
+    for (const shrinkwrapPackage of missingPackages) {
+      const packageSpecifier: string = `${shrinkwrapPackage.name}@${shrinkwrapPackage.version}`;
+      console.log(`Downloading ${packageSpecifier}`);
+
+      // NOTE: Here we use whatever version of NPM we happen to find in the PATH.  It prints the name
+      // of the tarball on the last line.
+      const output: string = Utilities.executeCommandAndCaptureOutput('npm', ['pack', packageSpecifier],
+        downloadFolder);
+      const outputLines: string[] = Text.convertToLf(output).trim().split('\n');
+
+      FileSystem.move({
+        sourcePath: path.join(downloadFolder, outputLines[outputLines.length - 1].trim()),
+        destinationPath: path.join(mirrorFolder, DependencyMirror.getTarballFilename(shrinkwrapPackage)),
+        overwrite: true
+      });
+    }
+
+    FileSystem.deleteFolder(downloadFolder);
+    return missingPackages;
+  }
+
+  /**
+   * Returns true if the package is in the package manager store.
+   *
+   * NOTE: This is always false for NPM.  The NPM cache is indexed by the hashes of the request URLs and
+   * the tarball contents, so a package can't be found by its name and version.  Thus an offline install
+   * with NPM requires every package to be in the mirror folder.
+   */
+  private _isInStore(shrinkwrapPackage: IShrinkwrapPackage): boolean {
+    let pattern: string;
+    if (this._rushConfiguration.packageManager === 'pnpm') {
+      // Example: "C:/MyRepo/common/temp/pnpm-store/2/registry.npmjs.org/@scope/my-package/1.2.3"
+      pattern = this._getGlobPath(this._rushConfiguration.pnpmStoreFolder)
+        + `/*/*/${globEscape(shrinkwrapPackage.name)}/${globEscape(shrinkwrapPackage.version)}`;
+    } else if (this._rushConfiguration.packageManager === 'yarn') {
+      // Example: "C:/MyRepo/common/temp/yarn-cache/v4/npm-@scope-my-package-1.2.3-0123abcd"
+      const slug: string = `${shrinkwrapPackage.name.replace('/', '-')}-${shrinkwrapPackage.version}`;
+      pattern = this._getGlobPath(this._rushConfiguration.yarnCacheFolder) + `/v*/npm-${globEscape(slug)}-*`;
+    } else {
+      return false;
+    }
+
+    return glob.sync(pattern).length > 0;
+  }
+
+  private _isMirrored(shrinkwrapPackage: IShrinkwrapPackage, mirrorFolder?: string): boolean {
+    if (!mirrorFolder) {
+      if (this._rushConfiguration.packageManager === 'pnpm') {
+        return false;
+      }
+      mirrorFolder = this.mirrorFolder;
+    }
+
+    return !!mirrorFolder
+      && FileSystem.exists(path.join(mirrorFolder, DependencyMirror.getTarballFilename(shrinkwrapPackage)));
+  }
+
+  private _getGlobPath(folderPath: string): string {
+    // Glob can't handle Windows paths
+    return globEscape(Text.replaceAll(folderPath, '\\', '/'));
+  }
+}
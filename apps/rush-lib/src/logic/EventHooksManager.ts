@@ -1,14 +1,67 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import * as child_process from 'child_process';
 import * as os from 'os';
+import * as path from 'path';
 import * as colors from 'colors';
+import { JsonFile } from '@microsoft/node-core-library';
 
-import { EventHooks } from '../api/EventHooks';
-import { Utilities } from '../utilities/Utilities';
+import { EventHooks, IEventHook } from '../api/EventHooks';
+import { ILifecycleCommandOptions, Utilities } from '../utilities/Utilities';
 import { Event } from '../api/EventHooks';
 import { Stopwatch } from '../utilities/Stopwatch';
 import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConstants } from './RushConstants';
+import { AlreadyReportedError } from '../utilities/AlreadyReportedError';
+
+/**
+ * Describes a project in the context of an event.
+ */
+export interface IEventHookProjectContext {
+  name: string;
+
+  /**
+   * If the command is divided into phases, the phase that the task runs.
+   */
+  phaseName?: string;
+
+  /**
+   * The status of the project's task, e.g. "SUCCESS", if it has finished.
+   */
+  status?: string;
+
+  /**
+   * The duration of the project's task in seconds, if it has finished.
+   */
+  duration?: number;
+}
+
+/**
+ * Describes the Rush command that triggered an event.  It is saved to a JSON file, whose path is
+ * passed to the event hooks by the RUSH_EVENT_CONTEXT_FILE environment variable.
+ */
+export interface IEventHookContext {
+  /**
+   * The name of the Rush command, e.g. "build".
+   */
+  commandName: string;
+
+  /**
+   * The projects that the command operates on.
+   */
+  projects?: IEventHookProjectContext[];
+
+  /**
+   * For the events that occur after a command finishes, true if the command succeeded.
+   */
+  success?: boolean;
+
+  /**
+   * For the events that occur after a command finishes, the duration of the command in seconds.
+   */
+  duration?: number;
+}
 
 export class EventHooksManager {
   private _rushConfiguration: RushConfiguration;
@@ -21,39 +74,133 @@ export class EventHooksManager {
     this._commonTempFolder = rushConfiguration.commonTempFolder;
   }
 
-  public handle(event: Event, isDebug: boolean): void {
-    if (!this._eventHooks) {
-      return;
-    }
-
-    const scripts: string[] = this._eventHooks.get(event);
-    if (scripts.length > 0) {
+  /**
+   * Runs the hooks for the event.  If a hook whose failure policy is "fail" fails, an AlreadyReportedError
+   * is thrown, and the remaining hooks are not run.
+   */
+  public handle(event: Event, isDebug: boolean, context: IEventHookContext): void {
+    const hooks: IEventHook[] = this._getHooks(event);
+    if (hooks.length > 0) {
       const stopwatch: Stopwatch = Stopwatch.start();
-      console.log(os.EOL + colors.green(`Executing event hooks for ${Event[event]}`));
-      scripts.forEach((script) => {
+      const contextFilePath: string = this._startHooks(event, context);
+
+      hooks.forEach((hook: IEventHook) => {
         try {
-          Utilities.executeLifecycleCommand(
-            script,
-            {
-              rushConfiguration: this._rushConfiguration,
-              workingDirectory: process.cwd(),
-              initCwd: this._commonTempFolder,
-              handleOutput: true,
-              environmentPathOptions: {
-                includeRepoBin: true
-              }
-            }
-          );
+          Utilities.executeLifecycleCommand(hook.command, this._getLifecycleCommandOptions(contextFilePath));
         } catch (error) {
-          console.error(`${os.EOL} Event hook "${script}" failed. Run "rush" with --debug` +
-            ` to see detailed error information.`);
-          if (isDebug) {
-            console.error(os.EOL + error.message);
-          }
+          this._handleHookFailure(hook, isDebug, error);
         }
       });
-      stopwatch.stop();
-      console.log(os.EOL + colors.green(`Event hooks finished. (${stopwatch.toString()})`));
+      this._finishHooks(stopwatch);
+    }
+  }
+
+  /**
+   * Runs the hooks for the event like handle(), without blocking the process while a hook is running.
+   * The preProjectBuild and postProjectBuild hooks use this, so that the other tasks of the build
+   * can run at the same time.  If a hook whose failure policy is "fail" fails, the promise is rejected
+   * with an AlreadyReportedError, and the remaining hooks are not run.
+   */
+  public handleAsync(event: Event, isDebug: boolean, context: IEventHookContext): Promise<void> {
+    const hooks: IEventHook[] = this._getHooks(event);
+    if (hooks.length === 0) {
+      return Promise.resolve();
+    }
+
+    const stopwatch: Stopwatch = Stopwatch.start();
+    const contextFilePath: string = this._startHooks(event, context);
+
+    let promise: Promise<void> = Promise.resolve();
+    for (const hook of hooks) {
+      promise = promise.then(() => {
+        return this._executeHookAsync(hook, contextFilePath).catch((error: Error) => {
+          this._handleHookFailure(hook, isDebug, error);
+        });
+      });
+    }
+    return promise.then(() => this._finishHooks(stopwatch));
+  }
+
+  private _getHooks(event: Event): IEventHook[] {
+    return this._eventHooks ? this._eventHooks.getHooks(event) : [];
+  }
+
+  /**
+   * Saves the context file for the hooks, and returns its path.
+   */
+  private _startHooks(event: Event, context: IEventHookContext): string {
+    console.log(os.EOL + colors.green(`Executing event hooks for ${Event[event]}`));
+
+    // The hooks of different projects can run at the same time, so each project gets its own context file.
+    // Examples: "C:\MyRepo\common\temp\event-hooks\postRushBuild.json"
+    //           "C:\MyRepo\common\temp\event-hooks\postProjectBuild.my-project.json"
+    let contextFilename: string = Event[event];
+    if (context.projects && context.projects.length === 1) {
+      const project: IEventHookProjectContext = context.projects[0];
+      contextFilename += '.' + (project.phaseName ? `${project.name}.${project.phaseName}` : project.name)
+        .replace(/[^a-zA-Z0-9._-]/g, '_');
+    }
+
+    const contextFilePath: string = path.join(this._commonTempFolder, RushConstants.eventHooksFolderName,
+      `${contextFilename}.json`);
+    JsonFile.save({ event: Event[event], ...context }, contextFilePath, { ensureFolderExists: true });
+    return contextFilePath;
+  }
+
+  private _finishHooks(stopwatch: Stopwatch): void {
+    stopwatch.stop();
+    console.log(os.EOL + colors.green(`Event hooks finished. (${stopwatch.toString()})`));
+  }
+
+  private _getLifecycleCommandOptions(contextFilePath: string): ILifecycleCommandOptions {
+    return {
+      rushConfiguration: this._rushConfiguration,
+      workingDirectory: process.cwd(),
+      initCwd: this._commonTempFolder,
+      handleOutput: true,
+      environmentPathOptions: {
+        includeRepoBin: true
+      },
+      environment: {
+        [RushConstants.eventContextFileVariableName]: contextFilePath
+      }
+    };
+  }
+
+  private _executeHookAsync(hook: IEventHook, contextFilePath: string): Promise<void> {
+    return new Promise<void>((resolve: () => void, reject: (error: Error) => void) => {
+      const childProcess: child_process.ChildProcess = Utilities.executeLifecycleCommandAsync(hook.command,
+        this._getLifecycleCommandOptions(contextFilePath));
+
+      // Like the synchronous hooks, the output is discarded unless the hook fails
+      let stderr: string = '';
+      childProcess.stdout.on('data', () => { /* discard the output */ });
+      childProcess.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      childProcess.on('error', reject);
+      childProcess.on('close', (code: number) => {
+        if (code) {
+          reject(new Error('The command failed with exit code ' + code + os.EOL + stderr));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private _handleHookFailure(hook: IEventHook, isDebug: boolean, error: Error): void {
+    if (hook.failurePolicy === 'fail') {
+      console.error(os.EOL + colors.red(`Event hook "${hook.command}" failed.`));
+      console.error(os.EOL + error.message);
+      throw new AlreadyReportedError();
+    }
+
+    console.error(`${os.EOL} Event hook "${hook.command}" failed. Run "rush" with --debug` +
+      ` to see detailed error information.`);
+    if (isDebug) {
+      console.error(os.EOL + error.message);
     }
   }
-}
\ No newline at end of file
+}
@@ -16,6 +16,19 @@ interface IResultOrError<TResult> {
   result?: TResult;
 }
 
+/**
+ * A commit that was returned by Git.getCommits().
+ */
+export interface IGitCommit {
+  hash: string;
+  authorEmail: string;
+
+  /**
+   * The full commit message, including the header line and the body.
+   */
+  message: string;
+}
+
 export class Git {
   private static _checkedGitPath: boolean = false;
   private static _gitPath: string | undefined;
@@ -142,6 +155,124 @@ export class Git {
     return Git._gitInfo;
   }
 
+  /**
+   * Returns the files that differ from the specified Git ref, including uncommitted changes
+   * and untracked files.  The comparison starts from the merge base of the ref and HEAD, so that
+   * changes that were made on the ref after the current branch was created are not reported.
+   *
+   * @param gitRef - the branch, tag, or commit to compare against, e.g. "origin/master"
+   * @param workingDirectory - the paths are reported relative to this folder, and files outside of it
+   * are ignored
+   * @returns normalized paths that use "/" as the separator
+   */
+  public static getChangedFiles(gitRef: string, workingDirectory: string): string[] {
+    if (!Git.isGitPresent()) {
+      throw new Error('Unable to find the changed files, because Git isn\'t present on the path');
+    }
+
+    let mergeBase: string;
+    try {
+      mergeBase = Utilities.executeCommandAndCaptureOutput('git', ['merge-base', gitRef, 'HEAD'],
+        workingDirectory).trim();
+    } catch (error) {
+      throw new Error(`Unable to find the Git ref "${gitRef}": ${error.message}`);
+    }
+
+    const diffOutput: string = Utilities.executeCommandAndCaptureOutput('git',
+      ['diff', '--name-only', '--no-renames', '--relative', mergeBase], workingDirectory);
+    const untrackedOutput: string = Utilities.executeCommandAndCaptureOutput('git',
+      ['ls-files', '--others', '--exclude-standard'], workingDirectory);
+
+    const changedFiles: Set<string> = new Set<string>();
+    for (const line of (diffOutput + '\n' + untrackedOutput).split('\n')) {
+      const filePath: string = line.trim();
+      if (filePath) {
+        changedFiles.add(filePath);
+      }
+    }
+    return Array.from(changedFiles).sort();
+  }
+
+  /**
+   * Returns the most recent tag that matches the pattern and is reachable from HEAD, or undefined
+   * if there is no such tag.
+   *
+   * @param pattern - a glob pattern for the tag names, e.g. "my-package_v*"
+   */
+  public static getLatestTag(pattern: string, workingDirectory: string): string | undefined {
+    if (!Git.isGitPresent()) {
+      throw new Error('Unable to find the tags, because Git isn\'t present on the path');
+    }
+
+    try {
+      const output: string = Utilities.executeCommandAndCaptureOutput('git',
+        ['describe', '--tags', '--abbrev=0', '--match', pattern, 'HEAD'], workingDirectory);
+      return output.trim() || undefined;
+    } catch (error) {
+      // "git describe" fails if no tag matches
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the most recent commit (reachable from HEAD) that added or removed a line matching
+   * the regular expression in the specified file, or undefined if there is no such commit.
+   *
+   * @param lineRegex - a POSIX regular expression, as used by "git log -G"
+   * @param filePath - the path of the file, relative to the working directory
+   */
+  public static getLatestCommitChangingLine(lineRegex: string, filePath: string,
+    workingDirectory: string): string | undefined {
+
+    if (!Git.isGitPresent()) {
+      throw new Error('Unable to find the commits, because Git isn\'t present on the path');
+    }
+
+    try {
+      const output: string = Utilities.executeCommandAndCaptureOutput('git',
+        ['log', '-1', '--format=%H', '-G', lineRegex, 'HEAD', '--', filePath], workingDirectory);
+      return output.trim() || undefined;
+    } catch (error) {
+      // "git log" fails if HEAD doesn't exist yet
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the commits that changed files under the working directory, newest first.  Merge commits
+   * are skipped.
+   *
+   * @param excludedRefs - the commits that are reachable from these branches, tags, or commits are not returned
+   * @param workingDirectory - only the commits that changed files in this folder are returned
+   */
+  public static getCommits(excludedRefs: ReadonlyArray<string>, workingDirectory: string): IGitCommit[] {
+    if (!Git.isGitPresent()) {
+      throw new Error('Unable to find the commits, because Git isn\'t present on the path');
+    }
+
+    // The fields are separated by NUL characters, and the commits by "record separator" characters
+    const logOutput: string = Utilities.executeCommandAndCaptureOutput('git',
+      [
+        'log', '--no-merges', '--format=%H%x00%ae%x00%B%x1e',
+        ...excludedRefs.map((ref: string) => `^${ref}`),
+        'HEAD', '--', '.'
+      ],
+      workingDirectory);
+
+    const commits: IGitCommit[] = [];
+    for (const record of logOutput.split('\x1e')) {
+      const fields: string[] = record.trim().split('\0');
+      if (fields.length === 3) {
+        commits.push({
+          hash: fields[0],
+          authorEmail: fields[1],
+          message: fields[2].trim()
+        });
+      }
+    }
+    return commits;
+  }
+
   private static _tryGetGitEmail(): IResultOrError<string> {
     if (Git._gitEmailResult === undefined) {
       if (!Git.isGitPresent()) {
@@ -43,6 +43,9 @@ import { Rush } from '../api/Rush';
 import { PackageJsonEditor, DependencyType, PackageJsonDependency } from '../api/PackageJsonEditor';
 import { AlreadyReportedError } from '../utilities/AlreadyReportedError';
 import { CommonVersionsConfiguration } from '../api/CommonVersionsConfiguration';
+import { DependencyMirror } from './DependencyMirror';
+import { ShrinkwrapDiff } from './ShrinkwrapDiff';
+import { IShrinkwrapPackage } from './base/BaseShrinkwrapFile';
 
 // The PosixModeBits are intended to be used with bitwise operations.
 // tslint:disable:no-bitwise
@@ -115,6 +118,18 @@ export interface IInstallManagerOptions {
    * The variant to consider when performing installations and validating shrinkwrap updates.
    */
   variant?: string | undefined;
+
+  /**
+   * Whether to install without contacting a registry.  The shrinkwrap file must be up to date,
+   * and every package must be found in the package manager store or the tarball mirror folder.
+   */
+  offline: boolean;
+
+  /**
+   * If specified, the summary of the package changes is also written to this markdown file
+   * when the shrinkwrap file is updated.  If no packages were changed, the file is deleted.
+   */
+  shrinkwrapDiffFile: string | undefined;
 }
 
 /**
@@ -127,6 +142,7 @@ export class InstallManager {
   private _commonTempFolderRecycler: AsyncRecycler;
 
   private _options: IInstallManagerOptions;
+  private _stepDurations: Map<string, number>;
 
   /**
    * Returns a map of all direct dependencies that only have a single semantic version specifier.
@@ -255,6 +271,7 @@ export class InstallManager {
     this._rushGlobalFolder = rushGlobalFolder;
     this._commonTempFolderRecycler = purgeManager.commonTempFolderRecycler;
     this._options = options;
+    this._stepDurations = new Map<string, number>();
 
     this._commonNodeModulesMarker = new LastInstallFlag(this._rushConfiguration.commonTempFolder, {
       node: process.versions.node,
@@ -263,11 +280,25 @@ export class InstallManager {
     });
   }
 
+  /**
+   * The duration in seconds of each step of doInstall() that has finished: "packageManager",
+   * "tempModules", "packageInstall", and "link".
+   */
+  public get stepDurations(): ReadonlyMap<string, number> {
+    return this._stepDurations;
+  }
+
   public doInstall(): Promise<void> {
     return Promise.resolve().then(() => {
       const options: IInstallManagerOptions = this._options;
 
-      // Check the policies
+      if (options.shrinkwrapDiffFile) {
+        // A summary that was written by a previous run must not be mistaken for the changes of this run
+        FileSystem.deleteFile(options.shrinkwrapDiffFile);
+      }
+
+      // Check the Git email policy.  The repository policies are checked after the install, since
+      // the "allowedLicenses" policy reads the package.json files of the installed dependencies.
       PolicyValidator.validatePolicy(this._rushConfiguration, options.bypassPolicy);
 
       ApprovedPackagesChecker.rewriteConfigFiles(this._rushConfiguration);
@@ -300,8 +331,11 @@ export class InstallManager {
       }
 
       // Ensure that the package manager is installed
-      return this.ensureLocalPackageManager()
+      const packageManagerStopwatch: Stopwatch = Stopwatch.start();
+      return this.ensureLocalPackageManager(options.offline)
         .then(() => {
+          this._recordStepDuration('packageManager', packageManagerStopwatch);
+
           let shrinkwrapFile: BaseShrinkwrapFile | undefined = undefined;
 
           // (If it's a full update, then we ignore the shrinkwrap from Git since it will be overwritten)
@@ -344,12 +378,14 @@ export class InstallManager {
             console.log(colors.bold('Using the default variant for installation.'));
           }
 
+          const tempModulesStopwatch: Stopwatch = Stopwatch.start();
           const shrinkwrapIsUpToDate: boolean =
             this._createTempModulesAndCheckShrinkwrap({
               shrinkwrapFile,
               variant: options.variant
             })
             && !options.recheckShrinkwrap;
+          this._recordStepDuration('tempModules', tempModulesStopwatch);
 
           if (!shrinkwrapIsUpToDate) {
             if (!options.allowShrinkwrapUpdates) {
@@ -360,19 +396,42 @@ export class InstallManager {
             }
           }
 
+          const dependencyMirror: DependencyMirror | undefined = options.offline
+            ? this._prepareOfflineInstall(shrinkwrapFile!)
+            : undefined;
+
+          const packageInstallStopwatch: Stopwatch = Stopwatch.start();
           return this._installCommonModules({
             shrinkwrapIsUpToDate,
             variantIsUpToDate,
             ...options
           })
             .then(() => {
+              if (dependencyMirror) {
+                dependencyMirror.restorePackageManager();
+              }
+            }, (error: Error) => {
+              if (dependencyMirror) {
+                dependencyMirror.restorePackageManager();
+              }
+              throw error;
+            })
+            .then(() => {
+              this._recordStepDuration('packageInstall', packageInstallStopwatch);
+
               if (!options.noLink) {
+                const linkStopwatch: Stopwatch = Stopwatch.start();
                 const linkManager: BaseLinkManager = LinkManagerFactory.getLinkManager(this._rushConfiguration);
-                return linkManager.createSymlinksForProjects(false);
+                return linkManager.createSymlinksForProjects(false).then(() => {
+                  this._recordStepDuration('link', linkStopwatch);
+                });
               } else {
                 console.log(os.EOL
                   + colors.yellow('Since "--no-link" was specified, you will need to run "rush link" manually.'));
               }
+            })
+            .then(() => {
+              PolicyValidator.validateRepositoryPolicies(this._rushConfiguration, options.bypassPolicy);
             });
         });
     });
@@ -381,8 +440,11 @@ export class InstallManager {
   /**
    * If the "(p)npm-local" symlink hasn't been set up yet, this creates it, installing the
    * specified (P)npm version in the user's home directory if needed.
+   *
+   * @param offline - if true, the package manager is not installed, and an error is reported
+   * if it isn't in the user's home directory yet
    */
-  public ensureLocalPackageManager(): Promise<void> {
+  public ensureLocalPackageManager(offline?: boolean): Promise<void> {
     // Example: "C:\Users\YourName\.rush"
     const rushUserFolder: string = this._rushGlobalFolder.nodeSpecificPath;
 
@@ -407,6 +469,13 @@ export class InstallManager {
       console.log(`Acquired lock for ${packageManagerAndVersion}`);
 
       if (!packageManagerMarker.isValid() || lock.dirtyWhenAcquired) {
+        if (offline) {
+          lock.release();
+          throw new Error(`${packageManager} version ${packageManagerVersion} was not found in`
+            + ` ${packageManagerToolFolder}, and it can't be installed offline.  Run "rush install"`
+            + ` without "--offline" on a machine with network access first.`);
+        }
+
         console.log(colors.bold(`Installing ${packageManager} version ${packageManagerVersion}${os.EOL}`));
 
         // note that this will remove the last-install flag from the directory
@@ -461,6 +530,11 @@ export class InstallManager {
     });
   }
 
+  private _recordStepDuration(stepName: string, stopwatch: Stopwatch): void {
+    stopwatch.stop();
+    this._stepDurations.set(stepName, stopwatch.duration);
+  }
+
   /**
    * Regenerates the common/package.json and all temp_modules projects.
    * If shrinkwrapFile is provided, this function also validates whether it contains
@@ -815,7 +889,12 @@ export class InstallManager {
         }
       }
 
-      return this._checkIfReleaseIsPublished()
+      // An offline install must not contact the registry at all
+      const checkIfReleaseIsPublishedPromise: Promise<boolean | undefined> = options.offline
+        ? Promise.resolve(undefined)
+        : this._checkIfReleaseIsPublished();
+
+      return checkIfReleaseIsPublishedPromise
         .catch((error) => {
           // If the user is working in an environment that can't reach the registry,
           // don't bother them with errors.
@@ -834,8 +913,9 @@ export class InstallManager {
           this._commonNodeModulesMarker.clear();
 
           // NOTE: The PNPM store is supposed to be transactionally safe, so we don't delete it automatically.
-          // The user must request that via the command line.
-          if (deleteNodeModules) {
+          // The user must request that via the command line.  The NPM cache is kept for an offline install,
+          // since it is where the packages are installed from.
+          if (deleteNodeModules && !options.offline) {
             if (this._rushConfiguration.packageManager === 'npm') {
               console.log(`Deleting the "npm-cache" folder`);
               // This is faster and more thorough than "npm cache clean"
@@ -924,7 +1004,8 @@ export class InstallManager {
             this._rushConfiguration.commonTempFolder,
             undefined,
             false, () => {
-              if (this._rushConfiguration.packageManager === 'pnpm') {
+              // An offline install can't repopulate the store
+              if (this._rushConfiguration.packageManager === 'pnpm' && !options.offline) {
                 // If there is a failure in pnpm, it is possible that it left the
                 // store in a bad state. Therefore, we should clean out the store
                 // before attempting the install again.
@@ -951,9 +1032,14 @@ export class InstallManager {
           }
 
           if (options.allowShrinkwrapUpdates && !shrinkwrapIsUpToDate) {
+            // Load the committed shrinkwrap file before it is overwritten, so that the changes can be reported
+            const oldShrinkwrapFile: BaseShrinkwrapFile | undefined = this._tryLoadCommittedShrinkwrapFile(options);
+
             // Copy (or delete) common\temp\pnpm-lock.yaml --> common\config\rush\pnpm-lock.yaml
             this._syncFile(this._rushConfiguration.tempShrinkwrapFilename,
               this._rushConfiguration.getCommittedShrinkwrapFilename(options.variant));
+
+            this._reportShrinkwrapChanges(oldShrinkwrapFile, options);
           } else {
             // TODO: Validate whether the package manager updated it in a nontrivial way
           }
@@ -966,6 +1052,77 @@ export class InstallManager {
     });
   }
 
+  private _tryLoadCommittedShrinkwrapFile(options: IInstallManagerOptions): BaseShrinkwrapFile | undefined {
+    try {
+      return ShrinkwrapFileFactory.getShrinkwrapFile(this._rushConfiguration.packageManager,
+        this._rushConfiguration.getCommittedShrinkwrapFilename(options.variant));
+    } catch (error) {
+      // If the committed shrinkwrap file can't be parsed, all packages are reported as added
+      return undefined;
+    }
+  }
+
+  /**
+   * Summarizes the differences between the previously committed shrinkwrap file and the one that the
+   * package manager just created.  The summary is informational, so a failure only prints a warning.
+   */
+  private _reportShrinkwrapChanges(oldShrinkwrapFile: BaseShrinkwrapFile | undefined,
+    options: IInstallManagerOptions): void {
+
+    try {
+      const newShrinkwrapFile: BaseShrinkwrapFile | undefined = ShrinkwrapFileFactory.getShrinkwrapFile(
+        this._rushConfiguration.packageManager, this._rushConfiguration.tempShrinkwrapFilename);
+      if (!newShrinkwrapFile) {
+        return;
+      }
+
+      const shrinkwrapDiff: ShrinkwrapDiff = ShrinkwrapDiff.compare(this._rushConfiguration, oldShrinkwrapFile,
+        newShrinkwrapFile);
+      shrinkwrapDiff.print();
+
+      if (options.shrinkwrapDiffFile && shrinkwrapDiff.changes.length > 0) {
+        FileSystem.writeFile(options.shrinkwrapDiffFile, shrinkwrapDiff.renderMarkdown(),
+          { ensureFolderExists: true });
+        console.log(os.EOL + `Wrote the summary of the package changes to ${options.shrinkwrapDiffFile}`);
+      }
+    } catch (error) {
+      console.log(os.EOL + colors.yellow(`Unable to summarize the changes to the ${this._shrinkwrapFilePhrase}:`
+        + ` ${error.message}`));
+    }
+  }
+
+  /**
+   * Checks that every package in the shrinkwrap file can be installed without contacting a registry,
+   * and makes the mirrored tarballs available to the package manager.
+   *
+   * @returns the DependencyMirror, whose restorePackageManager() must be called after the install
+   */
+  private _prepareOfflineInstall(shrinkwrapFile: BaseShrinkwrapFile): DependencyMirror {
+    const dependencyMirror: DependencyMirror = new DependencyMirror(this._rushConfiguration);
+
+    console.log(os.EOL + colors.bold('Checking that the packages in the shrinkwrap file can be installed offline'));
+    const missingPackages: IShrinkwrapPackage[] = dependencyMirror.getMissingPackages(shrinkwrapFile);
+    if (missingPackages.length > 0) {
+      console.log(os.EOL + colors.red(`${missingPackages.length} packages from the ${this._shrinkwrapFilePhrase}`
+        + ` were not found in the ${this._rushConfiguration.packageManager} store`
+        + (dependencyMirror.mirrorFolder ? ` or in ${dependencyMirror.mirrorFolder}:` : ':')));
+      if (this._rushConfiguration.packageManager === 'npm') {
+        console.log(colors.yellow('For NPM, every package must be in the mirror folder, because the NPM cache'
+          + ' can\'t be searched.'));
+      }
+      for (const missingPackage of missingPackages) {
+        console.log(`  ${missingPackage.name}@${missingPackage.version}`);
+      }
+
+      console.log(os.EOL + colors.red('An offline install is not possible.  Run "rush mirror-dependencies"'
+        + ' on a machine with network access, or run "rush install" without "--offline".'));
+      throw new AlreadyReportedError();
+    }
+
+    dependencyMirror.preparePackageManager(shrinkwrapFile);
+    return dependencyMirror;
+  }
+
   private _checkIfReleaseIsPublished(): Promise<boolean> {
     return Promise.resolve().then(() => {
       const lastCheckFile: string = path.join(this._rushGlobalFolder.nodeSpecificPath,
@@ -1108,6 +1265,10 @@ export class InstallManager {
       args.push('--cache', this._rushConfiguration.npmCacheFolder);
       args.push('--tmp', this._rushConfiguration.npmTmpFolder);
 
+      if (options.offline) {
+        args.push('--offline');
+      }
+
       if (options.collectLogFile) {
         args.push('--verbose');
       }
@@ -1129,6 +1290,10 @@ export class InstallManager {
         args.push('--reporter', 'ndjson');
       }
 
+      if (options.offline) {
+        args.push('--offline');
+      }
+
       if (options.networkConcurrency) {
         args.push('--network-concurrency', options.networkConcurrency.toString());
       }
@@ -1148,6 +1313,10 @@ export class InstallManager {
       // (e.g. "Which command would you like to run?").
       args.push('--non-interactive');
 
+      if (options.offline) {
+        args.push('--offline');
+      }
+
       if (options.networkConcurrency) {
         args.push('--network-concurrency', options.networkConcurrency.toString());
       }
@@ -36,6 +36,33 @@ export class PackageChangeAnalyzer {
     return this._data.get(projectName);
   }
 
+  /**
+   * Returns the names of the projects that contain files which differ from the specified Git ref.
+   * If the shrinkwrap file changed, every project is reported, since its dependencies may have changed.
+   *
+   * @param gitRef - the branch, tag, or commit to compare against, e.g. "origin/master"
+   */
+  public getChangedProjectNames(gitRef: string): Set<string> {
+    const changedProjectNames: Set<string> = new Set<string>();
+    const shrinkwrapFile: string = this._getShrinkwrapFilePath();
+
+    for (const filePath of Git.getChangedFiles(gitRef, this._rushConfiguration.rushJsonFolder)) {
+      if (filePath === shrinkwrapFile) {
+        for (const project of this._rushConfiguration.projects) {
+          changedProjectNames.add(project.packageName);
+        }
+        break;
+      }
+
+      const projectName: string | undefined = this._getProjectForFile(filePath);
+      if (projectName) {
+        changedProjectNames.add(projectName);
+      }
+    }
+
+    return changedProjectNames;
+  }
+
   private _getData(): Map<string, IPackageDeps> {
     // If we are not in a unit test, use the correct resources
     if (!PackageChangeAnalyzer.getPackageDeps) {
@@ -129,15 +156,9 @@ export class PackageChangeAnalyzer {
     //  });
     // }
 
-    // Determine the current variant from the link JSON.
-    const variant: string | undefined = this._rushConfiguration.currentInstalledVariant;
-
     // Add the shrinkwrap file to every project's dependencies
 
-    const shrinkwrapFile: string =
-      path.relative(this._rushConfiguration.rushJsonFolder,
-        this._rushConfiguration.getCommittedShrinkwrapFilename(variant))
-        .replace(/\\/g, '/');
+    const shrinkwrapFile: string = this._getShrinkwrapFilePath();
 
     for (const project of this._rushConfiguration.projects) {
       const shrinkwrapHash: string | undefined = noProjectHashes[shrinkwrapFile];
@@ -149,6 +170,18 @@ export class PackageChangeAnalyzer {
     return projectHashDeps;
   }
 
+  /**
+   * Returns the path of the committed shrinkwrap file for the current variant, relative to the repo root.
+   */
+  private _getShrinkwrapFilePath(): string {
+    // Determine the current variant from the link JSON.
+    const variant: string | undefined = this._rushConfiguration.currentInstalledVariant;
+
+    return path.relative(this._rushConfiguration.rushJsonFolder,
+      this._rushConfiguration.getCommittedShrinkwrapFilename(variant))
+      .replace(/\\/g, '/');
+  }
+
   private _getProjectForFile(filePath: string): string | undefined {
     for (const project of this._rushConfiguration.projects) {
       if (this._fileExistsInFolder(filePath, project.projectRelativeFolder)) {
@@ -12,6 +12,7 @@ import { PurgeManager } from './PurgeManager';
 import { Utilities } from '../utilities/Utilities';
 import { DependencyType, PackageJsonEditor, PackageJsonDependency } from '../api/PackageJsonEditor';
 import { RushGlobalFolder } from '../api/RushGlobalFolder';
+import { RushConstants } from './RushConstants';
 
 /**
  * The type of SemVer range specifier that is prepended to the version
@@ -126,6 +127,13 @@ export class PackageJsonUpdater {
     const version: string = this._getNormalizedVersionSpec(
       packageName, initialVersion, implicitlyPinned.get(packageName), rangeStyle);
 
+    const violation: string | undefined = this._rushConfiguration.getCommonVersions(variant)
+      .tryGetVersionViolation(packageName, version);
+    if (violation) {
+      return Promise.reject(new Error(`Unable to add '${packageName}@${version}' to ${currentProject.packageName}.`
+        + ` ${violation} (see ${RushConstants.commonVersionsFilename}).  Specify a version that is allowed.`));
+    }
+
     console.log();
     console.log(colors.green(`Updating projects to use `)
       + packageName + '@' + colors.cyan(version));
@@ -195,7 +203,9 @@ export class PackageJsonUpdater {
       recheckShrinkwrap: false,
       networkConcurrency: undefined,
       collectLogFile: false,
-      variant: variant
+      variant: variant,
+      offline: false,
+      shrinkwrapDiffFile: undefined
     };
     const installManager: InstallManager = new InstallManager(
       this._rushConfiguration,
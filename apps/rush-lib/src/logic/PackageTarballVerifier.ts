@@ -0,0 +1,209 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import * as tar from 'tar';
+import minimatch = require('minimatch');
+import {
+  FileSystem,
+  JsonFile
+} from '@microsoft/node-core-library';
+
+/**
+ * The package.json fields that are inspected by PackageTarballVerifier.
+ */
+interface IPackedPackageJson {
+  name: string;
+  version: string;
+  main?: string;
+  typings?: string;
+  types?: string;
+  files?: string[];
+  dependencies?: { [dependencyName: string]: string };
+  optionalDependencies?: { [dependencyName: string]: string };
+  peerDependencies?: { [dependencyName: string]: string };
+}
+
+/**
+ * Files that NPM always includes in a package, regardless of the "files" list.
+ */
+const ALWAYS_INCLUDED_FILE_REGEX: RegExp =
+  /^(package\.json|(readme|changes|changelog|history|license|licence|notice)(\..*)?)$/i;
+
+/**
+ * Files that should never be published, such as secrets and test fixtures.
+ */
+const LEAKED_FILE_REGEXES: RegExp[] = [
+  /(^|\/)\.env(\..*)?$/,
+  /(^|\/)\.npmrc$/,
+  /(^|\/)__fixtures__\//,
+  /(^|\/)tests?\/fixtures\//
+];
+
+/**
+ * Dependency specifiers that only work inside the monorepo.
+ */
+const WORKSPACE_SPECIFIER_REGEX: RegExp = /^(file|link|workspace):/;
+
+/**
+ * Inspects the tarball that "npm pack" created for a project, to find problems before it is published.
+ */
+export class PackageTarballVerifier {
+  private _extractionFolder: string;
+
+  /**
+   * @param extractionFolder - a temporary folder where the tarballs are extracted
+   */
+  public constructor(extractionFolder: string) {
+    this._extractionFolder = extractionFolder;
+  }
+
+  /**
+   * Extracts the tarball, and returns a description of each problem that was found.  The checks are:
+   * "main" and "typings" targets that are missing, files that are not matched by the "files" list,
+   * leaked secrets or test fixtures, and dependencies that use workspace-only specifiers such as "file:".
+   */
+  public verify(tarballPath: string): string[] {
+    const extractedFolder: string = path.join(this._extractionFolder, path.basename(tarballPath, '.tgz'));
+    FileSystem.ensureEmptyFolder(extractedFolder);
+
+    try {
+      tar.extract({
+        file: tarballPath,
+        cwd: extractedFolder,
+        sync: true
+      });
+
+      // NPM and Yarn put the package contents in a "package" folder
+      const packageFolder: string = path.join(extractedFolder, 'package');
+      const packageJsonPath: string = path.join(packageFolder, 'package.json');
+      if (!FileSystem.exists(packageJsonPath)) {
+        return ['The tarball does not contain a package.json file'];
+      }
+
+      const packageJson: IPackedPackageJson = JsonFile.load(packageJsonPath);
+      const files: string[] = this._getFiles(packageFolder, '');
+
+      return [
+        ...this._checkEntryPoints(packageJson, files),
+        ...this._checkFilesList(packageJson, files),
+        ...this._checkLeakedFiles(files),
+        ...this._checkWorkspaceDependencies(packageJson)
+      ];
+    } finally {
+      FileSystem.deleteFolder(extractedFolder);
+    }
+  }
+
+  private _checkEntryPoints(packageJson: IPackedPackageJson, files: string[]): string[] {
+    const problems: string[] = [];
+    const fileSet: Set<string> = new Set<string>(files);
+
+    if (packageJson.main) {
+      const main: string = this._normalizePath(packageJson.main);
+      // Node.js resolves the "main" target like a require() path
+      if (![main, `${main}.js`, `${main}.json`, `${main}/index.js`].some(candidate => fileSet.has(candidate))) {
+        problems.push(`The "main" target "${packageJson.main}" is missing from the package`);
+      }
+    }
+
+    for (const field of ['typings', 'types']) {
+      const value: string | undefined = packageJson[field];
+      if (value) {
+        const typings: string = this._normalizePath(value);
+        if (!fileSet.has(typings) && !fileSet.has(`${typings}.d.ts`)) {
+          problems.push(`The "${field}" target "${value}" is missing from the package`);
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  private _checkFilesList(packageJson: IPackedPackageJson, files: string[]): string[] {
+    if (!packageJson.files) {
+      return [];
+    }
+
+    const patterns: string[] = packageJson.files.map(pattern => {
+      return pattern.charAt(0) === '!' ? `!${this._normalizePath(pattern.substr(1))}` : this._normalizePath(pattern);
+    });
+    const main: string | undefined = packageJson.main && this._normalizePath(packageJson.main);
+
+    return files
+      .filter((file: string) => {
+        if (file.indexOf('/') < 0 && ALWAYS_INCLUDED_FILE_REGEX.test(file)) {
+          return false;
+        }
+        if (main && (file === main || file === `${main}.js`)) {
+          return false;
+        }
+        return !this._isMatchedByFilesList(file, patterns);
+      })
+      .map(file => `The file "${file}" is not matched by the "files" list in package.json`);
+  }
+
+  /**
+   * Like NPM, a file is included if a pattern matches it, and no later negated pattern (e.g. "!lib/test")
+   * matches it.  A pattern can match the file, or a folder that contains it.
+   */
+  private _isMatchedByFilesList(file: string, patterns: string[]): boolean {
+    let isIncluded: boolean = false;
+    for (const pattern of patterns) {
+      const isNegated: boolean = pattern.charAt(0) === '!';
+      const positivePattern: string = isNegated ? pattern.substr(1) : pattern;
+      if (minimatch(file, positivePattern, { dot: true }) || minimatch(file, `${positivePattern}/**`, { dot: true })) {
+        isIncluded = !isNegated;
+      }
+    }
+    return isIncluded;
+  }
+
+  private _checkLeakedFiles(files: string[]): string[] {
+    return files
+      .filter(file => LEAKED_FILE_REGEXES.some(regex => regex.test(file)))
+      .map(file => `The file "${file}" should not be published, because it looks like a secret or a test fixture`);
+  }
+
+  private _checkWorkspaceDependencies(packageJson: IPackedPackageJson): string[] {
+    const problems: string[] = [];
+
+    for (const dependencyField of ['dependencies', 'optionalDependencies', 'peerDependencies']) {
+      const dependencies: { [dependencyName: string]: string } = packageJson[dependencyField] || {};
+      for (const dependencyName of Object.keys(dependencies)) {
+        const specifier: string = dependencies[dependencyName];
+        if (WORKSPACE_SPECIFIER_REGEX.test(specifier)) {
+          problems.push(`The "${dependencyField}" specifier "${specifier}" for "${dependencyName}"`
+            + ` only works inside this repository`);
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Returns the paths of all files in the folder, relative to the package folder and using "/" separators.
+   */
+  private _getFiles(packageFolder: string, relativeFolder: string): string[] {
+    const files: string[] = [];
+
+    for (const itemName of FileSystem.readFolder(path.join(packageFolder, relativeFolder))) {
+      const relativePath: string = relativeFolder ? `${relativeFolder}/${itemName}` : itemName;
+      if (FileSystem.getStatistics(path.join(packageFolder, relativePath)).isDirectory()) {
+        files.push(...this._getFiles(packageFolder, relativePath));
+      } else {
+        files.push(relativePath);
+      }
+    }
+
+    return files.sort();
+  }
+
+  /**
+   * Converts a package.json path such as "./lib/index.js" or "dist/" to the form "lib/index.js" or "dist".
+   */
+  private _normalizePath(packagePath: string): string {
+    return packagePath.replace(/\\/g, '/').replace(/^\.?\//, '').replace(/\/$/, '');
+  }
+}
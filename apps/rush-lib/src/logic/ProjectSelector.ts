@@ -0,0 +1,239 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import {
+  RushConfiguration,
+  IRushLinkJson
+} from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { PackageChangeAnalyzer } from './PackageChangeAnalyzer';
+
+/**
+ * The prefix that selects the projects with a tag instead of a single project, e.g. "tag:web-app".
+ */
+const TAG_SELECTOR_PREFIX: string = 'tag:';
+
+/**
+ * The project selectors that were specified on the command line.  Each flag is a list of
+ * project names (or unscoped shorthand names), or tag selectors such as "tag:web-app".
+ */
+export interface IProjectSelection {
+  /**
+   * Projects that are selected together with all of their dependencies.
+   */
+  toFlags: ReadonlyArray<string>;
+
+  /**
+   * Projects that are selected together with all of their dependents.
+   */
+  fromFlags: ReadonlyArray<string>;
+
+  /**
+   * Projects that are selected without their dependencies or dependents.
+   */
+  onlyFlags: ReadonlyArray<string>;
+
+  /**
+   * Projects whose dependents are selected, excluding the projects themselves.
+   */
+  impactedByFlags: ReadonlyArray<string>;
+
+  /**
+   * Projects whose dependencies are selected, excluding the projects themselves.
+   */
+  toExceptFlags: ReadonlyArray<string>;
+
+  /**
+   * If specified, the projects whose files differ from this Git ref are selected, together with
+   * their dependents.
+   */
+  changedSinceRef?: string;
+}
+
+/**
+ * Constructor parameters for ProjectSelector.
+ */
+export interface IProjectSelectorOptions {
+  rushConfiguration: RushConfiguration;
+
+  /**
+   * The local links between projects, which determine the dependencies and dependents of each project.
+   */
+  rushLinkJson: IRushLinkJson;
+
+  /**
+   * Used to find the changed projects for the "changedSinceRef" selector.  If it is not provided,
+   * it will be created when needed.
+   */
+  packageChangeAnalyzer?: PackageChangeAnalyzer;
+}
+
+/**
+ * This class solves the dependency graph to determine which projects were selected by the
+ * command-line selectors, such as "--to" and "--from".
+ */
+export class ProjectSelector {
+  private _options: IProjectSelectorOptions;
+  private _dependentList: Map<string, Set<string>> | undefined;
+
+  /**
+   * Returns true if any selector was specified.  If not, all projects are selected.
+   */
+  public static hasSelectors(selection: IProjectSelection): boolean {
+    return selection.toFlags.length > 0
+      || selection.fromFlags.length > 0
+      || selection.onlyFlags.length > 0
+      || selection.impactedByFlags.length > 0
+      || selection.toExceptFlags.length > 0
+      || selection.changedSinceRef !== undefined;
+  }
+
+  public constructor(options: IProjectSelectorOptions) {
+    this._options = options;
+  }
+
+  /**
+   * Returns the projects that were selected by any of the selectors, or all projects if no selector
+   * was specified.  If a project name does not exist, an error is thrown.
+   */
+  public selectProjects(selection: IProjectSelection): RushConfigurationProject[] {
+    if (!ProjectSelector.hasSelectors(selection)) {
+      return this._options.rushConfiguration.projects.slice();
+    }
+
+    // The selectors are combined, i.e. a project is selected if any of them selects it
+    const projectNames: Set<string> = new Set<string>();
+    const addProjectNames: (names: Iterable<string>) => void = (names: Iterable<string>) => {
+      for (const name of names) {
+        projectNames.add(name);
+      }
+    };
+
+    for (const toProject of this._getProjectsForFlags(selection.toFlags)) {
+      // The project and any dependencies it may have
+      addProjectNames(this._collectAllDependencies(toProject.packageName));
+    }
+
+    for (const fromProject of this._getProjectsForFlags(selection.fromFlags)) {
+      // The project and all downstream dependents.  The project's dependencies are assumed to be built already
+      addProjectNames([fromProject.packageName]);
+      addProjectNames(this._collectAllDependents(fromProject.packageName));
+    }
+
+    for (const onlyProject of this._getProjectsForFlags(selection.onlyFlags)) {
+      addProjectNames([onlyProject.packageName]);
+    }
+
+    for (const impactedByProject of this._getProjectsForFlags(selection.impactedByFlags)) {
+      // The downstream dependents, but not the project itself
+      addProjectNames(this._collectAllDependents(impactedByProject.packageName));
+    }
+
+    for (const toExceptProject of this._getProjectsForFlags(selection.toExceptFlags)) {
+      // The upstream dependencies, but not the project itself
+      const deps: Set<string> = this._collectAllDependencies(toExceptProject.packageName);
+      deps.delete(toExceptProject.packageName);
+      addProjectNames(deps);
+    }
+
+    if (selection.changedSinceRef !== undefined) {
+      // The changed projects and all downstream dependents
+      this._getChangedProjectNames(selection.changedSinceRef).forEach((changedProjectName: string) => {
+        addProjectNames([changedProjectName]);
+        addProjectNames(this._collectAllDependents(changedProjectName));
+      });
+    }
+
+    const projects: RushConfigurationProject[] = [];
+    projectNames.forEach((projectName: string) => {
+      const project: RushConfigurationProject | undefined =
+        this._options.rushConfiguration.getProjectByName(projectName);
+      if (project) {
+        projects.push(project);
+      }
+    });
+    return projects;
+  }
+
+  /**
+   * Resolves the values of a selector to projects.  A "tag:" value resolves to every project with the tag.
+   */
+  private _getProjectsForFlags(flags: ReadonlyArray<string>): RushConfigurationProject[] {
+    const projects: RushConfigurationProject[] = [];
+
+    for (const flag of flags) {
+      if (flag.indexOf(TAG_SELECTOR_PREFIX) === 0) {
+        const tag: string = flag.substr(TAG_SELECTOR_PREFIX.length);
+        const taggedProjects: RushConfigurationProject[] = this._options.rushConfiguration.projects
+          .filter((project: RushConfigurationProject) => project.tags.has(tag));
+        if (taggedProjects.length === 0) {
+          throw new Error(`No project in rush.json has the tag '${tag}'`);
+        }
+        projects.push(...taggedProjects);
+      } else {
+        const project: RushConfigurationProject | undefined =
+          this._options.rushConfiguration.findProjectByShorthandName(flag);
+        if (!project) {
+          throw new Error(`The project '${flag}' does not exist in rush.json`);
+        }
+        projects.push(project);
+      }
+    }
+
+    return projects;
+  }
+
+  private _getChangedProjectNames(gitRef: string): Set<string> {
+    if (!this._options.packageChangeAnalyzer) {
+      this._options.packageChangeAnalyzer = new PackageChangeAnalyzer(this._options.rushConfiguration);
+    }
+    return this._options.packageChangeAnalyzer.getChangedProjectNames(gitRef);
+  }
+
+  /**
+   * Collects all upstream dependencies for a certain project
+   */
+  private _collectAllDependencies(project: string): Set<string> {
+    const deps: Set<string> = new Set<string>(this._options.rushLinkJson.localLinks[project]);
+    deps.forEach(dep => this._collectAllDependencies(dep).forEach(innerDep => deps.add(innerDep)));
+    deps.add(project);
+    return deps;
+  }
+
+  /**
+   * Collects all downstream dependents of a certain project
+   */
+  private _collectAllDependents(project: string): Set<string> {
+    const dependentList: Map<string, Set<string>> = this._getDependentList();
+
+    const deps: Set<string> = new Set<string>();
+    (dependentList.get(project) || new Set<string>()).forEach((dep) => {
+      deps.add(dep);
+    });
+    deps.forEach(dep => this._collectAllDependents(dep).forEach(innerDep => deps.add(innerDep)));
+    return deps;
+  }
+
+  /**
+   * Inverts the localLinks to arrive at the dependent graph, rather than using the dependency graph
+   * this helps when using the --from flag
+   */
+  private _getDependentList(): Map<string, Set<string>> {
+    if (!this._dependentList) {
+      const dependentList: Map<string, Set<string>> = new Map<string, Set<string>>();
+
+      Object.keys(this._options.rushLinkJson.localLinks).forEach(project => {
+        this._options.rushLinkJson.localLinks[project].forEach(dep => {
+          if (!dependentList.has(dep)) {
+            dependentList.set(dep, new Set<string>());
+          }
+          dependentList.get(dep)!.add(project);
+        });
+      });
+
+      this._dependentList = dependentList;
+    }
+
+    return this._dependentList;
+  }
+}
@@ -0,0 +1,259 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystem } from '@microsoft/node-core-library';
+import { IPackageDeps } from '@microsoft/package-deps-hash';
+
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { PackageChangeAnalyzer } from './PackageChangeAnalyzer';
+import { RushConstants } from './RushConstants';
+
+/**
+ * Constructor parameters for ProjectWatcher.
+ */
+export interface IProjectWatcherOptions {
+  rushConfiguration: RushConfiguration;
+
+  /**
+   * The projects whose folders will be watched.
+   */
+  projects: ReadonlyArray<RushConfigurationProject>;
+
+  /**
+   * How long to wait after the most recent file system event before looking for changes.
+   */
+  debounceMilliseconds: number;
+}
+
+/**
+ * This class watches the folders of a set of projects, and reports which projects have changed.
+ *
+ * @remarks
+ * File system events are only used as a trigger.  A project is reported as changed only if the
+ * Git hashes of its files differ from the last time that it was reported, which ignores the
+ * build outputs, logs, and other files excluded by .gitignore.  If the state of the files cannot
+ * be determined (for example, because Git is not available), every project that received
+ * an event is reported as changed.  The files that Rush itself writes into the project folder,
+ * such as the build logs, are ignored in both cases.
+ */
+export class ProjectWatcher {
+  private _options: IProjectWatcherOptions;
+  private _watchers: Map<string, fs.FSWatcher>;
+  private _projectStates: Map<string, string | undefined>;
+  private _projectsWithEvents: Set<RushConfigurationProject>;
+  private _onEvent: (() => void) | undefined;
+
+  public constructor(options: IProjectWatcherOptions) {
+    this._options = options;
+    this._watchers = new Map<string, fs.FSWatcher>();
+    this._projectsWithEvents = new Set<RushConfigurationProject>();
+
+    // Capture the initial state, so that changes made while the first command runs are detected
+    this._projectStates = this._getProjectStates();
+
+    for (const project of options.projects) {
+      this._watchProject(project);
+    }
+  }
+
+  /**
+   * Resolves with the projects that have changed since the last time that they were reported.
+   * File system events that occurred while nobody was waiting are also taken into account.
+   */
+  public waitForChangeAsync(): Promise<RushConfigurationProject[]> {
+    return new Promise<RushConfigurationProject[]>((resolve: (projects: RushConfigurationProject[]) => void) => {
+      let debounceTimer: NodeJS.Timer | undefined;
+
+      this._onEvent = () => {
+        if (debounceTimer) {
+          clearTimeout(debounceTimer);
+        }
+
+        debounceTimer = setTimeout(() => {
+          debounceTimer = undefined;
+
+          const changedProjects: RushConfigurationProject[] = this._getChangedProjects();
+          if (changedProjects.length > 0) {
+            this._onEvent = undefined;
+            resolve(changedProjects);
+          }
+        }, this._options.debounceMilliseconds);
+      };
+
+      if (this._projectsWithEvents.size > 0) {
+        this._onEvent();
+      }
+    });
+  }
+
+  /**
+   * Stops watching the project folders.
+   */
+  public close(): void {
+    this._watchers.forEach((watcher: fs.FSWatcher) => {
+      watcher.close();
+    });
+    this._watchers.clear();
+    this._onEvent = undefined;
+  }
+
+  private _getChangedProjects(): RushConfigurationProject[] {
+    const projectsWithEvents: Set<RushConfigurationProject> = this._projectsWithEvents;
+    this._projectsWithEvents = new Set<RushConfigurationProject>();
+
+    const newProjectStates: Map<string, string | undefined> = this._getProjectStates();
+    const changedProjects: RushConfigurationProject[] = [];
+
+    for (const project of this._options.projects) {
+      const oldState: string | undefined = this._projectStates.get(project.packageName);
+      const newState: string | undefined = newProjectStates.get(project.packageName);
+
+      if (newState === undefined ? projectsWithEvents.has(project) : newState !== oldState) {
+        changedProjects.push(project);
+      }
+    }
+
+    this._projectStates = newProjectStates;
+    return changedProjects;
+  }
+
+  /**
+   * Returns a string that describes the state of each project's files, or undefined if the
+   * state cannot be determined.
+   */
+  private _getProjectStates(): Map<string, string | undefined> {
+    const packageChangeAnalyzer: PackageChangeAnalyzer = new PackageChangeAnalyzer(this._options.rushConfiguration);
+    const projectStates: Map<string, string | undefined> = new Map<string, string | undefined>();
+
+    for (const project of this._options.projects) {
+      const packageDeps: IPackageDeps | undefined = packageChangeAnalyzer.getPackageDepsHash(project.packageName);
+      const files: { [filePath: string]: string } = {};
+      let hasFiles: boolean = false;
+
+      if (packageDeps) {
+        for (const filePath of Object.keys(packageDeps.files)) {
+          const relativePath: string = path.relative(project.projectFolder,
+            path.resolve(this._options.rushConfiguration.rushJsonFolder, filePath));
+          if (!this._isIgnored(project, relativePath)) {
+            files[filePath] = packageDeps.files[filePath];
+            hasFiles = true;
+          }
+        }
+      }
+
+      projectStates.set(project.packageName, hasFiles ? JSON.stringify(files) : undefined);
+    }
+
+    return projectStates;
+  }
+
+  private _watchProject(project: RushConfigurationProject): void {
+    // Recursive watching is only supported on Windows and Mac, so other platforms watch each folder
+    const isRecursive: boolean = os.platform() === 'win32' || os.platform() === 'darwin';
+
+    const onChange: (folderPath: string, filename: string | undefined) => void =
+      (folderPath: string, filename: string | undefined) => {
+        if (filename) {
+          const itemPath: string = path.join(folderPath, filename);
+          if (this._isIgnored(project, path.relative(project.projectFolder, itemPath))) {
+            return;
+          }
+
+          if (!isRecursive) {
+            this._updateFolderWatchers(project, itemPath, onChange);
+          }
+        }
+
+        this._projectsWithEvents.add(project);
+        if (this._onEvent) {
+          this._onEvent();
+        }
+      };
+
+    if (isRecursive) {
+      this._watchers.set(project.projectFolder, fs.watch(project.projectFolder, { recursive: true },
+        (event: string, filename: string) => {
+          onChange(project.projectFolder, filename);
+        }));
+    } else {
+      this._watchFolderTree(project, project.projectFolder, onChange);
+    }
+  }
+
+  private _watchFolderTree(
+    project: RushConfigurationProject,
+    folderPath: string,
+    onChange: (folderPath: string, filename: string | undefined) => void
+  ): void {
+    if (this._watchers.has(folderPath)) {
+      return;
+    }
+
+    this._watchers.set(folderPath, fs.watch(folderPath, (event: string, filename: string) => {
+      onChange(folderPath, filename);
+    }));
+
+    for (const itemName of FileSystem.readFolder(folderPath)) {
+      const itemPath: string = path.join(folderPath, itemName);
+      if (!this._isIgnored(project, path.relative(project.projectFolder, itemPath))
+        && FileSystem.getStatistics(itemPath).isDirectory()) {
+        this._watchFolderTree(project, itemPath, onChange);
+      }
+    }
+  }
+
+  /**
+   * Called when an item in a watched folder was created, deleted or renamed.  Folders that are created
+   * after startup are watched (including the folders inside them), and the watchers of deleted folders
+   * are closed, so that the same folder is watched again if it is recreated.
+   */
+  private _updateFolderWatchers(
+    project: RushConfigurationProject,
+    itemPath: string,
+    onChange: (folderPath: string, filename: string | undefined) => void
+  ): void {
+    try {
+      if (FileSystem.exists(itemPath)) {
+        if (FileSystem.getStatistics(itemPath).isDirectory()) {
+          this._watchFolderTree(project, itemPath, onChange);
+        }
+        return;
+      }
+    } catch (error) {
+      // The item was deleted while its folders were being watched, which is handled below
+    }
+
+    this._watchers.forEach((watcher: fs.FSWatcher, folderPath: string) => {
+      if (folderPath === itemPath || folderPath.indexOf(itemPath + path.sep) === 0) {
+        watcher.close();
+        this._watchers.delete(folderPath);
+      }
+    });
+  }
+
+  /**
+   * Ignore events for the installed dependencies, the build outputs, and the files that Rush writes
+   * into the project folder, since they would otherwise trigger a rebuild after every build.
+   */
+  private _isIgnored(project: RushConfigurationProject, relativePath: string): boolean {
+    const segments: string[] = relativePath.split(/[\\\/]/);
+    const firstSegment: string = segments[0];
+    if (firstSegment === RushConstants.nodeModulesFolderName || project.outputFolders.indexOf(firstSegment) >= 0) {
+      return true;
+    }
+
+    if (segments.length > 1) {
+      return false;
+    }
+
+    // ProjectTask writes the incremental build state and the build logs, e.g. "package-deps_compile.json"
+    // and "my-project.compile.build.error.log"
+    const logFilenamePrefix: string = path.basename(project.projectFolder) + '.';
+    return /^package-deps(_.+)?\.json$/.test(firstSegment)
+      || (firstSegment.indexOf(logFilenamePrefix) === 0 && /\.build(\.error)?\.log$/.test(firstSegment));
+  }
+}
@@ -35,6 +35,8 @@ export class PublishUtilities {
   /**
    * Finds change requests in the given folder.
    * @param changesPath Path to the changes folder.
+   * @param inferredChanges Additional changes that do not come from change files, such as the changes
+   * that are inferred from conventional commits.
    * @returns Dictionary of all change requests, keyed by package name.
    */
   public static findChangeRequests(
@@ -43,7 +45,8 @@ export class PublishUtilities {
     changeFiles: ChangeFiles,
     includeCommitDetails?: boolean,
     prereleaseToken?: PrereleaseToken,
-    projectsToExclude?: Set<string>
+    projectsToExclude?: Set<string>,
+    inferredChanges: IChangeInfo[] = []
   ): IChangeInfoHash {
 
     const allChanges: IChangeInfoHash = {};
@@ -71,6 +74,17 @@ export class PublishUtilities {
       }
     });
 
+    for (const change of inferredChanges) {
+      PublishUtilities._addChange(
+        change,
+        allChanges,
+        allPackages,
+        rushConfiguration,
+        prereleaseToken,
+        projectsToExclude
+      );
+    }
+
     // For each requested package change, ensure downstream dependencies are also updated.
     for (const packageName in allChanges) {
       if (allChanges.hasOwnProperty(packageName)) {
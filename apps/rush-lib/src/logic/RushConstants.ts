@@ -127,6 +127,20 @@ export namespace RushConstants {
 
   export const versionPoliciesFilename: string = 'version-policies.json';
 
+  /**
+   * The filename ("build-cache.json") for an optional configuration file that selects
+   * where the build cache shares the output folders of projects.
+   * This configuration file should go in the "common/config/rush" folder.
+   */
+  export const buildCacheFilename: string = 'build-cache.json';
+
+  /**
+   * The filename ("change-fields.json") for an optional configuration file that defines
+   * the custom fields that "rush change" asks for, and that are rendered into the changelogs.
+   * This configuration file should go in the "common/config/rush" folder.
+   */
+  export const changeFieldsFilename: string = 'change-fields.json';
+
   /**
    * The URL ("http://rushjs.io") for the Rush web site.
    */
@@ -142,4 +156,30 @@ export namespace RushConstants {
    * before asynchronously deleting them.
    */
   export const rushRecyclerFolderName: string = 'rush-recycler';
+
+  /**
+   * The folder name ("build-cache") under the common temp folder where Rush stores
+   * the build outputs of projects, keyed by the hash of their inputs.
+   * Example: `C:\MyRepo\common\temp\build-cache`
+   */
+  export const buildCacheFolderName: string = 'build-cache';
+
+  /**
+   * The folder name ("timeline") under the common/temp folder where bulk commands save
+   * a report of when each project started and finished, and the durations that are used
+   * to schedule the longest chains of projects first.
+   */
+  export const timelineFolderName: string = 'timeline';
+
+  /**
+   * The folder name ("event-hooks") under the common/temp folder where Rush writes the JSON file
+   * that describes an event to its event hooks.
+   */
+  export const eventHooksFolderName: string = 'event-hooks';
+
+  /**
+   * The environment variable ("RUSH_EVENT_CONTEXT_FILE") that passes the path of the JSON file
+   * that describes an event to its event hooks.
+   */
+  export const eventContextFileVariableName: string = 'RUSH_EVENT_CONTEXT_FILE';
 }
@@ -0,0 +1,234 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as colors from 'colors';
+import * as os from 'os';
+
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import {
+  BaseShrinkwrapFile,
+  IShrinkwrapPackage,
+  IShrinkwrapTempProjectPackages
+} from './base/BaseShrinkwrapFile';
+
+/**
+ * The kinds of changes that are reported by ShrinkwrapDiff.
+ */
+export enum ShrinkwrapChangeKind {
+  Added = 'added',
+  Removed = 'removed',
+  Changed = 'changed'
+}
+
+/**
+ * A package whose versions differ between two shrinkwrap files.
+ */
+export interface IShrinkwrapChange {
+  name: string;
+  kind: ShrinkwrapChangeKind;
+
+  /**
+   * The versions of the package in the old shrinkwrap file.  A package can be installed in several versions.
+   */
+  oldVersions: string[];
+
+  /**
+   * The versions of the package in the new shrinkwrap file.
+   */
+  newVersions: string[];
+
+  /**
+   * True if a project depends on the package directly, rather than through another package.
+   */
+  isDirect: boolean;
+
+  /**
+   * The names of the projects that pulled in the package, sorted alphabetically.
+   */
+  projectNames: string[];
+}
+
+/**
+ * The packages that are installed by each project, collected from one shrinkwrap file.
+ */
+interface IProjectPackages {
+  projectName: string;
+  directPackageNames: Set<string>;
+  allPackageNames: Set<string>;
+}
+
+/**
+ * This class compares two shrinkwrap files, and reports the packages that were added, removed, or
+ * installed in a different version, so that a reviewer doesn't need to read the raw diff.
+ */
+export class ShrinkwrapDiff {
+  private _changes: IShrinkwrapChange[];
+
+  /**
+   * Compares the shrinkwrap files.  If the old shrinkwrap file is undefined, all packages are reported as added.
+   */
+  public static compare(rushConfiguration: RushConfiguration, oldShrinkwrapFile: BaseShrinkwrapFile | undefined,
+    newShrinkwrapFile: BaseShrinkwrapFile): ShrinkwrapDiff {
+
+    const oldVersionsByName: Map<string, string[]> = ShrinkwrapDiff._getVersionsByName(oldShrinkwrapFile);
+    const newVersionsByName: Map<string, string[]> = ShrinkwrapDiff._getVersionsByName(newShrinkwrapFile);
+    const oldProjectPackages: IProjectPackages[] =
+      ShrinkwrapDiff._getProjectPackages(rushConfiguration, oldShrinkwrapFile);
+    const newProjectPackages: IProjectPackages[] =
+      ShrinkwrapDiff._getProjectPackages(rushConfiguration, newShrinkwrapFile);
+
+    const names: string[] = Array.from(new Set<string>([
+      ...Array.from(oldVersionsByName.keys()),
+      ...Array.from(newVersionsByName.keys())
+    ])).sort();
+
+    const changes: IShrinkwrapChange[] = [];
+    for (const name of names) {
+      const oldVersions: string[] = oldVersionsByName.get(name) || [];
+      const newVersions: string[] = newVersionsByName.get(name) || [];
+
+      let kind: ShrinkwrapChangeKind;
+      let projectPackages: IProjectPackages[];
+      if (oldVersions.length === 0) {
+        kind = ShrinkwrapChangeKind.Added;
+        projectPackages = newProjectPackages;
+      } else if (newVersions.length === 0) {
+        // A removed package was pulled in by the projects of the old shrinkwrap file
+        kind = ShrinkwrapChangeKind.Removed;
+        projectPackages = oldProjectPackages;
+      } else if (oldVersions.join(' ') !== newVersions.join(' ')) {
+        kind = ShrinkwrapChangeKind.Changed;
+        projectPackages = newProjectPackages;
+      } else {
+        continue;
+      }
+
+      const projectNames: string[] = [];
+      let isDirect: boolean = false;
+      for (const packages of projectPackages) {
+        if (packages.allPackageNames.has(name)) {
+          projectNames.push(packages.projectName);
+        }
+        if (packages.directPackageNames.has(name)) {
+          isDirect = true;
+        }
+      }
+
+      changes.push({ name, kind, oldVersions, newVersions, isDirect, projectNames: projectNames.sort() });
+    }
+
+    return new ShrinkwrapDiff(changes);
+  }
+
+  private static _getVersionsByName(shrinkwrapFile: BaseShrinkwrapFile | undefined): Map<string, string[]> {
+    const versionsByName: Map<string, string[]> = new Map<string, string[]>();
+    if (shrinkwrapFile) {
+      // The packages are sorted by name and version
+      for (const shrinkwrapPackage of shrinkwrapFile.getRegistryPackages()) {
+        const versions: string[] | undefined = versionsByName.get(shrinkwrapPackage.name);
+        if (versions) {
+          versions.push(shrinkwrapPackage.version);
+        } else {
+          versionsByName.set(shrinkwrapPackage.name, [shrinkwrapPackage.version]);
+        }
+      }
+    }
+    return versionsByName;
+  }
+
+  private static _getProjectPackages(rushConfiguration: RushConfiguration,
+    shrinkwrapFile: BaseShrinkwrapFile | undefined): IProjectPackages[] {
+
+    if (!shrinkwrapFile) {
+      return [];
+    }
+
+    const getNames: (packages: IShrinkwrapPackage[]) => Set<string> = (packages: IShrinkwrapPackage[]) => {
+      return new Set<string>(packages.map((shrinkwrapPackage: IShrinkwrapPackage) => shrinkwrapPackage.name));
+    };
+
+    return shrinkwrapFile.getTempProjectNames().map((tempProjectName: string) => {
+      const project: RushConfigurationProject | undefined = rushConfiguration.findProjectByTempName(tempProjectName);
+      const packages: IShrinkwrapTempProjectPackages = shrinkwrapFile.getTempProjectPackages(tempProjectName);
+      return {
+        // A project that was deleted from rush.json is reported by its temp project name
+        projectName: project ? project.packageName : tempProjectName,
+        directPackageNames: getNames(packages.directPackages),
+        allPackageNames: getNames(packages.allPackages)
+      };
+    });
+  }
+
+  private static _formatVersions(versions: string[]): string {
+    return versions.length > 0 ? versions.join(', ') : '-';
+  }
+
+  /**
+   * The changed packages, sorted by name.
+   */
+  public get changes(): ReadonlyArray<IShrinkwrapChange> {
+    return this._changes;
+  }
+
+  /**
+   * Prints a summary of the changes to the console.
+   */
+  public print(): void {
+    console.log(os.EOL + colors.bold('Changes to the installed packages:'));
+    if (this._changes.length === 0) {
+      console.log('  No packages were added, removed, or changed.');
+      return;
+    }
+
+    for (const kind of [ShrinkwrapChangeKind.Added, ShrinkwrapChangeKind.Removed, ShrinkwrapChangeKind.Changed]) {
+      const changes: IShrinkwrapChange[] = this._changes.filter((change: IShrinkwrapChange) => change.kind === kind);
+      if (changes.length === 0) {
+        continue;
+      }
+
+      console.log(os.EOL + `  ${kind.charAt(0).toUpperCase() + kind.substr(1)} (${changes.length}):`);
+      for (const change of changes) {
+        let line: string;
+        if (kind === ShrinkwrapChangeKind.Added) {
+          line = colors.green(`+ ${change.name} ${ShrinkwrapDiff._formatVersions(change.newVersions)}`);
+        } else if (kind === ShrinkwrapChangeKind.Removed) {
+          line = colors.red(`- ${change.name} ${ShrinkwrapDiff._formatVersions(change.oldVersions)}`);
+        } else {
+          line = colors.yellow(`* ${change.name} ${ShrinkwrapDiff._formatVersions(change.oldVersions)}`
+            + ` --> ${ShrinkwrapDiff._formatVersions(change.newVersions)}`);
+        }
+
+        console.log(`    ${line} ` + colors.gray(`(${change.isDirect ? 'direct' : 'transitive'}`
+          + (change.projectNames.length > 0 ? `; ${change.projectNames.join(', ')})` : ')')));
+      }
+    }
+  }
+
+  /**
+   * Renders the changes as a markdown table, e.g. for a pull request comment.
+   */
+  public renderMarkdown(): string {
+    const lines: string[] = ['## Changes to the installed packages', ''];
+
+    if (this._changes.length === 0) {
+      lines.push('No packages were added, removed, or changed.');
+    } else {
+      lines.push('| Package | Change | Old version | New version | Dependency | Projects |');
+      lines.push('| --- | --- | --- | --- | --- | --- |');
+      for (const change of this._changes) {
+        lines.push(`| ${change.name} | ${change.kind}`
+          + ` | ${ShrinkwrapDiff._formatVersions(change.oldVersions)}`
+          + ` | ${ShrinkwrapDiff._formatVersions(change.newVersions)}`
+          + ` | ${change.isDirect ? 'direct' : 'transitive'}`
+          + ` | ${change.projectNames.join(', ')} |`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private constructor(changes: IShrinkwrapChange[]) {
+    this._changes = changes;
+  }
+}
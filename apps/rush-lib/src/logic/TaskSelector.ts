@@ -1,18 +1,30 @@
+import * as path from 'path';
+import * as colors from 'colors';
+
 import {
   RushConfiguration,
   IRushLinkJson
 } from '../api/RushConfiguration';
 import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { BuildCacheConfiguration } from '../api/BuildCacheConfiguration';
 import { JsonFile } from '@microsoft/node-core-library';
 
 import { TaskRunner } from '../logic/taskRunner/TaskRunner';
+import { TaskTimeline, ITaskTimelineRecord } from '../logic/taskRunner/TaskTimeline';
+import { TaskDurationHistory } from '../logic/taskRunner/TaskDurationHistory';
 import { ProjectTask } from '../logic/taskRunner/ProjectTask';
+import { ITask } from '../logic/taskRunner/ITask';
+import { Event } from '../api/EventHooks';
+import { EventHooksManager, IEventHookProjectContext } from './EventHooksManager';
 import { PackageChangeAnalyzer } from './PackageChangeAnalyzer';
+import { ProjectSelector, IProjectSelection } from './ProjectSelector';
+import { BuildCacheManager } from './buildCache/BuildCacheManager';
+import { BuildCacheProviderFactory } from './buildCache/BuildCacheProviderFactory';
+import { RushConstants } from './RushConstants';
+import { AlreadyReportedError } from '../utilities/AlreadyReportedError';
 
-export interface ITaskSelectorConstructor {
+export interface ITaskSelectorConstructor extends IProjectSelection {
   rushConfiguration: RushConfiguration;
-  toFlags: ReadonlyArray<string>;
-  fromFlags: ReadonlyArray<string>;
   commandToRun: string;
   customParameterValues: string[];
   isQuietMode: boolean;
@@ -21,31 +33,76 @@ export interface ITaskSelectorConstructor {
   changedProjectsOnly: boolean;
   ignoreMissingScript: boolean;
   ignoreDependencyOrder: boolean;
+
+  /**
+   * If specified, the command is divided into these phases, which are run in order for each project.
+   * Each phase of a project depends on the same phase of the project's dependencies.
+   */
+  phases?: ReadonlyArray<string>;
+
+  /**
+   * If specified, tasks are only registered for these projects.  Watch mode uses this to limit
+   * each rebuild to the projects that were selected when it started.
+   */
+  selectedProjectNames?: ReadonlySet<string>;
+
+  /**
+   * If specified, the preProjectBuild and postProjectBuild event hooks are run for each task.
+   */
+  eventHooksManager?: EventHooksManager;
+  isDebug?: boolean;
+}
+
+/**
+ * The project and phase that a task was registered for.
+ */
+interface IRegisteredTask {
+  project: RushConfigurationProject;
+  phaseName: string | undefined;
 }
 
 /**
  * This class is responsible for:
- *  - based on to/from flags, solving the dependency graph and figuring out which projects need to be run
- *  - creating a ProjectTask for each project that needs to be built
+ *  - based on the project selection flags, solving the dependency graph and figuring out which projects need to be run
+ *  - creating a ProjectTask for each project (or each phase of each project) that needs to be built
  *  - registering the necessary ProjectTasks with the TaskRunner, which actually orchestrates execution
  *
  * This class is currently only used by CustomRushAction
  */
 export class TaskSelector {
   private _taskRunner: TaskRunner;
-  private _dependentList: Map<string, Set<string>>;
   private _rushLinkJson: IRushLinkJson;
   private _options: ITaskSelectorConstructor;
   private _packageChangeAnalyzer: PackageChangeAnalyzer;
+  private _buildCacheManager: BuildCacheManager;
+  private _selectedProjects: RushConfigurationProject[];
+  private _durationHistory: TaskDurationHistory;
+  private _registeredTasks: Map<string, IRegisteredTask>;
+
+  /**
+   * The phases to register for each project.  If the command is not divided into phases,
+   * a single task with no phase name is registered.
+   */
+  private _phases: ReadonlyArray<string | undefined>;
 
   constructor(options: ITaskSelectorConstructor) {
     this._options = options;
+    this._selectedProjects = [];
+    this._registeredTasks = new Map<string, IRegisteredTask>();
+    this._phases = options.phases && options.phases.length > 0 ? options.phases : [undefined];
 
     this._packageChangeAnalyzer = new PackageChangeAnalyzer(options.rushConfiguration);
-    this._taskRunner = new TaskRunner(
-      this._options.isQuietMode,
-      this._options.parallelism,
-      this._options.changedProjectsOnly);
+    this._durationHistory = TaskDurationHistory.loadFromFile(
+      path.join(this._getTimelineFolder(), `${this._options.commandToRun}.durations.json`)
+    );
+    this._taskRunner = new TaskRunner({
+      quietMode: this._options.isQuietMode,
+      parallelism: this._options.parallelism,
+      changedProjectsOnly: this._options.changedProjectsOnly,
+      durationHistory: this._durationHistory,
+      onTaskStart: (task: ITask) => this._handleProjectEvent(Event.preProjectBuild, task),
+      onTaskEnd: (task: ITask) => this._handleProjectEvent(Event.postProjectBuild, task)
+    });
 
     try {
       this._rushLinkJson = JsonFile.load(this._options.rushConfiguration.rushLinkJsonFilename);
@@ -54,125 +111,162 @@ export class TaskSelector {
         + ` Did you run "rush install" or "rush update"?`);
     }
 
-    if (this._options.toFlags.length > 0) {
-      this._registerToFlags(this._options.toFlags);
-    }
-    if (this._options.fromFlags.length > 0) {
-      this._registerFromFlags(this._options.fromFlags);
+    const buildCacheConfiguration: BuildCacheConfiguration = BuildCacheConfiguration.loadFromFileOrDefault(
+      path.join(this._options.rushConfiguration.commonRushConfigFolder, RushConstants.buildCacheFilename),
+      this._options.rushConfiguration.rushJsonFolder
+    );
+    this._buildCacheManager = new BuildCacheManager({
+      buildCacheFolder: this._options.rushConfiguration.buildCacheFolder,
+      sharedCacheProvider: BuildCacheProviderFactory.getSharedCacheProvider(buildCacheConfiguration),
+      rushLinkJson: this._rushLinkJson,
+      packageChangeAnalyzer: this._packageChangeAnalyzer
+    });
+
+    const projectSelector: ProjectSelector = new ProjectSelector({
+      rushConfiguration: this._options.rushConfiguration,
+      rushLinkJson: this._rushLinkJson,
+      packageChangeAnalyzer: this._packageChangeAnalyzer
+    });
+    for (const project of projectSelector.selectProjects(this._options)) {
+      this._registerTask(project);
     }
-    if (this._options.toFlags.length === 0 && this._options.fromFlags.length === 0) {
-      this._registerAll();
+
+    if (!this._options.ignoreDependencyOrder) {
+      // Add ordering relationships between the projects that have been registered.  For example,
+      // package C may depend on A & B, but if we are only building A's downstream, we will ignore B
+      for (const project of this._selectedProjects) {
+        this._addProjectDependencies(project.packageName, this._rushLinkJson.localLinks[project.packageName] || []);
+      }
     }
   }
 
-  public execute(): Promise<void> {
-    return this._taskRunner.execute();
+  /**
+   * The projects that tasks were registered for.
+   */
+  public get selectedProjects(): ReadonlyArray<RushConfigurationProject> {
+    return this._selectedProjects;
   }
 
-  private _registerToFlags(toFlags: ReadonlyArray<string>): void {
-    for (const toFlag of toFlags) {
-      const toProject: RushConfigurationProject | undefined =
-        this._options.rushConfiguration.findProjectByShorthandName(toFlag);
-      if (!toProject) {
-        throw new Error(`The project '${toFlag}' does not exist in rush.json`);
-      }
+  /**
+   * Describes each registered task, e.g. for the event hooks and the telemetry.  After the tasks were
+   * executed, this includes their statuses and durations.
+   */
+  public getTaskResults(): IEventHookProjectContext[] {
+    const timeline: TaskTimeline | undefined = this._taskRunner.timeline;
+    if (!timeline) {
+      return Array.from(this._registeredTasks.keys()).map((taskName: string) => {
+        return this._getEventHookProject(taskName);
+      });
+    }
 
-      const deps: Set<string> = this._collectAllDependencies(toProject.packageName);
+    return timeline.getRecords().map((record: ITaskTimelineRecord) => {
+      const duration: number | undefined = record.startTime !== undefined && record.endTime !== undefined
+        ? (record.endTime - record.startTime) / 1000
+        : undefined;
+      return this._getEventHookProject(record.name, record.status, duration);
+    });
+  }
 
-      // Register any dependencies it may have
-      deps.forEach(dep => this._registerTask(this._options.rushConfiguration.getProjectByName(dep)));
+  public execute(): Promise<void> {
+    return this._taskRunner.execute().then(() => {
+      this._saveTimeline();
+    }, (error: Error) => {
+      this._saveTimeline();
+      throw error;
+    });
+  }
 
-      if (!this._options.ignoreDependencyOrder) {
-        // Add ordering relationships for each dependency
-        deps.forEach(dep => this._taskRunner.addDependencies(dep, this._rushLinkJson.localLinks[dep] || []));
-      }
+  private _handleProjectEvent(event: Event, task: ITask): Promise<void> {
+    if (!this._options.eventHooksManager) {
+      return Promise.resolve();
     }
-  }
 
-  private _registerFromFlags(fromFlags: ReadonlyArray<string>): void {
-    for (const fromFlag of fromFlags) {
-      const fromProject: RushConfigurationProject | undefined
-        = this._options.rushConfiguration.findProjectByShorthandName(fromFlag);
-      if (!fromProject) {
-        throw new Error(`The project '${fromFlag}' does not exist in rush.json`);
+    const project: IEventHookProjectContext = event === Event.postProjectBuild
+      ? this._getEventHookProject(task.name, task.status, task.stopwatch.duration)
+      : this._getEventHookProject(task.name);
+    return this._options.eventHooksManager.handleAsync(event, !!this._options.isDebug, {
+      commandName: this._options.commandToRun,
+      projects: [project]
+    }).catch((error: Error) => {
+      // The hook's output was already printed, so the task runner only needs to say which step failed
+      if (error instanceof AlreadyReportedError) {
+        throw new Error(`The ${Event[event]} event hooks failed`);
       }
+      throw error;
+    });
+  }
 
-      // Only register projects which depend on the current package, as well as things that depend on them
-      this._buildDependentGraph();
-
-      // We will assume this project will be built, but act like it has no dependencies
-      const dependents: Set<string> = this._collectAllDependents(fromProject.packageName);
-      dependents.add(fromProject.packageName);
-
-      // Register all downstream dependents
-      dependents.forEach(dependent => {
-        this._registerTask(this._options.rushConfiguration.getProjectByName(dependent));
-      });
+  private _getEventHookProject(taskName: string, status?: string, duration?: number): IEventHookProjectContext {
+    const registeredTask: IRegisteredTask = this._registeredTasks.get(taskName)!;
 
-      if (!this._options.ignoreDependencyOrder) {
-        // Only add ordering relationships for projects which have been registered
-        // e.g. package C may depend on A & B, but if we are only building A's downstream, we will ignore B
-        dependents.forEach(dependent =>
-          this._taskRunner.addDependencies(dependent,
-            (this._rushLinkJson.localLinks[dependent] || []).filter(dep => dependents.has(dep))));
-      }
+    // Undefined members can't be saved to the JSON file
+    const project: IEventHookProjectContext = { name: registeredTask.project.packageName };
+    if (registeredTask.phaseName) {
+      project.phaseName = registeredTask.phaseName;
     }
-  }
-
-  private _registerAll(): void {
-    // Register all tasks
-    for (const rushProject of this._options.rushConfiguration.projects) {
-      this._registerTask(rushProject);
+    if (status !== undefined) {
+      project.status = status;
     }
-    if (!this._options.ignoreDependencyOrder) {
-      // Add ordering relationships for each dependency
-      for (const projectName of Object.keys(this._rushLinkJson.localLinks)) {
-        this._taskRunner.addDependencies(projectName, this._rushLinkJson.localLinks[projectName]);
-      }
+    if (duration !== undefined) {
+      project.duration = duration;
     }
+    return project;
   }
 
-  /**
-   * Collects all upstream dependencies for a certain project
-   */
-  private _collectAllDependencies(project: string): Set<string> {
-    const deps: Set<string> = new Set<string>(this._rushLinkJson.localLinks[project]);
-    deps.forEach(dep => this._collectAllDependencies(dep).forEach(innerDep => deps.add(innerDep)));
-    deps.add(project);
-    return deps;
+  private _getTimelineFolder(): string {
+    return path.join(this._options.rushConfiguration.commonTempFolder, RushConstants.timelineFolderName);
   }
 
   /**
-   * Collects all downstream dependents of a certain project
+   * Saves the timeline of the run as a JSON report, and as a trace file for the chrome://tracing viewer.
+   * Also saves the durations of the tasks, which are used to schedule the next run.
    */
-  private _collectAllDependents(project: string): Set<string> {
-    const deps: Set<string> = new Set<string>();
-    (this._dependentList.get(project) || new Set<string>()).forEach((dep) => {
-      deps.add(dep);
-    });
-    deps.forEach(dep => this._collectAllDependents(dep).forEach(innerDep => deps.add(innerDep)));
-    return deps;
+  private _saveTimeline(): void {
+    const timeline: TaskTimeline | undefined = this._taskRunner.timeline;
+    if (!timeline) {
+      return;
+    }
+
+    const timelineFolder: string = this._getTimelineFolder();
+    const reportFilename: string = path.join(timelineFolder, `${this._options.commandToRun}.json`);
+    const traceFilename: string = path.join(timelineFolder, `${this._options.commandToRun}.trace.json`);
+
+    try {
+      JsonFile.save(timeline.toJson(), reportFilename, { ensureFolderExists: true });
+      JsonFile.save(timeline.toChromeTrace(), traceFilename, { ensureFolderExists: true });
+      this._durationHistory.save();
+      console.log(colors.gray(`The timeline was saved to ${reportFilename}`));
+    } catch (error) {
+      console.log(colors.yellow(`Error writing the timeline to disk: ${error}`));
+    }
+  }
+
+  private _isSelected(projectName: string): boolean {
+    return !this._options.selectedProjectNames || this._options.selectedProjectNames.has(projectName);
   }
 
   /**
-   * Inverts the localLinks to arrive at the dependent graph, rather than using the dependency graph
-   * this helps when using the --from flag
+   * Makes each phase of the project depend on the same phase of each of the dependencies that were registered.
    */
-  private _buildDependentGraph(): void {
-    this._dependentList = new Map<string, Set<string>>();
-
-    Object.keys(this._rushLinkJson.localLinks).forEach(project => {
-      this._rushLinkJson.localLinks[project].forEach(dep => {
-        if (!this._dependentList.has(dep)) {
-          this._dependentList.set(dep, new Set<string>());
-        }
-        this._dependentList.get(dep)!.add(project);
-      });
-    });
+  private _addProjectDependencies(projectName: string, dependencyNames: ReadonlyArray<string>): void {
+    for (const phaseName of this._phases) {
+      const taskName: string = ProjectTask.getTaskName(projectName, phaseName);
+      if (this._taskRunner.hasTask(taskName)) {
+        this._taskRunner.addDependencies(taskName, dependencyNames
+          .map(dependencyName => ProjectTask.getTaskName(dependencyName, phaseName))
+          .filter(dependencyTaskName => this._taskRunner.hasTask(dependencyTaskName)));
+      }
+    }
   }
 
-  private _registerTask(project: RushConfigurationProject | undefined): void {
-    if (project) {
+  private _registerTask(project: RushConfigurationProject): void {
+    if (!this._isSelected(project.packageName)
+      || this._taskRunner.hasTask(ProjectTask.getTaskName(project.packageName, this._phases[0]))) {
+      return;
+    }
+
+    let previousTaskName: string | undefined = undefined;
+    for (const phaseName of this._phases) {
       const projectTask: ProjectTask = new ProjectTask({
         rushProject: project,
         rushConfiguration: this._options.rushConfiguration,
@@ -180,12 +274,20 @@ export class TaskSelector {
         customParameterValues: this._options.customParameterValues,
         isIncrementalBuildAllowed: this._options.isIncrementalBuildAllowed,
         ignoreMissingScript: this._options.ignoreMissingScript,
-        packageChangeAnalyzer: this._packageChangeAnalyzer
+        packageChangeAnalyzer: this._packageChangeAnalyzer,
+        buildCacheManager: this._buildCacheManager,
+        phaseName
       });
+      this._taskRunner.addTask(projectTask);
+      this._registeredTasks.set(projectTask.name, { project, phaseName });
 
-      if (!this._taskRunner.hasTask(projectTask.name)) {
-        this._taskRunner.addTask(projectTask);
+      // The phases of a project always run in order, even if the dependency order is ignored
+      if (previousTaskName) {
+        this._taskRunner.addDependencies(projectTask.name, [previousTaskName], true);
       }
+      previousTaskName = projectTask.name;
     }
+
+    this._selectedProjects.push(project);
   }
 }
@@ -1,14 +1,20 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import * as fs from 'fs';
+import * as colors from 'colors';
 import * as path from 'path';
 import { cloneDeep } from 'lodash';
 
 import { RushConfiguration } from '../api/RushConfiguration';
 import { Rush } from '../api/Rush';
 import { FileSystem } from '@microsoft/node-core-library';
+import { ITelemetrySink } from './telemetrySinks/TelemetrySink';
+import { TelemetrySinkFactory } from './telemetrySinks/TelemetrySinkFactory';
 
+/**
+ * A record of telemetry data that is collected during a Rush run.
+ * @beta
+ */
 export interface ITelemetryData {
   name: string;
   duration: number;
@@ -19,8 +25,6 @@ export interface ITelemetryData {
   extraData?: { [key: string]: string };
 }
 
-const MAX_FILE_COUNT: number = 100;
-
 export class Telemetry {
   private _enabled: boolean;
   private _store: ITelemetryData[];
@@ -47,59 +51,38 @@ export class Telemetry {
     this._store.push(data);
   }
 
+  /**
+   * Passes the stored data to the sinks that are configured in rush.json.  A sink that fails
+   * is reported as a warning, since the telemetry should not fail the Rush command.
+   *
+   * @param writeFile - used by the "json" sink to write its files
+   */
   public flush(writeFile: (file: string, data: string) => void = FileSystem.writeFile): void {
     if (!this._enabled || this._store.length === 0) {
       return;
     }
 
-    const fullPath: string = this._getFilePath();
-    FileSystem.ensureFolder(this._dataFolder);
-    writeFile(fullPath, JSON.stringify(this._store));
+    const telemetryData: ITelemetryData[] = this._store;
     this._store = [];
-    this._cleanUp();
-  }
 
-  public get store(): ITelemetryData[] {
-    return this._store;
-  }
+    let sinks: ITelemetrySink[];
+    try {
+      sinks = TelemetrySinkFactory.getSinks(this._rushConfiguration, this._dataFolder, writeFile);
+    } catch (error) {
+      console.log(colors.yellow(`Error loading the telemetry sinks: ${error.message}`));
+      return;
+    }
 
-  /**
-   * When there are too many log files, delete the old ones.
-   */
-  private _cleanUp(): void {
-    if (FileSystem.exists(this._dataFolder)) {
-      const files: string[] = FileSystem.readFolder(this._dataFolder);
-      if (files.length > MAX_FILE_COUNT) {
-        const sortedFiles: string[] = files.map(fileName => {
-          const filePath: string = path.join(this._dataFolder, fileName);
-          const stats: fs.Stats = FileSystem.getStatistics(filePath);
-          return {
-            filePath: filePath,
-            modifiedTime: stats.mtime.getTime(),
-            isFile: stats.isFile()
-          };
-        })
-        .filter(value => {
-          // Only delete files
-          return value.isFile;
-        })
-        .sort((a, b) => {
-          return a.modifiedTime - b.modifiedTime;
-        })
-        .map(s => {
-          return s.filePath;
-        });
-        const filesToDelete: number = sortedFiles.length - MAX_FILE_COUNT;
-        for (let i: number = 0; i < filesToDelete; i++) {
-          FileSystem.deleteFile(sortedFiles[i]);
-        }
+    for (const sink of sinks) {
+      try {
+        sink.flush(telemetryData);
+      } catch (error) {
+        console.log(colors.yellow(`Error writing the telemetry data: ${error.message}`));
       }
     }
   }
 
-  private _getFilePath(): string {
-    let fileName: string = `telemetry_${new Date().toISOString()}`;
-    fileName = fileName.replace(/[\-\:\.]/g, '_') + '.json';
-    return path.join(this._dataFolder, fileName);
+  public get store(): ITelemetryData[] {
+    return this._store;
   }
-}
\ No newline at end of file
+}
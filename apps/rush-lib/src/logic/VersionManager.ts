@@ -16,12 +16,15 @@ import {
   LockStepVersionPolicy
 } from '../api/VersionPolicy';
 import { ChangeFile } from '../api/ChangeFile';
-import { ChangeType, IChangeInfo } from '../api/ChangeManagement';
+import { ChangeType, IChangeInfo, IChangeFile } from '../api/ChangeManagement';
+import { IChangelog } from '../api/Changelog';
 import { RushConfiguration } from '../api/RushConfiguration';
 import { RushConfigurationProject } from '../api/RushConfigurationProject';
 import { VersionPolicyConfiguration } from '../api/VersionPolicyConfiguration';
-import { PublishUtilities } from './PublishUtilities';
+import { PublishUtilities, IChangeInfoHash } from './PublishUtilities';
 import { ChangeManager } from './ChangeManager';
+import { ChangeFiles } from './ChangeFiles';
+import { ChangelogGenerator } from './ChangelogGenerator';
 
 export class VersionManager {
   private _versionPolicyConfiguration: VersionPolicyConfiguration;
@@ -49,9 +52,11 @@ export class VersionManager {
    * @param versionPolicyName -- version policy name
    * @param shouldCommit -- should update files to disk
    * @param force -- update even when project version is higher than policy version.
+   * @param targetBranch -- the branch that the versions are published from. Without this value,
+   * the current Git branch is used.
    */
-  public ensure(versionPolicyName?: string, shouldCommit?: boolean, force?: boolean): void {
-    this._ensure(versionPolicyName, shouldCommit, force);
+  public ensure(versionPolicyName?: string, shouldCommit?: boolean, force?: boolean, targetBranch?: string): void {
+    this._ensure(versionPolicyName, shouldCommit, force, targetBranch);
   }
 
   /**
@@ -63,17 +68,20 @@ export class VersionManager {
    * @param bumpType - overrides the default bump type and only works for lock step policy
    * @param identifier - overrides the prerelease identifier and only works for lock step policy
    * @param shouldCommit - whether the changes will be written to disk
+   * @param targetBranch - the branch that the versions are published from. Without this value,
+   * the current Git branch is used.
    */
   public bump(lockStepVersionPolicyName?: string,
     bumpType?: BumpType,
     identifier?: string,
-    shouldCommit?: boolean
+    shouldCommit?: boolean,
+    targetBranch?: string
   ): void {
     // Bump all the lock step version policies.
     this._versionPolicyConfiguration.bump(lockStepVersionPolicyName, bumpType, identifier, shouldCommit);
 
     // Update packages and generate change files due to lock step bump.
-    this._ensure(lockStepVersionPolicyName, shouldCommit);
+    this._ensure(lockStepVersionPolicyName, shouldCommit, undefined, targetBranch);
 
     // Refresh rush configuration
     this._rushConfiguration = RushConfiguration.loadFromConfigurationFile(this._rushConfiguration.rushJsonFile);
@@ -83,7 +91,7 @@ export class VersionManager {
       this._getLockStepProjects());
     changeManager.load(this._rushConfiguration.changesFolder);
     if (changeManager.hasChanges()) {
-      changeManager.validateChanges(this._versionPolicyConfiguration);
+      changeManager.validateChanges(this._versionPolicyConfiguration, targetBranch);
       changeManager.apply(!!shouldCommit)!.forEach(packageJson => {
         this._updatedProjects.set(packageJson.name, packageJson);
       });
@@ -91,6 +99,57 @@ export class VersionManager {
     }
   }
 
+  /**
+   * Promotes the prerelease versions on a release channel to stable versions, e.g. "2.0.0-beta.3" to "2.0.0".
+   * The ranges of the dependents are updated, and the change files that were saved during the prerelease
+   * are consolidated into a single changelog entry for each promoted project.
+   *
+   * @param channel - release channel, e.g. "beta"
+   * @param versionPolicyName - a specified version policy name. Without this value, all version policies
+   * that declare the channel are promoted.
+   * @param shouldCommit - whether the changes will be written to disk
+   */
+  public promote(channel: string, versionPolicyName?: string, shouldCommit?: boolean): void {
+    const promotedPolicies: VersionPolicy[] = this._versionPolicyConfiguration.promote(channel,
+      versionPolicyName, shouldCommit);
+    const promotedPolicyNames: Set<string> = new Set<string>(promotedPolicies.map(policy => policy.policyName));
+
+    const promotedProjectNames: Set<string> = new Set<string>();
+    this._rushConfiguration.projects.forEach(rushProject => {
+      if (rushProject.versionPolicyName && promotedPolicyNames.has(rushProject.versionPolicyName)) {
+        const version: semver.SemVer = new semver.SemVer(rushProject.packageJson.version);
+        if (version.prerelease[0] === channel) {
+          const updatedProject: IPackageJson = cloneDeep(rushProject.packageJson);
+          updatedProject.version = `${version.major}.${version.minor}.${version.patch}`;
+          this._updatedProjects.set(updatedProject.name, updatedProject);
+          promotedProjectNames.add(updatedProject.name);
+        }
+      }
+    });
+
+    // Update the ranges of the dependents
+    this._updateDependencies();
+
+    if (shouldCommit) {
+      this._updatePackageJsonFiles();
+      this._changeFiles.forEach((changeFile) => {
+        changeFile.writeSync();
+      });
+
+      // Refresh rush configuration, and apply the publish format of the dependents' version policies
+      this._rushConfiguration = RushConfiguration.loadFromConfigurationFile(this._rushConfiguration.rushJsonFile);
+      this._rushConfiguration.projects.forEach(rushProject => {
+        const dependsOnPromotedProject: boolean = rushProject.packageJsonEditor.dependencyList
+          .some(dependency => promotedProjectNames.has(dependency.name));
+        if (rushProject.versionPolicy && dependsOnPromotedProject) {
+          rushProject.versionPolicy.setDependenciesBeforePublish(rushProject.packageName, this._rushConfiguration);
+        }
+      });
+    }
+
+    this._updatePromotedChangelogs(promotedProjectNames, !!shouldCommit);
+  }
+
   public get updatedProjects(): Map<string, IPackageJson> {
     return this._updatedProjects;
   }
@@ -99,8 +158,9 @@ export class VersionManager {
     return this._changeFiles;
   }
 
-  private _ensure(versionPolicyName?: string, shouldCommit?: boolean, force?: boolean): void {
-    this._updateVersionsByPolicy(versionPolicyName, force);
+  private _ensure(versionPolicyName?: string, shouldCommit?: boolean, force?: boolean,
+    targetBranch?: string): void {
+    this._updateVersionsByPolicy(versionPolicyName, force, targetBranch);
 
     // Update all dependencies if needed.
     this._updateDependencies();
@@ -130,7 +190,7 @@ export class VersionManager {
     return lockStepProjectNames;
   }
 
-  private _updateVersionsByPolicy(versionPolicyName?: string, force?: boolean): void {
+  private _updateVersionsByPolicy(versionPolicyName?: string, force?: boolean, targetBranch?: string): void {
     // Update versions based on version policy
     this._rushConfiguration.projects.forEach(rushProject => {
       const projectVersionPolicyName: string | undefined = rushProject.versionPolicyName;
@@ -138,7 +198,8 @@ export class VersionManager {
         (!versionPolicyName || projectVersionPolicyName === versionPolicyName)) {
         const versionPolicy: VersionPolicy = this._versionPolicyConfiguration.getVersionPolicy(
           projectVersionPolicyName);
-        const updatedProject: IPackageJson | undefined = versionPolicy.ensure(rushProject.packageJson, force);
+        const updatedProject: IPackageJson | undefined = versionPolicy.ensure(rushProject.packageJson, force,
+          targetBranch);
         if (updatedProject) {
           this._updatedProjects.set(updatedProject.name, updatedProject);
           // No need to create an entry for prerelease version bump.
@@ -331,6 +392,43 @@ export class VersionManager {
     });
   }
 
+  /**
+   * Writes one changelog entry for each promoted project, with the comments from the change files
+   * that were saved while the project was a prerelease.
+   */
+  private _updatePromotedChangelogs(promotedProjectNames: Set<string>, shouldCommit: boolean): void {
+    const allChanges: IChangeInfoHash = {};
+    promotedProjectNames.forEach((packageName) => {
+      allChanges[packageName] = {
+        packageName,
+        changeType: ChangeType.none,
+        newVersion: this._updatedProjects.get(packageName)!.version,
+        changes: []
+      };
+    });
+
+    const changeFiles: ChangeFiles = new ChangeFiles(this._rushConfiguration.changesFolder);
+    changeFiles.getFiles().forEach((filePath) => {
+      const changeFile: IChangeFile = JsonFile.load(filePath);
+      changeFile.changes.forEach((change) => {
+        const promotedChange: IChangeInfo | undefined = allChanges[change.packageName];
+        if (promotedChange) {
+          change.changeType = ChangeType[change.type!];
+          promotedChange.changeType = Math.max(promotedChange.changeType!, change.changeType!);
+          promotedChange.changes!.push(change);
+        }
+      });
+    });
+
+    const updatedChangelogs: IChangelog[] = ChangelogGenerator.updateChangelogs(
+      allChanges,
+      this._rushConfiguration.projectsByName,
+      this._rushConfiguration,
+      shouldCommit
+    );
+    changeFiles.deleteAll(shouldCommit, updatedChangelogs);
+  }
+
   private _createChangeInfo(newPackageJson: IPackageJson,
     rushProject: RushConfigurationProject
   ): IChangeInfo {
@@ -0,0 +1,199 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as colors from 'colors';
+import * as semver from 'semver';
+import inquirer = require('inquirer');
+
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { CommonVersionsConfiguration } from '../api/CommonVersionsConfiguration';
+import { VersionMismatchFinder } from '../api/VersionMismatchFinder';
+import { DependencyType, PackageJsonDependency } from '../api/PackageJsonEditor';
+import { RushConstants } from './RushConstants';
+import { Utilities } from '../utilities/Utilities';
+
+/**
+ * How "rush check --fix" selects the version that a mismatched dependency is changed to.
+ *
+ * - "preferred": the preferred version from common-versions.json, or else the highest version
+ * - "highest": the version range with the highest minimum version
+ * - "interactive": the user is asked to choose a version for each dependency
+ */
+export type VersionMismatchFixStrategy = 'preferred' | 'highest' | 'interactive';
+
+/**
+ * A mismatched dependency that was changed to a single version.
+ */
+export interface IVersionMismatchFix {
+  dependencyName: string;
+  version: string;
+
+  /**
+   * The names of the projects whose package.json was changed, sorted alphabetically.
+   */
+  projectNames: string[];
+}
+
+/**
+ * This class implements "rush check --fix".  For each dependency that is reported by VersionMismatchFinder,
+ * it selects a version and changes the package.json files of the projects that use a different version.
+ * The package.json files are changed in memory; the caller is responsible for saving them.
+ */
+export class VersionMismatchFixer {
+  private _rushConfiguration: RushConfiguration;
+  private _commonVersions: CommonVersionsConfiguration;
+  private _prompt: inquirer.PromptModule | undefined;
+
+  /**
+   * Sorts the version specifiers by their minimum version, highest first.  Specifiers that are
+   * not SemVer ranges are sorted last.
+   */
+  private static _compareVersions(a: string, b: string): number {
+    const minimumA: string | undefined = Utilities.getMinimumVersion(a);
+    const minimumB: string | undefined = Utilities.getMinimumVersion(b);
+    if (!minimumA || !minimumB) {
+      return minimumA ? -1 : (minimumB ? 1 : a.localeCompare(b));
+    }
+    return semver.rcompare(minimumA, minimumB) || a.localeCompare(b);
+  }
+
+  public constructor(rushConfiguration: RushConfiguration, commonVersions: CommonVersionsConfiguration) {
+    this._rushConfiguration = rushConfiguration;
+    this._commonVersions = commonVersions;
+  }
+
+  /**
+   * Fixes the mismatches one dependency at a time.  Projects that use a version from allowedAlternativeVersions
+   * are not reported by VersionMismatchFinder, so they are left unchanged.
+   *
+   * @returns the dependencies that were changed
+   */
+  public fix(mismatchFinder: VersionMismatchFinder, strategy: VersionMismatchFixStrategy):
+    Promise<IVersionMismatchFix[]> {
+
+    const fixes: IVersionMismatchFix[] = [];
+    let promise: Promise<void> = Promise.resolve();
+
+    for (const mismatch of mismatchFinder.getMismatches()) {
+      promise = promise.then(() => {
+        // A cyclic dependency refers to a published version of a local project, which must be chosen by hand
+        if (mismatch.match(/ \(cyclic\)$/)) {
+          console.log(colors.yellow(`Skipping ${mismatch}, because cyclic dependencies are not fixed automatically`));
+          return;
+        }
+
+        const versions: string[] = mismatchFinder.getVersionsOfMismatch(mismatch)!;
+        return this._selectVersion(mismatch, versions, strategy).then((version: string | undefined) => {
+          if (version === undefined) {
+            console.log(colors.yellow(`Skipping ${mismatch}, because no version was selected`));
+            return;
+          }
+
+          const fix: IVersionMismatchFix | undefined = this._applyVersion(mismatchFinder, mismatch, versions, version);
+          if (fix) {
+            fixes.push(fix);
+          }
+        });
+      });
+    }
+
+    return promise.then(() => fixes);
+  }
+
+  private _selectVersion(dependencyName: string, versions: string[], strategy: VersionMismatchFixStrategy):
+    Promise<string | undefined> {
+
+    // Never select a version that violates the allowedVersionRanges or bannedVersions
+    const candidates: string[] = versions
+      .filter((version: string) => !this._commonVersions.tryGetVersionViolation(dependencyName, version))
+      .sort(VersionMismatchFixer._compareVersions);
+    if (candidates.length === 0) {
+      return Promise.resolve(undefined);
+    }
+
+    const preferredVersion: string | undefined = this._commonVersions.getAllPreferredVersions().get(dependencyName);
+    const defaultVersion: string = preferredVersion && candidates.indexOf(preferredVersion) > -1
+      ? preferredVersion
+      : candidates[0];
+
+    if (strategy === 'interactive') {
+      if (!this._prompt) {
+        this._prompt = inquirer.createPromptModule();
+      }
+
+      return this._prompt({
+        name: 'version',
+        type: 'list',
+        default: defaultVersion,
+        message: `Select the version of "${dependencyName}" that all projects should use:`,
+        choices: [
+          ...candidates.map((version: string) => {
+            return {
+              'name': version === preferredVersion ? `${version} (preferred version)` : version,
+              'value': version
+            };
+          }),
+          {
+            'name': 'Skip',
+            'value': ''
+          }
+        ]
+      })
+      .then(({ version }: { version: string }) => version || undefined);
+    }
+
+    if (strategy === 'preferred') {
+      return Promise.resolve(defaultVersion);
+    }
+
+    // A version specifier that is not a SemVer range can't be compared, so it is only selected by hand
+    return Promise.resolve(Utilities.getMinimumVersion(candidates[0]) ? candidates[0] : undefined);
+  }
+
+  private _applyVersion(mismatchFinder: VersionMismatchFinder, dependencyName: string, versions: string[],
+    selectedVersion: string): IVersionMismatchFix | undefined {
+
+    const projectNames: string[] = [];
+
+    for (const version of versions) {
+      if (version === selectedVersion) {
+        continue;
+      }
+
+      for (const consumer of mismatchFinder.getConsumersOfMismatch(dependencyName, version)!) {
+        const project: RushConfigurationProject | undefined = this._rushConfiguration.getProjectByName(consumer);
+        if (!project) {
+          // This is the fake project for the preferred versions from common-versions.json
+          console.log(colors.yellow(`The preferred version of ${dependencyName} in`
+            + ` ${RushConstants.commonVersionsFilename} must be changed to "${selectedVersion}" by hand`));
+          continue;
+        }
+
+        const dependencies: PackageJsonDependency[] = [
+          ...project.packageJsonEditor.dependencyList,
+          ...project.packageJsonEditor.devDependencyList
+        ].filter((dependency: PackageJsonDependency) => {
+          return dependency.name === dependencyName
+            && dependency.version === version
+            && dependency.dependencyType !== DependencyType.Peer;
+        });
+
+        for (const dependency of dependencies) {
+          project.packageJsonEditor.addOrUpdateDependency(dependencyName, selectedVersion,
+            dependency.dependencyType);
+        }
+
+        if (dependencies.length > 0 && projectNames.indexOf(project.packageName) < 0) {
+          projectNames.push(project.packageName);
+        }
+      }
+    }
+
+    if (projectNames.length === 0) {
+      return undefined;
+    }
+
+    return { dependencyName, version: selectedVersion, projectNames: projectNames.sort() };
+  }
+}
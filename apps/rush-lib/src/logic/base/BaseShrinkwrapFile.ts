@@ -8,6 +8,31 @@ import { PackageName, FileSystem } from '@microsoft/node-core-library';
 
 import { RushConstants } from '../../logic/RushConstants';
 
+/**
+ * A package that the shrinkwrap file installs from a registry, as returned by
+ * BaseShrinkwrapFile.getRegistryPackages().
+ */
+export interface IShrinkwrapPackage {
+  name: string;
+  version: string;
+}
+
+/**
+ * The registry packages that a temp project installs, as returned by
+ * BaseShrinkwrapFile.getTempProjectPackages().
+ */
+export interface IShrinkwrapTempProjectPackages {
+  /**
+   * The packages that the temp project depends on directly.
+   */
+  directPackages: IShrinkwrapPackage[];
+
+  /**
+   * The direct packages, and all of the packages that they depend on directly or indirectly.
+   */
+  allPackages: IShrinkwrapPackage[];
+}
+
 /**
  * This class is a parser for both npm's npm-shrinkwrap.json and pnpm's pnpm-lock.yaml file formats.
  */
@@ -78,11 +103,119 @@ export abstract class BaseShrinkwrapFile {
    */
   public abstract getTempProjectNames(): ReadonlyArray<string>;
 
+  /**
+   * Returns every package that the shrinkwrap file installs from a registry, sorted by name and version.
+   * The Rush temp projects and the packages that are installed from a tarball, folder, or Git URL
+   * are not included.
+   */
+  public abstract getRegistryPackages(): IShrinkwrapPackage[];
+
+  /**
+   * Returns the registry packages that the temp project installs, by walking the dependency graph
+   * of the shrinkwrap file.  If the temp project is not in the shrinkwrap file, the lists are empty.
+   */
+  public getTempProjectPackages(tempProjectName: string): IShrinkwrapTempProjectPackages {
+    const directPackages: IShrinkwrapPackage[] = [];
+    const allPackages: IShrinkwrapPackage[] = [];
+
+    const tempProjectNodeKey: string | undefined = this.getTempProjectNodeKey(tempProjectName);
+    if (tempProjectNodeKey !== undefined) {
+      const visitedNodeKeys: Set<string> = new Set<string>([tempProjectNodeKey]);
+      const nodeKeysToVisit: string[] = [];
+
+      for (const nodeKey of this.getDependencyNodeKeys(tempProjectNodeKey)) {
+        const shrinkwrapPackage: IShrinkwrapPackage | undefined = this.getPackageForNodeKey(nodeKey);
+        if (shrinkwrapPackage) {
+          directPackages.push(shrinkwrapPackage);
+        }
+        nodeKeysToVisit.push(nodeKey);
+      }
+
+      while (nodeKeysToVisit.length > 0) {
+        const nodeKey: string = nodeKeysToVisit.pop()!;
+        if (visitedNodeKeys.has(nodeKey)) {
+          continue;
+        }
+        visitedNodeKeys.add(nodeKey);
+
+        const shrinkwrapPackage: IShrinkwrapPackage | undefined = this.getPackageForNodeKey(nodeKey);
+        if (shrinkwrapPackage) {
+          allPackages.push(shrinkwrapPackage);
+        }
+        nodeKeysToVisit.push(...this.getDependencyNodeKeys(nodeKey));
+      }
+    }
+
+    return {
+      directPackages: this._sortRegistryPackages(directPackages),
+      allPackages: this._sortRegistryPackages(allPackages)
+    };
+  }
+
+  /**
+   * Returns the dependency paths from the temp project to the installed versions of the package, by walking
+   * the dependency graph of the shrinkwrap file.  The number of all paths can grow combinatorially with
+   * the size of the graph, so for each direct dependency of the temp project, only the shortest path to
+   * each version of the package that it reaches is returned.  Each path starts with the direct dependency
+   * and ends with the package, and the nodes that are not installed from a registry are omitted.
+   */
+  public getDependencyPaths(tempProjectName: string, packageName: string): IShrinkwrapPackage[][] {
+    const tempProjectNodeKey: string | undefined = this.getTempProjectNodeKey(tempProjectName);
+    if (tempProjectNodeKey === undefined) {
+      return [];
+    }
+
+    const paths: IShrinkwrapPackage[][] = [];
+    const directNodeKeys: Set<string> = new Set<string>(this.getDependencyNodeKeys(tempProjectNodeKey));
+    directNodeKeys.forEach((directNodeKey: string) => {
+      // A breadth-first search finds the shortest path to each version, and visits each node at most once
+      const parentNodeKeys: Map<string, string | undefined> = new Map<string, string | undefined>();
+      parentNodeKeys.set(directNodeKey, undefined);
+      const foundVersions: Set<string> = new Set<string>();
+      const nodeKeysToVisit: string[] = [directNodeKey];
+      for (let i: number = 0; i < nodeKeysToVisit.length; ++i) {
+        const nodeKey: string = nodeKeysToVisit[i];
+        const shrinkwrapPackage: IShrinkwrapPackage | undefined = this.getPackageForNodeKey(nodeKey);
+        if (shrinkwrapPackage && shrinkwrapPackage.name === packageName
+          && !foundVersions.has(shrinkwrapPackage.version)) {
+          foundVersions.add(shrinkwrapPackage.version);
+          paths.push(this._getPathToNode(nodeKey, parentNodeKeys));
+        }
+
+        for (const dependencyNodeKey of this.getDependencyNodeKeys(nodeKey)) {
+          if (dependencyNodeKey !== tempProjectNodeKey && !parentNodeKeys.has(dependencyNodeKey)) {
+            parentNodeKeys.set(dependencyNodeKey, nodeKey);
+            nodeKeysToVisit.push(dependencyNodeKey);
+          }
+        }
+      }
+    });
+
+    return paths;
+  }
+
   protected abstract tryEnsureDependencyVersion(dependencyName: string,
     tempProjectName: string, versionRange: string): string | undefined;
   protected abstract getTopLevelDependencyVersion(dependencyName: string): string | undefined;
   protected abstract serialize(): string;
 
+  /**
+   * Returns the key of the dependency graph node for a temp project, or undefined if the temp project
+   * is not in the shrinkwrap file.  The format of the keys is specific to the package manager.
+   */
+  protected abstract getTempProjectNodeKey(tempProjectName: string): string | undefined;
+
+  /**
+   * Returns the keys of the dependency graph nodes that the specified node depends on.
+   */
+  protected abstract getDependencyNodeKeys(nodeKey: string): string[];
+
+  /**
+   * Returns the registry package for a dependency graph node, or undefined if the node is not
+   * installed from a registry.
+   */
+  protected abstract getPackageForNodeKey(nodeKey: string): IShrinkwrapPackage | undefined;
+
   protected _getTempProjectNames(dependencies: { [key: string]: {} } ): ReadonlyArray<string> {
     const result: string[] = [];
     for (const key of Object.keys(dependencies)) {
@@ -95,6 +228,23 @@ export abstract class BaseShrinkwrapFile {
     return result;
   }
 
+  /**
+   * Removes the duplicates from a list of packages, and sorts it by name and version.
+   */
+  protected _sortRegistryPackages(packages: IShrinkwrapPackage[]): IShrinkwrapPackage[] {
+    const packagesByKey: Map<string, IShrinkwrapPackage> = new Map<string, IShrinkwrapPackage>();
+    for (const shrinkwrapPackage of packages) {
+      packagesByKey.set(`${shrinkwrapPackage.name}@${shrinkwrapPackage.version}`, shrinkwrapPackage);
+    }
+
+    return Array.from(packagesByKey.values()).sort((a: IShrinkwrapPackage, b: IShrinkwrapPackage) => {
+      if (a.name !== b.name) {
+        return a.name < b.name ? -1 : 1;
+      }
+      return semver.compare(a.version, b.version);
+    });
+  }
+
   protected checkValidVersionRange(dependencyVersion: string, versionRange: string): boolean {
     // If it's a SemVer pattern, then require that the shrinkwrapped version must be compatible
     return semver.satisfies(dependencyVersion, versionRange);
@@ -115,4 +265,18 @@ export abstract class BaseShrinkwrapFile {
         return true;
     }
   }
+
+  /**
+   * Follows the parents that were recorded by the search back to the node where it started.
+   */
+  private _getPathToNode(nodeKey: string, parentNodeKeys: Map<string, string | undefined>): IShrinkwrapPackage[] {
+    const packages: IShrinkwrapPackage[] = [];
+    for (let key: string | undefined = nodeKey; key !== undefined; key = parentNodeKeys.get(key)) {
+      const shrinkwrapPackage: IShrinkwrapPackage | undefined = this.getPackageForNodeKey(key);
+      if (shrinkwrapPackage) {
+        packages.unshift(shrinkwrapPackage);
+      }
+    }
+    return packages;
+  }
 }
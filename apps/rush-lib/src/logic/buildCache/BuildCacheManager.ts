@@ -0,0 +1,224 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tar from 'tar';
+import { FileSystem } from '@microsoft/node-core-library';
+import { IPackageDeps } from '@microsoft/package-deps-hash';
+
+import { IRushLinkJson } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { PackageChangeAnalyzer } from '../PackageChangeAnalyzer';
+import { BuildCacheProvider } from './BuildCacheProvider';
+import { FileSystemBuildCacheProvider } from './FileSystemBuildCacheProvider';
+
+/**
+ * Constructor parameters for BuildCacheManager.
+ */
+export interface IBuildCacheManagerOptions {
+  /**
+   * The folder where the local cache entries are stored.
+   * Example: `C:\MyRepo\common\temp\build-cache`
+   */
+  buildCacheFolder: string;
+
+  /**
+   * An optional provider that shares cache entries between machines.  It is consulted when
+   * an entry is not found in the local cache.
+   */
+  sharedCacheProvider: BuildCacheProvider | undefined;
+
+  /**
+   * The local links between projects, which are used to include the state of a project's
+   * dependencies in its cache key.
+   */
+  rushLinkJson: IRushLinkJson;
+
+  /**
+   * Provides the hashes of the source files for each project.
+   */
+  packageChangeAnalyzer: PackageChangeAnalyzer;
+}
+
+/**
+ * This class saves and restores the output folders of projects.  Each cache entry is a tarball
+ * that is keyed by a hash of the project's source files, the command that produced the outputs,
+ * and the hashes of the project's local dependencies (calculated recursively).
+ *
+ * Entries are always stored in a local cache, and optionally in a shared cache provider.
+ */
+export class BuildCacheManager {
+  private _options: IBuildCacheManagerOptions;
+  private _localCacheProvider: FileSystemBuildCacheProvider;
+  private _projectStateHashes: Map<string, string | undefined>;
+
+  public constructor(options: IBuildCacheManagerOptions) {
+    this._options = options;
+    this._localCacheProvider = new FileSystemBuildCacheProvider({
+      cacheFolder: options.buildCacheFolder,
+      isCacheWriteAllowed: true
+    });
+    this._projectStateHashes = new Map<string, string | undefined>();
+  }
+
+  /**
+   * Calculates the cache key for the specified project and command.  Returns undefined if the
+   * state of the project (or any of its dependencies) cannot be determined, for example because
+   * the repo is not a Git working tree.
+   *
+   * @param project - the project whose outputs will be cached
+   * @param command - the full command line (including arguments) that produces the outputs
+   */
+  public getCacheKey(project: RushConfigurationProject, command: string): string | undefined {
+    const stateHash: string | undefined = this._getProjectStateHash(project.packageName);
+    if (stateHash === undefined) {
+      return undefined;
+    }
+
+    const hash: crypto.Hash = crypto.createHash('sha1');
+    hash.update(stateHash);
+    hash.update('\n');
+    hash.update(command);
+    return hash.digest('hex');
+  }
+
+  /**
+   * If a cache entry exists for the specified key, replaces the project's output folders
+   * with the cached contents and resolves to true.  Otherwise resolves to false.
+   */
+  public tryRestoreAsync(project: RushConfigurationProject, cacheKey: string): Promise<boolean> {
+    return this._tryGetCacheEntryAsync(cacheKey).then((entryBuffer: Buffer | undefined) => {
+      if (!entryBuffer) {
+        return false;
+      }
+
+      for (const outputFolder of project.outputFolders) {
+        FileSystem.deleteFolder(path.join(project.projectFolder, outputFolder));
+      }
+
+      this._withTempTarball(cacheKey, (tarballFilename: string) => {
+        FileSystem.ensureFolder(path.dirname(tarballFilename));
+        fs.writeFileSync(tarballFilename, entryBuffer);
+        tar.extract({
+          file: tarballFilename,
+          cwd: project.projectFolder,
+          sync: true
+        });
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Saves the project's output folders as the cache entry for the specified key.
+   * Resolves to false if none of the output folders exist.
+   */
+  public trySaveAsync(project: RushConfigurationProject, cacheKey: string): Promise<boolean> {
+    const existingOutputFolders: string[] = project.outputFolders.filter((outputFolder: string) => {
+      return FileSystem.exists(path.join(project.projectFolder, outputFolder));
+    });
+
+    if (existingOutputFolders.length === 0) {
+      return Promise.resolve(false);
+    }
+
+    const entryBuffer: Buffer = this._withTempTarball(cacheKey, (tarballFilename: string) => {
+      FileSystem.ensureFolder(path.dirname(tarballFilename));
+      tar.create({
+        gzip: true,
+        file: tarballFilename,
+        cwd: project.projectFolder,
+        portable: true,
+        sync: true
+      }, existingOutputFolders);
+      return FileSystem.readFileToBuffer(tarballFilename);
+    });
+
+    const setPromises: Promise<boolean>[] = [
+      this._localCacheProvider.trySetCacheEntryAsync(cacheKey, entryBuffer)
+    ];
+    const sharedCacheProvider: BuildCacheProvider | undefined = this._options.sharedCacheProvider;
+    if (sharedCacheProvider && sharedCacheProvider.isCacheWriteAllowed) {
+      setPromises.push(sharedCacheProvider.trySetCacheEntryAsync(cacheKey, entryBuffer));
+    }
+
+    return Promise.all(setPromises).then((results: boolean[]) => results.some((result: boolean) => result));
+  }
+
+  /**
+   * Looks up the entry in the local cache, and then in the shared cache.  Entries found in the
+   * shared cache are copied to the local cache.
+   */
+  private _tryGetCacheEntryAsync(cacheKey: string): Promise<Buffer | undefined> {
+    return this._localCacheProvider.tryGetCacheEntryAsync(cacheKey).then((localEntryBuffer: Buffer | undefined) => {
+      const sharedCacheProvider: BuildCacheProvider | undefined = this._options.sharedCacheProvider;
+      if (localEntryBuffer || !sharedCacheProvider) {
+        return localEntryBuffer;
+      }
+
+      return sharedCacheProvider.tryGetCacheEntryAsync(cacheKey).then((sharedEntryBuffer: Buffer | undefined) => {
+        if (!sharedEntryBuffer) {
+          return Promise.resolve(undefined);
+        }
+
+        return this._localCacheProvider.trySetCacheEntryAsync(cacheKey, sharedEntryBuffer)
+          .then(() => sharedEntryBuffer);
+      });
+    });
+  }
+
+  /**
+   * The tar library operates on files, so the entries are staged in a temporary file that is
+   * deleted afterwards.
+   */
+  private _withTempTarball<T>(cacheKey: string, action: (tarballFilename: string) => T): T {
+    const tarballFilename: string = path.join(this._options.buildCacheFolder, `${cacheKey}.${process.pid}.tgz.tmp`);
+    try {
+      return action(tarballFilename);
+    } finally {
+      FileSystem.deleteFile(tarballFilename);
+    }
+  }
+
+  /**
+   * Calculates a hash of the project's source files and the state hashes of its local dependencies.
+   * The result is memoized, since a project's state is requested by all of its dependents.
+   */
+  private _getProjectStateHash(packageName: string): string | undefined {
+    if (this._projectStateHashes.has(packageName)) {
+      return this._projectStateHashes.get(packageName);
+    }
+
+    // Guard against cyclic dependencies; a project in a cycle is never cached
+    this._projectStateHashes.set(packageName, undefined);
+
+    const packageDeps: IPackageDeps | undefined =
+      this._options.packageChangeAnalyzer.getPackageDepsHash(packageName);
+
+    // If the file hashes are unavailable, every project would appear to be empty
+    if (!packageDeps || Object.keys(packageDeps.files).length === 0) {
+      return undefined;
+    }
+
+    const hash: crypto.Hash = crypto.createHash('sha1');
+    for (const filePath of Object.keys(packageDeps.files).sort()) {
+      hash.update(`${filePath} ${packageDeps.files[filePath]}\n`);
+    }
+
+    const dependencyNames: string[] = (this._options.rushLinkJson.localLinks[packageName] || []).slice().sort();
+    for (const dependencyName of dependencyNames) {
+      const dependencyStateHash: string | undefined = this._getProjectStateHash(dependencyName);
+      if (dependencyStateHash === undefined) {
+        return undefined;
+      }
+      hash.update(`${dependencyName} ${dependencyStateHash}\n`);
+    }
+
+    const stateHash: string = hash.digest('hex');
+    this._projectStateHashes.set(packageName, stateHash);
+    return stateHash;
+  }
+}
@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+/**
+ * A storage location for build cache entries.  Each entry is a gzipped tarball containing
+ * the output folders of a project, and is identified by a cache key calculated by BuildCacheManager.
+ *
+ * @remarks
+ * Providers should not throw if an entry cannot be read or written; a failure is treated
+ * like a cache miss, and the project is simply built normally.
+ */
+export abstract class BuildCacheProvider {
+  /**
+   * If false, then the provider is only used to restore build outputs, and new entries
+   * will not be written to it.
+   */
+  public abstract readonly isCacheWriteAllowed: boolean;
+
+  /**
+   * Returns the tarball for the specified cache key, or undefined if there is no such entry.
+   */
+  public abstract tryGetCacheEntryAsync(cacheKey: string): Promise<Buffer | undefined>;
+
+  /**
+   * Stores the tarball for the specified cache key, replacing any existing entry.
+   * Returns true if the entry was stored.
+   */
+  public abstract trySetCacheEntryAsync(cacheKey: string, entryBuffer: Buffer): Promise<boolean>;
+}
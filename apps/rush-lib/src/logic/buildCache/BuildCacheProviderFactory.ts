@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { BuildCacheConfiguration } from '../../api/BuildCacheConfiguration';
+import { BuildCacheProvider } from './BuildCacheProvider';
+import { FileSystemBuildCacheProvider } from './FileSystemBuildCacheProvider';
+
+export class BuildCacheProviderFactory {
+  /**
+   * Returns the shared cache provider selected by build-cache.json, or undefined if
+   * the build cache is local only.
+   */
+  public static getSharedCacheProvider(
+    buildCacheConfiguration: BuildCacheConfiguration
+  ): BuildCacheProvider | undefined {
+
+    switch (buildCacheConfiguration.cacheProvider) {
+      case 'local-only':
+        return undefined;
+      case 'filesystem':
+        return new FileSystemBuildCacheProvider({
+          cacheFolder: buildCacheConfiguration.fileSystemCacheFolder!,
+          isCacheWriteAllowed: buildCacheConfiguration.isCacheWriteAllowed
+        });
+    }
+
+    throw new Error(`Unsupported build cache provider: ${buildCacheConfiguration.cacheProvider}`);
+  }
+}
@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileSystem } from '@microsoft/node-core-library';
+
+import { BuildCacheProvider } from './BuildCacheProvider';
+
+/**
+ * Constructor parameters for FileSystemBuildCacheProvider.
+ */
+export interface IFileSystemBuildCacheProviderOptions {
+  /**
+   * The folder where the cache entries are stored.  This can be a local folder such as
+   * `common/temp/build-cache`, or a shared folder such as a network mount.
+   */
+  cacheFolder: string;
+
+  /**
+   * If false, then new entries will not be written to the folder.
+   */
+  isCacheWriteAllowed: boolean;
+}
+
+/**
+ * A build cache provider that stores each entry as a file in a folder.
+ */
+export class FileSystemBuildCacheProvider extends BuildCacheProvider {
+  private _cacheFolder: string;
+  private _isCacheWriteAllowed: boolean;
+
+  public constructor(options: IFileSystemBuildCacheProviderOptions) {
+    super();
+    this._cacheFolder = options.cacheFolder;
+    this._isCacheWriteAllowed = options.isCacheWriteAllowed;
+  }
+
+  public get cacheFolder(): string {
+    return this._cacheFolder;
+  }
+
+  public get isCacheWriteAllowed(): boolean {
+    return this._isCacheWriteAllowed;
+  }
+
+  public tryGetCacheEntryAsync(cacheKey: string): Promise<Buffer | undefined> {
+    const entryFilename: string = this._getEntryFilename(cacheKey);
+    try {
+      if (!FileSystem.exists(entryFilename)) {
+        return Promise.resolve(undefined);
+      }
+      return Promise.resolve(FileSystem.readFileToBuffer(entryFilename));
+    } catch (error) {
+      return Promise.resolve(undefined);
+    }
+  }
+
+  public trySetCacheEntryAsync(cacheKey: string, entryBuffer: Buffer): Promise<boolean> {
+    if (!this._isCacheWriteAllowed) {
+      return Promise.resolve(false);
+    }
+
+    const entryFilename: string = this._getEntryFilename(cacheKey);
+
+    // Write to a temporary file first, so that a concurrent reader never sees a truncated entry
+    const tempEntryFilename: string = `${entryFilename}.${process.pid}.tmp`;
+    try {
+      // FileSystem.writeFile() converts its contents to a string, which would corrupt the tarball
+      FileSystem.ensureFolder(this._cacheFolder);
+      fs.writeFileSync(tempEntryFilename, entryBuffer);
+      FileSystem.move({
+        sourcePath: tempEntryFilename,
+        destinationPath: entryFilename,
+        overwrite: true
+      });
+      return Promise.resolve(true);
+    } catch (error) {
+      FileSystem.deleteFile(tempEntryFilename);
+      return Promise.resolve(false);
+    }
+  }
+
+  private _getEntryFilename(cacheKey: string): string {
+    return path.join(this._cacheFolder, `${cacheKey}.tar.gz`);
+  }
+}
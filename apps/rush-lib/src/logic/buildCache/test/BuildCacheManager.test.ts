@@ -0,0 +1,172 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem } from '@microsoft/node-core-library';
+import { IPackageDeps } from '@microsoft/package-deps-hash';
+
+import { BuildCacheManager } from '../BuildCacheManager';
+import { FileSystemBuildCacheProvider } from '../FileSystemBuildCacheProvider';
+import { PackageChangeAnalyzer } from '../../PackageChangeAnalyzer';
+import { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+
+const tempFolder: string = path.join(__dirname, 'temp');
+
+function createProject(packageName: string, projectFolder?: string): RushConfigurationProject {
+  return {
+    packageName,
+    projectFolder,
+    outputFolders: ['lib'] as ReadonlyArray<string>
+  } as RushConfigurationProject;
+}
+
+function createBuildCacheManager(
+  projectFiles: { [packageName: string]: { [filePath: string]: string } },
+  localLinks: { [packageName: string]: string[] },
+  buildCacheFolder: string = 'build-cache',
+  sharedCacheProvider?: FileSystemBuildCacheProvider
+): BuildCacheManager {
+  const packageChangeAnalyzer: PackageChangeAnalyzer = {
+    getPackageDepsHash(packageName: string): IPackageDeps | undefined {
+      return { files: projectFiles[packageName] || {} };
+    }
+  } as PackageChangeAnalyzer;
+
+  return new BuildCacheManager({
+    buildCacheFolder,
+    sharedCacheProvider,
+    rushLinkJson: { localLinks },
+    packageChangeAnalyzer
+  });
+}
+
+describe('BuildCacheManager', () => {
+  describe('getCacheKey', () => {
+    it('returns the same key for the same inputs', () => {
+      const files: { [filePath: string]: string } = { 'a/src/index.ts': '123' };
+      const key1: string | undefined = createBuildCacheManager({ a: files }, {})
+        .getCacheKey(createProject('a'), 'build');
+      const key2: string | undefined = createBuildCacheManager({ a: files }, {})
+        .getCacheKey(createProject('a'), 'build');
+
+      expect(key1).toBeDefined();
+      expect(key1).toEqual(key2);
+    });
+
+    it('returns a different key for a different command', () => {
+      const buildCacheManager: BuildCacheManager = createBuildCacheManager({ a: { 'a/src/index.ts': '123' } }, {});
+
+      expect(buildCacheManager.getCacheKey(createProject('a'), 'build'))
+        .not.toEqual(buildCacheManager.getCacheKey(createProject('a'), 'build --production'));
+    });
+
+    it('returns a different key if a dependency changed', () => {
+      const localLinks: { [packageName: string]: string[] } = { a: ['b'] };
+      const key1: string | undefined = createBuildCacheManager({
+        a: { 'a/src/index.ts': '123' },
+        b: { 'b/src/index.ts': '456' }
+      }, localLinks).getCacheKey(createProject('a'), 'build');
+      const key2: string | undefined = createBuildCacheManager({
+        a: { 'a/src/index.ts': '123' },
+        b: { 'b/src/index.ts': '789' }
+      }, localLinks).getCacheKey(createProject('a'), 'build');
+
+      expect(key1).toBeDefined();
+      expect(key2).toBeDefined();
+      expect(key1).not.toEqual(key2);
+    });
+
+    it('returns undefined if the file hashes are unavailable', () => {
+      expect(createBuildCacheManager({}, {}).getCacheKey(createProject('a'), 'build')).toBeUndefined();
+    });
+
+    it('returns undefined if the file hashes of a dependency are unavailable', () => {
+      expect(createBuildCacheManager({ a: { 'a/src/index.ts': '123' } }, { a: ['b'] })
+        .getCacheKey(createProject('a'), 'build')).toBeUndefined();
+    });
+  });
+
+  describe('trySaveAsync and tryRestoreAsync', () => {
+    const projectFolder: string = path.join(tempFolder, 'project');
+    const outputFilename: string = path.join(projectFolder, 'lib', 'index.js');
+    const files: { [packageName: string]: { [filePath: string]: string } } = { a: { 'a/src/index.ts': '123' } };
+
+    let sharedCacheProvider: FileSystemBuildCacheProvider;
+
+    beforeEach(() => {
+      FileSystem.ensureEmptyFolder(tempFolder);
+      FileSystem.writeFile(outputFilename, 'built', { ensureFolderExists: true });
+      sharedCacheProvider = new FileSystemBuildCacheProvider({
+        cacheFolder: path.join(tempFolder, 'shared-cache'),
+        isCacheWriteAllowed: true
+      });
+    });
+
+    afterEach(() => {
+      FileSystem.deleteFolder(tempFolder);
+    });
+
+    it('restores the output folders from the local cache', () => {
+      const project: RushConfigurationProject = createProject('a', projectFolder);
+      const buildCacheManager: BuildCacheManager = createBuildCacheManager(files, {},
+        path.join(tempFolder, 'local-cache'));
+      const cacheKey: string = buildCacheManager.getCacheKey(project, 'build')!;
+
+      return buildCacheManager.trySaveAsync(project, cacheKey).then((wasSaved: boolean) => {
+        expect(wasSaved).toEqual(true);
+        FileSystem.writeFile(outputFilename, 'modified');
+        return buildCacheManager.tryRestoreAsync(project, cacheKey);
+      }).then((wasRestored: boolean) => {
+        expect(wasRestored).toEqual(true);
+        expect(FileSystem.readFile(outputFilename)).toEqual('built');
+      });
+    });
+
+    it('restores the output folders from the shared cache', () => {
+      const project: RushConfigurationProject = createProject('a', projectFolder);
+      const buildAgentCacheManager: BuildCacheManager = createBuildCacheManager(files, {},
+        path.join(tempFolder, 'agent-cache'), sharedCacheProvider);
+      const developerCacheManager: BuildCacheManager = createBuildCacheManager(files, {},
+        path.join(tempFolder, 'developer-cache'), sharedCacheProvider);
+      const cacheKey: string = buildAgentCacheManager.getCacheKey(project, 'build')!;
+
+      return buildAgentCacheManager.trySaveAsync(project, cacheKey).then(() => {
+        FileSystem.deleteFolder(path.join(projectFolder, 'lib'));
+        return developerCacheManager.tryRestoreAsync(project, cacheKey);
+      }).then((wasRestored: boolean) => {
+        expect(wasRestored).toEqual(true);
+        expect(FileSystem.readFile(outputFilename)).toEqual('built');
+        expect(FileSystem.exists(path.join(tempFolder, 'developer-cache', `${cacheKey}.tar.gz`))).toEqual(true);
+      });
+    });
+
+    it('does not write to a shared cache that does not allow writes', () => {
+      const project: RushConfigurationProject = createProject('a', projectFolder);
+      const readOnlyCacheProvider: FileSystemBuildCacheProvider = new FileSystemBuildCacheProvider({
+        cacheFolder: path.join(tempFolder, 'shared-cache'),
+        isCacheWriteAllowed: false
+      });
+      const buildCacheManager: BuildCacheManager = createBuildCacheManager(files, {},
+        path.join(tempFolder, 'local-cache'), readOnlyCacheProvider);
+      const cacheKey: string = buildCacheManager.getCacheKey(project, 'build')!;
+
+      return buildCacheManager.trySaveAsync(project, cacheKey).then(() => {
+        return readOnlyCacheProvider.tryGetCacheEntryAsync(cacheKey);
+      }).then((entryBuffer: Buffer | undefined) => {
+        expect(entryBuffer).toBeUndefined();
+      });
+    });
+
+    it('returns false if there is no cache entry', () => {
+      const project: RushConfigurationProject = createProject('a', projectFolder);
+      const buildCacheManager: BuildCacheManager = createBuildCacheManager(files, {},
+        path.join(tempFolder, 'local-cache'), sharedCacheProvider);
+
+      return buildCacheManager.tryRestoreAsync(project, buildCacheManager.getCacheKey(project, 'build')!)
+        .then((wasRestored: boolean) => {
+          expect(wasRestored).toEqual(false);
+          expect(FileSystem.readFile(outputFilename)).toEqual('built');
+        });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ChangeType } from '../../api/ChangeManagement';
+import {
+  IChangelog,
+  IChangeLogEntry,
+  IChangeLogComment
+} from '../../api/Changelog';
+import { RushConfiguration } from '../../api/RushConfiguration';
+
+/**
+ * A titled group of comments within a changelog entry, e.g. "Minor changes".
+ */
+export interface IChangelogSection {
+  title: string;
+  comments: IChangeLogComment[];
+}
+
+/**
+ * The base class for the formats that are rendered from a CHANGELOG.json file, e.g. CHANGELOG.md.
+ */
+export abstract class ChangelogRenderer {
+  /**
+   * The name of the file that is written to the project folder, e.g. "CHANGELOG.md".
+   */
+  public abstract readonly outputFilename: string;
+
+  protected readonly rushConfiguration: RushConfiguration;
+
+  public constructor(rushConfiguration: RushConfiguration) {
+    this.rushConfiguration = rushConfiguration;
+  }
+
+  /**
+   * Returns the contents of the output file for the changelog.
+   * @param isLockstepped - whether the project has a lockstep version policy, whose changes are
+   * all of type "none"
+   */
+  public abstract render(changelog: IChangelog, isLockstepped: boolean): string;
+
+  /**
+   * Groups the comments of the entry into the sections that are displayed, in order.
+   * Sections without comments are omitted.
+   */
+  protected getSections(entry: IChangeLogEntry, isLockstepped: boolean): IChangelogSection[] {
+    const sections: IChangelogSection[] = [];
+    const addSection: (title: string, changeType: ChangeType) => void = (title: string, changeType: ChangeType) => {
+      const comments: IChangeLogComment[] | undefined = entry.comments[ChangeType[changeType]];
+      if (comments) {
+        sections.push({ title, comments });
+      }
+    };
+
+    addSection('Breaking changes', ChangeType.major);
+    addSection('Minor changes', ChangeType.minor);
+    addSection('Patches', ChangeType.patch);
+
+    if (isLockstepped) {
+      // In lockstepped projects, all changes are of type ChangeType.none.
+      addSection('Updates', ChangeType.none);
+    }
+
+    if (this.rushConfiguration.hotfixChangeEnabled) {
+      addSection('Hotfixes', ChangeType.hotfix);
+    }
+
+    return sections;
+  }
+
+  /**
+   * Returns the breaking change notes of all comments in the entry.
+   */
+  protected getBreakingChangeNotes(entry: IChangeLogEntry): string[] {
+    const notes: string[] = [];
+
+    for (const changeTypeString of Object.keys(entry.comments)) {
+      const comments: IChangeLogComment[] = entry.comments[changeTypeString];
+      for (const comment of comments) {
+        if (comment.breakingChangeNote) {
+          notes.push(comment.breakingChangeNote);
+        }
+      }
+    }
+
+    return notes;
+  }
+
+  /**
+   * Returns the text that is displayed instead of the sections, if the entry has no comments.
+   */
+  protected getEmptyEntryText(changelog: IChangelog, index: number): string {
+    return changelog.entries.length === index + 1 ? 'Initial release' : 'Version update only';
+  }
+}
@@ -0,0 +1,62 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { IChangelog } from '../../api/Changelog';
+import { RushConfiguration, ICustomChangelogRendererJson } from '../../api/RushConfiguration';
+import { ChangelogRenderer } from './ChangelogRenderer';
+import { CustomModuleLoader } from '../../utilities/CustomModuleLoader';
+
+/**
+ * The exports of a custom renderer module.
+ */
+interface ICustomChangelogRendererModule {
+  renderChangelog(changelog: IChangelog): string;
+}
+
+/**
+ * Renders a changelog using a JavaScript module from the "changelogOptions/customRenderers"
+ * setting in rush.json.
+ */
+export class CustomChangelogRenderer extends ChangelogRenderer {
+  public readonly outputFilename: string;
+
+  private _modulePath: string;
+  private _rendererModule: ICustomChangelogRendererModule | undefined;
+
+  private static _isRendererModule(value: unknown): value is ICustomChangelogRendererModule {
+    const rendererModule: Partial<ICustomChangelogRendererModule> | undefined =
+      value as Partial<ICustomChangelogRendererModule> | undefined;
+    return !!rendererModule && typeof rendererModule.renderChangelog === 'function';
+  }
+
+  public constructor(rushConfiguration: RushConfiguration, rendererJson: ICustomChangelogRendererJson) {
+    super(rushConfiguration);
+    this.outputFilename = rendererJson.outputFilename;
+    this._modulePath = rendererJson.modulePath;
+  }
+
+  public render(changelog: IChangelog, isLockstepped: boolean): string {
+    const output: string = this._getRendererModule().renderChangelog(changelog);
+    if (typeof output !== 'string') {
+      throw new Error(`The custom changelog renderer "${this._modulePath}" did not return a string`);
+    }
+    return output;
+  }
+
+  /**
+   * The module is loaded when it is first needed, so that a missing module only fails the
+   * commands that write changelogs.
+   */
+  private _getRendererModule(): ICustomChangelogRendererModule {
+    if (!this._rendererModule) {
+      const rendererModule: unknown = CustomModuleLoader.loadModule(this.rushConfiguration, this._modulePath,
+        'custom changelog renderer');
+      if (!CustomChangelogRenderer._isRendererModule(rendererModule)) {
+        throw new Error(`The custom changelog renderer "${this._modulePath}" must export`
+          + ` a "renderChangelog" function`);
+      }
+      this._rendererModule = rendererModule;
+    }
+    return this._rendererModule;
+  }
+}
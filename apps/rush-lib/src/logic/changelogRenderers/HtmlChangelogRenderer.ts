@@ -0,0 +1,84 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { IChangelog, IChangeLogComment } from '../../api/Changelog';
+import { ChangelogRenderer } from './ChangelogRenderer';
+
+const EOL: string = '\n';
+
+/**
+ * Renders a standalone CHANGELOG.html page.
+ */
+export class HtmlChangelogRenderer extends ChangelogRenderer {
+  public readonly outputFilename: string = 'CHANGELOG.html';
+
+  public render(changelog: IChangelog, isLockstepped: boolean): string {
+    const title: string = this._escape(`Change Log - ${changelog.name}`);
+    const lines: string[] = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${title}</title>`,
+      '</head>',
+      '<body>',
+      `<h1>${title}</h1>`,
+      `<p>This log was last generated on ${new Date().toUTCString()} and should not be manually modified.</p>`
+    ];
+
+    changelog.entries.forEach((entry, index) => {
+      lines.push(`<h2>${this._escape(entry.version)}</h2>`);
+      if (entry.date) {
+        lines.push(`<p>${this._escape(entry.date)}</p>`);
+      }
+
+      const sectionLines: string[] = [];
+      for (const section of this.getSections(entry, isLockstepped)) {
+        sectionLines.push(`<h3>${section.title}</h3>`, '<ul>');
+        sectionLines.push(...section.comments.map(comment => this._getCommentHtml(comment)));
+        sectionLines.push('</ul>');
+      }
+
+      const breakingChangeNotes: string[] = this.getBreakingChangeNotes(entry);
+      if (breakingChangeNotes.length > 0) {
+        sectionLines.push('<h3>Breaking change notes</h3>', '<ul>');
+        sectionLines.push(...breakingChangeNotes.map(note => `<li>${this._escape(note)}</li>`));
+        sectionLines.push('</ul>');
+      }
+
+      if (sectionLines.length === 0) {
+        lines.push(`<p><em>${this.getEmptyEntryText(changelog, index)}</em></p>`);
+      } else {
+        lines.push(...sectionLines);
+      }
+    });
+
+    lines.push('</body>', '</html>', '');
+    return lines.join(EOL);
+  }
+
+  private _getCommentHtml(comment: IChangeLogComment): string {
+    let html: string = `<li>${this._escape(comment.comment)}`;
+
+    if (comment.issues) {
+      html += ` (${this._escape(comment.issues.join(', '))})`;
+    }
+
+    if (comment.customFields) {
+      const fields: string[] = Object.keys(comment.customFields).map(fieldName => {
+        return `<li>${this._escape(fieldName)}: ${this._escape(String(comment.customFields![fieldName]))}</li>`;
+      });
+      html += `<ul>${fields.join('')}</ul>`;
+    }
+
+    return html + '</li>';
+  }
+
+  private _escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
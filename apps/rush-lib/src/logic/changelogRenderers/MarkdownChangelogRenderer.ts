@@ -0,0 +1,65 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { IChangelog, IChangeLogComment } from '../../api/Changelog';
+import { ChangelogRenderer } from './ChangelogRenderer';
+
+const EOL: string = '\n';
+
+/**
+ * Renders the CHANGELOG.md file, which is the default format.
+ */
+export class MarkdownChangelogRenderer extends ChangelogRenderer {
+  public readonly outputFilename: string = 'CHANGELOG.md';
+
+  public render(changelog: IChangelog, isLockstepped: boolean): string {
+    let markdown: string = [
+      `# Change Log - ${changelog.name}`,
+      '',
+      `This log was last generated on ${new Date().toUTCString()} and should not be manually modified.`,
+      '',
+      ''
+    ].join(EOL);
+
+    changelog.entries.forEach((entry, index) => {
+      markdown += `## ${entry.version}${EOL}`;
+      if (entry.date) {
+        markdown += `${entry.date}${EOL}`;
+      }
+      markdown += EOL;
+
+      let comments: string = '';
+      for (const section of this.getSections(entry, isLockstepped)) {
+        comments += `### ${section.title}${EOL + EOL}`;
+        for (const comment of section.comments) {
+          comments += this._getCommentMarkdown(comment);
+        }
+        comments += EOL;
+      }
+
+      const breakingChangeNotes: string[] = this.getBreakingChangeNotes(entry);
+      if (breakingChangeNotes.length > 0) {
+        comments += `### Breaking change notes${EOL + EOL}`;
+        comments += breakingChangeNotes.map(note => `- ${note}${EOL}`).join('');
+        comments += EOL;
+      }
+
+      markdown += comments || `*${this.getEmptyEntryText(changelog, index)}*${EOL + EOL}`;
+    });
+
+    return markdown;
+  }
+
+  private _getCommentMarkdown(comment: IChangeLogComment): string {
+    const issues: string = comment.issues ? ` (${comment.issues.join(', ')})` : '';
+    let markdown: string = `- ${comment.comment}${issues}${EOL}`;
+
+    if (comment.customFields) {
+      for (const fieldName of Object.keys(comment.customFields)) {
+        markdown += `  - ${fieldName}: ${comment.customFields[fieldName]}${EOL}`;
+      }
+    }
+
+    return markdown;
+  }
+}
@@ -0,0 +1,109 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { IChangelog } from '../../../api/Changelog';
+import { RushConfiguration } from '../../../api/RushConfiguration';
+import { MarkdownChangelogRenderer } from '../MarkdownChangelogRenderer';
+import { HtmlChangelogRenderer } from '../HtmlChangelogRenderer';
+import { CustomChangelogRenderer } from '../CustomChangelogRenderer';
+
+const rushConfiguration: RushConfiguration = {
+  hotfixChangeEnabled: false,
+  rushJsonFolder: __dirname
+} as RushConfiguration;
+
+const changelog: IChangelog = {
+  name: 'a',
+  entries: [
+    {
+      version: '2.0.0',
+      tag: 'a_v2.0.0',
+      date: 'Mon, 19 Oct 2026 09:00:00 GMT',
+      comments: {
+        major: [
+          {
+            comment: 'Remove the <Widget> API',
+            breakingChangeNote: 'Use <Gadget> instead',
+            issues: ['#12'],
+            customFields: { area: 'api' }
+          }
+        ],
+        patch: [
+          {
+            comment: 'Fix a bug'
+          }
+        ]
+      }
+    },
+    {
+      version: '1.0.0',
+      tag: 'a_v1.0.0',
+      date: undefined,
+      comments: {}
+    }
+  ]
+};
+
+describe('MarkdownChangelogRenderer', () => {
+  it('renders the sections and the breaking change notes of each entry', () => {
+    const markdown: string = new MarkdownChangelogRenderer(rushConfiguration).render(changelog, false);
+
+    expect(markdown).toContain('# Change Log - a\n');
+    expect(markdown).toContain([
+      '## 2.0.0',
+      'Mon, 19 Oct 2026 09:00:00 GMT',
+      '',
+      '### Breaking changes',
+      '',
+      '- Remove the <Widget> API (#12)',
+      '  - area: api',
+      '',
+      '### Patches',
+      '',
+      '- Fix a bug',
+      '',
+      '### Breaking change notes',
+      '',
+      '- Use <Gadget> instead',
+      '',
+      '## 1.0.0',
+      '',
+      '*Initial release*',
+      '',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('HtmlChangelogRenderer', () => {
+  it('renders an escaped HTML page', () => {
+    const html: string = new HtmlChangelogRenderer(rushConfiguration).render(changelog, false);
+
+    expect(html).toContain('<title>Change Log - a</title>');
+    expect(html).toContain('<h3>Breaking changes</h3>');
+    expect(html).toContain('<li>Remove the &lt;Widget&gt; API (#12)<ul><li>area: api</li></ul></li>');
+    expect(html).toContain('<h3>Breaking change notes</h3>\n<ul>\n<li>Use &lt;Gadget&gt; instead</li>');
+    expect(html).toContain('<p><em>Initial release</em></p>');
+  });
+});
+
+describe('CustomChangelogRenderer', () => {
+  it('renders the changelog using the module', () => {
+    const renderer: CustomChangelogRenderer = new CustomChangelogRenderer(rushConfiguration, {
+      modulePath: 'custom-renderer.js',
+      outputFilename: 'CHANGELOG.txt'
+    });
+
+    expect(renderer.outputFilename).toEqual('CHANGELOG.txt');
+    expect(renderer.render(changelog, false)).toEqual('a 2.0.0\na 1.0.0');
+  });
+
+  it('throws an error if the module does not exist', () => {
+    const renderer: CustomChangelogRenderer = new CustomChangelogRenderer(rushConfiguration, {
+      modulePath: 'missing-renderer.js',
+      outputFilename: 'CHANGELOG.txt'
+    });
+
+    expect(() => renderer.render(changelog, false)).toThrowError(/does not exist/);
+  });
+});
@@ -0,0 +1,5 @@
+module.exports = {
+  renderChangelog: function(changelog) {
+    return changelog.entries.map(function(entry) { return changelog.name + ' ' + entry.version; }).join('\n');
+  }
+};
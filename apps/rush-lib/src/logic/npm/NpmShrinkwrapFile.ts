@@ -1,18 +1,26 @@
 import * as os from 'os';
+import * as semver from 'semver';
 
 import {
   JsonFile,
-  FileSystem
+  FileSystem,
+  PackageName
 } from '@microsoft/node-core-library';
 
 import {
-  BaseShrinkwrapFile
+  BaseShrinkwrapFile,
+  IShrinkwrapPackage
 } from '../base/BaseShrinkwrapFile';
+import { RushConstants } from '../RushConstants';
+
+const NODE_MODULES_PREFIX: string = 'node_modules/';
+const NODE_MODULES_SEPARATOR: string = '/node_modules/';
 
 interface INpmShrinkwrapDependencyJson {
   version: string;
   from: string;
   resolved: string;
+  requires?: { [dependency: string]: string };
   dependencies: { [dependency: string]: INpmShrinkwrapDependencyJson };
 }
 
@@ -49,6 +57,12 @@ export class NpmShrinkwrapFile extends BaseShrinkwrapFile {
     return this._getTempProjectNames(this._shrinkwrapJson.dependencies);
   }
 
+  public getRegistryPackages(): IShrinkwrapPackage[] {
+    const packages: IShrinkwrapPackage[] = [];
+    this._collectRegistryPackages(this._shrinkwrapJson.dependencies, packages);
+    return this._sortRegistryPackages(packages);
+  }
+
   protected serialize(): string {
     return JsonFile.stringify(this._shrinkwrapJson);
   }
@@ -91,6 +105,55 @@ export class NpmShrinkwrapFile extends BaseShrinkwrapFile {
     return dependencyJson.version;
   }
 
+  /**
+   * The dependency graph nodes are the installation paths, e.g. "node_modules/a/node_modules/@scope/b".
+   */
+  protected getTempProjectNodeKey(tempProjectName: string): string | undefined {
+    return this._shrinkwrapJson.dependencies.hasOwnProperty(tempProjectName)
+      ? NODE_MODULES_PREFIX + tempProjectName
+      : undefined;
+  }
+
+  protected getDependencyNodeKeys(nodeKey: string): string[] {
+    const dependencyNames: string[] = this._splitNodeKey(nodeKey);
+    const dependencyJson: INpmShrinkwrapDependencyJson | undefined = this._tryGetDependencyJson(dependencyNames);
+    if (!dependencyJson) {
+      return [];
+    }
+
+    // Older shrinkwrap files don't have the "requires" field, in which case only the nested
+    // dependencies are considered
+    const requiredNames: string[] = Object.keys(dependencyJson.requires || dependencyJson.dependencies || {});
+
+    const nodeKeys: string[] = [];
+    for (const requiredName of requiredNames) {
+      // Resolve the dependency the same way that NodeJS does, starting in the nested node_modules folder
+      // and then looking in the parent folders
+      for (let depth: number = dependencyNames.length; depth >= 0; --depth) {
+        const candidateNames: string[] = [...dependencyNames.slice(0, depth), requiredName];
+        if (this._tryGetDependencyJson(candidateNames)) {
+          nodeKeys.push(NODE_MODULES_PREFIX + candidateNames.join(NODE_MODULES_SEPARATOR));
+          break;
+        }
+      }
+    }
+    return nodeKeys;
+  }
+
+  protected getPackageForNodeKey(nodeKey: string): IShrinkwrapPackage | undefined {
+    const dependencyNames: string[] = this._splitNodeKey(nodeKey);
+    const dependencyJson: INpmShrinkwrapDependencyJson | undefined = this._tryGetDependencyJson(dependencyNames);
+    const dependencyName: string = dependencyNames[dependencyNames.length - 1];
+
+    // The temp projects are "file:" references, and Git URLs are not valid SemVer versions
+    if (!dependencyJson || PackageName.getScope(dependencyName) === RushConstants.rushTempNpmScope
+      || !semver.valid(dependencyJson.version)) {
+      return undefined;
+    }
+
+    return { name: dependencyName, version: dependencyJson.version };
+  }
+
   private constructor(shrinkwrapJson: INpmShrinkwrapJson) {
     super();
     this._shrinkwrapJson = shrinkwrapJson;
@@ -106,4 +169,41 @@ export class NpmShrinkwrapFile extends BaseShrinkwrapFile {
       this._shrinkwrapJson.dependencies = { };
     }
   }
-}
\ No newline at end of file
+
+  private _splitNodeKey(nodeKey: string): string[] {
+    return nodeKey.substr(NODE_MODULES_PREFIX.length).split(NODE_MODULES_SEPARATOR);
+  }
+
+  private _tryGetDependencyJson(dependencyNames: string[]): INpmShrinkwrapDependencyJson | undefined {
+    let dependencyJson: INpmShrinkwrapDependencyJson | undefined = undefined;
+    let dependencies: { [dependency: string]: INpmShrinkwrapDependencyJson } | undefined =
+      this._shrinkwrapJson.dependencies;
+
+    for (const dependencyName of dependencyNames) {
+      dependencyJson = dependencies ? NpmShrinkwrapFile.tryGetValue(dependencies, dependencyName) : undefined;
+      if (!dependencyJson) {
+        return undefined;
+      }
+      dependencies = dependencyJson.dependencies;
+    }
+    return dependencyJson;
+  }
+
+  private _collectRegistryPackages(dependencies: { [dependency: string]: INpmShrinkwrapDependencyJson },
+    packages: IShrinkwrapPackage[]): void {
+
+    for (const dependencyName of Object.keys(dependencies)) {
+      const dependencyJson: INpmShrinkwrapDependencyJson = dependencies[dependencyName];
+
+      // The temp projects are "file:" references, and Git URLs are not valid SemVer versions
+      if (PackageName.getScope(dependencyName) !== RushConstants.rushTempNpmScope
+        && semver.valid(dependencyJson.version)) {
+        packages.push({ name: dependencyName, version: dependencyJson.version });
+      }
+
+      if (dependencyJson.dependencies) {
+        this._collectRegistryPackages(dependencyJson.dependencies, packages);
+      }
+    }
+  }
+}
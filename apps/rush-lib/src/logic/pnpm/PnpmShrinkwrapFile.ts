@@ -3,7 +3,7 @@ import * as os from 'os';
 import * as semver from 'semver';
 import { PackageName, FileSystem } from '@microsoft/node-core-library';
 
-import { BaseShrinkwrapFile } from '../base/BaseShrinkwrapFile';
+import { BaseShrinkwrapFile, IShrinkwrapPackage } from '../base/BaseShrinkwrapFile';
 
 // This is based on PNPM's own configuration:
 // https://github.com/pnpm/pnpm-shrinkwrap/blob/master/src/write.ts
@@ -24,6 +24,8 @@ interface IPnpmShrinkwrapDependencyYaml {
   };
   /** The list of dependencies and the resolved version */
   dependencies: { [dependency: string]: string };
+  /** The list of optional dependencies and the resolved version */
+  optionalDependencies?: { [dependency: string]: string };
 }
 
 /**
@@ -122,6 +124,33 @@ export function extractVersionFromPnpmVersionSpecifier(version: string): string
   return undefined;
 }
 
+/**
+ * Given an encoded "dependency path" from the "packages" section of the PNPM shrinkwrap file, this extracts
+ * the package name and version.
+ *
+ * Example: "/@ms/sp-client-utilities/3.1.1/foo@13.1.0" --> "@ms/sp-client-utilities" and "3.1.1"
+ * Example: "example.pkgs.visualstudio.com/@scope/testDep/1.0.0" --> "@scope/testDep" and "1.0.0"
+ *
+ * @returns the name and version, or undefined if the dependency path cannot be parsed
+ */
+export function parsePnpmDependencyPath(dependencyPath: string): IShrinkwrapPackage | undefined {
+  const pathParts: string[] = dependencyPath.split('/').filter((pathPart: string) => !!pathPart);
+
+  // The version is the first part that is a SemVer version, ignoring the V5 peer dependency suffix
+  for (let i: number = 1; i < pathParts.length; ++i) {
+    const version: string = pathParts[i].split('_')[0];
+    if (semver.valid(version)) {
+      const isScoped: boolean = i >= 2 && pathParts[i - 2].indexOf('@') === 0;
+      return {
+        name: isScoped ? `${pathParts[i - 2]}/${pathParts[i - 1]}` : pathParts[i - 1],
+        version
+      };
+    }
+  }
+
+  return undefined;
+}
+
 export class PnpmShrinkwrapFile extends BaseShrinkwrapFile {
   private _shrinkwrapJson: IPnpmShrinkwrapYaml;
 
@@ -145,6 +174,17 @@ export class PnpmShrinkwrapFile extends BaseShrinkwrapFile {
     return this._getTempProjectNames(this._shrinkwrapJson.dependencies);
   }
 
+  public getRegistryPackages(): IShrinkwrapPackage[] {
+    const packages: IShrinkwrapPackage[] = [];
+    for (const dependencyPath of Object.keys(this._shrinkwrapJson.packages)) {
+      const shrinkwrapPackage: IShrinkwrapPackage | undefined = this.getPackageForNodeKey(dependencyPath);
+      if (shrinkwrapPackage) {
+        packages.push(shrinkwrapPackage);
+      }
+    }
+    return this._sortRegistryPackages(packages);
+  }
+
   /**
    * Serializes the PNPM Shrinkwrap file
    */
@@ -215,6 +255,54 @@ export class PnpmShrinkwrapFile extends BaseShrinkwrapFile {
     return this._normalizeDependencyVersion(dependencyName, packageDescription.dependencies[dependencyName]);
   }
 
+  /**
+   * The dependency graph nodes are the dependency paths from the "packages" section.
+   */
+  protected getTempProjectNodeKey(tempProjectName: string): string | undefined {
+    const tempProjectDependencyKey: string = this._getTempProjectKey(tempProjectName);
+    return this._shrinkwrapJson.packages.hasOwnProperty(tempProjectDependencyKey)
+      ? tempProjectDependencyKey
+      : undefined;
+  }
+
+  protected getDependencyNodeKeys(nodeKey: string): string[] {
+    const packageDescription: IPnpmShrinkwrapDependencyYaml | undefined =
+      BaseShrinkwrapFile.tryGetValue(this._shrinkwrapJson.packages, nodeKey);
+    if (!packageDescription) {
+      return [];
+    }
+
+    const dependencies: { [dependency: string]: string } = {
+      ...packageDescription.dependencies,
+      ...packageDescription.optionalDependencies
+    };
+
+    const dependencyPaths: string[] = [];
+    for (const dependencyName of Object.keys(dependencies)) {
+      // Example: "1.0.3_@pnpm+logger@1.0.2" --> "/my-package/1.0.3_@pnpm+logger@1.0.2"
+      // Example: "example.pkgs.visualstudio.com/@scope/testDep/1.0.0" is already a dependency path
+      const version: string = dependencies[dependencyName];
+      const dependencyPath: string = version.indexOf('/') >= 0 ? version : `/${dependencyName}/${version}`;
+      if (this._shrinkwrapJson.packages.hasOwnProperty(dependencyPath)) {
+        dependencyPaths.push(dependencyPath);
+      }
+    }
+    return dependencyPaths;
+  }
+
+  protected getPackageForNodeKey(nodeKey: string): IShrinkwrapPackage | undefined {
+    const packageDescription: IPnpmShrinkwrapDependencyYaml | undefined =
+      BaseShrinkwrapFile.tryGetValue(this._shrinkwrapJson.packages, nodeKey);
+
+    // The temp projects and the other tarball references are not installed from a registry
+    if (!packageDescription || nodeKey.indexOf('file:') === 0
+      || (packageDescription.resolution && packageDescription.resolution.tarball)) {
+      return undefined;
+    }
+
+    return parsePnpmDependencyPath(nodeKey);
+  }
+
   protected checkValidVersionRange(dependencyVersion: string, versionRange: string): boolean { // override
     // dependencyVersion could be a relative or absolute path, for those cases we
     // need to extract the version from the end of the path.
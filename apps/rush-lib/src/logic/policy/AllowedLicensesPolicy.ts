@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushPolicy, IPolicyViolation } from './RushPolicy';
+
+/**
+ * The "license" field of a package.json file.  Older packages specify an object instead of an SPDX string.
+ */
+type LicenseField = string | { type?: string } | undefined;
+
+/**
+ * Reports installed dependencies whose license is not in the "allowedLicenses" list.  The license is
+ * read from the package.json file of the dependency in the project's node_modules folder, so
+ * "rush install" checks this policy after the dependencies are installed and linked.  Dependencies that
+ * have not been installed (for example, if "rush check-policy" runs before "rush install") are not checked.
+ */
+export class AllowedLicensesPolicy extends RushPolicy {
+  public readonly policyName: string = 'allowed-licenses';
+
+  private _allowedLicenses: Set<string>;
+
+  public constructor(allowedLicenses: string[]) {
+    super();
+    this._allowedLicenses = new Set<string>(allowedLicenses);
+  }
+
+  public validate(rushConfiguration: RushConfiguration): IPolicyViolation[] {
+    const violations: IPolicyViolation[] = [];
+
+    for (const project of rushConfiguration.projects) {
+      for (const dependency of this.getDependencies(project)) {
+        if (rushConfiguration.getProjectByName(dependency.name)) {
+          // Local projects are covered by the policies for the project itself
+          continue;
+        }
+
+        const packageJsonPath: string = path.join(project.projectFolder, 'node_modules', dependency.name,
+          'package.json');
+        if (!FileSystem.exists(packageJsonPath)) {
+          continue;
+        }
+
+        const license: string | undefined = this._getLicense(JsonFile.load(packageJsonPath).license);
+        if (license === undefined) {
+          violations.push({
+            projectName: project.packageName,
+            message: `The dependency "${dependency.name}" does not specify a license`
+          });
+        } else if (!this._isAllowed(license)) {
+          violations.push({
+            projectName: project.packageName,
+            message: `The dependency "${dependency.name}" uses the license "${license}",`
+              + ` which is not allowed in this repository`
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private _getLicense(licenseField: LicenseField): string | undefined {
+    if (typeof licenseField === 'string') {
+      return licenseField.trim() || undefined;
+    }
+    if (licenseField && licenseField.type) {
+      return licenseField.type;
+    }
+    return undefined;
+  }
+
+  /**
+   * An SPDX expression such as "(MIT OR Apache-2.0)" is allowed if any of its alternatives is allowed.
+   */
+  private _isAllowed(license: string): boolean {
+    if (this._allowedLicenses.has(license)) {
+      return true;
+    }
+    return license.replace(/[()]/g, '').split(/\s+OR\s+/).some((alternative: string) => {
+      return this._allowedLicenses.has(alternative.trim());
+    });
+  }
+}
@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { PackageJsonDependency } from '../../api/PackageJsonEditor';
+import { RushPolicy, IPolicyViolation } from './RushPolicy';
+
+/**
+ * Reports projects that depend on a package from the "bannedPackages" list.
+ */
+export class BannedPackagesPolicy extends RushPolicy {
+  public readonly policyName: string = 'banned-packages';
+
+  private _bannedPackages: Set<string>;
+
+  public constructor(bannedPackages: string[]) {
+    super();
+    this._bannedPackages = new Set<string>(bannedPackages);
+  }
+
+  public validate(rushConfiguration: RushConfiguration): IPolicyViolation[] {
+    const violations: IPolicyViolation[] = [];
+
+    for (const project of rushConfiguration.projects) {
+      for (const dependency of this.getDependencies(project)) {
+        if (this._bannedPackages.has(dependency.name)) {
+          violations.push(this._createViolation(project, dependency));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private _createViolation(project: RushConfigurationProject, dependency: PackageJsonDependency): IPolicyViolation {
+    return {
+      projectName: project.packageName,
+      message: `The package "${dependency.name}" is banned in this repository, but it is specified`
+        + ` in "${dependency.dependencyType}"`
+    };
+  }
+}
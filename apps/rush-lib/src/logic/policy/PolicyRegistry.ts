@@ -0,0 +1,61 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { RushConfiguration, IRepositoryPoliciesJson } from '../../api/RushConfiguration';
+import { IRushPolicy } from './RushPolicy';
+import { AllowedLicensesPolicy } from './AllowedLicensesPolicy';
+import { BannedPackagesPolicy } from './BannedPackagesPolicy';
+import { RequiredPackageJsonFieldsPolicy } from './RequiredPackageJsonFieldsPolicy';
+import { ProjectFolderDepthPolicy } from './ProjectFolderDepthPolicy';
+import { CustomModuleLoader } from '../../utilities/CustomModuleLoader';
+
+/**
+ * Creates the policies that are enabled by the "repositoryPolicies" section of rush.json,
+ * including the custom policies that are loaded from JavaScript modules.
+ */
+export class PolicyRegistry {
+  public static getPolicies(rushConfiguration: RushConfiguration): IRushPolicy[] {
+    const settings: IRepositoryPoliciesJson = rushConfiguration.repositoryPolicies;
+    const policies: IRushPolicy[] = [];
+
+    if (settings.allowedLicenses) {
+      policies.push(new AllowedLicensesPolicy(settings.allowedLicenses));
+    }
+    if (settings.bannedPackages) {
+      policies.push(new BannedPackagesPolicy(settings.bannedPackages));
+    }
+    if (settings.requiredPackageJsonFields) {
+      policies.push(new RequiredPackageJsonFieldsPolicy(settings.requiredPackageJsonFields));
+    }
+    if (settings.maxProjectFolderDepth !== undefined) {
+      policies.push(new ProjectFolderDepthPolicy(settings.maxProjectFolderDepth));
+    }
+
+    for (const modulePath of settings.customPolicyModules || []) {
+      policies.push(...PolicyRegistry._loadCustomPolicies(rushConfiguration, modulePath));
+    }
+
+    return policies;
+  }
+
+  private static _loadCustomPolicies(rushConfiguration: RushConfiguration, modulePath: string): IRushPolicy[] {
+    const moduleExports: unknown = CustomModuleLoader.loadModule(rushConfiguration, modulePath,
+      'custom policy module');
+
+    const exportedValues: unknown[] = Array.isArray(moduleExports) ? moduleExports : [moduleExports];
+    const policies: IRushPolicy[] = [];
+    for (const exportedValue of exportedValues) {
+      if (!PolicyRegistry._isPolicy(exportedValue)) {
+        throw new Error(`The custom policy module "${modulePath}" must export an object with a "policyName"`
+          + ` string and a "validate" function, or an array of such objects`);
+      }
+      policies.push(exportedValue);
+    }
+    return policies;
+  }
+
+  private static _isPolicy(value: unknown): value is IRushPolicy {
+    const policy: Partial<IRushPolicy> | undefined = value as Partial<IRushPolicy> | undefined;
+    return !!policy && typeof policy.policyName === 'string' && typeof policy.validate === 'function';
+  }
+}
@@ -1,8 +1,21 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import * as colors from 'colors';
+import * as os from 'os';
+
 import { RushConfiguration } from '../../api/RushConfiguration';
+import { AlreadyReportedError } from '../../utilities/AlreadyReportedError';
 import { GitEmailPolicy } from './GitEmailPolicy';
+import { PolicyRegistry } from './PolicyRegistry';
+import { IRushPolicy, IPolicyViolation } from './RushPolicy';
+
+/**
+ * A violation together with the name of the policy that reported it.
+ */
+export interface IReportedPolicyViolation extends IPolicyViolation {
+  policyName: string;
+}
 
 export class PolicyValidator {
   public static validatePolicy(rushConfiguration: RushConfiguration, bypassPolicy: boolean): void {
@@ -12,4 +25,91 @@ export class PolicyValidator {
 
     GitEmailPolicy.validate(rushConfiguration);
   }
+
+  /**
+   * Checks the Git email policy and the "repositoryPolicies" from rush.json.  Instead of stopping at
+   * the first problem, all of the violations are printed, and then AlreadyReportedError is thrown.
+   */
+  public static validateAllPolicies(rushConfiguration: RushConfiguration, bypassPolicy: boolean): void {
+    if (bypassPolicy) {
+      return;
+    }
+
+    let gitEmailPolicyFailed: boolean = false;
+    try {
+      GitEmailPolicy.validate(rushConfiguration);
+    } catch (error) {
+      if (!(error instanceof AlreadyReportedError)) {
+        throw error;
+      }
+      // The problem was already printed, so continue with the other policies
+      gitEmailPolicyFailed = true;
+    }
+
+    const violationsFound: boolean = PolicyValidator._reportRepositoryPolicyViolations(rushConfiguration);
+    if (gitEmailPolicyFailed || violationsFound) {
+      throw new AlreadyReportedError();
+    }
+  }
+
+  /**
+   * Checks the "repositoryPolicies" from rush.json.  "rush install" calls this after the dependencies
+   * are installed and linked, since the "allowedLicenses" policy reads their package.json files.
+   * The violations are printed, and then AlreadyReportedError is thrown.
+   */
+  public static validateRepositoryPolicies(rushConfiguration: RushConfiguration, bypassPolicy: boolean): void {
+    if (bypassPolicy) {
+      return;
+    }
+
+    if (PolicyValidator._reportRepositoryPolicyViolations(rushConfiguration)) {
+      throw new AlreadyReportedError();
+    }
+  }
+
+  /**
+   * Runs the policies from the "repositoryPolicies" section of rush.json, and returns their violations.
+   */
+  public static getRepositoryPolicyViolations(rushConfiguration: RushConfiguration): IReportedPolicyViolation[] {
+    const violations: IReportedPolicyViolation[] = [];
+
+    for (const policy of PolicyRegistry.getPolicies(rushConfiguration)) {
+      violations.push(...PolicyValidator._runPolicy(policy, rushConfiguration));
+    }
+
+    return violations;
+  }
+
+  /**
+   * Prints the violations of the repository policies, and returns true if any were found.
+   */
+  private static _reportRepositoryPolicyViolations(rushConfiguration: RushConfiguration): boolean {
+    const violations: IReportedPolicyViolation[] = PolicyValidator.getRepositoryPolicyViolations(rushConfiguration);
+    if (violations.length === 0) {
+      return false;
+    }
+
+    console.log(colors.red(`Found ${violations.length} repository policy`
+      + ` violation${violations.length === 1 ? '' : 's'}:`) + os.EOL);
+    for (const violation of violations) {
+      const prefix: string = colors.cyan(`[${violation.policyName}]`)
+        + (violation.projectName ? ` ${violation.projectName}:` : '');
+      console.log(`${prefix} ${violation.message}`);
+    }
+    console.log('');
+    return true;
+  }
+
+  private static _runPolicy(policy: IRushPolicy, rushConfiguration: RushConfiguration): IReportedPolicyViolation[] {
+    let violations: IPolicyViolation[];
+    try {
+      violations = policy.validate(rushConfiguration);
+    } catch (error) {
+      throw new Error(`The "${policy.policyName}" policy failed: ${error.message}`);
+    }
+
+    return (violations || []).map((violation: IPolicyViolation): IReportedPolicyViolation => {
+      return { ...violation, policyName: policy.policyName };
+    });
+  }
 }
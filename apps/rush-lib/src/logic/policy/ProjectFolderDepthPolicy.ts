@@ -0,0 +1,38 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushPolicy, IPolicyViolation } from './RushPolicy';
+
+/**
+ * Reports projects whose folder is deeper than the "maxProjectFolderDepth" setting.  Unlike the
+ * "projectFolderMaxDepth" setting, this does not prevent rush.json from being loaded.
+ */
+export class ProjectFolderDepthPolicy extends RushPolicy {
+  public readonly policyName: string = 'max-project-folder-depth';
+
+  private _maxDepth: number;
+
+  public constructor(maxDepth: number) {
+    super();
+    this._maxDepth = maxDepth;
+  }
+
+  public validate(rushConfiguration: RushConfiguration): IPolicyViolation[] {
+    const violations: IPolicyViolation[] = [];
+
+    for (const project of rushConfiguration.projects) {
+      // For example, the depth of "a/b/c" would be 3.  The depth of "a" is 1.
+      const depth: number = project.projectRelativeFolder.split('/').length;
+      if (depth > this._maxDepth) {
+        violations.push({
+          projectName: project.packageName,
+          message: `The project folder "${project.projectRelativeFolder}" is ${depth} levels deep,`
+            + ` but the maximum depth is ${this._maxDepth}`
+        });
+      }
+    }
+
+    return violations;
+  }
+}
@@ -0,0 +1,42 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { JsonFile } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushPolicy, IPolicyViolation } from './RushPolicy';
+
+/**
+ * Reports projects whose package.json file is missing a field from the "requiredPackageJsonFields" list.
+ */
+export class RequiredPackageJsonFieldsPolicy extends RushPolicy {
+  public readonly policyName: string = 'required-package-json-fields';
+
+  private _requiredFields: string[];
+
+  public constructor(requiredFields: string[]) {
+    super();
+    this._requiredFields = requiredFields;
+  }
+
+  public validate(rushConfiguration: RushConfiguration): IPolicyViolation[] {
+    const violations: IPolicyViolation[] = [];
+
+    for (const project of rushConfiguration.projects) {
+      // The package.json file is loaded again, because PackageJsonEditor only exposes the dependencies
+      const packageJson: { [field: string]: {} | undefined } = JsonFile.load(project.packageJsonEditor.filePath);
+
+      for (const field of this._requiredFields) {
+        const value: {} | undefined = packageJson[field];
+        if (value === undefined || value === '') {
+          violations.push({
+            projectName: project.packageName,
+            message: `The package.json file must specify the "${field}" field`
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+}
@@ -2,7 +2,64 @@
 // See LICENSE in the project root for license information.
 
 import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { PackageJsonDependency } from '../../api/PackageJsonEditor';
 
-export abstract class RushPolicy {
-  public abstract validate(rushConfiguration: RushConfiguration): void;
+/**
+ * A problem that was found by a repository policy.
+ * @beta
+ */
+export interface IPolicyViolation {
+  /**
+   * The name of the project that violates the policy, or undefined if the problem
+   * is not specific to a project.
+   */
+  projectName?: string;
+
+  /**
+   * Describes the problem, and ideally how to fix it.
+   */
+  message: string;
+}
+
+/**
+ * A repository policy that is checked by "rush install" and "rush check-policy".
+ *
+ * @remarks
+ * Custom policies are implemented by a JavaScript module that is listed in the
+ * "repositoryPolicies/customPolicyModules" setting of rush.json.  The module exports
+ * an IRushPolicy object, or an array of them.
+ *
+ * @beta
+ */
+export interface IRushPolicy {
+  /**
+   * Identifies the policy when its violations are reported, for example "banned-packages".
+   */
+  readonly policyName: string;
+
+  /**
+   * Checks the repository, and returns the violations that were found.  If the repository
+   * complies with the policy, an empty array is returned.
+   */
+  validate(rushConfiguration: RushConfiguration): IPolicyViolation[];
+}
+
+/**
+ * The base class for the policies that are built into Rush.
+ */
+export abstract class RushPolicy implements IRushPolicy {
+  public abstract readonly policyName: string;
+
+  public abstract validate(rushConfiguration: RushConfiguration): IPolicyViolation[];
+
+  /**
+   * Returns the dependencies and devDependencies of the project, as declared in its package.json file.
+   */
+  protected getDependencies(project: RushConfigurationProject): PackageJsonDependency[] {
+    return [
+      ...project.packageJsonEditor.dependencyList,
+      ...project.packageJsonEditor.devDependencyList
+    ];
+  }
 }
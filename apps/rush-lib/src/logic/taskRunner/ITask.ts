@@ -57,31 +57,45 @@ export interface ITask extends ITaskDefinition {
   dependents: Set<ITask>;
 
   /**
-   * This number represents how far away this Task is from the furthest "root" project (i.e.
-   * a project with no dependents). This helps us to calculate the critical path (i.e. the
-   * longest chain of projects which must be executed in order, thereby limiting execution speed
-   * of the entire task tree.
+   * The dependencies that are earlier phases of the same project.  When they are rebuilt, this task
+   * can still be built incrementally.
+   */
+  earlierPhases: Set<ITask>;
+
+  /**
+   * This number represents the estimated time to execute this Task and the longest chain of
+   * tasks which depend on it, until the furthest away "root" project (i.e. a project with no
+   * dependents). This helps us to calculate the critical path (i.e. the longest chain of projects
+   * which must be executed in order, thereby limiting execution speed of the entire task tree.
    *
    * This number is calculated via a memoized recursive function, and when choosing the next
    * task to execute, the task with the highest criticalPathLength is chosen.
    *
+   * The duration of each task is estimated from its most recent duration. Tasks without a recorded
+   * duration are given the average duration, and if nothing was recorded, every task has a weight of 1.
+   * In that case, the number counts the tasks in the chain:
+   *
    * Example:
-   *        (0) A
+   *        (1) A
    *             \
-   *          (1) B     C (0)         (applications)
+   *          (2) B     C (1)         (applications)
    *               \   /|\
    *                \ / | \
-   *             (2) D  |  X (1)      (utilities)
+   *             (3) D  |  X (2)      (utilities)
    *                    | / \
    *                    |/   \
-   *                (2) Y     Z (2)   (other utilities)
+   *                (3) Y     Z (3)   (other utilities)
+   *
+   * All roots (A & C) have a criticalPathLength of 1.
+   * B has a score of 2, since A depends on it.
+   * D has a score of 3, since we look at the longest chain (e.g D->B->A is longer than D->C)
+   * X has a score of 2, since the only package which depends on it is A
+   * Z has a score of 3, since only X depends on it, and X has a score of 2
+   * Y has a score of 3, since the chain Y->X->C is longer than Y->C
    *
-   * All roots (A & C) have a criticalPathLength of 0.
-   * B has a score of 1, since A depends on it.
-   * D has a score of 2, since we look at the longest chain (e.g D->B->A is longer than D->C)
-   * X has a score of 1, since the only package which depends on it is A
-   * Z has a score of 2, since only X depends on it, and X has a score of 1
-   * Y has a score of 2, since the chain Y->X->C is longer than Y->C
+   * If instead the history showed that C takes 60 seconds and the other tasks take 10 seconds,
+   * then Y would have a score of 80 (Y->X->C) and D would have a score of 70 (D->C), so Y and D
+   * would be started before B, which has a score of 20.
    *
    * The algorithm is implemented in TaskRunner as _calculateCriticalPaths()
    */
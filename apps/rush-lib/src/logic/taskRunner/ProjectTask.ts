@@ -18,6 +18,7 @@ import { ITaskDefinition } from '../taskRunner/ITask';
 import {
   PackageChangeAnalyzer
 } from '../PackageChangeAnalyzer';
+import { BuildCacheManager } from '../buildCache/BuildCacheManager';
 
 interface IPackageDependencies extends IPackageDeps {
   arguments: string;
@@ -31,6 +32,13 @@ export interface IProjectTaskOptions {
   isIncrementalBuildAllowed: boolean;
   ignoreMissingScript: boolean;
   packageChangeAnalyzer: PackageChangeAnalyzer;
+  buildCacheManager: BuildCacheManager | undefined;
+
+  /**
+   * If the command is divided into phases, the name of the phase that this task runs.  The phase name
+   * is used as the script name instead of the command.
+   */
+  phaseName?: string;
 }
 
 /**
@@ -38,7 +46,7 @@ export interface IProjectTaskOptions {
  */
 export class ProjectTask implements ITaskDefinition {
   public get name(): string {
-    return this._rushProject.packageName;
+    return ProjectTask.getTaskName(this._rushProject.packageName, this._phaseName);
   }
 
   public isIncrementalBuildAllowed: boolean;
@@ -51,6 +59,17 @@ export class ProjectTask implements ITaskDefinition {
   private _customParameterValues: string[];
   private _ignoreMissingScript: boolean;
   private _packageChangeAnalyzer: PackageChangeAnalyzer;
+  private _buildCacheManager: BuildCacheManager | undefined;
+  private _isBuildCacheReadAllowed: boolean;
+  private _phaseName: string | undefined;
+
+  /**
+   * Returns the name of the task that runs the specified phase of a project.  If the command
+   * is not divided into phases, the task is named after the project.
+   */
+  public static getTaskName(packageName: string, phaseName: string | undefined): string {
+    return phaseName ? `${packageName} (${phaseName})` : packageName;
+  }
 
   constructor(options: IProjectTaskOptions) {
     this._rushProject = options.rushProject;
@@ -60,6 +79,12 @@ export class ProjectTask implements ITaskDefinition {
     this.isIncrementalBuildAllowed = options.isIncrementalBuildAllowed;
     this._ignoreMissingScript = options.ignoreMissingScript;
     this._packageChangeAnalyzer = options.packageChangeAnalyzer;
+    this._buildCacheManager = options.buildCacheManager;
+    this._phaseName = options.phaseName;
+
+    // Unlike isIncrementalBuildAllowed, this is not cleared by the TaskRunner when an upstream
+    // project gets rebuilt, since the cache key already accounts for the state of the dependencies.
+    this._isBuildCacheReadAllowed = options.isIncrementalBuildAllowed;
   }
 
   public execute(writer: ITaskWriter): Promise<TaskStatus> {
@@ -98,19 +123,18 @@ export class ProjectTask implements ITaskDefinition {
   ): Promise<TaskStatus> {
     try {
       this._hasWarningOrError = false;
-      const projectFolder: string = this._rushProject.projectFolder;
       let lastPackageDeps: IPackageDependencies | undefined = undefined;
 
       writer.writeLine(`>>> ${this.name}`);
 
-      const currentDepsPath: string = path.join(this._rushProject.projectFolder, RushConstants.packageDepsFilename);
+      const currentDepsPath: string = path.join(this._rushProject.projectFolder, this._getPackageDepsFilename());
       if (FileSystem.exists(currentDepsPath)) {
         try {
           lastPackageDeps = JsonFile.load(currentDepsPath) as IPackageDependencies;
         } catch (e) {
           // Warn and ignore - treat failing to load the file as the project being not built.
           writer.writeLine(
-            `Warning: error parsing ${RushConstants.packageDepsFilename}: ${e}. Ignoring and ` +
+            `Warning: error parsing ${path.basename(currentDepsPath)}: ${e}. Ignoring and ` +
             'treating the project as non-built.'
           );
         }
@@ -132,7 +156,7 @@ export class ProjectTask implements ITaskDefinition {
         FileSystem.deleteFile(currentDepsPath);
 
         if (!taskCommand) {
-          writer.writeLine(`The task command ${this._commandToRun} was registered in the package.json but is blank,`
+          writer.writeLine(`The task command ${this._getScriptName()} was registered in the package.json but is blank,`
             + ` so no action will be taken.`);
 
           // Write deps on success.
@@ -143,55 +167,92 @@ export class ProjectTask implements ITaskDefinition {
           return Promise.resolve(TaskStatus.Success);
         }
 
-        // Run the task
-
-        const normalizedTaskCommand: string = process.platform === 'win32'
-          ? convertSlashesForWindows(taskCommand)
-          : taskCommand;
-
-        writer.writeLine(normalizedTaskCommand);
-        const task: child_process.ChildProcess =
-            Utilities.executeLifecycleCommandAsync(
-            normalizedTaskCommand,
-            {
-              rushConfiguration: this._rushConfiguration,
-              workingDirectory: projectFolder,
-              initCwd: this._rushConfiguration.commonTempFolder,
-              handleOutput: true,
-              environmentPathOptions: {
-                includeProjectBin: true
-              }
+        const buildCacheKey: string | undefined = this._getBuildCacheKey(taskCommand);
+        const restorePromise: Promise<boolean> = buildCacheKey && this._isBuildCacheReadAllowed
+          ? this._tryRestoreFromBuildCacheAsync(buildCacheKey, writer)
+          : Promise.resolve(false);
+
+        return restorePromise.then((wasRestored: boolean) => {
+          if (wasRestored) {
+            // Write deps on success.
+            if (currentPackageDeps) {
+              JsonFile.save(currentPackageDeps, currentDepsPath);
             }
-          );
 
-        // Hook into events, in order to get live streaming of build log
-        task.stdout.on('data', (data: string) => {
-          writer.write(data);
-        });
+            return TaskStatus.FromCache;
+          }
 
-        task.stderr.on('data', (data: string) => {
-          writer.writeError(data);
-          this._hasWarningOrError = true;
+          return this._runScript(taskCommand, writer, currentPackageDeps, currentDepsPath, buildCacheKey);
         });
+      }
+    } catch (error) {
+      console.log(error);
+
+      this._writeLogsToDisk(writer);
+      return Promise.reject(new TaskError('error', error.toString()));
+    }
+  }
 
-        return new Promise((resolve: (status: TaskStatus) => void, reject: (error: TaskError) => void) => {
-          task.on('close', (code: number) => {
-            this._writeLogsToDisk(writer);
-
-            if (code !== 0) {
-              reject(new TaskError('error', `Returned error code: ${code}`));
-            } else if (this._hasWarningOrError) {
-              resolve(TaskStatus.SuccessWithWarning);
-            } else {
-              // Write deps on success.
-              if (currentPackageDeps) {
-                JsonFile.save(currentPackageDeps, currentDepsPath);
-              }
-              resolve(TaskStatus.Success);
+  private _runScript(
+    taskCommand: string,
+    writer: ITaskWriter,
+    currentPackageDeps: IPackageDependencies | undefined,
+    currentDepsPath: string,
+    buildCacheKey: string | undefined
+  ): Promise<TaskStatus> {
+    try {
+      const normalizedTaskCommand: string = process.platform === 'win32'
+        ? convertSlashesForWindows(taskCommand)
+        : taskCommand;
+
+      writer.writeLine(normalizedTaskCommand);
+      const task: child_process.ChildProcess =
+          Utilities.executeLifecycleCommandAsync(
+          normalizedTaskCommand,
+          {
+            rushConfiguration: this._rushConfiguration,
+            workingDirectory: this._rushProject.projectFolder,
+            initCwd: this._rushConfiguration.commonTempFolder,
+            handleOutput: true,
+            environmentPathOptions: {
+              includeProjectBin: true
             }
-          });
+          }
+        );
+
+      // Hook into events, in order to get live streaming of build log
+      task.stdout.on('data', (data: string) => {
+        writer.write(data);
+      });
+
+      task.stderr.on('data', (data: string) => {
+        writer.writeError(data);
+        this._hasWarningOrError = true;
+      });
+
+      return new Promise((resolve: (code: number) => void) => {
+        task.on('close', (code: number) => {
+          resolve(code);
         });
-      }
+      }).then((code: number) => {
+        this._writeLogsToDisk(writer);
+
+        if (code !== 0) {
+          throw new TaskError('error', `Returned error code: ${code}`);
+        } else if (this._hasWarningOrError) {
+          return TaskStatus.SuccessWithWarning;
+        } else {
+          // Write deps on success.
+          if (currentPackageDeps) {
+            JsonFile.save(currentPackageDeps, currentDepsPath);
+          }
+
+          const savePromise: Promise<void> = buildCacheKey
+            ? this._trySaveToBuildCacheAsync(buildCacheKey, writer)
+            : Promise.resolve();
+          return savePromise.then(() => TaskStatus.Success);
+        }
+      });
     } catch (error) {
       console.log(error);
 
@@ -200,12 +261,72 @@ export class ProjectTask implements ITaskDefinition {
     }
   }
 
+  private _getBuildCacheKey(taskCommand: string): string | undefined {
+    if (!this._buildCacheManager || this._rushProject.outputFolders.length === 0) {
+      return undefined;
+    }
+    // Different phases could run the same command line, so the phase name is part of the key
+    return this._buildCacheManager.getCacheKey(this._rushProject,
+      this._phaseName ? `${this._phaseName} ${taskCommand}` : taskCommand);
+  }
+
+  private _tryRestoreFromBuildCacheAsync(buildCacheKey: string, writer: ITaskWriter): Promise<boolean> {
+    return this._buildCacheManager!.tryRestoreAsync(this._rushProject, buildCacheKey)
+      .then((wasRestored: boolean) => {
+        if (wasRestored) {
+          writer.writeLine(`Restored the build outputs from the build cache (${buildCacheKey}).`);
+        }
+        return wasRestored;
+      })
+      .catch((error: Error) => {
+        // Warn and ignore - treat failing to restore the outputs as a cache miss.
+        writer.writeLine(`Warning: error restoring the build outputs from the build cache: ${error}. Ignoring and `
+          + 'running the task.');
+        return false;
+      });
+  }
+
+  private _trySaveToBuildCacheAsync(buildCacheKey: string, writer: ITaskWriter): Promise<void> {
+    // trySaveAsync() creates the tarball synchronously, so its errors must be caught by the promise chain too
+    return Promise.resolve()
+      .then(() => this._buildCacheManager!.trySaveAsync(this._rushProject, buildCacheKey))
+      .then(() => { /* collapse boolean to void */ })
+      .catch((error: Error) => {
+        writer.writeLine(`Warning: error saving the build outputs to the build cache: ${error}`);
+      });
+  }
+
+  /**
+   * The name of the script in package.json that this task runs.
+   */
+  private _getScriptName(): string {
+    return this._phaseName || this._commandToRun;
+  }
+
+  /**
+   * Each phase tracks its incremental build state separately, e.g. in "package-deps_compile.json".
+   */
+  private _getPackageDepsFilename(): string {
+    if (!this._phaseName) {
+      return RushConstants.packageDepsFilename;
+    }
+    return `${path.basename(RushConstants.packageDepsFilename, '.json')}_${this._getSafePhaseName()}.json`;
+  }
+
+  /**
+   * Phase names such as "_phase:compile" can contain characters that are not allowed in filenames.
+   */
+  private _getSafePhaseName(): string {
+    return this._phaseName!.replace(/[^a-z0-9_.-]/gi, '_');
+  }
+
   private _getScriptToRun(): string {
-    const script: string | undefined = this._getScriptCommand(this._commandToRun);
+    const scriptName: string = this._getScriptName();
+    const script: string | undefined = this._getScriptCommand(scriptName);
 
     if (script === undefined && !this._ignoreMissingScript) {
       // tslint:disable-next-line:max-line-length
-      throw new Error(`The project [${this._rushProject.packageName}] does not define a '${this._commandToRun}' command in the 'scripts' section of its package.json`);
+      throw new Error(`The project [${this._rushProject.packageName}] does not define a '${scriptName}' command in the 'scripts' section of its package.json`);
     }
 
     if (!script) {
@@ -235,7 +356,10 @@ export class ProjectTask implements ITaskDefinition {
   // @todo #179371: add log files to list of things that get gulp cleaned
   private _writeLogsToDisk(writer: ITaskWriter): void {
     try {
-      const logFilename: string = path.basename(this._rushProject.projectFolder);
+      let logFilename: string = path.basename(this._rushProject.projectFolder);
+      if (this._phaseName) {
+        logFilename += '.' + this._getSafePhaseName();
+      }
 
       const stdout: string = writer.getStdOutput().replace(/\x1B[[(?);]{0,2}(;?\d)*./g, '');
       if (stdout) {
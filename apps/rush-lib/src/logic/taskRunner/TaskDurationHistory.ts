@@ -0,0 +1,105 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+/**
+ * Part of ITaskDurationHistoryJson.
+ */
+interface ITaskDurationsJson {
+  [taskName: string]: number;
+}
+
+/**
+ * The file format that is saved by TaskDurationHistory.
+ */
+interface ITaskDurationHistoryJson {
+  /**
+   * The most recent duration of each task, in seconds.
+   */
+  durations: ITaskDurationsJson;
+}
+
+/**
+ * Stores the most recent duration of each task, which TaskRunner uses to estimate how long
+ * each chain of dependent tasks will take.
+ */
+export class TaskDurationHistory {
+  private _filename: string;
+  private _durations: Map<string, number>;
+
+  /**
+   * Loads the history from the specified file.  If the file does not exist or cannot be read,
+   * then the history is empty.
+   */
+  public static loadFromFile(filename: string): TaskDurationHistory {
+    const history: TaskDurationHistory = new TaskDurationHistory(filename);
+
+    if (FileSystem.exists(filename)) {
+      try {
+        const historyJson: ITaskDurationHistoryJson = JsonFile.load(filename);
+        for (const taskName of Object.keys(historyJson.durations || {})) {
+          const duration: number = historyJson.durations[taskName];
+          if (typeof duration === 'number' && duration >= 0) {
+            history._durations.set(taskName, duration);
+          }
+        }
+      } catch (error) {
+        // The history is only an optimization, so start over if the file is corrupted
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * The number of tasks that have a recorded duration.
+   */
+  public get size(): number {
+    return this._durations.size;
+  }
+
+  /**
+   * Returns the most recent duration of the task in seconds, or undefined if it was never recorded.
+   */
+  public getDuration(taskName: string): number | undefined {
+    return this._durations.get(taskName);
+  }
+
+  /**
+   * Records the duration of the task in seconds.
+   */
+  public setDuration(taskName: string, duration: number): void {
+    this._durations.set(taskName, duration);
+  }
+
+  /**
+   * Returns the average of all recorded durations, or undefined if the history is empty.
+   */
+  public getAverageDuration(): number | undefined {
+    if (this._durations.size === 0) {
+      return undefined;
+    }
+
+    let total: number = 0;
+    this._durations.forEach((duration: number) => {
+      total += duration;
+    });
+    return total / this._durations.size;
+  }
+
+  public save(): void {
+    const durations: ITaskDurationsJson = {};
+    for (const taskName of Array.from(this._durations.keys()).sort()) {
+      durations[taskName] = this._durations.get(taskName)!;
+    }
+
+    const historyJson: ITaskDurationHistoryJson = { durations };
+    JsonFile.save(historyJson, this._filename, { ensureFolderExists: true });
+  }
+
+  private constructor(filename: string) {
+    this._filename = filename;
+    this._durations = new Map<string, number>();
+  }
+}
@@ -14,6 +14,35 @@ import { Stopwatch } from '../../utilities/Stopwatch';
 import { ITask, ITaskDefinition } from './ITask';
 import { TaskStatus } from './TaskStatus';
 import { TaskError } from './TaskError';
+import { TaskTimeline, ITaskTimelineRecord } from './TaskTimeline';
+import { TaskDurationHistory } from './TaskDurationHistory';
+
+/**
+ * Constructor parameters for TaskRunner.
+ */
+export interface ITaskRunnerOptions {
+  quietMode: boolean;
+  parallelism: string | undefined;
+  changedProjectsOnly: boolean;
+  terminal?: Terminal;
+
+  /**
+   * If specified, the durations of previous runs are used to estimate the length of each
+   * task's critical path, and the durations of successful tasks are recorded.
+   */
+  durationHistory?: TaskDurationHistory;
+
+  /**
+   * If specified, this is called before each task is executed.  If the promise is rejected, the task fails.
+   */
+  onTaskStart?: (task: ITask) => Promise<void>;
+
+  /**
+   * If specified, this is called after each task that was started has finished, when its final status
+   * has been assigned.  If the promise is rejected, the run fails.
+   */
+  onTaskEnd?: (task: ITask) => Promise<void>;
+}
 
 /**
  * A class which manages the execution of a set of tasks with interdependencies.
@@ -33,19 +62,22 @@ export class TaskRunner {
   private _totalTasks: number;
   private _completedTasks: number;
   private _terminal: Terminal;
+  private _timeline: TaskTimeline | undefined;
+  private _durationHistory: TaskDurationHistory | undefined;
+  private _onTaskStart: ((task: ITask) => Promise<void>) | undefined;
+  private _onTaskEnd: ((task: ITask) => Promise<void>) | undefined;
 
-  constructor(
-    quietMode: boolean,
-    parallelism: string | undefined,
-    changedProjectsOnly: boolean,
-    terminal?: Terminal
-  ) {
+  constructor(options: ITaskRunnerOptions) {
+    const parallelism: string | undefined = options.parallelism;
     this._tasks = new Map<string, ITask>();
     this._buildQueue = [];
-    this._quietMode = quietMode;
+    this._quietMode = options.quietMode;
     this._hasAnyFailures = false;
-    this._changedProjectsOnly = changedProjectsOnly;
-    this._terminal = terminal || new Terminal(new ConsoleTerminalProvider());
+    this._changedProjectsOnly = options.changedProjectsOnly;
+    this._terminal = options.terminal || new Terminal(new ConsoleTerminalProvider());
+    this._durationHistory = options.durationHistory;
+    this._onTaskStart = options.onTaskStart;
+    this._onTaskEnd = options.onTaskEnd;
 
     const numberOfCores: number = os.cpus().length;
 
@@ -88,6 +120,7 @@ export class TaskRunner {
     const task: ITask = taskDefinition as ITask;
     task.dependencies = new Set<ITask>();
     task.dependents = new Set<ITask>();
+    task.earlierPhases = new Set<ITask>();
     task.status = TaskStatus.Ready;
     task.criticalPathLength = undefined;
     this._tasks.set(task.name, task);
@@ -108,8 +141,10 @@ export class TaskRunner {
    * Defines the list of dependencies for an individual task.
    * @param taskName - the string name of the task for which we are defining dependencies. A task with this
    * name must already have been registered.
+   * @param areEarlierPhases - true if the dependencies are earlier phases of the same project.  Unlike a
+   * dependency on another project, such a dependency does not prevent an incremental build when it is rebuilt.
    */
-  public addDependencies(taskName: string, taskDependencies: string[]): void {
+  public addDependencies(taskName: string, taskDependencies: string[], areEarlierPhases: boolean = false): void {
     const task: ITask | undefined = this._tasks.get(taskName);
 
     if (!task) {
@@ -126,9 +161,19 @@ export class TaskRunner {
       const dependency: ITask = this._tasks.get(dependencyName)!;
       task.dependencies.add(dependency);
       dependency.dependents.add(task);
+      if (areEarlierPhases) {
+        task.earlierPhases.add(dependency);
+      }
     }
   }
 
+  /**
+   * The timeline of the most recent call to execute(), or undefined if execute() has not been called.
+   */
+  public get timeline(): TaskTimeline | undefined {
+    return this._timeline;
+  }
+
   /**
    * Executes all tasks which have been registered, returning a promise which is resolved when all the
    * tasks are completed successfully, or rejects when any task fails.
@@ -141,9 +186,12 @@ export class TaskRunner {
 
     this._checkForCyclicDependencies(this._tasks.values(), []);
 
-    // Precalculate the number of dependent packages
+    this._timeline = new TaskTimeline(this._tasks.values());
+
+    // Precalculate the estimated duration of the longest chain of dependents
+    const defaultDuration: number = this._getDefaultEstimatedDuration();
     this._tasks.forEach((task: ITask) => {
-      this._calculateCriticalPaths(task);
+      this._calculateCriticalPaths(task, defaultDuration);
     });
 
     // Add everything to the buildQueue
@@ -157,7 +205,9 @@ export class TaskRunner {
     });
 
     return this._startAvailableTasks().then(() => {
+      this._timeline!.stop();
       this._printTaskStatus();
+      this._printCriticalPath();
 
       if (this._hasAnyFailures) {
         return Promise.reject(new Error('Project(s) failed to build'));
@@ -205,7 +255,9 @@ export class TaskRunner {
       task.stopwatch = Stopwatch.start();
       task.writer = Interleaver.registerTask(task.name, this._quietMode);
 
-      taskPromises.push(task.execute(task.writer)
+      taskPromises.push(Promise.resolve()
+        .then(() => this._onTaskStart ? this._onTaskStart(task) : undefined)
+        .then(() => task.execute(task.writer))
         .then((result: TaskStatus) => {
           task.stopwatch.stop();
           task.writer.close();
@@ -222,12 +274,16 @@ export class TaskRunner {
             case TaskStatus.Skipped:
               this._markTaskAsSkipped(task);
               break;
+            case TaskStatus.FromCache:
+              this._markTaskAsFromCache(task);
+              break;
             case TaskStatus.Failure:
               this._hasAnyFailures = true;
               this._markTaskAsFailed(task);
               break;
           }
         }).catch((error: TaskError) => {
+          task.stopwatch.stop();
           task.writer.close();
 
           this._currentActiveTasks--;
@@ -236,12 +292,28 @@ export class TaskRunner {
           task.error = error;
           this._markTaskAsFailed(task);
         }
-        ).then(() => this._startAvailableTasks()));
+        ).then(() => this._notifyTaskEnd(task))
+        .then(() => this._startAvailableTasks()));
     }
 
     return Promise.all(taskPromises).then(() => { /* collapse void[] to void */ });
   }
 
+  /**
+   * Calls the onTaskEnd callback.  The task has already finished, so if the callback fails,
+   * the run fails instead of the task.
+   */
+  private _notifyTaskEnd(task: ITask): Promise<void> {
+    if (!this._onTaskEnd) {
+      return Promise.resolve();
+    }
+
+    return this._onTaskEnd(task).catch((error: Error) => {
+      this._hasAnyFailures = true;
+      this._terminal.writeErrorLine(`[${task.name}] ${error.message}`);
+    });
+  }
+
   /**
    * Marks a task as having failed and marks each of its dependents as blocked
    */
@@ -280,13 +352,8 @@ export class TaskRunner {
       + `[${task.name}] completed successfully in ${task.stopwatch.toString()}`));
     }
     task.status = TaskStatus.Success;
-
-    task.dependents.forEach((dependent: ITask) => {
-      if (!this._changedProjectsOnly) {
-        dependent.isIncrementalBuildAllowed = false;
-      }
-      dependent.dependencies.delete(task);
-    });
+    this._recordDuration(task);
+    this._removeFromDependents(task, true);
   }
 
   /**
@@ -297,12 +364,8 @@ export class TaskRunner {
     this._terminal.writeWarningLine(`${this._getCurrentCompletedTaskString()}`
       + `[${task.name}] completed with warnings in ${task.stopwatch.toString()}`);
     task.status = TaskStatus.SuccessWithWarning;
-    task.dependents.forEach((dependent: ITask) => {
-      if (!this._changedProjectsOnly) {
-        dependent.isIncrementalBuildAllowed = false;
-      }
-      dependent.dependencies.delete(task);
-    });
+    this._recordDuration(task);
+    this._removeFromDependents(task, true);
   }
 
   /**
@@ -311,7 +374,30 @@ export class TaskRunner {
   private _markTaskAsSkipped(task: ITask): void {
     this._terminal.writeLine(Colors.green(`${this._getCurrentCompletedTaskString()}[${task.name}] skipped`));
     task.status = TaskStatus.Skipped;
+    this._removeFromDependents(task, false);
+  }
+
+  /**
+   * Marks a task as having its outputs restored from the build cache.  Because the outputs may have
+   * changed, this is treated like a successful build, and removes it from the dependencies list of all
+   * its dependents.
+   */
+  private _markTaskAsFromCache(task: ITask): void {
+    this._terminal.writeLine(Colors.green(`${this._getCurrentCompletedTaskString()}`
+      + `[${task.name}] restored from the build cache`));
+    task.status = TaskStatus.FromCache;
+    this._removeFromDependents(task, true);
+  }
+
+  /**
+   * Removes a completed task from the dependencies list of all its dependents.  If the task's outputs may have
+   * changed, the dependents can't be built incrementally, except for the later phases of the same project.
+   */
+  private _removeFromDependents(task: ITask, outputsMayHaveChanged: boolean): void {
     task.dependents.forEach((dependent: ITask) => {
+      if (outputsMayHaveChanged && !this._changedProjectsOnly && !dependent.earlierPhases.has(task)) {
+        dependent.isIncrementalBuildAllowed = false;
+      }
       dependent.dependencies.delete(task);
     });
   }
@@ -337,23 +423,45 @@ export class TaskRunner {
   }
 
   /**
-   * Calculate the number of packages which must be built before we reach
-   * the furthest away "root" node
+   * Calculate the estimated duration of the task plus the longest chain of tasks which
+   * depend on it, i.e. until we reach the furthest away "root" node
    */
-  private _calculateCriticalPaths(task: ITask): number {
+  private _calculateCriticalPaths(task: ITask, defaultDuration: number): number {
     // Return the memoized value
     if (task.criticalPathLength !== undefined) {
       return task.criticalPathLength;
     }
 
+    const duration: number | undefined = this._durationHistory && this._durationHistory.getDuration(task.name);
+    const estimatedDuration: number = duration !== undefined ? duration : defaultDuration;
+
     // If no dependents, we are in a "root"
     if (task.dependents.size === 0) {
-      return task.criticalPathLength = 0;
+      return task.criticalPathLength = estimatedDuration;
     } else {
-      // Otherwise we are as long as the longest package + 1
+      // Otherwise we are as long as the longest chain of dependents, plus this task
       const depsLengths: number[] = [];
-      task.dependents.forEach(dep => this._calculateCriticalPaths(dep));
-      return task.criticalPathLength = Math.max(...depsLengths) + 1;
+      task.dependents.forEach(dep => depsLengths.push(this._calculateCriticalPaths(dep, defaultDuration)));
+      return task.criticalPathLength = Math.max(...depsLengths) + estimatedDuration;
+    }
+  }
+
+  /**
+   * The estimated duration of a task that has no history.  Using the average of the recorded durations
+   * keeps the estimates comparable, and if there is no history at all, every task is given the same weight,
+   * so that the critical path length is the number of tasks in the chain.
+   */
+  private _getDefaultEstimatedDuration(): number {
+    const averageDuration: number | undefined = this._durationHistory && this._durationHistory.getAverageDuration();
+    return averageDuration !== undefined ? averageDuration : 1;
+  }
+
+  /**
+   * Saves the duration of a task that was actually executed, to improve the estimates for the next run
+   */
+  private _recordDuration(task: ITask): void {
+    if (this._durationHistory && !task.hadEmptyScript) {
+      this._durationHistory.setDuration(task.name, task.stopwatch.duration);
     }
   }
 
@@ -375,6 +483,7 @@ export class TaskRunner {
     this._printStatus(TaskStatus.Executing, tasksByStatus, Colors.yellow);
     this._printStatus(TaskStatus.Ready, tasksByStatus, Colors.white);
     this._printStatus(TaskStatus.Skipped, tasksByStatus, Colors.gray);
+    this._printStatus(TaskStatus.FromCache, tasksByStatus, Colors.green);
     this._printStatus(TaskStatus.Success, tasksByStatus, Colors.green);
     this._printStatus(
       TaskStatus.SuccessWithWarning,
@@ -397,6 +506,24 @@ export class TaskRunner {
     this._terminal.writeLine('');
   }
 
+  /**
+   * Prints the chain of tasks that determined the duration of the run
+   */
+  private _printCriticalPath(): void {
+    const criticalPath: ITaskTimelineRecord[] = this._timeline!.getCriticalPath();
+    if (criticalPath.length === 0) {
+      return;
+    }
+
+    const duration: number = (criticalPath[criticalPath.length - 1].endTime! - criticalPath[0].startTime!) / 1000;
+    this._terminal.writeLine(`Critical path (${duration.toFixed(2)} seconds):`);
+    for (const record of criticalPath) {
+      const taskDuration: number = (record.endTime! - record.startTime!) / 1000;
+      this._terminal.writeLine(`  ${record.name} (${taskDuration.toFixed(2)} seconds)`);
+    }
+    this._terminal.writeLine('');
+  }
+
   private _printStatus(
     status: TaskStatus,
     tasksByStatus: { [status: number]: ITask[] },
@@ -415,6 +542,7 @@ export class TaskRunner {
           case TaskStatus.Executing:
           case TaskStatus.Ready:
           case TaskStatus.Skipped:
+          case TaskStatus.FromCache:
             this._terminal.writeLine(color(task.name));
             break;
 
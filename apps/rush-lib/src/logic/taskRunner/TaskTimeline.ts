@@ -0,0 +1,231 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { Stopwatch } from '../../utilities/Stopwatch';
+import { Utilities } from '../../utilities/Utilities';
+import { ITask } from './ITask';
+import { TaskStatus } from './TaskStatus';
+
+/**
+ * Describes the execution of a single task.
+ */
+export interface ITaskTimelineRecord {
+  name: string;
+  status: TaskStatus;
+
+  /**
+   * The number of milliseconds between the start of the run and the start of the task,
+   * or undefined if the task was never started.
+   */
+  startTime?: number;
+
+  /**
+   * The number of milliseconds between the start of the run and the end of the task,
+   * or undefined if the task did not finish.
+   */
+  endTime?: number;
+
+  /**
+   * The names of the tasks that had to finish before this task could start.
+   */
+  dependencies: string[];
+
+  /**
+   * The dependency that finished last, i.e. the one that this task was waiting for when it became ready.
+   */
+  blockingDependency?: string;
+}
+
+/**
+ * The JSON report that is written by TaskTimeline.
+ */
+export interface ITaskTimelineJson {
+  /**
+   * The time when the run started, as an ISO 8601 string.
+   */
+  startTime: string;
+
+  /**
+   * The duration of the run, in seconds.
+   */
+  duration: number;
+
+  tasks: ITaskTimelineRecord[];
+
+  /**
+   * The names of the tasks on the critical path, in the order that they were executed.
+   */
+  criticalPath: string[];
+}
+
+/**
+ * A "complete" event from the Chrome trace event format.
+ * See https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+ */
+export interface IChromeTraceEvent {
+  name: string;
+  cat: string;
+  ph: 'X';
+
+  /**
+   * The start time, in microseconds.
+   */
+  ts: number;
+
+  /**
+   * The duration, in microseconds.
+   */
+  dur: number;
+  pid: number;
+  tid: number;
+  args: { [key: string]: string };
+}
+
+/**
+ * A file that can be loaded by the chrome://tracing viewer.
+ */
+export interface IChromeTraceJson {
+  traceEvents: IChromeTraceEvent[];
+}
+
+/**
+ * Records when each task of a TaskRunner started and finished, and which dependencies it waited for.
+ *
+ * @remarks
+ * TaskRunner removes dependencies from each task as they complete, so the dependency names are
+ * captured when the timeline is created.  The start and end times are read from each task's stopwatch.
+ */
+export class TaskTimeline {
+  private _tasks: ITask[];
+  private _dependencyNames: Map<ITask, string[]>;
+  private _startDate: Date;
+  private _stopwatch: Stopwatch;
+
+  public constructor(tasks: Iterable<ITask>, getTime: () => number = Utilities.getTimeInMs) {
+    this._tasks = [];
+    this._dependencyNames = new Map<ITask, string[]>();
+
+    for (const task of tasks) {
+      this._tasks.push(task);
+      this._dependencyNames.set(task, Array.from(task.dependencies).map((dependency: ITask) => dependency.name));
+    }
+
+    this._startDate = new Date();
+    this._stopwatch = new Stopwatch(getTime).start();
+  }
+
+  /**
+   * Marks the end of the run.
+   */
+  public stop(): void {
+    this._stopwatch.stop();
+  }
+
+  /**
+   * Returns a record for each task, in the order that the tasks were registered.
+   */
+  public getRecords(): ITaskTimelineRecord[] {
+    const records: ITaskTimelineRecord[] = this._tasks.map((task: ITask) => {
+      const record: ITaskTimelineRecord = {
+        name: task.name,
+        status: task.status,
+        dependencies: this._dependencyNames.get(task)!
+      };
+
+      // The optional members are omitted rather than set to undefined, since the record is saved as JSON
+      if (task.stopwatch && task.stopwatch.startTime !== undefined) {
+        record.startTime = task.stopwatch.startTime - this._stopwatch.startTime!;
+      }
+      if (task.stopwatch && task.stopwatch.endTime !== undefined) {
+        record.endTime = task.stopwatch.endTime - this._stopwatch.startTime!;
+      }
+      return record;
+    });
+
+    const recordsByName: Map<string, ITaskTimelineRecord> = new Map<string, ITaskTimelineRecord>();
+    for (const record of records) {
+      recordsByName.set(record.name, record);
+    }
+
+    for (const record of records) {
+      let latestEndTime: number = -1;
+      for (const dependencyName of record.dependencies) {
+        const dependencyEndTime: number | undefined = recordsByName.get(dependencyName)!.endTime;
+        if (dependencyEndTime !== undefined && dependencyEndTime > latestEndTime) {
+          latestEndTime = dependencyEndTime;
+          record.blockingDependency = dependencyName;
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Returns the chain of tasks that determined the duration of the run.  It starts with the task
+   * that finished last, and repeatedly follows the dependency that the task waited for.
+   */
+  public getCriticalPath(records: ITaskTimelineRecord[] = this.getRecords()): ITaskTimelineRecord[] {
+    const recordsByName: Map<string, ITaskTimelineRecord> = new Map<string, ITaskTimelineRecord>();
+    let lastRecord: ITaskTimelineRecord | undefined = undefined;
+    for (const record of records) {
+      recordsByName.set(record.name, record);
+      if (record.endTime !== undefined && (!lastRecord || record.endTime > lastRecord.endTime!)) {
+        lastRecord = record;
+      }
+    }
+
+    const criticalPath: ITaskTimelineRecord[] = [];
+    for (let record: ITaskTimelineRecord | undefined = lastRecord; record;
+      record = record.blockingDependency ? recordsByName.get(record.blockingDependency) : undefined) {
+      criticalPath.unshift(record);
+    }
+
+    return criticalPath;
+  }
+
+  public toJson(): ITaskTimelineJson {
+    const records: ITaskTimelineRecord[] = this.getRecords();
+    return {
+      startTime: this._startDate.toISOString(),
+      duration: this._stopwatch.duration,
+      tasks: records,
+      criticalPath: this.getCriticalPath(records).map((record: ITaskTimelineRecord) => record.name)
+    };
+  }
+
+  /**
+   * Converts the timeline to the Chrome trace event format.  Each task is shown on the first
+   * row ("thread") that is not busy when the task starts, so that the rows reflect the parallelism.
+   */
+  public toChromeTrace(): IChromeTraceJson {
+    const startedRecords: ITaskTimelineRecord[] = this.getRecords()
+      .filter((record: ITaskTimelineRecord) => record.startTime !== undefined && record.endTime !== undefined)
+      .sort((a: ITaskTimelineRecord, b: ITaskTimelineRecord) => a.startTime! - b.startTime!);
+
+    const rowEndTimes: number[] = [];
+    const traceEvents: IChromeTraceEvent[] = startedRecords.map((record: ITaskTimelineRecord): IChromeTraceEvent => {
+      let row: number = 0;
+      while (row < rowEndTimes.length && rowEndTimes[row] > record.startTime!) {
+        row++;
+      }
+      rowEndTimes[row] = record.endTime!;
+
+      return {
+        name: record.name,
+        cat: 'task',
+        ph: 'X',
+        ts: Math.round(record.startTime! * 1000),
+        dur: Math.round((record.endTime! - record.startTime!) * 1000),
+        pid: 1,
+        tid: row,
+        args: {
+          status: record.status,
+          blockingDependency: record.blockingDependency || ''
+        }
+      };
+    });
+
+    return { traceEvents };
+  }
+}
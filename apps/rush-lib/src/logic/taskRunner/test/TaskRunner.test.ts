@@ -1,8 +1,10 @@
 import { EOL } from 'os';
+import * as path from 'path';
 import { TaskRunner } from '../TaskRunner';
-import { ITaskWriter } from '@microsoft/stream-collator';
+import { ITaskWriter, Interleaver } from '@microsoft/stream-collator';
 import { TaskStatus } from '../TaskStatus';
 import { ITaskDefinition } from '../ITask';
+import { TaskDurationHistory } from '../TaskDurationHistory';
 import { StringBufferTerminalProvider, Terminal } from '@microsoft/node-core-library';
 
 function createDummyTask(name: string, action?: () => void): ITaskDefinition {
@@ -38,13 +40,23 @@ describe('TaskRunner', () => {
 
   describe('Constructor', () => {
     it('throwsErrorOnInvalidParallelism', () => {
-      expect(() => new TaskRunner(false, 'tequila', false, terminal)).toThrowErrorMatchingSnapshot();
+      expect(() => new TaskRunner({
+        quietMode: false,
+        parallelism: 'tequila',
+        changedProjectsOnly: false,
+        terminal
+      })).toThrowErrorMatchingSnapshot();
     });
   });
 
   describe('Dependencies', () => {
     beforeEach(() => {
-      taskRunner = new TaskRunner(false, '1', false, terminal);
+      taskRunner = new TaskRunner({
+        quietMode: false,
+        parallelism: '1',
+        changedProjectsOnly: false,
+        terminal
+      });
     });
 
     it('throwsErrorOnNonExistentTask', () => {
@@ -83,7 +95,12 @@ describe('TaskRunner', () => {
 
   describe('Error logging', () => {
     beforeEach(() => {
-      taskRunner = new TaskRunner(false, '1', false, terminal);
+      taskRunner = new TaskRunner({
+        quietMode: false,
+        parallelism: '1',
+        changedProjectsOnly: false,
+        terminal
+      });
     });
 
     const EXPECTED_FAIL: string = 'Promise returned by execute() resolved but was expected to fail';
@@ -180,4 +197,101 @@ describe('TaskRunner', () => {
         });
     });
   });
+
+  describe('Scheduling', () => {
+    beforeEach(() => {
+      // The task output collator requires unique task names, and the tests reuse the same names
+      Interleaver.reset();
+    });
+
+    function createDurationHistory(durations: { [taskName: string]: number }): TaskDurationHistory {
+      const durationHistory: TaskDurationHistory = TaskDurationHistory.loadFromFile(
+        path.join(__dirname, 'does-not-exist.json'));
+      for (const taskName of Object.keys(durations)) {
+        durationHistory.setDuration(taskName, durations[taskName]);
+      }
+      return durationHistory;
+    }
+
+    function getExecutionOrder(durationHistory: TaskDurationHistory): Promise<string[]> {
+      const result: string[] = [];
+      taskRunner = new TaskRunner({
+        quietMode: true,
+        parallelism: '1',
+        changedProjectsOnly: false,
+        terminal,
+        durationHistory
+      });
+      for (const name of ['short', 'long', 'one', 'two']) {
+        taskRunner.addTask(createDummyTask(name, () => result.push(name)));
+      }
+      taskRunner.addDependencies('two', ['one']);
+      return taskRunner.execute().then(() => result);
+    }
+
+    it('starts the longest chains first, weighted by their historical durations', () => {
+      return getExecutionOrder(createDurationHistory({ short: 1, long: 10, one: 1, two: 20 }))
+        .then((result: string[]) => {
+          expect(result).toEqual(['one', 'two', 'long', 'short']);
+        });
+    });
+
+    it('uses the average duration for tasks without history', () => {
+      // The average is 10 seconds, so "one" and "two" are estimated to take 20 seconds
+      return getExecutionOrder(createDurationHistory({ short: 5, long: 15 }))
+        .then((result: string[]) => {
+          expect(result).toEqual(['one', 'long', 'two', 'short']);
+        });
+    });
+
+    it('counts the tasks in each chain if there is no history', () => {
+      return getExecutionOrder(createDurationHistory({}))
+        .then((result: string[]) => {
+          expect(result).toEqual(['one', 'short', 'long', 'two']);
+        });
+    });
+
+    it('records the durations of the tasks that were executed', () => {
+      const durationHistory: TaskDurationHistory = createDurationHistory({});
+      return getExecutionOrder(durationHistory).then(() => {
+        expect(durationHistory.size).toEqual(4);
+        expect(durationHistory.getDuration('two')).toBeGreaterThanOrEqual(0);
+      });
+    });
+  });
+
+  describe('Incremental builds', () => {
+    beforeEach(() => {
+      // The task output collator requires unique task names, and the tests reuse the same names
+      Interleaver.reset();
+    });
+
+    function createIncrementalTask(name: string): ITaskDefinition {
+      const task: ITaskDefinition = createDummyTask(name);
+      task.isIncrementalBuildAllowed = true;
+      return task;
+    }
+
+    it('only prevents incremental builds of the later phases of other projects', () => {
+      taskRunner = new TaskRunner({
+        quietMode: true,
+        parallelism: '1',
+        changedProjectsOnly: false,
+        terminal
+      });
+
+      const tasks: ITaskDefinition[] = ['a (compile)', 'a (test)', 'b (compile)', 'b (test)']
+        .map((name: string) => createIncrementalTask(name));
+      tasks.forEach((task: ITaskDefinition) => taskRunner.addTask(task));
+      taskRunner.addDependencies('a (test)', ['a (compile)'], true);
+      taskRunner.addDependencies('b (test)', ['b (compile)'], true);
+      taskRunner.addDependencies('b (compile)', ['a (compile)']);
+      taskRunner.addDependencies('b (test)', ['a (test)']);
+
+      return taskRunner.execute().then(() => {
+        expect(tasks.map((task: ITaskDefinition) => task.isIncrementalBuildAllowed))
+          .toEqual([true, true, false, false]);
+      });
+    });
+  });
 });
@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ITask } from '../ITask';
+import { TaskStatus } from '../TaskStatus';
+import { TaskTimeline, ITaskTimelineJson, IChromeTraceJson } from '../TaskTimeline';
+import { Stopwatch } from '../../../utilities/Stopwatch';
+
+function pseudoTimeMilliseconds(times: number[]): () => number {
+  return () => times.shift()!;
+}
+
+function createTask(name: string, dependencies: ITask[], status: TaskStatus, times?: number[]): ITask {
+  const task: ITask = {
+    name,
+    status,
+    dependencies: new Set<ITask>(dependencies)
+  } as ITask;
+
+  if (times) {
+    task.stopwatch = new Stopwatch(pseudoTimeMilliseconds(times)).start();
+    task.stopwatch.stop();
+  }
+  return task;
+}
+
+describe('TaskTimeline', () => {
+  let timeline: TaskTimeline;
+
+  beforeEach(() => {
+    const a: ITask = createTask('a', [], TaskStatus.Success, [1000, 3000]);
+    const b: ITask = createTask('b', [a], TaskStatus.Success, [3000, 4000]);
+    const c: ITask = createTask('c', [], TaskStatus.Failure, [1000, 1500]);
+    const d: ITask = createTask('d', [c], TaskStatus.Blocked);
+
+    timeline = new TaskTimeline([a, b, c, d], pseudoTimeMilliseconds([1000, 4000]));
+    timeline.stop();
+  });
+
+  it('records the times relative to the start of the run', () => {
+    const json: ITaskTimelineJson = timeline.toJson();
+
+    expect(json.duration).toEqual(3);
+    expect(json.tasks).toEqual([
+      { name: 'a', status: TaskStatus.Success, dependencies: [], startTime: 0, endTime: 2000 },
+      { name: 'b', status: TaskStatus.Success, dependencies: ['a'], startTime: 2000, endTime: 3000,
+        blockingDependency: 'a' },
+      { name: 'c', status: TaskStatus.Failure, dependencies: [], startTime: 0, endTime: 500 },
+      { name: 'd', status: TaskStatus.Blocked, dependencies: ['c'], blockingDependency: 'c' }
+    ]);
+  });
+
+  it('calculates the critical path', () => {
+    expect(timeline.toJson().criticalPath).toEqual(['a', 'b']);
+  });
+
+  it('assigns overlapping tasks to different rows of the trace', () => {
+    const trace: IChromeTraceJson = timeline.toChromeTrace();
+
+    expect(trace.traceEvents.map(event => [event.name, event.ts, event.dur, event.tid])).toEqual([
+      ['a', 0, 2000000, 0],
+      ['c', 0, 500000, 1],
+      ['b', 2000000, 1000000, 0]
+    ]);
+  });
+});
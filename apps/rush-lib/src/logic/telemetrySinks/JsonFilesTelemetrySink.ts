@@ -0,0 +1,72 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileSystem } from '@microsoft/node-core-library';
+
+import { ITelemetryData } from '../Telemetry';
+import { ITelemetrySink } from './TelemetrySink';
+
+const MAX_FILE_COUNT: number = 100;
+
+/**
+ * The "json" telemetry sink, which writes the records of each flush to a separate JSON file,
+ * and keeps the 100 most recent files.
+ */
+export class JsonFilesTelemetrySink implements ITelemetrySink {
+  private _dataFolder: string;
+  private _writeFile: (file: string, data: string) => void;
+
+  public constructor(dataFolder: string, writeFile: (file: string, data: string) => void = FileSystem.writeFile) {
+    this._dataFolder = dataFolder;
+    this._writeFile = writeFile;
+  }
+
+  public flush(telemetryData: ReadonlyArray<ITelemetryData>): void {
+    const fullPath: string = this._getFilePath();
+    FileSystem.ensureFolder(this._dataFolder);
+    this._writeFile(fullPath, JSON.stringify(telemetryData));
+    this._cleanUp();
+  }
+
+  /**
+   * When there are too many log files, delete the old ones.
+   */
+  private _cleanUp(): void {
+    if (FileSystem.exists(this._dataFolder)) {
+      const files: string[] = FileSystem.readFolder(this._dataFolder);
+      if (files.length > MAX_FILE_COUNT) {
+        const sortedFiles: string[] = files.map(fileName => {
+          const filePath: string = path.join(this._dataFolder, fileName);
+          const stats: fs.Stats = FileSystem.getStatistics(filePath);
+          return {
+            filePath: filePath,
+            modifiedTime: stats.mtime.getTime(),
+            isFile: stats.isFile()
+          };
+        })
+        .filter(value => {
+          // Only delete the telemetry files, and not e.g. the file of the "ndjson" sink
+          return value.isFile && path.extname(value.filePath) === '.json';
+        })
+        .sort((a, b) => {
+          return a.modifiedTime - b.modifiedTime;
+        })
+        .map(s => {
+          return s.filePath;
+        });
+        const filesToDelete: number = sortedFiles.length - MAX_FILE_COUNT;
+        for (let i: number = 0; i < filesToDelete; i++) {
+          FileSystem.deleteFile(sortedFiles[i]);
+        }
+      }
+    }
+  }
+
+  private _getFilePath(): string {
+    let fileName: string = `telemetry_${new Date().toISOString()}`;
+    fileName = fileName.replace(/[\-\:\.]/g, '_') + '.json';
+    return path.join(this._dataFolder, fileName);
+  }
+}
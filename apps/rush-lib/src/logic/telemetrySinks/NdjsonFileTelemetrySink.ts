@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystem } from '@microsoft/node-core-library';
+
+import { ITelemetryData } from '../Telemetry';
+import { ITelemetrySink } from './TelemetrySink';
+
+/**
+ * The "ndjson" telemetry sink, which appends each record as a line of the "telemetry.ndjson" file,
+ * so that the history can be read as a stream of newline-delimited JSON.
+ */
+export class NdjsonFileTelemetrySink implements ITelemetrySink {
+  public static readonly filename: string = 'telemetry.ndjson';
+
+  private _filePath: string;
+
+  public constructor(dataFolder: string) {
+    // Example: "C:\MyRepo\common\temp\telemetry\telemetry.ndjson"
+    this._filePath = path.join(dataFolder, NdjsonFileTelemetrySink.filename);
+  }
+
+  public flush(telemetryData: ReadonlyArray<ITelemetryData>): void {
+    const lines: string[] = telemetryData.map((data: ITelemetryData) => JSON.stringify(data) + os.EOL);
+    FileSystem.appendToFile(this._filePath, lines.join(''), { ensureFolderExists: true });
+  }
+}
@@ -0,0 +1,21 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ITelemetryData } from '../Telemetry';
+
+/**
+ * Receives the telemetry data that is collected during Rush runs.
+ *
+ * @remarks
+ * Custom sinks are implemented by a JavaScript module that is listed in the
+ * "telemetryOptions/customSinkModules" setting of rush.json.  The module exports
+ * an ITelemetrySink object.
+ *
+ * @beta
+ */
+export interface ITelemetrySink {
+  /**
+   * Stores or forwards the records that were logged since the previous flush.
+   */
+  flush(telemetryData: ReadonlyArray<ITelemetryData>): void;
+}
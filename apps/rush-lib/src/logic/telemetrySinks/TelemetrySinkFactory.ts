@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { RushConfiguration, ITelemetryOptionsJson } from '../../api/RushConfiguration';
+import { ITelemetrySink } from './TelemetrySink';
+import { JsonFilesTelemetrySink } from './JsonFilesTelemetrySink';
+import { NdjsonFileTelemetrySink } from './NdjsonFileTelemetrySink';
+import { CustomModuleLoader } from '../../utilities/CustomModuleLoader';
+
+/**
+ * Creates the telemetry sinks that are selected by the "telemetryOptions" section of rush.json,
+ * including the custom sinks that are loaded from JavaScript modules.
+ */
+export class TelemetrySinkFactory {
+  /**
+   * @param dataFolder - the folder where the built-in sinks write their files
+   * @param writeFile - used by the "json" sink to write its files
+   */
+  public static getSinks(rushConfiguration: RushConfiguration, dataFolder: string,
+    writeFile?: (file: string, data: string) => void): ITelemetrySink[] {
+
+    const options: ITelemetryOptionsJson = rushConfiguration.telemetryOptions;
+    const sinks: ITelemetrySink[] = [];
+
+    for (const sinkName of options.sinks || ['json']) {
+      switch (sinkName) {
+        case 'json':
+          sinks.push(new JsonFilesTelemetrySink(dataFolder, writeFile));
+          break;
+        case 'ndjson':
+          sinks.push(new NdjsonFileTelemetrySink(dataFolder));
+          break;
+        default:
+          throw new Error(`Unsupported telemetry sink: ${sinkName}`);
+      }
+    }
+
+    for (const modulePath of options.customSinkModules || []) {
+      sinks.push(TelemetrySinkFactory._loadCustomSink(rushConfiguration, modulePath));
+    }
+
+    return sinks;
+  }
+
+  private static _loadCustomSink(rushConfiguration: RushConfiguration, modulePath: string): ITelemetrySink {
+    const moduleExports: unknown = CustomModuleLoader.loadModule(rushConfiguration, modulePath,
+      'custom telemetry sink');
+
+    if (!TelemetrySinkFactory._isTelemetrySink(moduleExports)) {
+      throw new Error(`The custom telemetry sink "${modulePath}" must export an object with a "flush" function`);
+    }
+    return moduleExports;
+  }
+
+  private static _isTelemetrySink(value: unknown): value is ITelemetrySink {
+    const sink: Partial<ITelemetrySink> | undefined = value as Partial<ITelemetrySink> | undefined;
+    return !!sink && typeof sink.flush === 'function';
+  }
+}
@@ -0,0 +1,82 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, Text } from '@microsoft/node-core-library';
+
+import { RushConfiguration, ITelemetryOptionsJson } from '../../../api/RushConfiguration';
+import { ITelemetryData } from '../../Telemetry';
+import { ITelemetrySink } from '../TelemetrySink';
+import { TelemetrySinkFactory } from '../TelemetrySinkFactory';
+import { JsonFilesTelemetrySink } from '../JsonFilesTelemetrySink';
+import { NdjsonFileTelemetrySink } from '../NdjsonFileTelemetrySink';
+
+const tempFolder: string = path.join(__dirname, 'temp');
+const dataFolder: string = path.join(tempFolder, 'telemetry');
+
+const telemetryData: ITelemetryData[] = [
+  { name: 'build', duration: 10, result: 'Succeeded', extraData: { cacheHitCount: '2' } },
+  { name: 'install', duration: 20, result: 'Failed' }
+];
+
+function createRushConfiguration(telemetryOptions: ITelemetryOptionsJson): RushConfiguration {
+  return {
+    rushJsonFolder: tempFolder,
+    telemetryOptions
+  } as RushConfiguration;
+}
+
+describe('TelemetrySinkFactory', () => {
+  beforeEach(() => {
+    FileSystem.ensureEmptyFolder(tempFolder);
+  });
+
+  afterEach(() => {
+    FileSystem.deleteFolder(tempFolder);
+  });
+
+  it('uses the JSON files sink by default', () => {
+    const sinks: ITelemetrySink[] = TelemetrySinkFactory.getSinks(createRushConfiguration({}), dataFolder);
+    expect(sinks.length).toEqual(1);
+    expect(sinks[0]).toBeInstanceOf(JsonFilesTelemetrySink);
+
+    sinks[0].flush(telemetryData);
+    const filenames: string[] = FileSystem.readFolder(dataFolder);
+    expect(filenames.length).toEqual(1);
+    expect(JSON.parse(FileSystem.readFile(path.join(dataFolder, filenames[0])))).toEqual(telemetryData);
+  });
+
+  it('appends the records to the NDJSON file', () => {
+    const sinks: ITelemetrySink[] = TelemetrySinkFactory.getSinks(createRushConfiguration({ sinks: ['ndjson'] }),
+      dataFolder);
+    expect(sinks.length).toEqual(1);
+    expect(sinks[0]).toBeInstanceOf(NdjsonFileTelemetrySink);
+
+    sinks[0].flush(telemetryData);
+    sinks[0].flush([telemetryData[0]]);
+    const lines: string[] = Text.convertToLf(FileSystem.readFile(path.join(dataFolder, 'telemetry.ndjson')))
+      .trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([...telemetryData, telemetryData[0]]);
+  });
+
+  it('loads the custom sinks', () => {
+    FileSystem.writeFile(path.join(tempFolder, 'sink.js'),
+      'exports.records = [];\n'
+      + 'exports.flush = function (telemetryData) { exports.records.push(...telemetryData); };\n');
+
+    const sinks: ITelemetrySink[] = TelemetrySinkFactory.getSinks(
+      createRushConfiguration({ sinks: [], customSinkModules: ['sink.js'] }), dataFolder);
+    expect(sinks.length).toEqual(1);
+
+    sinks[0].flush(telemetryData);
+    expect(require(path.join(tempFolder, 'sink.js')).records).toEqual(telemetryData);
+  });
+
+  it('reports a custom sink that does not export a flush function', () => {
+    FileSystem.writeFile(path.join(tempFolder, 'invalid-sink.js'), 'exports.write = function () { };\n');
+    expect(() => TelemetrySinkFactory.getSinks(createRushConfiguration({ customSinkModules: ['invalid-sink.js'] }),
+      dataFolder)).toThrowError(/must export an object with a "flush" function/);
+    expect(() => TelemetrySinkFactory.getSinks(createRushConfiguration({ customSinkModules: ['missing.js'] }),
+      dataFolder)).toThrowError(/does not exist/);
+  });
+});
@@ -2,8 +2,11 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
 
+import { IChangeInfo } from '../../api/ChangeManagement';
 import { RushConfiguration } from '../../api/RushConfiguration';
+import { Utilities } from '../../utilities/Utilities';
 import { ChangeManager } from '../ChangeManager';
 import { PrereleaseToken } from '../PrereleaseToken';
 
@@ -168,3 +171,66 @@ describe('ChangeManager', () => {
   });
   /* tslint:enable:no-string-literal */
 });
+
+describe('ChangeManager with conventional commits', () => {
+  const repoFolder: string = path.join(__dirname, 'temp', 'conventionalCommits');
+
+  function git(...args: string[]): void {
+    Utilities.executeCommandAndCaptureOutput('git',
+      ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], repoFolder);
+  }
+
+  function commit(message: string): void {
+    git('add', '-A');
+    git('commit', '-m', message);
+  }
+
+  function loadChanges(): ChangeManager {
+    const rushConfiguration: RushConfiguration = RushConfiguration.loadFromConfigurationFile(
+      path.join(repoFolder, 'rush.json'));
+    const changeManager: ChangeManager = new ChangeManager(rushConfiguration);
+    changeManager.load(rushConfiguration.changesFolder);
+    return changeManager;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {
+      // do nothing
+    });
+
+    FileSystem.deleteFolder(repoFolder);
+    JsonFile.save({
+      rushVersion: '5.5.2',
+      npmVersion: '6.4.1',
+      projectFolderMinDepth: 1,
+      conventionalCommits: { enabled: true },
+      projects: [{ packageName: 'a', projectFolder: 'a', shouldPublish: true }]
+    }, path.join(repoFolder, 'rush.json'), { ensureFolderExists: true });
+    JsonFile.save({ name: 'a', version: '1.0.0' }, path.join(repoFolder, 'a', 'package.json'),
+      { ensureFolderExists: true });
+
+    git('init');
+    commit('chore: add the project');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    FileSystem.deleteFolder(repoFolder);
+  });
+
+  it('does not infer the same changes again after the bump is committed', () => {
+    FileSystem.writeFile(path.join(repoFolder, 'a', 'index.js'), 'module.exports = 1;');
+    commit('feat: export a number');
+
+    const changeManager: ChangeManager = loadChanges();
+    expect(changeManager.changes.map((change: IChangeInfo) => change.newVersion)).toEqual(['1.1.0']);
+
+    changeManager.apply(true);
+    commit('Applying package updates.');
+    expect(loadChanges().hasChanges()).toEqual(false);
+
+    FileSystem.writeFile(path.join(repoFolder, 'a', 'index.js'), 'module.exports = 2;');
+    commit('fix: export the right number');
+    expect(loadChanges().changes.map((change: IChangeInfo) => change.newVersion)).toEqual(['1.1.1']);
+  });
+});
@@ -9,6 +9,7 @@ import { ChangelogGenerator } from '../ChangelogGenerator';
 import { IChangeInfoHash } from '../PublishUtilities';
 
 import * as path from 'path';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
 
 describe('updateIndividualChangelog', () => {
   const rushJsonFile: string = path.resolve(__dirname, 'packages', 'rush.json');
@@ -62,6 +63,37 @@ describe('updateIndividualChangelog', () => {
     expect(actualResult).toEqual(expectedResult);
   });
 
+  it('includes the breaking change note, issues, and custom fields', () => {
+    const actualResult: IChangelog = ChangelogGenerator.updateIndividualChangelog(
+      {
+        packageName: 'a',
+        newVersion: '1.0.0',
+        changeType: ChangeType.major,
+        changes: [{
+          packageName: 'a',
+          type: 'major',
+          changeType: ChangeType.major,
+          comment: 'Removing an API',
+          breakingChangeNote: 'Use the new API instead',
+          issues: ['#123', '#456'],
+          customFields: { area: 'api' }
+        }]
+      },
+      'rootMajorChange',
+      false,
+      rushConfiguration
+    )!;
+
+    expect(actualResult.entries[0].comments.major).toEqual([
+      {
+        comment: 'Removing an API',
+        breakingChangeNote: 'Use the new API instead',
+        issues: ['#123', '#456'],
+        customFields: { area: 'api' }
+      }
+    ]);
+  });
+
   it('can merge a new change request into an existing changelog', () => {
     const actualResult: IChangelog = ChangelogGenerator.updateIndividualChangelog(
       {
@@ -342,3 +374,100 @@ describe('updateChangelogs', () => {
   });
   /* tslint:enable:no-string-literal */
 });
+
+describe('regenerateChangelogs', () => {
+  const tempFolder: string = path.join(__dirname, 'temp', 'regenerateChangelogs');
+  const rushConfiguration: RushConfiguration = {
+    hotfixChangeEnabled: false,
+    changelogOptions: { renderers: ['markdown', 'html'] }
+  } as RushConfiguration;
+
+  const changelog: IChangelog = {
+    name: 'a',
+    entries: [
+      {
+        version: '2.0.0',
+        tag: 'a_v2.0.0',
+        date: 'Mon, 19 Oct 2026 09:00:00 GMT',
+        comments: {
+          major: [
+            {
+              comment: 'Remove the <Widget> API',
+              breakingChangeNote: 'Use <Gadget> instead',
+              issues: ['#12'],
+              customFields: { area: 'api' }
+            }
+          ],
+          patch: [
+            {
+              comment: 'Fix a bug'
+            }
+          ]
+        }
+      },
+      {
+        version: '1.0.0',
+        tag: 'a_v1.0.0',
+        date: 'Sun, 18 Oct 2026 09:00:00 GMT',
+        comments: {}
+      }
+    ]
+  };
+
+  function createProject(packageName: string, hasMarkdown: boolean): RushConfigurationProject {
+    const projectFolder: string = path.join(tempFolder, packageName);
+    JsonFile.save({ ...changelog, name: packageName }, path.join(projectFolder, 'CHANGELOG.json'),
+      { ensureFolderExists: true });
+    if (hasMarkdown) {
+      FileSystem.writeFile(path.join(projectFolder, 'CHANGELOG.md'), '');
+    }
+    return { packageName, projectFolder } as RushConfigurationProject;
+  }
+
+  afterEach(() => {
+    FileSystem.deleteFolder(tempFolder);
+  });
+
+  it('regenerates the existing markdown files and the other formats', () => {
+    const allProjects: Map<string, RushConfigurationProject> = new Map<string, RushConfigurationProject>();
+    allProjects.set('a', createProject('a', true));
+    allProjects.set('b', createProject('b', false));
+
+    ChangelogGenerator.regenerateChangelogs(allProjects, rushConfiguration);
+
+    expect(FileSystem.readFile(path.join(tempFolder, 'a', 'CHANGELOG.md'))).toContain([
+      '# Change Log - a',
+      '',
+      'This log was last generated on'
+    ].join('\n'));
+    expect(FileSystem.readFile(path.join(tempFolder, 'a', 'CHANGELOG.md'))).toContain([
+      '## 2.0.0',
+      'Mon, 19 Oct 2026 09:00:00 GMT',
+      '',
+      '### Breaking changes',
+      '',
+      '- Remove the <Widget> API (#12)',
+      '  - area: api',
+      '',
+      '### Patches',
+      '',
+      '- Fix a bug',
+      '',
+      '### Breaking change notes',
+      '',
+      '- Use <Gadget> instead',
+      '',
+      '## 1.0.0',
+      'Sun, 18 Oct 2026 09:00:00 GMT',
+      '',
+      '*Initial release*',
+      ''
+    ].join('\n'));
+    expect(FileSystem.exists(path.join(tempFolder, 'b', 'CHANGELOG.md'))).toEqual(false);
+
+    expect(FileSystem.readFile(path.join(tempFolder, 'a', 'CHANGELOG.html')))
+      .toContain('<title>Change Log - a</title>');
+    expect(FileSystem.readFile(path.join(tempFolder, 'b', 'CHANGELOG.html')))
+      .toContain('<title>Change Log - b</title>');
+  });
+});
@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ChangeType, IChangeInfo } from '../../api/ChangeManagement';
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { ConventionalCommitChangeDetector } from '../ConventionalCommitChangeDetector';
+import { Git, IGitCommit } from '../Git';
+
+function createRushConfiguration(patchTypes?: string[]): RushConfiguration {
+  return {
+    conventionalCommits: { enabled: true, patchTypes },
+    projects: [
+      { packageName: 'a', projectFolder: '/repo/a', shouldPublish: true, packageJson: { version: '1.0.0' } },
+      { packageName: 'b', projectFolder: '/repo/b', shouldPublish: false, packageJson: { version: '1.0.0' } }
+    ]
+  } as RushConfiguration;
+}
+
+describe('ConventionalCommitChangeDetector', () => {
+  describe('parseCommitMessage', () => {
+    it('parses the type, scope, and description', () => {
+      expect(ConventionalCommitChangeDetector.parseCommitMessage('feat(parser): add arrays\n\nMore details'))
+        .toEqual({ type: 'feat', scope: 'parser', description: 'add arrays', isBreaking: false });
+    });
+
+    it('detects a breaking change from the header', () => {
+      expect(ConventionalCommitChangeDetector.parseCommitMessage('refactor!: drop Node 6'))
+        .toEqual({ type: 'refactor', description: 'drop Node 6', isBreaking: true });
+    });
+
+    it('detects a breaking change from the footer', () => {
+      expect(ConventionalCommitChangeDetector.parseCommitMessage(
+        'fix: rename the option\n\nBREAKING CHANGE: use "strict" instead of "strictMode"'
+      )).toEqual({
+        type: 'fix',
+        description: 'rename the option',
+        isBreaking: true,
+        breakingChangeNote: 'use "strict" instead of "strictMode"'
+      });
+    });
+
+    it('returns undefined for other messages', () => {
+      expect(ConventionalCommitChangeDetector.parseCommitMessage('Applying package updates.')).toBeUndefined();
+    });
+  });
+
+  describe('getChanges', () => {
+    let getCommitsSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(Git, 'getLatestTag').mockImplementation((pattern: string) => {
+        return pattern === 'a_v[0-9]*' ? 'a_v0.9.0' : undefined;
+      });
+      jest.spyOn(Git, 'getLatestCommitChangingLine').mockReturnValue('4');
+      getCommitsSpy = jest.spyOn(Git, 'getCommits').mockImplementation((): IGitCommit[] => [
+        { hash: '3', authorEmail: 'x@example.com', message: 'docs: update the readme' },
+        { hash: '2', authorEmail: 'x@example.com', message: 'perf: cache the results' },
+        {
+          hash: '1',
+          authorEmail: 'y@example.com',
+          message: 'feat(cli)!: remove --legacy\n\nBREAKING CHANGE: it is gone'
+        }
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('synthesizes changes for the published projects since the latest publish tag and version change', () => {
+      const changes: IChangeInfo[] = new ConventionalCommitChangeDetector(createRushConfiguration()).getChanges();
+
+      expect(getCommitsSpy).toHaveBeenCalledTimes(1);
+      expect(getCommitsSpy).toHaveBeenCalledWith(['a_v0.9.0', '4'], '/repo/a');
+      expect(Git.getLatestCommitChangingLine).toHaveBeenCalledWith(expect.stringContaining('version'),
+        'package.json', '/repo/a');
+      expect(changes).toEqual([
+        { packageName: 'a', type: 'patch', comment: 'cache the results', author: 'x@example.com', commit: '2' },
+        {
+          packageName: 'a',
+          type: 'major',
+          comment: 'cli: remove --legacy',
+          author: 'y@example.com',
+          commit: '1',
+          breakingChangeNote: 'it is gone'
+        }
+      ]);
+    });
+
+    it('uses the configured patch types', () => {
+      const detector: ConventionalCommitChangeDetector = new ConventionalCommitChangeDetector(
+        createRushConfiguration(['docs']));
+
+      expect(detector.getChanges().map((change: IChangeInfo) => change.type)).toEqual(['patch', 'major']);
+      expect(detector.getChangeType({ type: 'perf', description: '', isBreaking: false })).toBeUndefined();
+      expect(detector.getChangeType({ type: 'feat', description: '', isBreaking: false })).toEqual(ChangeType.minor);
+    });
+
+    it('scans a project without a publish tag since its version was last changed', () => {
+      jest.spyOn(Git, 'getLatestTag').mockReturnValue(undefined);
+
+      new ConventionalCommitChangeDetector(createRushConfiguration()).getChanges();
+      expect(getCommitsSpy).toHaveBeenCalledWith(['4'], '/repo/a');
+    });
+
+    it('scans the full history of a project whose version was never committed', () => {
+      jest.spyOn(Git, 'getLatestTag').mockReturnValue(undefined);
+      jest.spyOn(Git, 'getLatestCommitChangingLine').mockReturnValue(undefined);
+
+      expect(new ConventionalCommitChangeDetector(createRushConfiguration()).getChanges()).toHaveLength(2);
+      expect(getCommitsSpy).toHaveBeenCalledWith([], '/repo/a');
+    });
+  });
+});
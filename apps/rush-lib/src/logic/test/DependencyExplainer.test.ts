@@ -0,0 +1,73 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { DependencyType } from '../../api/PackageJsonEditor';
+import { BaseShrinkwrapFile } from '../base/BaseShrinkwrapFile';
+import { DependencyExplainer } from '../DependencyExplainer';
+import { ShrinkwrapFileFactory } from '../ShrinkwrapFileFactory';
+
+// The projects of the repo are the importers of the shrinkwrap file
+const rushConfiguration: RushConfiguration = RushConfiguration.loadFromConfigurationFile(
+  path.resolve(__dirname, 'shrinkwrapRepo', 'rush.json'));
+
+const shrinkwrapFile: BaseShrinkwrapFile = ShrinkwrapFileFactory.getShrinkwrapFile('pnpm',
+  path.join(__dirname, '../../../src/logic/test/shrinkwrapFile/pnpm-lock-updated.yaml'))!;
+
+describe('DependencyExplainer', () => {
+  it('finds the transitive dependency paths', () => {
+    const dependencyExplainer: DependencyExplainer = DependencyExplainer.explain(rushConfiguration,
+      shrinkwrapFile, 'sizzle');
+    expect(dependencyExplainer.paths).toEqual([
+      {
+        projectName: 'project2',
+        dependencyType: DependencyType.Regular,
+        versionSpecifier: '^1.0.0',
+        packages: [{ name: 'jquery', version: '1.0.0' }, { name: 'sizzle', version: '2.0.0' }],
+        isLocalProject: false
+      }
+    ]);
+  });
+
+  it('reports the versions and the declarations of each project', () => {
+    const jqueryExplainer: DependencyExplainer = DependencyExplainer.explain(rushConfiguration,
+      shrinkwrapFile, 'jquery');
+    expect(jqueryExplainer.versions).toEqual(['1.0.0', '2.9.9']);
+
+    expect(DependencyExplainer.explain(rushConfiguration, shrinkwrapFile, 'q').toJson()).toEqual({
+      packageName: 'q',
+      versions: ['1.5.4'],
+      paths: [
+        {
+          project: 'project2',
+          dependencyType: 'dependencies',
+          versionSpecifier: '~1.5.0',
+          isLocalProject: false,
+          path: [{ name: 'q', version: '1.5.4' }]
+        },
+        {
+          project: 'project3',
+          dependencyType: 'devDependencies',
+          versionSpecifier: '~1.5.0',
+          isLocalProject: false,
+          path: [{ name: 'q', version: '1.5.4' }]
+        }
+      ]
+    });
+  });
+
+  it('reports the linked Rush projects', () => {
+    expect(DependencyExplainer.explain(rushConfiguration, shrinkwrapFile, 'project2').paths).toEqual([
+      {
+        projectName: 'project3',
+        dependencyType: DependencyType.Regular,
+        versionSpecifier: '^1.0.0',
+        packages: [{ name: 'project2', version: '1.0.0' }],
+        isLocalProject: true
+      }
+    ]);
+    expect(DependencyExplainer.explain(rushConfiguration, shrinkwrapFile, 'missing').paths).toEqual([]);
+  });
+});
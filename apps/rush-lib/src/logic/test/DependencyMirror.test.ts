@@ -0,0 +1,133 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { PackageManagerName } from '../../api/packageManager/PackageManager';
+import { BaseShrinkwrapFile, IShrinkwrapPackage } from '../base/BaseShrinkwrapFile';
+import { DependencyMirror } from '../DependencyMirror';
+import { ShrinkwrapFileFactory } from '../ShrinkwrapFileFactory';
+import { Utilities } from '../../utilities/Utilities';
+
+const tempFolder: string = path.join(__dirname, 'temp');
+
+const shrinkwrapFile: BaseShrinkwrapFile = ShrinkwrapFileFactory.getShrinkwrapFile('pnpm',
+  path.join(__dirname, '../../../src/logic/test/shrinkwrapFile/pnpm-lock-mirror.yaml'))!;
+
+const packageManagerVersions: { [packageManager: string]: string } = {
+  npm: '4.5.0',
+  pnpm: '2.15.1',
+  yarn: '1.9.4'
+};
+
+function createRushConfiguration(packageManager: PackageManagerName): RushConfiguration {
+  const rushJsonFilename: string = path.join(tempFolder, 'rush.json');
+  JsonFile.save({
+    [`${packageManager}Version`]: packageManagerVersions[packageManager],
+    rushVersion: '1.0.5',
+    offlineInstall: { mirrorFolder: 'mirror' },
+    projects: []
+  }, rushJsonFilename);
+  return RushConfiguration.loadFromConfigurationFile(rushJsonFilename);
+}
+
+function getNames(packages: IShrinkwrapPackage[]): string[] {
+  return packages.map((shrinkwrapPackage: IShrinkwrapPackage) => shrinkwrapPackage.name);
+}
+
+describe('DependencyMirror', () => {
+  beforeEach(() => {
+    FileSystem.ensureEmptyFolder(tempFolder);
+    FileSystem.ensureFolder(path.join(tempFolder, 'common', 'temp'));
+    FileSystem.writeFile(path.join(tempFolder, 'mirror', 'mirrored-2.0.0.tgz'), '', { ensureFolderExists: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    FileSystem.deleteFolder(tempFolder);
+  });
+
+  it('names the tarballs like the Yarn offline mirror', () => {
+    expect(DependencyMirror.getTarballFilename({ name: 'q', version: '1.5.0' })).toEqual('q-1.5.0.tgz');
+    expect(DependencyMirror.getTarballFilename({ name: '@scope/testDep', version: '1.0.0-beta.1' }))
+      .toEqual('@scope-testDep-1.0.0-beta.1.tgz');
+  });
+
+  it('finds the packages in the Yarn cache and the mirror folder', () => {
+    FileSystem.ensureFolder(path.join(tempFolder, 'common', 'temp', 'yarn-cache', 'v4',
+      'npm-@scope-stored-1.0.0-0123abcd-integrity'));
+
+    const dependencyMirror: DependencyMirror = new DependencyMirror(createRushConfiguration('yarn'));
+    expect(dependencyMirror.mirrorFolder).toEqual(path.join(tempFolder, 'mirror'));
+    expect(getNames(dependencyMirror.getMissingPackages(shrinkwrapFile))).toEqual(['missing']);
+  });
+
+  it('only uses the PNPM store for PNPM', () => {
+    FileSystem.ensureFolder(path.join(tempFolder, 'common', 'temp', 'pnpm-store', '2', 'registry.npmjs.org',
+      '@scope', 'stored', '1.0.0'));
+
+    const dependencyMirror: DependencyMirror = new DependencyMirror(createRushConfiguration('pnpm'));
+    expect(getNames(dependencyMirror.getMissingPackages(shrinkwrapFile))).toEqual(['mirrored', 'missing']);
+    expect(() => dependencyMirror.mirrorPackages(shrinkwrapFile, path.join(tempFolder, 'mirror')))
+      .toThrowError(/not supported for PNPM/);
+  });
+
+  it('adds the mirrored tarballs to the NPM cache', () => {
+    const executeCommand: jest.SpyInstance = jest.spyOn(Utilities, 'executeCommand').mockImplementation(() => {
+      // do nothing
+    });
+
+    const dependencyMirror: DependencyMirror = new DependencyMirror(createRushConfiguration('npm'));
+    expect(getNames(dependencyMirror.getMissingPackages(shrinkwrapFile))).toEqual(['@scope/stored', 'missing']);
+
+    dependencyMirror.preparePackageManager(shrinkwrapFile);
+    expect(executeCommand).toHaveBeenCalledTimes(1);
+    expect(executeCommand.mock.calls[0][1]).toEqual(['cache', 'add',
+      path.join(tempFolder, 'mirror', 'mirrored-2.0.0.tgz'),
+      '--cache', path.join(tempFolder, 'common', 'temp', 'npm-cache')]);
+  });
+
+  it('configures the Yarn offline mirror until the install is finished', () => {
+    const yarnrcPath: string = path.join(tempFolder, 'common', 'temp', '.yarnrc');
+    const dependencyMirror: DependencyMirror = new DependencyMirror(createRushConfiguration('yarn'));
+    dependencyMirror.preparePackageManager(shrinkwrapFile);
+
+    expect(FileSystem.readFile(yarnrcPath))
+      .toContain(`yarn-offline-mirror ${JSON.stringify(path.join(tempFolder, 'mirror'))}`);
+
+    dependencyMirror.restorePackageManager();
+    expect(FileSystem.exists(yarnrcPath)).toEqual(false);
+  });
+
+  it('restores an existing .yarnrc file', () => {
+    const yarnrcPath: string = path.join(tempFolder, 'common', 'temp', '.yarnrc');
+    FileSystem.writeFile(yarnrcPath, 'network-timeout 600000\n');
+
+    const dependencyMirror: DependencyMirror = new DependencyMirror(createRushConfiguration('yarn'));
+    dependencyMirror.preparePackageManager(shrinkwrapFile);
+    expect(FileSystem.readFile(yarnrcPath)).toContain('yarn-offline-mirror');
+
+    dependencyMirror.restorePackageManager();
+    expect(FileSystem.readFile(yarnrcPath)).toEqual('network-timeout 600000\n');
+  });
+
+  it('downloads the packages that are not mirrored yet', () => {
+    jest.spyOn(Utilities, 'executeCommandAndCaptureOutput').mockImplementation(
+      (command: string, args: string[], workingDirectory: string) => {
+        // Example: "npm pack @scope/stored@1.0.0" creates "scope-stored-1.0.0.tgz"
+        const tarballName: string = args[1].replace(/^@/, '').replace('/', '-').replace('@', '-') + '.tgz';
+        FileSystem.writeFile(path.join(workingDirectory, tarballName), '');
+        return `npm notice\n${tarballName}\n`;
+      }
+    );
+
+    const dependencyMirror: DependencyMirror = new DependencyMirror(createRushConfiguration('npm'));
+    const mirrorFolder: string = path.join(tempFolder, 'mirror');
+    expect(getNames(dependencyMirror.mirrorPackages(shrinkwrapFile, mirrorFolder)))
+      .toEqual(['@scope/stored', 'missing']);
+    expect(FileSystem.readFolder(mirrorFolder).sort())
+      .toEqual(['@scope-stored-1.0.0.tgz', 'mirrored-2.0.0.tgz', 'missing-3.0.0.tgz']);
+  });
+});
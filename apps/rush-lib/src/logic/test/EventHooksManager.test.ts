@@ -0,0 +1,147 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as child_process from 'child_process';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { RushConfiguration, IEventHooksJson } from '../../api/RushConfiguration';
+import { Event } from '../../api/EventHooks';
+import { EventHooksManager } from '../EventHooksManager';
+import { AlreadyReportedError } from '../../utilities/AlreadyReportedError';
+import { ILifecycleCommandOptions, Utilities } from '../../utilities/Utilities';
+
+const tempFolder: string = path.join(__dirname, 'temp');
+
+function createRushConfiguration(eventHooks: IEventHooksJson): RushConfiguration {
+  const rushJsonFilename: string = path.join(tempFolder, 'rush.json');
+  JsonFile.save({ npmVersion: '4.5.0', rushVersion: '1.0.5', eventHooks, projects: [] }, rushJsonFilename);
+  return RushConfiguration.loadFromConfigurationFile(rushJsonFilename);
+}
+
+/**
+ * Creates a child process that exits with the code after the current tick.
+ */
+function createChildProcess(exitCode: number, stderr: string = ''): child_process.ChildProcess {
+  const childProcess: child_process.ChildProcess = new EventEmitter() as child_process.ChildProcess;
+  const stderrStream: Readable = new EventEmitter() as Readable;
+  childProcess.stdout = new EventEmitter() as Readable;
+  childProcess.stderr = stderrStream;
+  setImmediate(() => {
+    if (stderr) {
+      stderrStream.emit('data', Buffer.from(stderr));
+    }
+    childProcess.emit('close', exitCode);
+  });
+  return childProcess;
+}
+
+describe('EventHooksManager', () => {
+  beforeEach(() => {
+    FileSystem.ensureEmptyFolder(tempFolder);
+    jest.spyOn(console, 'log').mockImplementation(() => { /* suppress the output */ });
+    jest.spyOn(console, 'error').mockImplementation(() => { /* suppress the output */ });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    FileSystem.deleteFolder(tempFolder);
+  });
+
+  it('passes the context file to the hooks', () => {
+    const contexts: {}[] = [];
+    jest.spyOn(Utilities, 'executeLifecycleCommand').mockImplementation(
+      (command: string, options: ILifecycleCommandOptions) => {
+        contexts.push(JsonFile.load(options.environment!.RUSH_EVENT_CONTEXT_FILE!));
+        return 0;
+      }
+    );
+
+    const eventHooksManager: EventHooksManager = new EventHooksManager(createRushConfiguration({
+      postProjectBuild: ['do something']
+    }));
+    eventHooksManager.handle(Event.postProjectBuild, false, {
+      commandName: 'build',
+      projects: [{ name: 'project1', status: 'SUCCESS', duration: 1.5 }]
+    });
+    eventHooksManager.handle(Event.postRushBuild, false, { commandName: 'build' });
+
+    expect(contexts).toEqual([{
+      event: 'postProjectBuild',
+      commandName: 'build',
+      projects: [{ name: 'project1', status: 'SUCCESS', duration: 1.5 }]
+    }]);
+  });
+
+  it('only fails the command if the failure policy is "fail"', () => {
+    const executeLifecycleCommand: jest.SpyInstance = jest.spyOn(Utilities, 'executeLifecycleCommand')
+      .mockImplementation(() => {
+        throw new Error('The command failed');
+      });
+
+    const eventHooksManager: EventHooksManager = new EventHooksManager(createRushConfiguration({
+      preRushBuild: ['do one'],
+      postRushBuild: [{ command: 'do two', failurePolicy: 'fail' }, 'do three']
+    }));
+
+    eventHooksManager.handle(Event.preRushBuild, false, { commandName: 'build' });
+    expect(executeLifecycleCommand).toHaveBeenCalledTimes(1);
+
+    expect(() => eventHooksManager.handle(Event.postRushBuild, false, { commandName: 'build' }))
+      .toThrowError(AlreadyReportedError);
+    expect(executeLifecycleCommand).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs the hooks asynchronously with a context file for each project', () => {
+    const contextFilePaths: string[] = [];
+    jest.spyOn(Utilities, 'executeLifecycleCommandAsync').mockImplementation(
+      (command: string, options: ILifecycleCommandOptions) => {
+        contextFilePaths.push(options.environment!.RUSH_EVENT_CONTEXT_FILE!);
+        return createChildProcess(0);
+      }
+    );
+
+    const eventHooksManager: EventHooksManager = new EventHooksManager(createRushConfiguration({
+      preProjectBuild: ['do something']
+    }));
+    return Promise.all([
+      eventHooksManager.handleAsync(Event.preProjectBuild, false, {
+        commandName: 'build',
+        projects: [{ name: '@scope/project1' }]
+      }),
+      eventHooksManager.handleAsync(Event.preProjectBuild, false, {
+        commandName: 'build',
+        projects: [{ name: 'project2', phaseName: 'compile' }]
+      })
+    ]).then(() => {
+      expect(contextFilePaths.map((contextFilePath: string) => path.basename(contextFilePath))).toEqual([
+        'preProjectBuild._scope_project1.json',
+        'preProjectBuild.project2.compile.json'
+      ]);
+      expect(JsonFile.load(contextFilePaths[1])).toEqual({
+        event: 'preProjectBuild',
+        commandName: 'build',
+        projects: [{ name: 'project2', phaseName: 'compile' }]
+      });
+    });
+  });
+
+  it('rejects the promise if an asynchronous hook whose failure policy is "fail" fails', () => {
+    const executeLifecycleCommandAsync: jest.SpyInstance = jest.spyOn(Utilities, 'executeLifecycleCommandAsync')
+      .mockImplementation(() => createChildProcess(1, 'Something went wrong'));
+
+    const eventHooksManager: EventHooksManager = new EventHooksManager(createRushConfiguration({
+      postProjectBuild: ['do one', { command: 'do two', failurePolicy: 'fail' }, 'do three']
+    }));
+
+    return eventHooksManager.handleAsync(Event.postProjectBuild, false, { commandName: 'build' }).then(() => {
+      throw new Error('The promise should have been rejected');
+    }, (error: Error) => {
+      expect(error).toBeInstanceOf(AlreadyReportedError);
+      expect(executeLifecycleCommandAsync).toHaveBeenCalledTimes(2);
+      expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/Something went wrong/));
+    });
+  });
+});
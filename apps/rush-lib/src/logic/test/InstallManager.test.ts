@@ -0,0 +1,95 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { RushGlobalFolder } from '../../api/RushGlobalFolder';
+import { AlreadyReportedError } from '../../utilities/AlreadyReportedError';
+import { ApprovedPackagesChecker } from '../ApprovedPackagesChecker';
+import { BaseLinkManager } from '../base/BaseLinkManager';
+import { Git } from '../Git';
+import { InstallManager } from '../InstallManager';
+import { GitEmailPolicy } from '../policy/GitEmailPolicy';
+import { PurgeManager } from '../PurgeManager';
+import { ShrinkwrapFileFactory } from '../ShrinkwrapFileFactory';
+
+/**
+ * The private steps of InstallManager.doInstall() that are replaced by the tests.
+ */
+interface IInstallSteps {
+  _createTempModulesAndCheckShrinkwrap(): boolean;
+  _installCommonModules(): Promise<void>;
+}
+
+describe('InstallManager', () => {
+  let rushConfiguration: RushConfiguration;
+  let output: string[];
+
+  function createInstallManager(): InstallManager {
+    const rushGlobalFolder: RushGlobalFolder = new RushGlobalFolder();
+    return new InstallManager(rushConfiguration, rushGlobalFolder,
+      new PurgeManager(rushConfiguration, rushGlobalFolder), {
+        debug: false,
+        allowShrinkwrapUpdates: false,
+        bypassPolicy: false,
+        noLink: false,
+        fullUpgrade: false,
+        recheckShrinkwrap: false,
+        networkConcurrency: undefined,
+        collectLogFile: false,
+        offline: false,
+        shrinkwrapDiffFile: undefined
+      });
+  }
+
+  beforeEach(() => {
+    rushConfiguration = RushConfiguration.loadFromConfigurationFile(path.resolve(__dirname, 'policies', 'rush.json'));
+    output = [];
+
+    // The install writes common/temp/current-variant.json
+    FileSystem.ensureFolder(rushConfiguration.commonTempFolder);
+
+    jest.spyOn(console, 'log').mockImplementation((message: string = '') => {
+      output.push(message);
+    });
+    jest.spyOn(GitEmailPolicy, 'validate').mockImplementation(() => {
+      // do nothing
+    });
+    jest.spyOn(Git, 'getHooksFolder').mockReturnValue(undefined);
+    jest.spyOn(ApprovedPackagesChecker, 'rewriteConfigFiles').mockImplementation(() => {
+      // do nothing
+    });
+    jest.spyOn(InstallManager.prototype, 'ensureLocalPackageManager').mockResolvedValue(undefined);
+    jest.spyOn(ShrinkwrapFileFactory, 'getShrinkwrapFile').mockReturnValue(undefined);
+    jest.spyOn(BaseLinkManager.prototype, 'createSymlinksForProjects').mockResolvedValue(undefined);
+
+    const installSteps: IInstallSteps = InstallManager.prototype as unknown as IInstallSteps;
+    jest.spyOn(installSteps, '_createTempModulesAndCheckShrinkwrap').mockReturnValue(true);
+    jest.spyOn(installSteps, '_installCommonModules').mockImplementation(() => {
+      // Simulate the package manager, which installs a dependency that has a license that isn't allowed
+      const project: RushConfigurationProject = rushConfiguration.getProjectByName('a')!;
+      JsonFile.save({ name: 'left-pad', version: '1.3.0', license: 'WTFPL' },
+        path.join(project.projectFolder, 'node_modules', 'left-pad', 'package.json'), { ensureFolderExists: true });
+      return Promise.resolve();
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    FileSystem.deleteFolder(rushConfiguration.commonTempFolder);
+    for (const project of rushConfiguration.projects) {
+      FileSystem.deleteFolder(path.join(project.projectFolder, 'node_modules'));
+    }
+  });
+
+  it('checks the licenses of the dependencies that were installed on the first install', () => {
+    return expect(createInstallManager().doInstall()).rejects.toThrowError(AlreadyReportedError)
+      .then(() => {
+        expect(output).toContain('[allowed-licenses] a: The dependency "left-pad" uses the license "WTFPL",'
+          + ' which is not allowed in this repository');
+      });
+  });
+});
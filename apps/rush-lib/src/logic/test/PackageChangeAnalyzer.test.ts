@@ -5,6 +5,7 @@ import * as path from 'path';
 
 import { PackageChangeAnalyzer } from '../PackageChangeAnalyzer';
 import { RushConfiguration } from '../../api/RushConfiguration';
+import { Git } from '../Git';
 
 import {
   IPackageDeps
@@ -39,13 +40,59 @@ describe('PackageChangeAnalyzer', () => {
       getCommittedShrinkwrapFilename(): string {
         return 'common/config/rush/pnpm-lock.yaml';
       }
-    } as any; // tslint:disable-line:no-any
+    } as RushConfiguration;
 
     const packageChangeAnalyzer: PackageChangeAnalyzer = new PackageChangeAnalyzer(rushConfiguration);
     const packageDeps: IPackageDeps | undefined = packageChangeAnalyzer.getPackageDepsHash(packageA);
     expect(packageDeps).toEqual(repoHashDeps);
   });
 
+  describe('getChangedProjectNames', () => {
+    const rushConfiguration: RushConfiguration = {
+      projects: [{
+        packageName: 'project-a',
+        projectRelativeFolder: 'tools/project-a'
+      }, {
+        packageName: 'project-b',
+        projectRelativeFolder: 'tools/project-b'
+      }],
+      rushJsonFolder: '',
+      getCommittedShrinkwrapFilename(): string {
+        return 'common/config/rush/pnpm-lock.yaml';
+      }
+    } as RushConfiguration;
+
+    beforeEach(() => {
+      PackageChangeAnalyzer.getPackageDeps = (packagePath: string, ignored: string[]) => ({ files: {} });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('returns the projects that contain changed files', () => {
+      jest.spyOn(Git, 'getChangedFiles').mockReturnValue([
+        'tools/project-a/src/index.ts',
+        'tools/project-a/package.json',
+        'common/config/rush/command-line.json'
+      ]);
+
+      const packageChangeAnalyzer: PackageChangeAnalyzer = new PackageChangeAnalyzer(rushConfiguration);
+      expect(Array.from(packageChangeAnalyzer.getChangedProjectNames('origin/master'))).toEqual(['project-a']);
+      expect(Git.getChangedFiles).toHaveBeenCalledWith('origin/master', '');
+    });
+
+    it('returns every project if the shrinkwrap file changed', () => {
+      jest.spyOn(Git, 'getChangedFiles').mockReturnValue([
+        'common/config/rush/pnpm-lock.yaml'
+      ]);
+
+      const packageChangeAnalyzer: PackageChangeAnalyzer = new PackageChangeAnalyzer(rushConfiguration);
+      expect(Array.from(packageChangeAnalyzer.getChangedProjectNames('origin/master')))
+        .toEqual(['project-a', 'project-b']);
+    });
+  });
+
   /*
   it('associates a file that is not in a project with all projects', () => {
     const repoHashDeps: IPackageDeps = {
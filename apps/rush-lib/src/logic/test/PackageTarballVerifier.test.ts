@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import * as tar from 'tar';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { PackageTarballVerifier } from '../PackageTarballVerifier';
+
+const tempFolder: string = path.join(__dirname, 'temp');
+
+/**
+ * Creates a tarball with the same layout as "npm pack", and returns its path.
+ */
+function createTarball(packageJson: {}, filePaths: string[]): string {
+  const packageFolder: string = path.join(tempFolder, 'source', 'package');
+  FileSystem.ensureEmptyFolder(packageFolder);
+  JsonFile.save(packageJson, path.join(packageFolder, 'package.json'));
+  for (const filePath of filePaths) {
+    FileSystem.writeFile(path.join(packageFolder, filePath), 'content', { ensureFolderExists: true });
+  }
+
+  const tarballPath: string = path.join(tempFolder, 'example-1.0.0.tgz');
+  tar.create({
+    gzip: true,
+    file: tarballPath,
+    cwd: path.join(tempFolder, 'source'),
+    portable: true,
+    sync: true
+  }, ['package']);
+  return tarballPath;
+}
+
+function verify(packageJson: {}, filePaths: string[]): string[] {
+  const tarballPath: string = createTarball({ name: 'example', version: '1.0.0', ...packageJson }, filePaths);
+  return new PackageTarballVerifier(path.join(tempFolder, 'extracted')).verify(tarballPath);
+}
+
+describe('PackageTarballVerifier', () => {
+  beforeEach(() => {
+    FileSystem.ensureEmptyFolder(tempFolder);
+  });
+
+  afterEach(() => {
+    FileSystem.deleteFolder(tempFolder);
+  });
+
+  it('does not report problems for a valid package', () => {
+    expect(verify({
+      main: './lib/index',
+      typings: 'lib/index.d.ts',
+      files: ['lib/', 'bin/*.js'],
+      dependencies: { lodash: '~4.17.15' }
+    }, ['lib/index.js', 'lib/index.d.ts', 'bin/start.js', 'README.md', 'LICENSE'])).toEqual([]);
+  });
+
+  it('reports missing main and typings targets', () => {
+    expect(verify({
+      main: 'lib/index.js',
+      typings: 'lib/index.d.ts'
+    }, ['src/index.ts'])).toEqual([
+      'The "main" target "lib/index.js" is missing from the package',
+      'The "typings" target "lib/index.d.ts" is missing from the package'
+    ]);
+  });
+
+  it('reports files that are not matched by the files list', () => {
+    expect(verify({
+      files: ['lib']
+    }, ['lib/index.js', 'src/index.ts'])).toEqual([
+      'The file "src/index.ts" is not matched by the "files" list in package.json'
+    ]);
+  });
+
+  it('excludes the files that are matched by a later negated pattern', () => {
+    expect(verify({
+      files: ['lib', '!./lib/internal', 'lib/internal/api.js']
+    }, ['lib/index.js', 'lib/internal/api.js', 'lib/internal/cache.js', 'src/index.ts'])).toEqual([
+      'The file "lib/internal/cache.js" is not matched by the "files" list in package.json',
+      'The file "src/index.ts" is not matched by the "files" list in package.json'
+    ]);
+  });
+
+  it('reports leaked secrets and test fixtures', () => {
+    expect(verify({}, ['.env', 'config/.env.local', 'lib/test/fixtures/data.json', 'lib/index.js'])).toEqual([
+      'The file ".env" should not be published, because it looks like a secret or a test fixture',
+      'The file "config/.env.local" should not be published, because it looks like a secret or a test fixture',
+      'The file "lib/test/fixtures/data.json" should not be published, because it looks like a secret or a test fixture'
+    ]);
+  });
+
+  it('reports workspace-only dependency specifiers', () => {
+    expect(verify({
+      dependencies: { a: 'file:../a', b: '^1.0.0' },
+      peerDependencies: { c: 'workspace:*' },
+      devDependencies: { d: 'link:../d' }
+    }, [])).toEqual([
+      'The "dependencies" specifier "file:../a" for "a" only works inside this repository',
+      'The "peerDependencies" specifier "workspace:*" for "c" only works inside this repository'
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, JsonFile } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { AlreadyReportedError } from '../../utilities/AlreadyReportedError';
+import { GitEmailPolicy } from '../policy/GitEmailPolicy';
+import { PolicyValidator, IReportedPolicyViolation } from '../policy/PolicyValidator';
+
+// The licenses of the packages that are "installed" in the node_modules folders
+const installedLicenses: { [packageName: string]: string | undefined } = {
+  'left-pad': 'WTFPL',
+  'lodash': 'MIT',
+  'gpl-tool': undefined
+};
+
+function getInstalledPackageName(filePath: string): string | undefined {
+  const match: RegExpMatchArray | null = filePath.replace(/\\/g, '/').match(/\/node_modules\/([^\/]+)\/package\.json$/);
+  return match ? match[1] : undefined;
+}
+
+describe('PolicyValidator', () => {
+  let rushConfiguration: RushConfiguration;
+
+  beforeEach(() => {
+    rushConfiguration = RushConfiguration.loadFromConfigurationFile(path.resolve(__dirname, 'policies', 'rush.json'));
+
+    const exists: (filePath: string) => boolean = FileSystem.exists;
+    jest.spyOn(FileSystem, 'exists').mockImplementation((filePath: string) => {
+      const packageName: string | undefined = getInstalledPackageName(filePath);
+      return packageName ? installedLicenses.hasOwnProperty(packageName) : exists(filePath);
+    });
+
+    const load: (filePath: string) => {} = JsonFile.load;
+    jest.spyOn(JsonFile, 'load').mockImplementation((filePath: string) => {
+      const packageName: string | undefined = getInstalledPackageName(filePath);
+      return packageName ? { name: packageName, license: installedLicenses[packageName] } : load(filePath);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports the violations of all repository policies', () => {
+    const violations: IReportedPolicyViolation[] = PolicyValidator.getRepositoryPolicyViolations(rushConfiguration);
+
+    expect(violations).toEqual([
+      {
+        policyName: 'allowed-licenses',
+        projectName: 'a',
+        message: 'The dependency "left-pad" uses the license "WTFPL", which is not allowed in this repository'
+      },
+      {
+        policyName: 'allowed-licenses',
+        projectName: 'b',
+        message: 'The dependency "gpl-tool" does not specify a license'
+      },
+      {
+        policyName: 'banned-packages',
+        projectName: 'a',
+        message: 'The package "left-pad" is banned in this repository, but it is specified in "dependencies"'
+      },
+      {
+        policyName: 'required-package-json-fields',
+        projectName: 'b',
+        message: 'The package.json file must specify the "description" field'
+      },
+      {
+        policyName: 'max-project-folder-depth',
+        projectName: 'b',
+        message: 'The project folder "tools/b" is 2 levels deep, but the maximum depth is 1'
+      },
+      {
+        policyName: 'custom-policy',
+        projectName: 'b',
+        message: 'Custom problem'
+      }
+    ]);
+  });
+
+  it('reports all violations before failing', () => {
+    jest.spyOn(GitEmailPolicy, 'validate').mockImplementation(() => {
+      throw new AlreadyReportedError();
+    });
+    const logSpy: jest.SpyInstance = jest.spyOn(console, 'log').mockImplementation(() => { /* no output */ });
+
+    expect(() => PolicyValidator.validateAllPolicies(rushConfiguration, false)).toThrowError(AlreadyReportedError);
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Custom problem'));
+  });
+
+  it('does not check the policies if they are bypassed', () => {
+    const validateSpy: jest.SpyInstance = jest.spyOn(GitEmailPolicy, 'validate');
+
+    PolicyValidator.validateAllPolicies(rushConfiguration, true);
+    expect(validateSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws an error for a custom policy module that does not exist', () => {
+    rushConfiguration.repositoryPolicies.customPolicyModules = ['missing-policy.js'];
+
+    expect(() => PolicyValidator.getRepositoryPolicyViolations(rushConfiguration)).toThrowError(/does not exist/);
+  });
+});
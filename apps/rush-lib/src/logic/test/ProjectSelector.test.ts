@@ -0,0 +1,130 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { PackageChangeAnalyzer } from '../PackageChangeAnalyzer';
+import { ProjectSelector, IProjectSelection } from '../ProjectSelector';
+
+// d --> c --> b --> a, and e is unrelated.  b and e have the "web-app" tag.
+const localLinks: { [projectName: string]: string[] } = {
+  b: ['a'],
+  c: ['b'],
+  d: ['c']
+};
+
+const projects: RushConfigurationProject[] = ['a', 'b', 'c', 'd', 'e'].map((packageName: string) => {
+  const tags: ReadonlySet<string> = new Set<string>(packageName === 'b' || packageName === 'e' ? ['web-app'] : []);
+  return { packageName, tags } as RushConfigurationProject;
+});
+
+const rushConfiguration: RushConfiguration = {
+  projects,
+  getProjectByName(projectName: string): RushConfigurationProject | undefined {
+    return projects.filter((project: RushConfigurationProject) => project.packageName === projectName)[0];
+  },
+  findProjectByShorthandName(shorthandName: string): RushConfigurationProject | undefined {
+    return this.getProjectByName(shorthandName);
+  }
+} as RushConfiguration;
+
+function selectProjectNames(
+  selection: Partial<IProjectSelection>,
+  packageChangeAnalyzer?: PackageChangeAnalyzer
+): string[] {
+  const projectSelector: ProjectSelector = new ProjectSelector({
+    rushConfiguration,
+    rushLinkJson: { localLinks },
+    packageChangeAnalyzer
+  });
+
+  return projectSelector.selectProjects({
+    toFlags: [],
+    fromFlags: [],
+    onlyFlags: [],
+    impactedByFlags: [],
+    toExceptFlags: [],
+    ...selection
+  }).map((project: RushConfigurationProject) => project.packageName).sort();
+}
+
+describe('ProjectSelector', () => {
+  it('selects all projects if there are no selectors', () => {
+    expect(selectProjectNames({})).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('selects the dependencies for --to', () => {
+    expect(selectProjectNames({ toFlags: ['c'] })).toEqual(['a', 'b', 'c']);
+  });
+
+  it('selects the dependents for --from', () => {
+    expect(selectProjectNames({ fromFlags: ['b'] })).toEqual(['b', 'c', 'd']);
+  });
+
+  it('selects only the project for --only', () => {
+    expect(selectProjectNames({ onlyFlags: ['b'] })).toEqual(['b']);
+  });
+
+  it('excludes the project itself for --impacted-by', () => {
+    expect(selectProjectNames({ impactedByFlags: ['b'] })).toEqual(['c', 'd']);
+  });
+
+  it('excludes the project itself for --to-except', () => {
+    expect(selectProjectNames({ toExceptFlags: ['c'] })).toEqual(['a', 'b']);
+  });
+
+  it('accepts several projects for --only, --impacted-by and --to-except', () => {
+    expect(selectProjectNames({ onlyFlags: ['a', 'e'] })).toEqual(['a', 'e']);
+    expect(selectProjectNames({ impactedByFlags: ['a', 'c'] })).toEqual(['b', 'c', 'd']);
+    expect(selectProjectNames({ toExceptFlags: ['b', 'd'] })).toEqual(['a', 'b', 'c']);
+  });
+
+  it('selects nothing for --impacted-by and --to-except at the ends of the graph', () => {
+    expect(selectProjectNames({ impactedByFlags: ['d'] })).toEqual([]);
+    expect(selectProjectNames({ toExceptFlags: ['a'] })).toEqual([]);
+    expect(selectProjectNames({ impactedByFlags: ['e'], toExceptFlags: ['e'] })).toEqual([]);
+  });
+
+  it('resolves the shorthand names for the selector flags', () => {
+    const findProjectByShorthandName: jest.SpyInstance = jest.spyOn(rushConfiguration, 'findProjectByShorthandName');
+    selectProjectNames({ onlyFlags: ['a'], impactedByFlags: ['b'], toExceptFlags: ['c'] });
+    expect(findProjectByShorthandName.mock.calls).toEqual([['a'], ['b'], ['c']]);
+    findProjectByShorthandName.mockRestore();
+  });
+
+  it('throws an error for an unknown project in --only, --impacted-by and --to-except', () => {
+    expect(() => selectProjectNames({ onlyFlags: ['f'] })).toThrowError(/does not exist/);
+    expect(() => selectProjectNames({ impactedByFlags: ['f'] })).toThrowError(/does not exist/);
+    expect(() => selectProjectNames({ toExceptFlags: ['f'] })).toThrowError(/does not exist/);
+  });
+
+  it('selects the changed projects and their dependents for --changed-since', () => {
+    const packageChangeAnalyzer: PackageChangeAnalyzer = {
+      getChangedProjectNames(gitRef: string): Set<string> {
+        expect(gitRef).toEqual('origin/master');
+        return new Set<string>(['c', 'e']);
+      }
+    } as PackageChangeAnalyzer;
+
+    expect(selectProjectNames({ changedSinceRef: 'origin/master' }, packageChangeAnalyzer))
+      .toEqual(['c', 'd', 'e']);
+  });
+
+  it('combines the selectors', () => {
+    expect(selectProjectNames({ onlyFlags: ['e'], toExceptFlags: ['b'] })).toEqual(['a', 'e']);
+  });
+
+  it('selects the projects with a tag', () => {
+    expect(selectProjectNames({ onlyFlags: ['tag:web-app'] })).toEqual(['b', 'e']);
+    expect(selectProjectNames({ toFlags: ['tag:web-app'] })).toEqual(['a', 'b', 'e']);
+    expect(selectProjectNames({ fromFlags: ['tag:web-app'] })).toEqual(['b', 'c', 'd', 'e']);
+  });
+
+  it('throws an error for an unknown project', () => {
+    expect(() => selectProjectNames({ toFlags: ['f'] })).toThrowError(/does not exist/);
+  });
+
+  it('throws an error for an unknown tag', () => {
+    expect(() => selectProjectNames({ toFlags: ['tag:unknown'] })).toThrowError(/has the tag/);
+  });
+});
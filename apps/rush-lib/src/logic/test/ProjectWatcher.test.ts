@@ -0,0 +1,200 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystem } from '@microsoft/node-core-library';
+import { IPackageDeps } from '@microsoft/package-deps-hash';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { Git } from '../Git';
+import { PackageChangeAnalyzer } from '../PackageChangeAnalyzer';
+import { ProjectWatcher } from '../ProjectWatcher';
+
+const DEBOUNCE_MILLISECONDS: number = 100;
+
+describe('ProjectWatcher', () => {
+  const tempFolder: string = path.join(__dirname, 'temp', 'projectWatcher');
+
+  let projects: RushConfigurationProject[];
+  let fileHashes: Map<string, { [filePath: string]: string }>;
+  let listeners: Map<string, (event: string, filename: string) => void>;
+  let getPackageDepsHashSpy: jest.SpyInstance;
+  let projectWatcher: ProjectWatcher | undefined;
+
+  function createProject(packageName: string): RushConfigurationProject {
+    const projectFolder: string = path.join(tempFolder, packageName);
+    FileSystem.ensureFolder(path.join(projectFolder, 'src'));
+    FileSystem.ensureFolder(path.join(projectFolder, 'lib'));
+    FileSystem.ensureFolder(path.join(projectFolder, 'node_modules', 'library'));
+
+    return {
+      packageName,
+      projectFolder,
+      outputFolders: ['lib'] as ReadonlyArray<string>
+    } as RushConfigurationProject;
+  }
+
+  function createProjectWatcher(): ProjectWatcher {
+    const rushConfiguration: RushConfiguration = {
+      projects,
+      rushJsonFolder: tempFolder
+    } as RushConfiguration;
+
+    projectWatcher = new ProjectWatcher({
+      rushConfiguration,
+      projects,
+      debounceMilliseconds: DEBOUNCE_MILLISECONDS
+    });
+    return projectWatcher;
+  }
+
+  function emitEvent(project: RushConfigurationProject, relativePath: string): void {
+    const itemPath: string = path.join(project.projectFolder, relativePath);
+    listeners.get(path.dirname(itemPath))!('change', path.basename(itemPath));
+  }
+
+  function getWatchedFolders(): string[] {
+    const watchedFolders: string[] = [];
+    listeners.forEach((listener: (event: string, filename: string) => void, folderPath: string) => {
+      watchedFolders.push(path.relative(tempFolder, folderPath).replace(/\\/g, '/'));
+    });
+    return watchedFolders.sort();
+  }
+
+  function getProjectNames(changedProjects: RushConfigurationProject[]): string[] {
+    return changedProjects.map((project: RushConfigurationProject) => project.packageName);
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    projects = [createProject('a'), createProject('b')];
+    fileHashes = new Map<string, { [filePath: string]: string }>();
+    listeners = new Map<string, (event: string, filename: string) => void>();
+
+    // Other platforms use recursive watchers, so test the platform that watches each folder
+    jest.spyOn(os, 'platform').mockReturnValue('linux');
+    jest.spyOn(fs, 'watch').mockImplementation((folderPath: string,
+      listener: (event: string, filename: string) => void) => {
+      listeners.set(folderPath, listener);
+      return {
+        close: () => listeners.delete(folderPath)
+      };
+    });
+
+    jest.spyOn(Git, 'isPathUnderGitWorkingTree').mockReturnValue(false);
+    getPackageDepsHashSpy = jest.spyOn(PackageChangeAnalyzer.prototype, 'getPackageDepsHash')
+      .mockImplementation((projectName: string): IPackageDeps | undefined => {
+        const files: { [filePath: string]: string } | undefined = fileHashes.get(projectName);
+        return files ? { files: { ...files } } : undefined;
+      });
+  });
+
+  afterEach(() => {
+    if (projectWatcher) {
+      projectWatcher.close();
+      projectWatcher = undefined;
+    }
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    FileSystem.deleteFolder(tempFolder);
+  });
+
+  it('waits until the events have stopped before looking for changes', () => {
+    const changePromise: Promise<RushConfigurationProject[]> = createProjectWatcher().waitForChangeAsync();
+    expect(getPackageDepsHashSpy).toHaveBeenCalledTimes(2);
+
+    emitEvent(projects[0], 'src/index.ts');
+    jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS - 10);
+    emitEvent(projects[0], 'src/index.ts');
+    jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS - 10);
+    expect(getPackageDepsHashSpy).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(10);
+    expect(getPackageDepsHashSpy).toHaveBeenCalledTimes(4);
+
+    return changePromise.then((changedProjects: RushConfigurationProject[]) => {
+      expect(getProjectNames(changedProjects)).toEqual(['a']);
+    });
+  });
+
+  it('reports the events that occurred while nobody was waiting', () => {
+    const watcher: ProjectWatcher = createProjectWatcher();
+    emitEvent(projects[1], 'index.ts');
+
+    const changePromise: Promise<RushConfigurationProject[]> = watcher.waitForChangeAsync();
+    jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS);
+
+    return changePromise.then((changedProjects: RushConfigurationProject[]) => {
+      expect(getProjectNames(changedProjects)).toEqual(['b']);
+    });
+  });
+
+  it('ignores the dependencies, the build outputs and the files that Rush writes', () => {
+    const changePromise: Promise<RushConfigurationProject[]> = createProjectWatcher().waitForChangeAsync();
+
+    // The dependencies and the build outputs aren't watched, so their events come from the project folder
+    for (const relativePath of ['node_modules', 'lib', 'package-deps.json',
+      'package-deps_build.json', 'a.build.log', 'a.build.error.log', 'a.compile.build.log']) {
+      emitEvent(projects[0], relativePath);
+    }
+    jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS);
+    expect(getPackageDepsHashSpy).toHaveBeenCalledTimes(2);
+
+    // Only the files that Rush writes into the project folder itself are ignored
+    emitEvent(projects[0], 'src/a.build.log');
+    jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS);
+
+    return changePromise.then((changedProjects: RushConfigurationProject[]) => {
+      expect(getProjectNames(changedProjects)).toEqual(['a']);
+    });
+  });
+
+  it('reports only the projects whose files have changed', () => {
+    fileHashes.set('a', { 'a/src/index.ts': '1' });
+    fileHashes.set('b', { 'b/src/index.ts': '1' });
+
+    const watcher: ProjectWatcher = createProjectWatcher();
+    let changePromise: Promise<RushConfigurationProject[]> = watcher.waitForChangeAsync();
+
+    // The build log of "a" is not excluded by .gitignore, but it is still ignored
+    fileHashes.set('a', { 'a/src/index.ts': '1', 'a/a.build.log': '2' });
+    emitEvent(projects[0], 'src/index.ts');
+    emitEvent(projects[1], 'src/index.ts');
+    jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS);
+    expect(getPackageDepsHashSpy).toHaveBeenCalledTimes(4);
+
+    fileHashes.set('b', { 'b/src/index.ts': '2' });
+    emitEvent(projects[0], 'src/index.ts');
+    emitEvent(projects[1], 'src/index.ts');
+    jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS);
+
+    return changePromise.then((changedProjects: RushConfigurationProject[]) => {
+      expect(getProjectNames(changedProjects)).toEqual(['b']);
+
+      // If the state of the files can't be determined, the projects that received an event are reported
+      fileHashes.delete('a');
+      changePromise = watcher.waitForChangeAsync();
+      emitEvent(projects[0], 'src/index.ts');
+      jest.advanceTimersByTime(DEBOUNCE_MILLISECONDS);
+      return changePromise;
+    }).then((changedProjects: RushConfigurationProject[]) => {
+      expect(getProjectNames(changedProjects)).toEqual(['a']);
+    });
+  });
+
+  it('watches the folders that are created after startup', () => {
+    createProjectWatcher();
+    expect(getWatchedFolders()).toEqual(['a', 'a/src', 'b', 'b/src']);
+
+    FileSystem.ensureFolder(path.join(projects[0].projectFolder, 'test', 'unit'));
+    emitEvent(projects[0], 'test');
+    expect(getWatchedFolders()).toEqual(['a', 'a/src', 'a/test', 'a/test/unit', 'b', 'b/src']);
+
+    FileSystem.deleteFolder(path.join(projects[0].projectFolder, 'test'));
+    emitEvent(projects[0], 'test');
+    expect(getWatchedFolders()).toEqual(['a', 'a/src', 'b', 'b/src']);
+  });
+});
@@ -0,0 +1,76 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { BaseShrinkwrapFile } from '../base/BaseShrinkwrapFile';
+import { ShrinkwrapDiff, ShrinkwrapChangeKind } from '../ShrinkwrapDiff';
+import { ShrinkwrapFileFactory } from '../ShrinkwrapFileFactory';
+
+// The projects of the repo are the importers of the shrinkwrap files
+const rushConfiguration: RushConfiguration = RushConfiguration.loadFromConfigurationFile(
+  path.resolve(__dirname, 'shrinkwrapRepo', 'rush.json'));
+
+function loadShrinkwrapFile(filename: string): BaseShrinkwrapFile {
+  return ShrinkwrapFileFactory.getShrinkwrapFile('pnpm',
+    path.join(__dirname, '../../../src/logic/test/shrinkwrapFile', filename))!;
+}
+
+describe('ShrinkwrapDiff', () => {
+  const oldShrinkwrapFile: BaseShrinkwrapFile = loadShrinkwrapFile('pnpm-lock.yaml');
+  const newShrinkwrapFile: BaseShrinkwrapFile = loadShrinkwrapFile('pnpm-lock-updated.yaml');
+
+  it('reports the added, removed, and changed packages', () => {
+    const shrinkwrapDiff: ShrinkwrapDiff = ShrinkwrapDiff.compare(rushConfiguration, oldShrinkwrapFile,
+      newShrinkwrapFile);
+
+    expect(shrinkwrapDiff.changes).toEqual([
+      {
+        name: '@scope/testDep',
+        kind: ShrinkwrapChangeKind.Removed,
+        oldVersions: ['1.0.0'],
+        newVersions: [],
+        isDirect: true,
+        projectNames: ['project3']
+      },
+      {
+        name: 'left-pad',
+        kind: ShrinkwrapChangeKind.Changed,
+        oldVersions: ['9.9.9'],
+        newVersions: ['1.3.0'],
+        isDirect: true,
+        projectNames: ['project1']
+      },
+      {
+        name: 'q',
+        kind: ShrinkwrapChangeKind.Changed,
+        oldVersions: ['1.5.3'],
+        newVersions: ['1.5.4'],
+        isDirect: true,
+        projectNames: ['project2', 'project3']
+      },
+      {
+        name: 'sizzle',
+        kind: ShrinkwrapChangeKind.Added,
+        oldVersions: [],
+        newVersions: ['2.0.0'],
+        isDirect: false,
+        projectNames: ['project2']
+      }
+    ]);
+  });
+
+  it('reports all packages as added if there was no shrinkwrap file', () => {
+    const shrinkwrapDiff: ShrinkwrapDiff = ShrinkwrapDiff.compare(rushConfiguration, undefined, newShrinkwrapFile);
+    expect(shrinkwrapDiff.changes.map(change => `${change.kind} ${change.name}`))
+      .toEqual(['added jquery', 'added left-pad', 'added q', 'added sizzle']);
+  });
+
+  it('renders markdown', () => {
+    expect(ShrinkwrapDiff.compare(rushConfiguration, oldShrinkwrapFile, newShrinkwrapFile).renderMarkdown())
+      .toMatchSnapshot();
+    expect(ShrinkwrapDiff.compare(rushConfiguration, oldShrinkwrapFile, oldShrinkwrapFile).renderMarkdown())
+      .toMatchSnapshot();
+  });
+});
@@ -5,7 +5,7 @@ import * as path from 'path';
 
 import { BaseShrinkwrapFile } from '../base/BaseShrinkwrapFile';
 import { ShrinkwrapFileFactory } from '../ShrinkwrapFileFactory';
-import { extractVersionFromPnpmVersionSpecifier } from '../pnpm/PnpmShrinkwrapFile';
+import { extractVersionFromPnpmVersionSpecifier, parsePnpmDependencyPath } from '../pnpm/PnpmShrinkwrapFile';
 
 describe('npm ShrinkwrapFile', () => {
   const filename: string = path.resolve(path.join(__dirname, './shrinkwrapFile/npm-shrinkwrap.json'));
@@ -29,6 +29,27 @@ describe('npm ShrinkwrapFile', () => {
 
     expect(tempProjectNames).toEqual(['@rush-temp/project1', '@rush-temp/project2' ]);
   });
+
+  it('lists the registry packages', () => {
+    expect(shrinkwrapFile.getRegistryPackages()).toEqual([
+      { name: 'fbjs', version: '0.8.12' },
+      { name: 'jquery', version: '2.2.4' },
+      { name: 'object-assign', version: '4.1.1' },
+      { name: 'prop-types', version: '15.5.8' },
+      { name: 'q', version: '1.5.0' },
+      { name: 'react', version: '15.5.4' }
+    ]);
+  });
+
+  it('lists the packages of a temp project', () => {
+    expect(shrinkwrapFile.getTempProjectPackages('@rush-temp/project2').directPackages).toEqual([
+      { name: 'fbjs', version: '0.8.12' },
+      { name: 'jquery', version: '2.2.4' },
+      { name: 'object-assign', version: '4.1.1' },
+      { name: 'react', version: '15.5.4' }
+    ]);
+    expect(shrinkwrapFile.getTempProjectPackages('@rush-temp/project3').allPackages).toEqual([]);
+  });
 });
 
 describe('pnpm ShrinkwrapFile', () => {
@@ -59,6 +80,83 @@ const shrinkwrapFile: BaseShrinkwrapFile = ShrinkwrapFileFactory.getShrinkwrapFi
     expect(shrinkwrapFile.tryEnsureCompatibleDependency('jquery', '>=2.0.0 <3.0.0', '@rush-temp/project3'))
       .toEqual(true);
   });
+
+  it('lists the registry packages', () => {
+    expect(shrinkwrapFile.getRegistryPackages()).toEqual([
+      { name: '@scope/testDep', version: '1.0.0' },
+      { name: 'jquery', version: '1.0.0' },
+      { name: 'jquery', version: '2.9.9' },
+      { name: 'left-pad', version: '9.9.9' },
+      { name: 'q', version: '1.5.3' }
+    ]);
+  });
+
+  it('lists the packages of a temp project', () => {
+    // The jquery dependency was added by the previous test
+    expect(shrinkwrapFile.getTempProjectPackages('@rush-temp/project3').directPackages).toEqual([
+      { name: '@scope/testDep', version: '1.0.0' },
+      { name: 'jquery', version: '2.9.9' },
+      { name: 'q', version: '1.5.3' }
+    ]);
+  });
+
+  it('includes the indirect dependencies of a temp project', () => {
+    const updatedShrinkwrapFile: BaseShrinkwrapFile = ShrinkwrapFileFactory.getShrinkwrapFile('pnpm',
+      path.join(__dirname, '../../../src/logic/test/shrinkwrapFile/pnpm-lock-updated.yaml'))!;
+    expect(updatedShrinkwrapFile.getTempProjectPackages('@rush-temp/project2')).toEqual({
+      directPackages: [{ name: 'jquery', version: '1.0.0' }, { name: 'q', version: '1.5.4' }],
+      allPackages: [
+        { name: 'jquery', version: '1.0.0' },
+        { name: 'q', version: '1.5.4' },
+        { name: 'sizzle', version: '2.0.0' }
+      ]
+    });
+  });
+
+  it('finds the dependency paths to a package', () => {
+    const updatedShrinkwrapFile: BaseShrinkwrapFile = ShrinkwrapFileFactory.getShrinkwrapFile('pnpm',
+      path.join(__dirname, '../../../src/logic/test/shrinkwrapFile/pnpm-lock-updated.yaml'))!;
+    expect(updatedShrinkwrapFile.getDependencyPaths('@rush-temp/project2', 'sizzle')).toEqual([
+      [{ name: 'jquery', version: '1.0.0' }, { name: 'sizzle', version: '2.0.0' }]
+    ]);
+    expect(updatedShrinkwrapFile.getDependencyPaths('@rush-temp/project1', 'jquery')).toEqual([
+      [{ name: 'jquery', version: '2.9.9' }]
+    ]);
+    expect(updatedShrinkwrapFile.getDependencyPaths('@rush-temp/project3', 'sizzle')).toEqual([]);
+    expect(updatedShrinkwrapFile.getDependencyPaths('@rush-temp/missing', 'sizzle')).toEqual([]);
+  });
+
+  it('finds the shortest dependency path to each version through each direct dependency', () => {
+    const pathsShrinkwrapFile: BaseShrinkwrapFile = ShrinkwrapFileFactory.getShrinkwrapFile('pnpm',
+      path.join(__dirname, '../../../src/logic/test/shrinkwrapFile/pnpm-lock-paths.yaml'))!;
+    expect(pathsShrinkwrapFile.getDependencyPaths('@rush-temp/project1', 'target')).toEqual([
+      [{ name: 'a', version: '1.0.0' }, { name: 'c', version: '1.0.0' }, { name: 'target', version: '1.0.0' }],
+      [{ name: 'a', version: '1.0.0' }, { name: 'd', version: '1.0.0' }, { name: 'target', version: '3.0.0' }],
+      [{ name: 'b', version: '1.0.0' }, { name: 'target', version: '2.0.0' }]
+    ]);
+    expect(pathsShrinkwrapFile.getDependencyPaths('@rush-temp/project1', 'e')).toEqual([
+      [{ name: 'a', version: '1.0.0' }, { name: 'd', version: '1.0.0' }, { name: 'e', version: '1.0.0' }]
+    ]);
+  });
+});
+
+describe('parsePnpmDependencyPath', () => {
+  it('parses an unscoped package', () => {
+    expect(parsePnpmDependencyPath('/q/1.5.3')).toEqual({ name: 'q', version: '1.5.3' });
+    expect(parsePnpmDependencyPath('/gulp-karma/0.0.5/karma@0.13.22'))
+      .toEqual({ name: 'gulp-karma', version: '0.0.5' });
+    expect(parsePnpmDependencyPath('/jest/23.6.0_babel-core@6.26.3')).toEqual({ name: 'jest', version: '23.6.0' });
+  });
+  it('parses a scoped package', () => {
+    expect(parsePnpmDependencyPath('/@ms/sp-client-utilities/3.1.1/foo@13.1.0'))
+      .toEqual({ name: '@ms/sp-client-utilities', version: '3.1.1' });
+    expect(parsePnpmDependencyPath('example.pkgs.visualstudio.com/@scope/testDep/1.0.0'))
+      .toEqual({ name: '@scope/testDep', version: '1.0.0' });
+  });
+  it('handles bad cases', () => {
+    expect(parsePnpmDependencyPath('file:projects/project1.tgz')).toEqual(undefined);
+    expect(parsePnpmDependencyPath('/')).toEqual(undefined);
+  });
 });
 
 describe('extractVersionFromPnpmVersionSpecifier', () => {
@@ -2,13 +2,14 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
-import { IPackageJson } from '@microsoft/node-core-library';
+import { FileSystem, IPackageJson, JsonFile } from '@microsoft/node-core-library';
 
 import { BumpType } from '../../api/VersionPolicy';
 import { ChangeFile } from '../../api/ChangeFile';
 import { ChangeType, IChangeInfo } from '../../api/ChangeManagement';
 import { RushConfiguration } from '../../api/RushConfiguration';
 import { VersionManager } from '../VersionManager';
+import { IChangelog } from '../../api/Changelog';
 
 function _getChanges(changeFiles: Map<string, ChangeFile>,
   packageName: string): IChangeInfo[] | undefined {
@@ -94,5 +95,98 @@ describe('VersionManager', () => {
       expect(_getChanges(changeFiles, 'b')).not.toBeDefined();
     });
   });
+
+  describe('promote', () => {
+    const promoteRepoFolder: string = path.join(__dirname, 'temp', 'promoteRepo');
+    let promoteRushConfiguration: RushConfiguration;
+
+    beforeEach(() => {
+      FileSystem.ensureEmptyFolder(promoteRepoFolder);
+      JsonFile.save({
+        npmVersion: '3.10.8',
+        rushVersion: '1.0.5',
+        projects: [
+          { packageName: 'a', projectFolder: 'a', versionPolicyName: 'betaPolicy' },
+          { packageName: 'b', projectFolder: 'b', versionPolicyName: 'betaPolicy' },
+          { packageName: 'c', projectFolder: 'c' }
+        ]
+      }, path.join(promoteRepoFolder, 'rush.json'));
+      JsonFile.save([{
+        policyName: 'betaPolicy',
+        definitionName: 'lockStepVersion',
+        version: '2.0.0-beta.1',
+        nextBump: 'prerelease',
+        releaseChannels: ['beta']
+      }], path.join(promoteRepoFolder, 'common', 'config', 'rush', 'version-policies.json'),
+        { ensureFolderExists: true });
+
+      JsonFile.save({ name: 'a', version: '2.0.0-beta.1' }, path.join(promoteRepoFolder, 'a', 'package.json'),
+        { ensureFolderExists: true });
+      JsonFile.save({ name: 'b', version: '2.0.0-beta.1', dependencies: { a: '~2.0.0-beta.1' } },
+        path.join(promoteRepoFolder, 'b', 'package.json'), { ensureFolderExists: true });
+      JsonFile.save({ name: 'c', version: '1.0.0', dependencies: { b: '~2.0.0-beta.1' } },
+        path.join(promoteRepoFolder, 'c', 'package.json'), { ensureFolderExists: true });
+
+      JsonFile.save({
+        packageName: 'a',
+        email: 'test@microsoft.com',
+        changes: [{ packageName: 'a', type: 'minor', comment: 'Adding a feature to a' }]
+      }, path.join(promoteRepoFolder, 'common', 'changes', 'a', 'feature_2020-01-01-00-00.json'),
+        { ensureFolderExists: true });
+      JsonFile.save({
+        packageName: 'a',
+        email: 'test@microsoft.com',
+        changes: [{ packageName: 'a', type: 'patch', comment: 'Fixing a bug in a' }]
+      }, path.join(promoteRepoFolder, 'common', 'changes', 'a', 'fix_2020-01-02-00-00.json'),
+        { ensureFolderExists: true });
+
+      promoteRushConfiguration = RushConfiguration.loadFromConfigurationFile(
+        path.join(promoteRepoFolder, 'rush.json'));
+      versionManager = new VersionManager(promoteRushConfiguration, 'test@microsoft.com',
+        promoteRushConfiguration.versionPolicyConfiguration);
+    });
+
+    afterEach(() => {
+      FileSystem.deleteFolder(promoteRepoFolder);
+    });
+
+    it('promotes the prerelease versions and the ranges of the dependents', () => {
+      versionManager.promote('beta', undefined, false);
+
+      const updatedPackages: Map<string, IPackageJson> = versionManager.updatedProjects;
+      expect(updatedPackages.get('a')!.version).toEqual('2.0.0');
+      expect(updatedPackages.get('b')!.version).toEqual('2.0.0');
+      expect(updatedPackages.get('b')!.dependencies!['a']).toEqual('~2.0.0');
+      expect(updatedPackages.get('c')!.dependencies!['b']).toEqual('~2.0.0');
+
+      // Nothing is written without shouldCommit
+      expect(JsonFile.load(path.join(promoteRepoFolder, 'a', 'package.json')).version).toEqual('2.0.0-beta.1');
+      expect(FileSystem.exists(path.join(promoteRepoFolder, 'a', 'CHANGELOG.json'))).toEqual(false);
+    });
+
+    it('rewrites the package.json files and consolidates the change files into one changelog entry', () => {
+      versionManager.promote('beta', undefined, true);
+
+      expect(JsonFile.load(path.join(promoteRepoFolder, 'a', 'package.json')).version).toEqual('2.0.0');
+      const packageJsonB: IPackageJson = JsonFile.load(path.join(promoteRepoFolder, 'b', 'package.json'));
+      expect(packageJsonB.version).toEqual('2.0.0');
+      expect(packageJsonB.dependencies!['a']).toEqual('~2.0.0');
+      expect(JsonFile.load(path.join(promoteRepoFolder, 'c', 'package.json')).dependencies['b']).toEqual('~2.0.0');
+      expect(JsonFile.load(path.join(promoteRepoFolder, 'common', 'config', 'rush', 'version-policies.json'))[0]
+        .version).toEqual('2.0.0');
+
+      const changelog: IChangelog = JsonFile.load(path.join(promoteRepoFolder, 'a', 'CHANGELOG.json'));
+      expect(changelog.entries.length).toEqual(1);
+      expect(changelog.entries[0].version).toEqual('2.0.0');
+      expect(changelog.entries[0].comments).toEqual({
+        minor: [{ comment: 'Adding a feature to a' }],
+        patch: [{ comment: 'Fixing a bug in a' }]
+      });
+
+      // The change files were consumed by the changelog
+      expect(FileSystem.exists(path.join(promoteRepoFolder, 'common', 'changes', 'a',
+        'feature_2020-01-01-00-00.json'))).toEqual(false);
+    });
+  });
   /* tslint:enable:no-string-literal */
 });
@@ -0,0 +1,98 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { IPackageJson } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { CommonVersionsConfiguration } from '../../api/CommonVersionsConfiguration';
+import { VersionMismatchFinder } from '../../api/VersionMismatchFinder';
+import { PackageJsonEditor } from '../../api/PackageJsonEditor';
+import { IVersionMismatchFix, VersionMismatchFixer } from '../VersionMismatchFixer';
+
+function createProject(packageName: string, dependencies: Partial<IPackageJson>): RushConfigurationProject {
+  const packageJson: IPackageJson = { name: packageName, version: '1.0.0', ...dependencies };
+  return {
+    packageName,
+    packageJsonEditor: PackageJsonEditor.fromObject(packageJson, 'package.json'),
+    cyclicDependencyProjects: new Set<string>() as ReadonlySet<string>
+  } as RushConfigurationProject;
+}
+
+describe('VersionMismatchFixer', () => {
+  let projects: RushConfigurationProject[];
+  let rushConfiguration: RushConfiguration;
+  let commonVersions: CommonVersionsConfiguration;
+
+  beforeEach(() => {
+    projects = [
+      createProject('A', { dependencies: { 'library-1': '~1.0.0', 'library-2': '^2.0.0' } }),
+      createProject('B', { dependencies: { 'library-1': '^1.2.0' }, devDependencies: { 'library-2': '^3.0.0' } }),
+      createProject('C', { devDependencies: { 'library-1': '1.1.0', 'library-2': '^1.0.0' } })
+    ];
+    rushConfiguration = {
+      getProjectByName(projectName: string): RushConfigurationProject | undefined {
+        return projects.filter((project: RushConfigurationProject) => project.packageName === projectName)[0];
+      }
+    } as RushConfiguration;
+
+    // The file doesn't exist, so the configuration is empty
+    commonVersions = CommonVersionsConfiguration.loadFromFile(path.join(__dirname, 'common-versions.json'));
+  });
+
+  function fix(strategy: 'preferred' | 'highest', allowedAlternativeVersions?: Map<string, ReadonlyArray<string>>):
+    Promise<IVersionMismatchFix[]> {
+
+    const mismatchFinder: VersionMismatchFinder = new VersionMismatchFinder(projects, allowedAlternativeVersions,
+      commonVersions);
+    return new VersionMismatchFixer(rushConfiguration, commonVersions).fix(mismatchFinder, strategy);
+  }
+
+  function getVersions(dependencyName: string): string[] {
+    return projects.map((project: RushConfigurationProject) => {
+      return (project.packageJsonEditor.tryGetDependency(dependencyName)
+        || project.packageJsonEditor.tryGetDevDependency(dependencyName))!.version;
+    });
+  }
+
+  it('changes each mismatched dependency to the highest version', () => {
+    return fix('highest').then((fixes: IVersionMismatchFix[]) => {
+      expect(fixes).toEqual([
+        { dependencyName: 'library-1', version: '^1.2.0', projectNames: ['A', 'C'] },
+        { dependencyName: 'library-2', version: '^3.0.0', projectNames: ['A', 'C'] }
+      ]);
+      expect(getVersions('library-1')).toEqual(['^1.2.0', '^1.2.0', '^1.2.0']);
+      expect(getVersions('library-2')).toEqual(['^3.0.0', '^3.0.0', '^3.0.0']);
+      expect(projects[2].packageJsonEditor.tryGetDevDependency('library-1')).toBeDefined();
+      expect(projects[2].packageJsonEditor.tryGetDependency('library-1')).toBeUndefined();
+    });
+  });
+
+  it('prefers the preferred version', () => {
+    commonVersions.preferredVersions.set('library-1', '1.1.0');
+
+    // Report the conflicts with the preferred versions, like VersionMismatchFinder.getMismatches()
+    projects.push(createProject('preferred versions', { dependencies: { 'library-1': '1.1.0' } }));
+
+    return fix('preferred').then((fixes: IVersionMismatchFix[]) => {
+      expect(fixes[0]).toEqual({ dependencyName: 'library-1', version: '1.1.0', projectNames: ['A', 'B'] });
+      expect(getVersions('library-1')).toEqual(['1.1.0', '1.1.0', '1.1.0', '1.1.0']);
+    });
+  });
+
+  it('respects the allowed alternative versions and the banned versions', () => {
+    commonVersions.bannedVersions.set('library-2', [{ versionRange: '>=3.0.0', reason: 'It is broken' }]);
+
+    const allowedAlternativeVersions: Map<string, ReadonlyArray<string>> = new Map<string, ReadonlyArray<string>>();
+    allowedAlternativeVersions.set('library-1', ['1.1.0']);
+
+    return fix('highest', allowedAlternativeVersions).then((fixes: IVersionMismatchFix[]) => {
+      expect(fixes).toEqual([
+        { dependencyName: 'library-1', version: '^1.2.0', projectNames: ['A'] },
+        { dependencyName: 'library-2', version: '^2.0.0', projectNames: ['B', 'C'] }
+      ]);
+      expect(getVersions('library-1')).toEqual(['^1.2.0', '^1.2.0', '1.1.0']);
+    });
+  });
+});
@@ -0,0 +1,10 @@
+module.exports = {
+  policyName: 'custom-policy',
+  validate: function(rushConfiguration) {
+    return rushConfiguration.projects
+      .filter(function(project) { return project.packageName === 'b'; })
+      .map(function(project) {
+        return { projectName: project.packageName, message: 'Custom problem' };
+      });
+  }
+};
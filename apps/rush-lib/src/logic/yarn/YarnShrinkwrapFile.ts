@@ -1,7 +1,9 @@
 import * as os from 'os';
 import * as lockfile from '@yarnpkg/lockfile';
+import * as semver from 'semver';
 import {
-  BaseShrinkwrapFile
+  BaseShrinkwrapFile,
+  IShrinkwrapPackage
 } from '../base/BaseShrinkwrapFile';
 import { FileSystem, PackageName, IParsedPackageNameOrError, InternalError } from '@microsoft/node-core-library';
 import { RushConstants } from '../RushConstants';
@@ -142,6 +144,17 @@ export class YarnShrinkwrapFile extends BaseShrinkwrapFile {
     return this._tempProjectNames;
   }
 
+  public getRegistryPackages(): IShrinkwrapPackage[] { // abstract
+    const packages: IShrinkwrapPackage[] = [];
+    for (const key of Object.keys(this._shrinkwrapJson)) {
+      const shrinkwrapPackage: IShrinkwrapPackage | undefined = this.getPackageForNodeKey(key);
+      if (shrinkwrapPackage) {
+        packages.push(shrinkwrapPackage);
+      }
+    }
+    return this._sortRegistryPackages(packages);
+  }
+
   /** @override */
   public hasCompatibleTopLevelDependency(dependencyName: string, versionRange: string): boolean {
     // It seems like we should normalize the key somehow, but Yarn apparently does not
@@ -178,6 +191,59 @@ export class YarnShrinkwrapFile extends BaseShrinkwrapFile {
     throw new InternalError('Not implemented');
   }
 
+  /**
+   * The dependency graph nodes are the yarn.lock lookup keys.
+   * @override
+   */
+  protected getTempProjectNodeKey(tempProjectName: string): string | undefined { // abstract
+    for (const key of Object.keys(this._shrinkwrapJson)) {
+      if (YarnShrinkwrapFile._decodePackageNameAndSemVer(key).packageName === tempProjectName) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  /** @override */
+  protected getDependencyNodeKeys(nodeKey: string): string[] { // abstract
+    const entry: IYarnShrinkwrapEntry | undefined = BaseShrinkwrapFile.tryGetValue(this._shrinkwrapJson, nodeKey);
+    if (!entry) {
+      return [];
+    }
+
+    const dependencies: { [dependency: string]: string } = {
+      ...entry.dependencies,
+      ...entry.optionalDependencies
+    };
+
+    const keys: string[] = [];
+    for (const dependencyName of Object.keys(dependencies)) {
+      const key: string = YarnShrinkwrapFile._encodePackageNameAndSemVer({
+        packageName: dependencyName,
+        semVerRange: dependencies[dependencyName]
+      });
+      if (Object.hasOwnProperty.call(this._shrinkwrapJson, key)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  /** @override */
+  protected getPackageForNodeKey(nodeKey: string): IShrinkwrapPackage | undefined { // abstract
+    const entry: IYarnShrinkwrapEntry | undefined = BaseShrinkwrapFile.tryGetValue(this._shrinkwrapJson, nodeKey);
+
+    // The temp projects are "file:" references, and Git URLs are not valid SemVer versions
+    if (!entry || /^file:/i.test(entry.resolved) || !semver.valid(entry.version)) {
+      return undefined;
+    }
+
+    return {
+      name: YarnShrinkwrapFile._decodePackageNameAndSemVer(nodeKey).packageName,
+      version: entry.version
+    };
+  }
+
   private constructor(shrinkwrapJson: IYarnShrinkwrapJson) {
     super();
     this._shrinkwrapJson = shrinkwrapJson;
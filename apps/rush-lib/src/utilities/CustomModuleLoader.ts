@@ -0,0 +1,36 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem } from '@microsoft/node-core-library';
+
+import { RushConfiguration } from '../api/RushConfiguration';
+
+/**
+ * Loads the JavaScript modules that extend Rush, such as the custom policies, telemetry sinks
+ * and changelog renderers that are specified in rush.json.
+ */
+export class CustomModuleLoader {
+  /**
+   * Loads a module whose path is relative to the folder of rush.json.  If the module was compiled
+   * from an ES module, its default export is returned.  The caller is responsible for checking
+   * that the exports have the expected shape.
+   *
+   * @param modulePath - the path from rush.json, which is used in error messages
+   * @param moduleDescription - describes the module in error messages, e.g. "custom policy module"
+   */
+  public static loadModule(rushConfiguration: RushConfiguration, modulePath: string,
+    moduleDescription: string): unknown {
+
+    const fullPath: string = path.resolve(rushConfiguration.rushJsonFolder, modulePath);
+    if (!FileSystem.exists(fullPath)) {
+      throw new Error(`The ${moduleDescription} "${modulePath}" specified in rush.json does not exist`);
+    }
+
+    const moduleExports: { __esModule?: boolean; default?: unknown } | undefined = require(fullPath);
+    if (moduleExports && moduleExports.__esModule && moduleExports.default) {
+      return moduleExports.default;
+    }
+    return moduleExports;
+  }
+}
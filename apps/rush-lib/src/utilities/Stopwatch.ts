@@ -92,6 +92,21 @@ export class Stopwatch {
     }
   }
 
+  /**
+   * The time when the stopwatch was started, in milliseconds.  The value is only meaningful
+   * relative to other times obtained from the same clock.
+   */
+  public get startTime(): number | undefined {
+    return this._startTime;
+  }
+
+  /**
+   * The time when the stopwatch was stopped, in milliseconds, or undefined if it is still running.
+   */
+  public get endTime(): number | undefined {
+    return this._endTime;
+  }
+
   /**
    * Get the duration in seconds.
    */
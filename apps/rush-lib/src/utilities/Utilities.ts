@@ -6,6 +6,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as tty from 'tty';
 import * as path from 'path';
+import * as semver from 'semver';
 import * as wordwrap from 'wordwrap';
 import {
   JsonFile,
@@ -61,6 +62,11 @@ export interface ILifecycleCommandOptions {
    * Options for what should be added to the PATH variable
    */
   environmentPathOptions: IEnvironmentPathOptions;
+
+  /**
+   * Additional environment variables for the command, which override the variables of the current process
+   */
+  environment?: IEnvironment;
 }
 
 export interface IEnvironmentPathOptions {
@@ -98,6 +104,22 @@ interface ICreateEnvironmentForRushCommandOptions {
   pathOptions?: ICreateEnvironmentForRushCommandPathOptions;
 }
 
+/**
+ * A bound of a version interval.  An undefined bound means that the interval is unbounded on that side.
+ */
+interface IVersionBound {
+  version: string;
+  inclusive: boolean;
+}
+
+/**
+ * The versions that are accepted by one comparator set of a SemVer range, e.g. ">=1.2.3 <2.0.0".
+ */
+interface IVersionInterval {
+  lower: IVersionBound | undefined;
+  upper: IVersionBound | undefined;
+}
+
 export class Utilities {
   /**
    * Get the user's home directory. On windows this looks something like "C:\users\username\" and on UNIX
@@ -137,6 +159,90 @@ export class Utilities {
     return result;
   }
 
+  /**
+   * Returns the lowest version that is accepted by a SemVer range specifier, or undefined if the
+   * specifier is not a SemVer range (e.g. a "file:" path or a Git URL).
+   *
+   * Example: "^1.2.3 || ~2.0.0" --> "1.2.3"
+   */
+  public static getMinimumVersion(versionSpecifier: string): string | undefined {
+    if (!semver.validRange(versionSpecifier)) {
+      return undefined;
+    }
+
+    let minimumVersion: string | undefined = undefined;
+    for (const comparators of new semver.Range(versionSpecifier).set) {
+      let lowerBound: string = '0.0.0';
+      for (const comparator of comparators) {
+        // The comparator for "*" has no version
+        if (comparator.semver.version && ['', '>=', '>'].indexOf(comparator.operator) > -1) {
+          const version: string = comparator.operator === '>'
+            ? semver.inc(comparator.semver.version, 'patch')
+            : comparator.semver.version;
+          if (semver.gt(version, lowerBound)) {
+            lowerBound = version;
+          }
+        }
+      }
+
+      if (!minimumVersion || semver.lt(lowerBound, minimumVersion)) {
+        minimumVersion = lowerBound;
+      }
+    }
+    return minimumVersion;
+  }
+
+  /**
+   * Returns true if every version that is accepted by a SemVer range specifier is also accepted by
+   * the other range.  Prerelease versions are compared by their SemVer precedence.
+   *
+   * Example: "~1.2.3 || 2.0.0" is a subset of "^1.0.0 || ^2.0.0", whereas ">=1.2.3" is not
+   */
+  public static isVersionRangeSubset(versionSpecifier: string, range: string): boolean {
+    // Merge the intervals of the range, so that a specifier can span several comparator sets
+    const rangeIntervals: IVersionInterval[] = [];
+    for (const interval of Utilities._getVersionIntervals(range).sort((a: IVersionInterval, b: IVersionInterval) => {
+      return Utilities._compareLowerBounds(a.lower, b.lower);
+    })) {
+      const previous: IVersionInterval | undefined = rangeIntervals[rangeIntervals.length - 1];
+      if (previous && Utilities._areBoundsTouching(interval.lower, previous.upper)) {
+        if (Utilities._compareUpperBounds(interval.upper, previous.upper) > 0) {
+          previous.upper = interval.upper;
+        }
+      } else {
+        rangeIntervals.push(interval);
+      }
+    }
+
+    return Utilities._getVersionIntervals(versionSpecifier).every((interval: IVersionInterval) => {
+      return rangeIntervals.some((rangeInterval: IVersionInterval) => {
+        return Utilities._compareLowerBounds(rangeInterval.lower, interval.lower) <= 0
+          && Utilities._compareUpperBounds(rangeInterval.upper, interval.upper) >= 0;
+      });
+    });
+  }
+
+  /**
+   * Returns true if any version is accepted by both SemVer range specifiers.
+   *
+   * Example: "^4.17.12" intersects "4.17.15", whereas "^4.17.16" does not
+   */
+  public static doVersionRangesIntersect(versionSpecifier: string, range: string): boolean {
+    const rangeIntervals: IVersionInterval[] = Utilities._getVersionIntervals(range);
+    return Utilities._getVersionIntervals(versionSpecifier).some((interval: IVersionInterval) => {
+      return rangeIntervals.some((rangeInterval: IVersionInterval) => {
+        return Utilities._isVersionIntervalNonEmpty({
+          lower: Utilities._compareLowerBounds(interval.lower, rangeInterval.lower) > 0
+            ? interval.lower
+            : rangeInterval.lower,
+          upper: Utilities._compareUpperBounds(interval.upper, rangeInterval.upper) < 0
+            ? interval.upper
+            : rangeInterval.upper
+        });
+      });
+    });
+  }
+
   /**
    * Retries a function until a timeout is reached. The function is expected to throw if it failed and
    *  should be retried.
@@ -559,6 +665,80 @@ export class Utilities {
     return new Error('Unable to find rush.json configuration file');
   }
 
+  /**
+   * Converts each comparator set of a SemVer range into an interval, omitting the sets that accept no version.
+   */
+  private static _getVersionIntervals(range: string): IVersionInterval[] {
+    const intervals: IVersionInterval[] = [];
+    for (const comparators of new semver.Range(range).set) {
+      const interval: IVersionInterval = { lower: undefined, upper: undefined };
+      for (const comparator of comparators) {
+        // The comparator for "*" has no version
+        if (!comparator.semver.version) {
+          continue;
+        }
+
+        if (['', '>=', '>'].indexOf(comparator.operator) > -1) {
+          const lower: IVersionBound = { version: comparator.semver.version, inclusive: comparator.operator !== '>' };
+          if (Utilities._compareLowerBounds(lower, interval.lower) > 0) {
+            interval.lower = lower;
+          }
+        }
+        if (['', '<=', '<'].indexOf(comparator.operator) > -1) {
+          const upper: IVersionBound = { version: comparator.semver.version, inclusive: comparator.operator !== '<' };
+          if (Utilities._compareUpperBounds(upper, interval.upper) < 0) {
+            interval.upper = upper;
+          }
+        }
+      }
+
+      if (Utilities._isVersionIntervalNonEmpty(interval)) {
+        intervals.push(interval);
+      }
+    }
+    return intervals;
+  }
+
+  /**
+   * Sorts the lower bounds from the least to the most restrictive.
+   */
+  private static _compareLowerBounds(a: IVersionBound | undefined, b: IVersionBound | undefined): number {
+    if (!a || !b) {
+      return (a ? 1 : 0) - (b ? 1 : 0);
+    }
+    return semver.compare(a.version, b.version) || (a.inclusive === b.inclusive ? 0 : (a.inclusive ? -1 : 1));
+  }
+
+  /**
+   * Sorts the upper bounds from the most to the least restrictive.
+   */
+  private static _compareUpperBounds(a: IVersionBound | undefined, b: IVersionBound | undefined): number {
+    if (!a || !b) {
+      return (a ? 0 : 1) - (b ? 0 : 1);
+    }
+    return semver.compare(a.version, b.version) || (a.inclusive === b.inclusive ? 0 : (a.inclusive ? 1 : -1));
+  }
+
+  private static _isVersionIntervalNonEmpty(interval: IVersionInterval): boolean {
+    if (!interval.lower || !interval.upper) {
+      return true;
+    }
+    const comparison: number = semver.compare(interval.lower.version, interval.upper.version);
+    return comparison < 0 || (comparison === 0 && interval.lower.inclusive && interval.upper.inclusive);
+  }
+
+  /**
+   * Returns true if an interval that starts at the lower bound overlaps or adjoins an interval that ends
+   * at the upper bound, e.g. ">=2.0.0" and "<2.0.0".
+   */
+  private static _areBoundsTouching(lower: IVersionBound | undefined, upper: IVersionBound | undefined): boolean {
+    if (!lower || !upper) {
+      return true;
+    }
+    const comparison: number = semver.compare(lower.version, upper.version);
+    return comparison < 0 || (comparison === 0 && (lower.inclusive || upper.inclusive));
+  }
+
   private static _executeLifecycleCommandInternal<TCommandResult>(
     command: string,
     spawnFunction: (command: String, args: string[], spawnOptions: child_process.SpawnOptions) => TCommandResult,
@@ -576,6 +756,7 @@ export class Utilities {
     const environment: IEnvironment = Utilities._createEnvironmentForRushCommand(
       {
         initCwd: options.initCwd,
+        initialEnvironment: options.environment ? { ...process.env, ...options.environment } : undefined,
         pathOptions: {
           ...options.environmentPathOptions,
           projectRoot: options.workingDirectory,